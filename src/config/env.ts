@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { CacheEntity, ServiceM8AuthMode } from '../types';
 
 dotenv.config();
 
@@ -7,11 +8,61 @@ interface EnvConfig {
   nodeEnv: string;
   jwtSecret: string;
   jwtExpiresIn: string;
+  refreshTokenExpiresIn: string;
+  passwordResetExpiresIn: string;
+  notificationTransport: string;
+  otpExpiresIn: string;
+  otpMaxAttempts: number;
+  otpResendIntervalSeconds: number;
+  encryptionKey: string;
+  twoFactorIssuer: string;
+  twoFactorChallengeExpiresIn: string;
+  twoFactorChallengeMaxAttempts: number;
+  requireVerifiedContactForJobs: boolean;
+  loginMaxFailedAttempts: number;
+  loginLockoutDuration: string;
+  loginBackoffBaseSeconds: number;
+  impersonationExpiresIn: string;
+  invitationExpiresIn: string;
+  multiTenant: boolean;
+  tenantHeader: string;
+  servicem8AuthMode: ServiceM8AuthMode;
   servicem8ApiToken: string;
+  servicem8OAuthClientId: string;
+  servicem8OAuthClientSecret: string;
+  servicem8OAuthScopes: string;
+  servicem8OAuthAuthorizeUrl: string;
+  servicem8OAuthTokenUrl: string;
+  servicem8OAuthRedirectUri: string;
+  servicem8CacheStore: string;
+  servicem8CacheTtlSeconds: Record<CacheEntity, number>;
+  servicem8MaxRetries: number;
+  servicem8RetryBaseDelayMs: number;
+  servicem8RetryMaxDelayMs: number;
+  servicem8BreakerFailureThreshold: number;
+  servicem8BreakerCooldownSeconds: number;
+  servicem8RateLimitPerMinute: number;
+  servicem8RateLimitBurst: number;
+  servicem8WebhookSecret: string;
+  servicem8WebhookUrl: string;
+  webhookMaxAttempts: number;
+  webhookPollIntervalSeconds: number;
+  servicem8SyncEnabled: boolean;
+  servicem8SyncIntervalMinutes: number;
+  cancellationCutoffHours: number;
+  schedulingBusinessHours: string;
+  schedulingServiceDurations: string;
+  schedulingSlotIntervalMinutes: number;
+  schedulingLeadTimeHours: number;
+  schedulingHorizonDays: number;
+  schedulingBlackoutDates: string[];
+  schedulingCapacity: number;
   mongodbUri: string;
   frontendUrl: string;
 }
 
+const servicem8AuthMode = (process.env.SERVICEM8_AUTH_MODE || 'api_key') as ServiceM8AuthMode;
+
 const getEnvVariable = (key: string, defaultValue?: string): string => {
   const value = process.env[key] || defaultValue;
   if (!value) {
@@ -24,8 +75,92 @@ export const config: EnvConfig = {
   port: parseInt(process.env.PORT || '4000', 10),
   nodeEnv: getEnvVariable('NODE_ENV', 'development'),
   jwtSecret: getEnvVariable('JWT_SECRET'),
-  jwtExpiresIn: getEnvVariable('JWT_EXPIRES_IN', '7d'),
-  servicem8ApiToken: getEnvVariable('SERVICEM8_API_TOKEN'),
+  jwtExpiresIn: getEnvVariable('JWT_EXPIRES_IN', '15m'),
+  refreshTokenExpiresIn: getEnvVariable('REFRESH_TOKEN_EXPIRES_IN', '30d'),
+  passwordResetExpiresIn: getEnvVariable('PASSWORD_RESET_EXPIRES_IN', '1h'),
+  notificationTransport: getEnvVariable('NOTIFICATION_TRANSPORT', 'console'),
+  otpExpiresIn: getEnvVariable('OTP_EXPIRES_IN', '10m'),
+  otpMaxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10),
+  otpResendIntervalSeconds: parseInt(process.env.OTP_RESEND_INTERVAL_SECONDS || '60', 10),
+  encryptionKey: getEnvVariable('ENCRYPTION_KEY', process.env.JWT_SECRET),
+  twoFactorIssuer: getEnvVariable('TWO_FACTOR_ISSUER', 'ServiceM8 Customer Portal'),
+  twoFactorChallengeExpiresIn: getEnvVariable('TWO_FACTOR_CHALLENGE_EXPIRES_IN', '5m'),
+  twoFactorChallengeMaxAttempts: parseInt(process.env.TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS || '5', 10),
+  requireVerifiedContactForJobs: process.env.REQUIRE_VERIFIED_CONTACT_FOR_JOBS === 'true',
+  loginMaxFailedAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+  loginLockoutDuration: getEnvVariable('LOGIN_LOCKOUT_DURATION', '15m'),
+  loginBackoffBaseSeconds: parseInt(process.env.LOGIN_BACKOFF_BASE_SECONDS || '1', 10),
+  impersonationExpiresIn: getEnvVariable('IMPERSONATION_EXPIRES_IN', '15m'),
+  invitationExpiresIn: getEnvVariable('INVITATION_EXPIRES_IN', '7d'),
+  multiTenant: process.env.MULTI_TENANT === 'true',
+  tenantHeader: getEnvVariable('TENANT_HEADER', 'x-tenant-id').toLowerCase(),
+  servicem8AuthMode,
+  // Only needed in api_key mode; OAuth installs store their tokens in MongoDB
+  servicem8ApiToken:
+    servicem8AuthMode === 'oauth'
+      ? process.env.SERVICEM8_API_TOKEN || ''
+      : getEnvVariable('SERVICEM8_API_TOKEN'),
+  servicem8OAuthClientId: process.env.SERVICEM8_OAUTH_CLIENT_ID || '',
+  servicem8OAuthClientSecret: process.env.SERVICEM8_OAUTH_CLIENT_SECRET || '',
+  servicem8OAuthScopes: getEnvVariable(
+    'SERVICEM8_OAUTH_SCOPES',
+    'read_jobs manage_jobs read_customers manage_customers read_customer_contacts read_job_notes publish_job_notes read_job_attachments'
+  ),
+  servicem8OAuthAuthorizeUrl: getEnvVariable(
+    'SERVICEM8_OAUTH_AUTHORIZE_URL',
+    'https://go.servicem8.com/oauth/authorize'
+  ),
+  servicem8OAuthTokenUrl: getEnvVariable(
+    'SERVICEM8_OAUTH_TOKEN_URL',
+    'https://go.servicem8.com/oauth/access_token'
+  ),
+  servicem8OAuthRedirectUri: getEnvVariable(
+    'SERVICEM8_OAUTH_REDIRECT_URI',
+    'http://localhost:4000/api/servicem8/oauth/callback'
+  ),
+  servicem8CacheStore: getEnvVariable('SERVICEM8_CACHE_STORE', 'memory'),
+  // 0 disables caching for that entity
+  servicem8CacheTtlSeconds: {
+    job: parseInt(process.env.SERVICEM8_CACHE_TTL_JOB || '60', 10),
+    jobList: parseInt(process.env.SERVICEM8_CACHE_TTL_JOB_LIST || '30', 10),
+    company: parseInt(process.env.SERVICEM8_CACHE_TTL_COMPANY || '300', 10),
+    attachments: parseInt(process.env.SERVICEM8_CACHE_TTL_ATTACHMENTS || '120', 10),
+    jobActivity: parseInt(process.env.SERVICEM8_CACHE_TTL_JOB_ACTIVITY || '60', 10),
+  },
+  servicem8MaxRetries: parseInt(process.env.SERVICEM8_MAX_RETRIES || '3', 10),
+  servicem8RetryBaseDelayMs: parseInt(process.env.SERVICEM8_RETRY_BASE_DELAY_MS || '250', 10),
+  servicem8RetryMaxDelayMs: parseInt(process.env.SERVICEM8_RETRY_MAX_DELAY_MS || '5000', 10),
+  servicem8BreakerFailureThreshold: parseInt(process.env.SERVICEM8_BREAKER_FAILURE_THRESHOLD || '5', 10),
+  servicem8BreakerCooldownSeconds: parseInt(process.env.SERVICEM8_BREAKER_COOLDOWN_SECONDS || '30', 10),
+  // ServiceM8 allows 180 requests per minute per account
+  servicem8RateLimitPerMinute: parseInt(process.env.SERVICEM8_RATE_LIMIT_PER_MINUTE || '180', 10),
+  servicem8RateLimitBurst: parseInt(process.env.SERVICEM8_RATE_LIMIT_BURST || '10', 10),
+  // Webhooks are rejected until a secret is set
+  servicem8WebhookSecret: process.env.SERVICEM8_WEBHOOK_SECRET || '',
+  servicem8WebhookUrl: getEnvVariable(
+    'SERVICEM8_WEBHOOK_URL',
+    'http://localhost:4000/api/webhooks/servicem8'
+  ),
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+  webhookPollIntervalSeconds: parseInt(process.env.WEBHOOK_POLL_INTERVAL_SECONDS || '5', 10),
+  servicem8SyncEnabled: process.env.SERVICEM8_SYNC_ENABLED === 'true',
+  servicem8SyncIntervalMinutes: parseInt(process.env.SERVICEM8_SYNC_INTERVAL_MINUTES || '15', 10),
+  // Customers can't cancel on their own this close to the scheduled time
+  cancellationCutoffHours: parseInt(process.env.CANCELLATION_CUTOFF_HOURS || '24', 10),
+  // e.g. "mon-fri 08:00-12:00,13:00-17:00; sat 09:00-12:00"
+  schedulingBusinessHours: getEnvVariable('SCHEDULING_BUSINESS_HOURS', 'mon-fri 08:00-17:00'),
+  // Minutes per service; the first is the default
+  schedulingServiceDurations: getEnvVariable('SCHEDULING_SERVICE_DURATIONS', 'standard=120'),
+  schedulingSlotIntervalMinutes: parseInt(process.env.SCHEDULING_SLOT_INTERVAL_MINUTES || '30', 10),
+  schedulingLeadTimeHours: parseInt(process.env.SCHEDULING_LEAD_TIME_HOURS || '24', 10),
+  schedulingHorizonDays: parseInt(process.env.SCHEDULING_HORIZON_DAYS || '28', 10),
+  // Comma-separated "YYYY-MM-DD" days with no slots (e.g. public holidays)
+  schedulingBlackoutDates: (process.env.SCHEDULING_BLACKOUT_DATES || '')
+    .split(',')
+    .map(date => date.trim())
+    .filter(Boolean),
+  // Bookings that may overlap (e.g. number of crews)
+  schedulingCapacity: parseInt(process.env.SCHEDULING_CAPACITY || '1', 10),
   mongodbUri: getEnvVariable('MONGODB_URI'),
   frontendUrl: getEnvVariable('FRONTEND_URL', 'http://localhost:3000'),
 };
@@ -0,0 +1,127 @@
+/**
+ * Job Lifecycle
+ *
+ * Static map of the statuses a job moves through and who may make each
+ * move. Customers may accept a quote; staff (and admins) run the job; the
+ * system makes the moves the portal performs on its own, such as cancelling
+ * when a customer's cancellation request needs no approval (customers
+ * cancel through cancellation.service, never by setting the status).
+ * Anything not listed here is rejected with a 409 by the job lifecycle
+ * service.
+ *
+ * Each transition also says what is posted on the job's message thread and
+ * whether the company's portal users are notified.
+ */
+
+import { JobActor, JobStatus } from '../types';
+
+export const JOB_STATUSES = [
+  'Quote',
+  'Work Order',
+  'Scheduled',
+  'In Progress',
+  'Complete',
+  'Cancelled',
+] as const;
+
+export interface JobTransition {
+  from: JobStatus;
+  to: JobStatus;
+  actors: readonly JobActor[];
+  message: string; // Posted on the job's message thread as a system message
+  notify: boolean; // Also sent to the company's portal users
+}
+
+// Statuses a new job may start in
+export const INITIAL_JOB_STATUSES: Record<JobActor, readonly JobStatus[]> = {
+  customer: ['Quote'],
+  staff: ['Quote', 'Work Order'],
+  system: ['Quote'],
+};
+
+export const JOB_TRANSITIONS: readonly JobTransition[] = [
+  {
+    from: 'Quote',
+    to: 'Work Order',
+    actors: ['customer', 'staff'],
+    message: 'Quote accepted - the job is now a work order.',
+    notify: true,
+  },
+  {
+    from: 'Quote',
+    to: 'Cancelled',
+    actors: ['staff', 'system'],
+    message: 'Job cancelled.',
+    notify: true,
+  },
+  {
+    from: 'Work Order',
+    to: 'Quote',
+    actors: ['staff'],
+    message: 'Job returned to quote.',
+    notify: true,
+  },
+  {
+    from: 'Work Order',
+    to: 'Scheduled',
+    actors: ['staff', 'system'],
+    message: 'Job scheduled.',
+    notify: true,
+  },
+  {
+    from: 'Work Order',
+    to: 'Cancelled',
+    actors: ['staff', 'system'],
+    message: 'Job cancelled.',
+    notify: true,
+  },
+  {
+    from: 'Scheduled',
+    to: 'Work Order',
+    actors: ['staff', 'system'],
+    message: 'Job unscheduled - we will be in touch to arrange a new time.',
+    notify: true,
+  },
+  {
+    from: 'Scheduled',
+    to: 'In Progress',
+    actors: ['staff'],
+    message: 'Work has started.',
+    notify: true,
+  },
+  {
+    from: 'Scheduled',
+    to: 'Cancelled',
+    actors: ['staff', 'system'],
+    message: 'Job cancelled.',
+    notify: true,
+  },
+  {
+    from: 'In Progress',
+    to: 'Scheduled',
+    actors: ['staff'],
+    message: 'Work paused - the job has been rescheduled.',
+    notify: true,
+  },
+  {
+    from: 'In Progress',
+    to: 'Complete',
+    actors: ['staff'],
+    message: 'Job complete.',
+    notify: true,
+  },
+  {
+    from: 'Complete',
+    to: 'In Progress',
+    actors: ['staff'],
+    message: 'Job reopened.',
+    notify: false,
+  },
+  {
+    from: 'Cancelled',
+    to: 'Quote',
+    actors: ['staff'],
+    message: 'Job reopened as a quote.',
+    notify: true,
+  },
+];
@@ -0,0 +1,78 @@
+/**
+ * Role Permissions
+ *
+ * Static map of what each role may do. Route middleware checks these
+ * permissions; whether a principal may touch a *particular* job is decided
+ * by the authorization service.
+ *
+ * Customers get their permissions from their role within their ServiceM8
+ * company (owner, member or viewer).
+ */
+
+import { CompanyRole, Role } from '../types';
+
+export type Permission =
+  | 'bookings:read'
+  | 'jobs:create'
+  | 'jobs:update'
+  | 'jobs:cancel'
+  | 'cancellations:review'
+  | 'jobs:reschedule'
+  | 'reschedules:review'
+  | 'messages:read'
+  | 'messages:send'
+  | 'company:read'
+  | 'company:manage'
+  | 'users:read'
+  | 'users:manage';
+
+export const ROLE_PERMISSIONS: Record<Exclude<Role, 'customer'>, readonly Permission[]> = {
+  staff: [
+    'bookings:read',
+    'jobs:update',
+    'cancellations:review',
+    'reschedules:review',
+    'messages:read',
+    'messages:send',
+    'users:read',
+  ],
+  admin: [
+    'bookings:read',
+    'jobs:update',
+    'jobs:cancel',
+    'cancellations:review',
+    'reschedules:review',
+    'messages:read',
+    'messages:send',
+    'users:read',
+    'users:manage',
+  ],
+};
+
+export const COMPANY_ROLE_PERMISSIONS: Record<CompanyRole, readonly Permission[]> = {
+  owner: [
+    'bookings:read',
+    'jobs:create',
+    'jobs:update',
+    'jobs:cancel',
+    'jobs:reschedule',
+    'messages:read',
+    'messages:send',
+    'company:read',
+    'company:manage',
+  ],
+  member: [
+    'bookings:read',
+    'jobs:create',
+    'jobs:update',
+    'jobs:reschedule',
+    'messages:read',
+    'messages:send',
+    'company:read',
+  ],
+  viewer: [
+    'bookings:read',
+    'messages:read',
+    'company:read',
+  ],
+};
@@ -0,0 +1,117 @@
+/**
+ * Admin Controller
+ *
+ * Thin controller that delegates to AdminService.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { adminService } from '../services/admin.service';
+import { impersonationService } from '../services/impersonation.service';
+import { servicem8Sync } from '../services/servicem8Sync.service';
+import { sendSuccess, sendCreated, sendPaginated } from '../utils/response';
+import { AuthRequest, Role, SyncTrigger } from '../types';
+
+export class AdminController {
+  /**
+   * List user accounts
+   * GET /api/admin/users
+   */
+  static listUsers = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const role = req.query.role as Role | undefined;
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const { users, total } = await adminService.listUsers(role, page, limit);
+
+    sendPaginated(res, users, page, limit, total);
+  });
+
+  /**
+   * Create a staff or admin account
+   * POST /api/admin/users
+   */
+  static createUser = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { email, password, firstName, lastName, role } = req.body;
+
+    const user = await adminService.createOfficeUser({ email, password, firstName, lastName, role });
+
+    sendCreated(res, user, 'User created successfully');
+  });
+
+  /**
+   * Change a user's role
+   * PATCH /api/admin/users/:id/role
+   */
+  static updateRole = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    const user = await adminService.updateRole(req.customer!, id, role);
+
+    sendSuccess(res, user, 200, 'Role updated');
+  });
+
+  /**
+   * Start acting as a customer
+   * POST /api/admin/impersonate/:customerId
+   */
+  static impersonate = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const { reason, allowDestructive } = req.body;
+
+    const result = await impersonationService.start(
+      req.customer!,
+      customerId,
+      { reason, allowDestructive },
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+
+    sendCreated(res, result, 'Impersonation started');
+  });
+
+  /**
+   * List impersonation audit entries
+   * GET /api/admin/audit-logs
+   */
+  static listAuditLogs = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+    const { items, total } = await impersonationService.listAuditLogs(
+      {
+        impersonatorId: req.query.impersonatorId as string | undefined,
+        customerId: req.query.customerId as string | undefined,
+      },
+      page,
+      limit
+    );
+
+    sendPaginated(res, items, page, limit, total);
+  });
+
+  /**
+   * List ServiceM8 sync runs
+   * GET /api/admin/sync/runs
+   */
+  static listSyncRuns = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const trigger = req.query.trigger as SyncTrigger | undefined;
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const { items, total } = await servicem8Sync.listRuns(trigger, page, limit);
+
+    sendPaginated(res, items, page, limit, total);
+  });
+
+  /**
+   * Start a ServiceM8 sync now
+   * POST /api/admin/sync
+   */
+  static startSync = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const run = await servicem8Sync.startManualSync();
+
+    sendSuccess(res, run, 202, 'Sync started');
+  });
+}
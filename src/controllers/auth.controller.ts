@@ -7,9 +7,32 @@
 
 import { Request, Response } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
-import { authService } from '../services/auth.service';
+import { authService, LoginResult } from '../services/auth.service';
+import { sessionService } from '../services/session.service';
+import { passwordResetService } from '../services/passwordReset.service';
+import { otpService } from '../services/otp.service';
+import { twoFactorService } from '../services/twoFactor.service';
+import { verificationService } from '../services/verification.service';
+import { profileService } from '../services/profile.service';
+import { accountService } from '../services/account.service';
+import { clientLinkService } from '../services/clientLink.service';
 import { sendSuccess, sendCreated } from '../utils/response';
-import { AuthRequest } from '../types';
+import { AuthRequest, SessionContext } from '../types';
+
+/**
+ * Collect client details to record on a new session
+ */
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+  deviceName: req.body?.deviceName,
+});
+
+/**
+ * Response message for the first login step
+ */
+const loginMessage = (result: LoginResult): string =>
+  'twoFactorRequired' in result ? 'Two-factor authentication required' : 'Login successful';
 
 export class AuthController {
   /**
@@ -19,14 +42,17 @@ export class AuthController {
   static register = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { email, phone, password, firstName, lastName, address } = req.body;
 
-    const result = await authService.register({
-      email,
-      phone,
-      password,
-      firstName,
-      lastName,
-      address,
-    });
+    const result = await authService.register(
+      {
+        email,
+        phone,
+        password,
+        firstName,
+        lastName,
+        address,
+      },
+      getSessionContext(req)
+    );
 
     sendCreated(res, result, 'Registration successful');
   });
@@ -38,30 +64,132 @@ export class AuthController {
   static login = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { email, phone, password } = req.body;
 
-    const result = await authService.login({
-      email,
-      phone,
-      password,
-    });
+    const result = await authService.login(
+      {
+        email,
+        phone,
+        password,
+      },
+      getSessionContext(req)
+    );
 
-    sendSuccess(res, result, 200, 'Login successful');
+    sendSuccess(res, result, 200, loginMessage(result));
+  });
+
+  /**
+   * Send a one-time login code
+   * POST /api/auth/otp/request
+   */
+  static requestOtp = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email, phone } = req.body;
+
+    await otpService.requestLoginCode({ email, phone });
+
+    sendSuccess(res, undefined, 200, 'If an account exists, a login code has been sent');
+  });
+
+  /**
+   * Login with a one-time code
+   * POST /api/auth/otp/verify
+   */
+  static verifyOtp = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email, phone, code } = req.body;
+
+    const result = await authService.loginWithOtp({ email, phone, code }, getSessionContext(req));
+
+    sendSuccess(res, result, 200, loginMessage(result));
+  });
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * POST /api/auth/refresh
+   */
+  static refresh = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { refreshToken } = req.body;
+
+    const result = await authService.refresh(refreshToken);
+
+    sendSuccess(res, result, 200, 'Token refreshed');
   });
 
   /**
    * Logout customer
    * POST /api/auth/logout
    */
-  static logout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const authHeader = req.headers.authorization;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      await authService.logout(token);
-    }
+  static logout = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    await authService.logout(req.sessionId!);
 
     sendSuccess(res, undefined, 200, 'Logout successful');
   });
 
+  /**
+   * Update current customer's profile
+   * PATCH /api/auth/me
+   */
+  static updateProfile = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { firstName, lastName, address, email, phone, currentPassword } = req.body;
+
+    const customer = await profileService.updateProfile(req.customer!, {
+      firstName,
+      lastName,
+      address,
+      email,
+      phone,
+      currentPassword,
+    });
+
+    sendSuccess(res, authService.getProfile(customer), 200, 'Profile updated');
+  });
+
+  /**
+   * Change current customer's password
+   * POST /api/auth/me/password
+   */
+  static changePassword = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { currentPassword, newPassword } = req.body;
+
+    await profileService.changePassword(
+      req.customer!,
+      { currentPassword, newPassword },
+      req.sessionId!
+    );
+
+    sendSuccess(res, undefined, 200, 'Password changed. Other devices have been signed out.');
+  });
+
+  /**
+   * Export all data held about the current customer
+   * GET /api/auth/me/export
+   */
+  static exportData = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const archive = await accountService.exportData(req.customer!, req.sessionId);
+
+    res.setHeader('Content-Disposition', 'attachment; filename="account-export.json"');
+    sendSuccess(res, archive);
+  });
+
+  /**
+   * Delete and anonymise the current customer's account
+   * DELETE /api/auth/me
+   */
+  static deleteAccount = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { password, deactivateServiceM8Company } = req.body;
+
+    await accountService.deleteAccount(req.customer!, { password, deactivateServiceM8Company });
+
+    sendSuccess(res, undefined, 200, 'Account deleted');
+  });
+
+  /**
+   * Logout customer from every device
+   * POST /api/auth/logout-all
+   */
+  static logoutAll = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const revoked = await authService.logoutAll(req.customerId!);
+
+    sendSuccess(res, { revoked }, 200, 'Logged out from all devices');
+  });
+
   /**
    * Get current customer info
    * GET /api/auth/me
@@ -72,4 +200,165 @@ export class AuthController {
 
     sendSuccess(res, profile);
   });
+
+  /**
+   * List the customer's active sessions (devices)
+   * GET /api/auth/sessions
+   */
+  static listSessions = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const sessions = await sessionService.listSessions(req.customerId!, req.sessionId);
+
+    sendSuccess(res, sessions);
+  });
+
+  /**
+   * Revoke one of the customer's sessions
+   * DELETE /api/auth/sessions/:id
+   */
+  static revokeSession = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    await sessionService.revokeSession(req.customerId!, id);
+
+    sendSuccess(res, undefined, 200, 'Session revoked');
+  });
+
+  /**
+   * Request a password reset link
+   * POST /api/auth/password/forgot
+   */
+  static forgotPassword = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email, phone } = req.body;
+
+    await passwordResetService.requestReset({ email, phone });
+
+    sendSuccess(
+      res,
+      undefined,
+      200,
+      'If an account exists, password reset instructions have been sent'
+    );
+  });
+
+  /**
+   * Reset password with a reset token
+   * POST /api/auth/password/reset
+   */
+  static resetPassword = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { token, password } = req.body;
+
+    await passwordResetService.resetPassword({ token, password });
+
+    sendSuccess(res, undefined, 200, 'Password has been reset. Please log in again.');
+  });
+
+  /**
+   * Start TOTP enrolment
+   * POST /api/auth/2fa/enroll
+   */
+  static enrollTwoFactor = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const enrollment = await twoFactorService.beginEnrollment(req.customer!);
+
+    sendSuccess(res, enrollment, 200, 'Scan the QR code with your authenticator app');
+  });
+
+  /**
+   * Confirm TOTP enrolment
+   * POST /api/auth/2fa/confirm
+   */
+  static confirmTwoFactor = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { code } = req.body;
+
+    const recoveryCodes = await twoFactorService.confirmEnrollment(req.customer!, code);
+
+    sendSuccess(res, { recoveryCodes }, 200, 'Two-factor authentication enabled');
+  });
+
+  /**
+   * Disable two-factor authentication
+   * POST /api/auth/2fa/disable
+   */
+  static disableTwoFactor = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { password, code } = req.body;
+
+    await twoFactorService.disable(req.customer!, password, code);
+
+    sendSuccess(res, undefined, 200, 'Two-factor authentication disabled');
+  });
+
+  /**
+   * Complete a login with a second factor
+   * POST /api/auth/2fa/verify
+   */
+  static verifyTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const result = await authService.verifyTwoFactor(
+      { challengeToken, code, recoveryCode },
+      getSessionContext(req)
+    );
+
+    sendSuccess(res, result, 200, 'Login successful');
+  });
+
+  /**
+   * Send a verification code to the customer's email or phone
+   * POST /api/auth/verify/send
+   */
+  static sendVerification = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { channel } = req.body;
+
+    await verificationService.sendCode(req.customer!, channel);
+
+    sendSuccess(res, undefined, 200, 'Verification code sent');
+  });
+
+  /**
+   * Confirm the customer's email or phone with a code
+   * POST /api/auth/verify/confirm
+   */
+  static confirmVerification = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { channel, code } = req.body;
+
+    const status = await verificationService.confirm(req.customer!, channel, code);
+
+    sendSuccess(res, status, 200, 'Verification successful');
+  });
+
+  /**
+   * Resend the code that links an existing ServiceM8 account
+   * POST /api/auth/link/resend
+   */
+  static resendLinkCode = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    await clientLinkService.sendCode(req.customer!);
+
+    sendSuccess(res, undefined, 200, 'Link code sent');
+  });
+
+  /**
+   * Link the existing ServiceM8 account and return its job history
+   * POST /api/auth/link/confirm
+   */
+  static confirmLink = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { code } = req.body;
+
+    const result = await clientLinkService.confirm(req.customer!, code);
+
+    sendSuccess(
+      res,
+      { customer: authService.getProfile(req.customer!), bookings: result.bookings },
+      200,
+      'Account linked'
+    );
+  });
+
+  /**
+   * Decline the suggested link and start a new ServiceM8 account
+   * POST /api/auth/link/decline
+   */
+  static declineLink = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    await clientLinkService.decline(req.customer!);
+
+    sendSuccess(res, authService.getProfile(req.customer!), 200, 'New account created');
+  });
 }
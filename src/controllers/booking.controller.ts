@@ -7,22 +7,47 @@
 
 import { Response } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
-import { bookingService } from '../services/booking.service';
-import { sendSuccess } from '../utils/response';
+import { bookingService, BookingSort, BookingTimeframe } from '../services/booking.service';
+import { sendSuccess, sendPaginated } from '../utils/response';
 import { AuthRequest } from '../types';
 
+/**
+ * Parse a date filter. Plain dates cover the whole (local) day, so
+ * `to=2024-05-31` includes jobs scheduled that afternoon.
+ */
+const parseDateParam = (value: unknown, endOfDay: boolean): Date | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+  }
+  return new Date(value);
+};
+
 export class BookingController {
   /**
-   * Get all bookings for the authenticated customer
-   * GET /api/bookings
+   * Get a page of bookings for the authenticated customer
+   * GET /api/bookings?page=&limit=&status=&from=&to=&q=&timeframe=&sort=
    */
   static getAllBookings = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
     const customerId = req.customerId!.toString();
     const customer = req.customer!;
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
 
-    const bookings = await bookingService.getAllBookings(customerId, customer);
+    const { bookings, total } = await bookingService.listBookings(customerId, customer, {
+      page,
+      limit,
+      status: req.query.status as string | undefined,
+      from: parseDateParam(req.query.from, false),
+      to: parseDateParam(req.query.to, true),
+      search: (req.query.q as string | undefined)?.trim() || undefined,
+      timeframe: req.query.timeframe as BookingTimeframe | undefined,
+      sort: req.query.sort as BookingSort | undefined,
+    });
 
-    sendSuccess(res, bookings);
+    sendPaginated(res, bookings, page, limit, total);
   });
 
   /**
@@ -0,0 +1,54 @@
+/**
+ * Cancellation Controller
+ *
+ * Thin controller that delegates to CancellationService.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { cancellationService } from '../services/cancellation.service';
+import { sendSuccess, sendPaginated } from '../utils/response';
+import { AuthRequest, CancellationStatus } from '../types';
+
+export class CancellationController {
+  /**
+   * List cancellation requests
+   * GET /api/cancellations
+   */
+  static listRequests = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const status = req.query.status as CancellationStatus | undefined;
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const { items, total } = await cancellationService.listRequests(status, page, limit);
+
+    sendPaginated(res, items, page, limit, total);
+  });
+
+  /**
+   * Approve a cancellation request
+   * POST /api/cancellations/:id/approve
+   */
+  static approve = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    const request = await cancellationService.approve(id, req.customer!, note);
+
+    sendSuccess(res, request, 200, 'Cancellation approved');
+  });
+
+  /**
+   * Reject a cancellation request
+   * POST /api/cancellations/:id/reject
+   */
+  static reject = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    const request = await cancellationService.reject(id, req.customer!, note);
+
+    sendSuccess(res, request, 200, 'Cancellation declined');
+  });
+}
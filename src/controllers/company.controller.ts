@@ -0,0 +1,99 @@
+/**
+ * Company Controller
+ *
+ * Thin controller that delegates to CompanyService.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { companyService } from '../services/company.service';
+import { authService } from '../services/auth.service';
+import { sendSuccess, sendCreated } from '../utils/response';
+import { AuthRequest } from '../types';
+
+export class CompanyController {
+  /**
+   * List portal users of the customer's company
+   * GET /api/company/members
+   */
+  static listMembers = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const members = await companyService.listMembers(req.customer!);
+
+    sendSuccess(res, members);
+  });
+
+  /**
+   * Change a member's company role
+   * PATCH /api/company/members/:id
+   */
+  static updateMember = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { companyRole } = req.body;
+
+    const member = await companyService.updateMemberRole(req.customer!, id, companyRole);
+
+    sendSuccess(res, member, 200, 'Member updated');
+  });
+
+  /**
+   * Remove a member from the company
+   * DELETE /api/company/members/:id
+   */
+  static removeMember = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    await companyService.removeMember(req.customer!, id);
+
+    sendSuccess(res, undefined, 200, 'Member removed');
+  });
+
+  /**
+   * List pending invitations
+   * GET /api/company/invitations
+   */
+  static listInvitations = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const invitations = await companyService.listInvitations(req.customer!);
+
+    sendSuccess(res, invitations);
+  });
+
+  /**
+   * Invite someone to the company by email
+   * POST /api/company/invitations
+   */
+  static invite = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { email, companyRole } = req.body;
+
+    const invitation = await companyService.invite(req.customer!, { email, companyRole });
+
+    sendCreated(res, invitation, 'Invitation sent');
+  });
+
+  /**
+   * Revoke a pending invitation
+   * DELETE /api/company/invitations/:id
+   */
+  static revokeInvitation = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    await companyService.revokeInvitation(req.customer!, id);
+
+    sendSuccess(res, undefined, 200, 'Invitation revoked');
+  });
+
+  /**
+   * Create an account from an invitation
+   * POST /api/company/invitations/accept
+   */
+  static acceptInvitation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { token, password, firstName, lastName, phone, deviceName } = req.body;
+
+    const result = await authService.acceptInvitation(
+      { token, password, firstName, lastName, phone },
+      { userAgent: req.get('user-agent'), ipAddress: req.ip, deviceName }
+    );
+
+    sendCreated(res, result, 'Invitation accepted');
+  });
+}
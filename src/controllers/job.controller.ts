@@ -8,6 +8,8 @@
 import { Response } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
 import { jobService } from '../services/job.service';
+import { cancellationService } from '../services/cancellation.service';
+import { schedulingService } from '../services/scheduling.service';
 import { sendSuccess, sendCreated } from '../utils/response';
 import { AuthRequest } from '../types';
 
@@ -51,16 +53,47 @@ export class JobController {
   });
 
   /**
-   * Delete a job
-   * DELETE /api/jobs/:id
+   * Ask for a job to be cancelled
+   * POST /api/jobs/:id/cancellation
    */
-  static deleteJob = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
-    const { id } = req.params; // This is now the ServiceM8 UUID
-    const customerId = req.customerId!.toString();
-    const customer = req.customer!;
+  static requestCancellation = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params; // ServiceM8 UUID
+    const { reason } = req.body;
+
+    const request = await cancellationService.requestCancellation(id, reason, req.customer!, req.impersonation);
+
+    sendCreated(
+      res,
+      request,
+      request.status === 'approved' ? 'Job cancelled' : 'Cancellation requested - awaiting approval'
+    );
+  });
+
+  /**
+   * List the free slots a job could be moved to
+   * GET /api/jobs/:id/slots
+   */
+  static getSlots = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params; // ServiceM8 UUID
+    const from = req.query.from as string | undefined;
+    const days = req.query.days ? Math.max(Number(req.query.days), 1) : undefined;
+    const service = req.query.service as string | undefined;
+
+    const slots = await schedulingService.getSlots(id, req.customer!, { from, days, service });
+
+    sendSuccess(res, slots);
+  });
+
+  /**
+   * Ask for a job to be moved to a free slot
+   * POST /api/jobs/:id/reschedule
+   */
+  static requestReschedule = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params; // ServiceM8 UUID
+    const { start, service, note } = req.body;
 
-    await jobService.deleteJob(id, customerId, customer);
+    const request = await schedulingService.requestReschedule(id, req.customer!, { start, service, note });
 
-    sendSuccess(res, undefined, 200, 'Job deleted successfully');
+    sendCreated(res, request, 'Reschedule requested - awaiting confirmation');
   });
 }
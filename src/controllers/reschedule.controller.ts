@@ -0,0 +1,54 @@
+/**
+ * Reschedule Controller
+ *
+ * Thin controller that delegates to SchedulingService.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { schedulingService } from '../services/scheduling.service';
+import { sendSuccess, sendPaginated } from '../utils/response';
+import { AuthRequest, RescheduleStatus } from '../types';
+
+export class RescheduleController {
+  /**
+   * List reschedule requests
+   * GET /api/reschedules
+   */
+  static listRequests = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const status = req.query.status as RescheduleStatus | undefined;
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const { items, total } = await schedulingService.listRequests(status, page, limit);
+
+    sendPaginated(res, items, page, limit, total);
+  });
+
+  /**
+   * Confirm a reschedule request
+   * POST /api/reschedules/:id/confirm
+   */
+  static confirm = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { note, force } = req.body;
+
+    const request = await schedulingService.confirm(id, req.customer!, { note, force });
+
+    sendSuccess(res, request, 200, 'Reschedule confirmed');
+  });
+
+  /**
+   * Decline a reschedule request
+   * POST /api/reschedules/:id/decline
+   */
+  static decline = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    const request = await schedulingService.decline(id, req.customer!, note);
+
+    sendSuccess(res, request, 200, 'Reschedule declined');
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * ServiceM8 Controller
+ *
+ * Thin controller that delegates to ServiceM8AuthService and the
+ * ServiceM8 client's cache.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { config } from '../config/env';
+import { servicem8AuthService } from '../services/servicem8Auth.service';
+import { servicem8Registry } from '../services/servicem8.service';
+import { sendSuccess } from '../utils/response';
+import { AuthRequest } from '../types';
+
+export class ServiceM8Controller {
+  /**
+   * Get the ServiceM8 connection status
+   * GET /api/servicem8/connection
+   */
+  static getConnection = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const status = await servicem8AuthService.getStatus(req.tenant);
+
+    sendSuccess(res, status);
+  });
+
+  /**
+   * Start the OAuth install and return the URL to send the admin to
+   * POST /api/servicem8/connection
+   */
+  static connect = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    const authorizeUrl = servicem8AuthService.getAuthorizeUrl(req.customer!, req.tenant);
+
+    sendSuccess(res, { authorizeUrl }, 200, 'Continue in ServiceM8 to approve access');
+  });
+
+  /**
+   * Complete the OAuth install and send the admin back to the frontend
+   * GET /api/servicem8/oauth/callback
+   */
+  static oauthCallback = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { code, state, error } = req.query as { code?: string; state: string; error?: string };
+
+    await servicem8AuthService.handleCallback({ code, state, error });
+
+    res.redirect(`${config.frontendUrl}/admin/servicem8?connected=true`);
+  });
+
+  /**
+   * Remove the stored OAuth tokens
+   * DELETE /api/servicem8/connection
+   */
+  static disconnect = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    await servicem8AuthService.disconnect(req.customer!, req.tenant);
+
+    sendSuccess(res, undefined, 200, 'ServiceM8 disconnected');
+  });
+
+  /**
+   * Get cache hit/miss counts and TTLs
+   * GET /api/servicem8/cache
+   */
+  static getCacheStats = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    sendSuccess(res, servicem8Registry.current().getCacheStats());
+  });
+
+  /**
+   * Drop everything cached from ServiceM8
+   * DELETE /api/servicem8/cache
+   */
+  static clearCache = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    await servicem8Registry.current().clearCache();
+
+    sendSuccess(res, undefined, 200, 'ServiceM8 cache cleared');
+  });
+}
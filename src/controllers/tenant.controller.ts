@@ -0,0 +1,22 @@
+/**
+ * Tenant Controller
+ *
+ * Thin controller that delegates to TenantService.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { tenantService } from '../services/tenant.service';
+import { sendSuccess } from '../utils/response';
+import { AuthRequest } from '../types';
+
+export class TenantController {
+  /**
+   * Get the branding for the current tenant
+   * GET /api/tenant
+   */
+  static getBranding = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+    sendSuccess(res, tenantService.getBranding(req.tenant));
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Webhook Controller
+ *
+ * Thin controller that delegates to WebhookService.
+ * Handles HTTP concerns only (request/response).
+ */
+
+import { Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { webhookService } from '../services/webhook.service';
+import { sendSuccess } from '../utils/response';
+import { WebhookRequest } from '../types';
+
+export class WebhookController {
+  /**
+   * Receive a ServiceM8 webhook delivery
+   * POST /api/webhooks/servicem8
+   */
+  static servicem8 = asyncHandler(async (req: WebhookRequest, res: Response): Promise<void> => {
+    // ServiceM8 confirms a new subscription by asking us to echo a challenge
+    if (req.body.mode === 'subscribe') {
+      res.type('text/plain').send(req.body.challenge);
+      return;
+    }
+
+    const result = await webhookService.receive(
+      req.body,
+      req.tenant,
+      req.query.tenant as string | undefined,
+      req.hostname,
+      req.rawBody
+    );
+
+    sendSuccess(res, result);
+  });
+}
@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { JWTUtils } from '../utils/jwt.utils';
 import { Customer } from '../models';
+import { sessionRepository } from '../repositories/session.repository';
+import { impersonationService } from '../services/impersonation.service';
 import { AuthRequest } from '../types';
 import { logger } from '../utils/logger';
 
@@ -26,6 +28,33 @@ export const authMiddleware = async (
     // Verify token
     const payload = JWTUtils.verifyToken(token);
 
+    // Verify the session behind the token is still live (not logged out or revoked)
+    const session = await sessionRepository.findActiveById(payload.sessionId);
+
+    if (!session || session.customerId.toString() !== payload.customerId) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has expired or been revoked',
+      });
+      return;
+    }
+
+    // Impersonation tokens must match their session and a current admin
+    if (payload.impersonation) {
+      const isValid = await impersonationService.isValid(
+        payload.impersonation,
+        session.impersonatorId?.toString()
+      );
+
+      if (!isValid) {
+        res.status(401).json({
+          success: false,
+          message: 'Impersonation has ended',
+        });
+        return;
+      }
+    }
+
     // Fetch customer from database
     const customer = await Customer.findById(payload.customerId);
 
@@ -40,6 +69,29 @@ export const authMiddleware = async (
     // Attach customer to request
     req.customer = customer;
     req.customerId = customer._id;
+    req.sessionId = payload.sessionId;
+    req.impersonation = payload.impersonation;
+
+    // Audit every request made while impersonating, once the outcome is known
+    if (payload.impersonation) {
+      const claims = payload.impersonation;
+      res.on('finish', () => {
+        impersonationService
+          .recordRequest(claims, payload.customerId, payload.sessionId, {
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+          })
+          .catch((error: any) => {
+            logger.error('Failed to write impersonation audit entry', { error: error.message });
+          });
+      });
+    }
+
+    // Record last-seen time for the session
+    await sessionRepository.touch(session._id);
 
     next();
   } catch (error: any) {
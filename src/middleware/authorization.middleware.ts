@@ -0,0 +1,100 @@
+/**
+ * Authorization Middleware
+ *
+ * Role, permission and impersonation checks for routes. Must run after
+ * authMiddleware.
+ */
+
+import { Response, NextFunction } from 'express';
+import { Permission } from '../config/permissions';
+import { authorizationService } from '../services/authorization.service';
+import { AuthRequest, Role } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Reject the request unless the principal has every listed permission
+ *
+ * @example
+ * router.post('/', requirePermission('jobs:create'), JobController.createJob);
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    const principal = req.customer;
+    const missing = principal
+      ? permissions.filter(permission => !authorizationService.hasPermission(principal, permission))
+      : permissions;
+
+    if (missing.length > 0) {
+      logger.warn('Permission denied', {
+        principalId: principal?._id,
+        role: principal?.role,
+        path: req.path,
+        missing,
+      });
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action',
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Reject the request unless the principal has one of the listed roles
+ *
+ * @example
+ * router.use(requireRole('admin'));
+ */
+export const requireRole = (...roles: Role[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    const principal = req.customer;
+
+    if (!principal || !roles.includes(principal.role)) {
+      logger.warn('Role check failed', {
+        principalId: principal?._id,
+        role: principal?.role,
+        path: req.path,
+        required: roles,
+      });
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action',
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Reject the request when an admin is impersonating the customer
+ *
+ * Used for account-security actions that only the real customer should take.
+ *
+ * @example
+ * router.post('/me/password', authMiddleware, denyDuringImpersonation, AuthController.changePassword);
+ */
+export const denyDuringImpersonation = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.impersonation) {
+    logger.warn('Action blocked during impersonation', {
+      impersonatorId: req.impersonation.impersonatorId,
+      customerId: req.customerId,
+      path: req.path,
+    });
+    res.status(403).json({
+      success: false,
+      message: 'This action is not available while impersonating a customer',
+    });
+    return;
+  }
+
+  next();
+};
@@ -23,6 +23,8 @@ export const apiRateLimiter = rateLimit({
   },
   standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
   legacyHeaders: false, // Disable `X-RateLimit-*` headers
+  // Webhooks come in bursts from a few ServiceM8 IPs and are signed instead
+  skip: (req: Request) => req.path.startsWith('/webhooks/'),
   // Skip successful requests (optional - only count failed requests)
   // skipSuccessfulRequests: false,
   // Skip failed requests (optional - only count successful requests)
@@ -0,0 +1,53 @@
+import { Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { tenantService } from '../services/tenant.service';
+import { runWithTenant } from '../utils/tenantContext';
+import { AuthRequest } from '../types';
+import { logger } from '../utils/logger';
+
+// Paths (relative to /api) that also work without a tenant, e.g. the
+// ServiceM8 install callback, which identifies its tenant through `state`,
+// and webhooks, which name it in the callback URL
+const TENANT_OPTIONAL_PATHS = ['/health', '/servicem8/oauth/callback', '/webhooks/servicem8'];
+
+/**
+ * Resolve the tenant for the request and scope everything after it
+ *
+ * Does nothing in single-tenant mode. In multi-tenant mode the tenant comes
+ * from the tenant header or the hostname, and the request is rejected if
+ * neither matches an active tenant.
+ */
+export const resolveTenant = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!config.multiTenant) {
+    next();
+    return;
+  }
+
+  try {
+    const slug = req.get(config.tenantHeader);
+    const tenant = await tenantService.resolve(req.hostname, slug);
+
+    if (!tenant) {
+      if (!slug && TENANT_OPTIONAL_PATHS.includes(req.path)) {
+        next();
+        return;
+      }
+
+      logger.warn('Request for unknown tenant', { hostname: req.hostname, slug, path: req.path });
+      res.status(404).json({
+        success: false,
+        message: 'Unknown tenant',
+      });
+      return;
+    }
+
+    req.tenant = tenant;
+    runWithTenant(tenant, () => next());
+  } catch (error) {
+    next(error);
+  }
+};
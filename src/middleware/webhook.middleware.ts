@@ -0,0 +1,46 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Response, NextFunction } from 'express';
+import { webhookService, SIGNATURE_HEADER } from '../services/webhook.service';
+import { WebhookRequest } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Keep the raw body of webhook requests for signature checks
+ *
+ * Passed as the body parsers' `verify` option, which sees the bytes before
+ * they are parsed.
+ */
+export const captureRawBody = (req: IncomingMessage, res: ServerResponse, buf: Buffer): void => {
+  const request = req as WebhookRequest;
+  if (request.originalUrl?.startsWith('/api/webhooks/')) {
+    request.rawBody = buf;
+  }
+};
+
+/**
+ * Reject ServiceM8 webhook deliveries without a valid signature
+ *
+ * Subscription challenges are let through: they carry no data and are only
+ * echoed back.
+ */
+export const verifyServiceM8Signature = (
+  req: WebhookRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.body?.mode === 'subscribe') {
+    next();
+    return;
+  }
+
+  if (!webhookService.verifySignature(req.rawBody, req.get(SIGNATURE_HEADER))) {
+    logger.warn('Rejected ServiceM8 webhook with invalid signature', { ip: req.ip });
+    res.status(401).json({
+      success: false,
+      message: 'Invalid webhook signature',
+    });
+    return;
+  }
+
+  next();
+};
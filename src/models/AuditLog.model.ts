@@ -0,0 +1,56 @@
+import { Schema, model } from 'mongoose';
+import { IAuditLog } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      enum: ['impersonation_started', 'impersonated_request'],
+      required: true,
+    },
+    impersonatorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+    },
+    method: {
+      type: String,
+    },
+    path: {
+      type: String,
+    },
+    statusCode: {
+      type: Number,
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+auditLogSchema.plugin(tenantScopePlugin);
+
+// Indexes for faster queries
+auditLogSchema.index({ impersonatorId: 1, createdAt: -1 });
+auditLogSchema.index({ customerId: 1, createdAt: -1 });
+
+export const AuditLog = model<IAuditLog>('AuditLog', auditLogSchema);
@@ -0,0 +1,28 @@
+import { Schema, model } from 'mongoose';
+import { ICacheEntry } from '../types';
+
+const cacheEntrySchema = new Schema<ICacheEntry>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    value: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false, // Keep empty objects/arrays as cached
+  }
+);
+
+// Expired entries are ignored on read and removed by MongoDB later
+cacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+export const CacheEntry = model<ICacheEntry>('CacheEntry', cacheEntrySchema);
@@ -0,0 +1,64 @@
+import { Schema, model } from 'mongoose';
+import { ICancellationRequest } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+const cancellationRequestSchema = new Schema<ICancellationRequest>(
+  {
+    jobUuid: {
+      type: String,
+      required: true,
+    },
+    companyUuid: {
+      type: String,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending',
+    },
+    scheduledDate: {
+      type: String,
+    },
+    autoApproved: {
+      type: Boolean,
+      default: false,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reviewNote: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+cancellationRequestSchema.plugin(tenantScopePlugin);
+
+// One open request per job
+cancellationRequestSchema.index(
+  { tenantId: 1, jobUuid: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+cancellationRequestSchema.index({ status: 1, createdAt: -1 });
+
+export const CancellationRequest = model<ICancellationRequest>('CancellationRequest', cancellationRequestSchema);
@@ -1,20 +1,22 @@
 import { Schema, model } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { ICustomer } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
 
 const customerSchema = new Schema<ICustomer>(
   {
+    role: {
+      type: String,
+      enum: ['customer', 'staff', 'admin'],
+      default: 'customer',
+    },
     email: {
       type: String,
-      sparse: true, // Allow null but unique if present
-      unique: true,
       lowercase: true,
       trim: true,
     },
     phone: {
       type: String,
-      sparse: true, // Allow null but unique if present
-      unique: true,
       trim: true,
     },
     password: {
@@ -31,22 +33,88 @@ const customerSchema = new Schema<ICustomer>(
     },
     servicem8ClientUuid: {
       type: String,
-      required: true,
+      // Only customers are linked to a ServiceM8 company (once any pending
+      // link to an existing company has been confirmed)
+      required: function(this: ICustomer) {
+        return this.role === 'customer' && !this.deletedAt && !this.pendingServiceM8ClientUuid;
+      },
+      trim: true,
+    },
+    pendingServiceM8ClientUuid: {
+      type: String,
       trim: true,
     },
+    pendingServiceM8LinkChannel: {
+      type: String,
+      enum: ['email', 'phone'],
+    },
+    companyRole: {
+      type: String,
+      enum: ['owner', 'member', 'viewer'],
+      // Customers who register create (or link) the company and own it
+      default: function(this: ICustomer) {
+        return this.role === 'customer' ? 'owner' : undefined;
+      },
+    },
     address: {
       type: String,
       trim: true,
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    phoneVerified: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+    },
+    twoFactorChallengeId: {
+      type: String,
+    },
+    twoFactorChallengeAttempts: {
+      type: Number,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedLoginAt: {
+      type: Date,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    deletedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-// Validate that at least email or phone is provided
+customerSchema.plugin(tenantScopePlugin);
+
+// Validate that at least email or phone is provided (deleted accounts have neither)
 customerSchema.pre('validate', function(next) {
-  if (!this.email && !this.phone) {
+  if (!this.email && !this.phone && !this.deletedAt) {
     next(new Error('Either email or phone must be provided'));
   } else {
     next();
@@ -71,10 +139,22 @@ customerSchema.methods.comparePassword = async function(candidatePassword: strin
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Email and phone are unique within a tenant (or the whole deployment in
+// single-tenant mode), but may be absent
+customerSchema.index(
+  { tenantId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { email: { $type: 'string' } } }
+);
+customerSchema.index(
+  { tenantId: 1, phone: 1 },
+  { unique: true, partialFilterExpression: { phone: { $type: 'string' } } }
+);
+
 // Indexes for faster lookups
 customerSchema.index({ email: 1 });
 customerSchema.index({ phone: 1 });
 customerSchema.index({ servicem8ClientUuid: 1 });
+customerSchema.index({ role: 1 });
 
 export const Customer = model<ICustomer>('Customer', customerSchema);
 
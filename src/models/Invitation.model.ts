@@ -0,0 +1,56 @@
+import { Schema, model } from 'mongoose';
+import { IInvitation } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    companyUuid: {
+      type: String,
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    companyRole: {
+      type: String,
+      enum: ['owner', 'member', 'viewer'],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+invitationSchema.plugin(tenantScopePlugin);
+
+// Indexes for faster queries and automatic cleanup
+invitationSchema.index({ companyUuid: 1, createdAt: -1 });
+invitationSchema.index({ email: 1 });
+invitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+export const Invitation = model<IInvitation>('Invitation', invitationSchema);
@@ -1,5 +1,6 @@
 import { Schema, model } from 'mongoose';
 import { IMessage } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
 
 const messageSchema = new Schema<IMessage>(
   {
@@ -18,7 +19,7 @@ const messageSchema = new Schema<IMessage>(
     },
     senderType: {
       type: String,
-      enum: ['customer', 'system'],
+      enum: ['customer', 'staff', 'system'],
       required: true,
     },
   },
@@ -27,8 +28,11 @@ const messageSchema = new Schema<IMessage>(
   }
 );
 
+messageSchema.plugin(tenantScopePlugin);
+
 // Indexes for faster queries
 messageSchema.index({ jobUuid: 1, createdAt: -1 });
+messageSchema.index({ customerId: 1, createdAt: 1 });
 
 export const Message = model<IMessage>('Message', messageSchema);
 
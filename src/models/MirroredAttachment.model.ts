@@ -0,0 +1,44 @@
+import { Schema, model } from 'mongoose';
+import { IMirroredAttachment } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+// Local copy of a ServiceM8 attachment on a mirrored job (metadata only)
+const mirroredAttachmentSchema = new Schema<IMirroredAttachment>(
+  {
+    uuid: {
+      type: String,
+      required: true,
+    },
+    jobUuid: {
+      type: String,
+      required: true,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    editDate: {
+      type: String,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    syncedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+mirroredAttachmentSchema.plugin(tenantScopePlugin);
+
+// Indexes for faster queries
+mirroredAttachmentSchema.index({ tenantId: 1, uuid: 1 }, { unique: true });
+mirroredAttachmentSchema.index({ tenantId: 1, jobUuid: 1, active: 1 });
+
+export const MirroredAttachment = model<IMirroredAttachment>('MirroredAttachment', mirroredAttachmentSchema);
@@ -0,0 +1,39 @@
+import { Schema, model } from 'mongoose';
+import { IMirroredCompany } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+// Local copy of a ServiceM8 company linked to a portal account
+const mirroredCompanySchema = new Schema<IMirroredCompany>(
+  {
+    uuid: {
+      type: String,
+      required: true,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    editDate: {
+      type: String,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    syncedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+mirroredCompanySchema.plugin(tenantScopePlugin);
+
+// Indexes for faster queries
+mirroredCompanySchema.index({ tenantId: 1, uuid: 1 }, { unique: true });
+
+export const MirroredCompany = model<IMirroredCompany>('MirroredCompany', mirroredCompanySchema);
@@ -0,0 +1,46 @@
+import { Schema, model } from 'mongoose';
+import { IMirroredJob } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+// Local copy of a ServiceM8 job, kept up to date by the sync engine
+const mirroredJobSchema = new Schema<IMirroredJob>(
+  {
+    uuid: {
+      type: String,
+      required: true,
+    },
+    companyUuid: {
+      type: String,
+    },
+    status: {
+      type: String,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    editDate: {
+      type: String,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    syncedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+mirroredJobSchema.plugin(tenantScopePlugin);
+
+// Indexes for faster queries
+mirroredJobSchema.index({ tenantId: 1, uuid: 1 }, { unique: true });
+mirroredJobSchema.index({ tenantId: 1, companyUuid: 1, active: 1 });
+
+export const MirroredJob = model<IMirroredJob>('MirroredJob', mirroredJobSchema);
@@ -0,0 +1,42 @@
+import { Schema, model } from 'mongoose';
+import { IOneTimeToken } from '../types';
+
+const oneTimeTokenSchema = new Schema<IOneTimeToken>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['password_reset', 'login_otp', 'email_verification', 'phone_verification', 'servicem8_link'],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    consumedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster lookup and automatic cleanup
+oneTimeTokenSchema.index({ customerId: 1, purpose: 1 });
+oneTimeTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+export const OneTimeToken = model<IOneTimeToken>('OneTimeToken', oneTimeTokenSchema);
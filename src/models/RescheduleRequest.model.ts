@@ -0,0 +1,71 @@
+import { Schema, model } from 'mongoose';
+import { IRescheduleRequest } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+const rescheduleRequestSchema = new Schema<IRescheduleRequest>(
+  {
+    jobUuid: {
+      type: String,
+      required: true,
+    },
+    companyUuid: {
+      type: String,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    service: {
+      type: String,
+      required: true,
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    previousScheduledDate: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'confirmed', 'declined'],
+      default: 'pending',
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reviewNote: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+rescheduleRequestSchema.plugin(tenantScopePlugin);
+
+// One open request per job
+rescheduleRequestSchema.index(
+  { tenantId: 1, jobUuid: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+rescheduleRequestSchema.index({ status: 1, startsAt: 1 });
+
+export const RescheduleRequest = model<IRescheduleRequest>('RescheduleRequest', rescheduleRequestSchema);
@@ -0,0 +1,34 @@
+import { Schema, model } from 'mongoose';
+import { ISecurityEvent } from '../types';
+
+const securityEventSchema = new Schema<ISecurityEvent>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+    },
+    type: {
+      type: String,
+      enum: ['login_failed', 'login_blocked', 'account_locked', 'account_unlocked'],
+      required: true,
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+securityEventSchema.index({ customerId: 1, createdAt: -1 });
+securityEventSchema.index({ type: 1, createdAt: -1 });
+
+export const SecurityEvent = model<ISecurityEvent>('SecurityEvent', securityEventSchema);
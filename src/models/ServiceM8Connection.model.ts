@@ -0,0 +1,43 @@
+import { Schema, model } from 'mongoose';
+import { IServiceM8Connection } from '../types';
+
+const servicem8ConnectionSchema = new Schema<IServiceM8Connection>(
+  {
+    // Identifies the installation (one per ServiceM8 account)
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    accessToken: {
+      type: String,
+      required: true,
+    },
+    refreshToken: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    scope: {
+      type: String,
+    },
+    connectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+    },
+    lastRefreshedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const ServiceM8Connection = model<IServiceM8Connection>(
+  'ServiceM8Connection',
+  servicem8ConnectionSchema
+);
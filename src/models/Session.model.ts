@@ -1,5 +1,6 @@
 import { Schema, model } from 'mongoose';
 import { ISession } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
 
 const sessionSchema = new Schema<ISession>(
   {
@@ -8,11 +9,35 @@ const sessionSchema = new Schema<ISession>(
       ref: 'Customer',
       required: true,
     },
-    token: {
+    refreshTokenHash: {
       type: String,
       required: true,
       unique: true,
     },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+    },
+    userAgent: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+    },
+    deviceLabel: {
+      type: String,
+      trim: true,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    impersonatorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+    },
+    allowDestructive: {
+      type: Boolean,
+    },
     expiresAt: {
       type: Date,
       required: true,
@@ -23,9 +48,11 @@ const sessionSchema = new Schema<ISession>(
   }
 );
 
-// Index for faster token lookup and automatic cleanup
-sessionSchema.index({ token: 1 });
+sessionSchema.plugin(tenantScopePlugin);
+
+// Indexes for faster token lookup and automatic cleanup
+sessionSchema.index({ previousTokenHashes: 1 });
+sessionSchema.index({ customerId: 1 });
 sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
 
 export const Session = model<ISession>('Session', sessionSchema);
-
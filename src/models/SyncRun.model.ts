@@ -0,0 +1,83 @@
+import { Schema, model } from 'mongoose';
+import { ISyncRun } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+// Runs are kept this long for troubleshooting
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const syncFailureSchema = new Schema(
+  {
+    entity: {
+      type: String,
+      enum: ['job', 'company', 'attachment'],
+      required: true,
+    },
+    uuid: {
+      type: String,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const syncRunSchema = new Schema<ISyncRun>(
+  {
+    trigger: {
+      type: String,
+      enum: ['schedule', 'manual', 'webhook'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['running', 'succeeded', 'partial', 'failed'],
+      default: 'running',
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    watermarks: {
+      job: String,
+      company: String,
+      attachment: String,
+    },
+    counts: {
+      job: { type: Number, default: 0 },
+      company: { type: Number, default: 0 },
+      attachment: { type: Number, default: 0 },
+    },
+    backfilledCompanies: {
+      type: Number,
+      default: 0,
+    },
+    changes: {
+      type: Number,
+      default: 0,
+    },
+    failures: {
+      type: [syncFailureSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+syncRunSchema.plugin(tenantScopePlugin);
+
+// Indexes for faster queries and automatic cleanup
+syncRunSchema.index({ tenantId: 1, trigger: 1, startedAt: -1 });
+syncRunSchema.index(
+  { tenantId: 1, startedAt: 1 },
+  { unique: true, partialFilterExpression: { trigger: 'webhook' } }
+); // One rolling webhook run per period
+syncRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS }); // TTL index
+
+export const SyncRun = model<ISyncRun>('SyncRun', syncRunSchema);
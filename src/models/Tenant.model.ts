@@ -0,0 +1,66 @@
+import { Schema, model } from 'mongoose';
+import { ITenant } from '../types';
+
+const tenantSchema = new Schema<ITenant>(
+  {
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    hostnames: {
+      type: [String],
+      default: [],
+      lowercase: true,
+    },
+    servicem8AuthMode: {
+      type: String,
+      enum: ['api_key', 'oauth'],
+      default: 'api_key',
+    },
+    servicem8ApiToken: {
+      type: String,
+    },
+    branding: {
+      displayName: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      logoUrl: {
+        type: String,
+      },
+      primaryColor: {
+        type: String,
+      },
+      supportEmail: {
+        type: String,
+        lowercase: true,
+        trim: true,
+      },
+    },
+    settings: {
+      requireVerifiedContactForJobs: {
+        type: Boolean,
+      },
+      cancellationCutoffHours: {
+        type: Number,
+        min: 0,
+      },
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A hostname can only ever point at one tenant
+tenantSchema.index({ hostnames: 1 }, { unique: true, sparse: true });
+
+export const Tenant = model<ITenant>('Tenant', tenantSchema);
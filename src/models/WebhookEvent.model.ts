@@ -0,0 +1,65 @@
+import { Schema, model } from 'mongoose';
+import { IWebhookEvent } from '../types';
+import { tenantScopePlugin } from './plugins/tenantScope.plugin';
+
+// Handled events are kept this long so late redeliveries are still deduped
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const webhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    eventId: {
+      type: String,
+      required: true,
+    },
+    object: {
+      type: String,
+      enum: ['job', 'company', 'attachment', 'jobactivity'],
+      required: true,
+    },
+    uuid: {
+      type: String,
+      required: true,
+    },
+    changedFields: {
+      type: [String],
+      default: [],
+    },
+    occurredAt: {
+      type: Date,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'processed', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    processedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+webhookEventSchema.plugin(tenantScopePlugin);
+
+// Indexes for deduplication, the worker's queue scan and automatic cleanup
+webhookEventSchema.index({ tenantId: 1, eventId: 1 }, { unique: true });
+webhookEventSchema.index({ status: 1, nextAttemptAt: 1 });
+webhookEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS }); // TTL index
+
+export const WebhookEvent = model<IWebhookEvent>('WebhookEvent', webhookEventSchema);
@@ -1,4 +1,18 @@
 export { Customer } from './Customer.model';
 export { Message } from './Message.model';
 export { Session } from './Session.model';
+export { OneTimeToken } from './OneTimeToken.model';
+export { SecurityEvent } from './SecurityEvent.model';
 
+export { AuditLog } from './AuditLog.model';
+export { Invitation } from './Invitation.model';
+export { ServiceM8Connection } from './ServiceM8Connection.model';
+export { Tenant } from './Tenant.model';
+export { CacheEntry } from './CacheEntry.model';
+export { WebhookEvent } from './WebhookEvent.model';
+export { MirroredJob } from './MirroredJob.model';
+export { MirroredCompany } from './MirroredCompany.model';
+export { MirroredAttachment } from './MirroredAttachment.model';
+export { SyncRun } from './SyncRun.model';
+export { CancellationRequest } from './CancellationRequest.model';
+export { RescheduleRequest } from './RescheduleRequest.model';
@@ -0,0 +1,138 @@
+import { Schema, Query, Document, Types } from 'mongoose';
+import { config } from '../../config/env';
+import { getCurrentTenantId, hasTenantScope } from '../../utils/tenantContext';
+import { InternalServerError } from '../../utils/errors';
+
+// Query operations that must only ever see the current tenant's documents
+const SCOPED_QUERIES = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+] as const;
+
+/**
+ * Tenant to scope an operation to, or undefined to leave it unscoped
+ *
+ * In multi-tenant mode every operation must run under `runWithTenant`, or
+ * `runWithoutTenant` for work that spans tenants. Anything else is a bug
+ * that would otherwise read or write every tenant's documents.
+ */
+const tenantFor = (operation: string): Types.ObjectId | undefined => {
+  const tenantId = getCurrentTenantId();
+  if (!tenantId && config.multiTenant && !hasTenantScope()) {
+    throw new InternalServerError(`${operation} ran outside a tenant context`);
+  }
+  return tenantId;
+};
+
+/**
+ * Put a document to be inserted in the current tenant
+ */
+const stamp = (doc: any, tenantId: Types.ObjectId): void => {
+  if (doc instanceof Document) {
+    doc.set('tenantId', tenantId);
+  } else if (doc) {
+    doc.tenantId = tenantId;
+  }
+};
+
+/**
+ * Limit one `bulkWrite` operation to the current tenant
+ *
+ * Filters are narrowed and inserted or replacing documents are stamped.
+ * Upserts pick the tenant up from the filter.
+ */
+const scopeBulkOperation = (op: any, tenantId: Types.ObjectId): void => {
+  if (op.insertOne) {
+    stamp(op.insertOne.document, tenantId);
+    return;
+  }
+
+  const [write] = Object.values(op) as any[];
+  write.filter = { ...write.filter, tenantId };
+  if (op.replaceOne) {
+    stamp(op.replaceOne.replacement, tenantId);
+  }
+};
+
+/**
+ * Scope a schema to the current tenant
+ *
+ * Adds a `tenantId` field, stamps it on new documents and adds it to every
+ * query, aggregation, `insertMany` and `bulkWrite` while a tenant is active
+ * (see `runWithTenant`). In single-tenant mode nothing changes; in
+ * multi-tenant mode operations outside any tenant context fail.
+ */
+export const tenantScopePlugin = (schema: Schema): void => {
+  schema.add({
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tenant',
+    },
+  });
+
+  schema.pre('validate', function (next) {
+    if (!this.isNew) {
+      return next();
+    }
+
+    const tenantId = tenantFor('save');
+    if (tenantId && !this.get('tenantId')) {
+      this.set('tenantId', tenantId);
+    }
+    next();
+  });
+
+  SCOPED_QUERIES.forEach(operation => {
+    schema.pre(operation, function (this: Query<unknown, unknown>, next) {
+      const tenantId = tenantFor(operation);
+      if (tenantId) {
+        this.where({ tenantId });
+      }
+      next();
+    });
+  });
+
+  // Counts the whole collection and can't be filtered
+  schema.pre('estimatedDocumentCount', function (next) {
+    if (tenantFor('estimatedDocumentCount')) {
+      throw new InternalServerError('estimatedDocumentCount counts every tenant; use countDocuments');
+    }
+    next();
+  });
+
+  schema.pre('aggregate', function (next) {
+    const tenantId = tenantFor('aggregate');
+    if (tenantId) {
+      this.pipeline().unshift({ $match: { tenantId } });
+    }
+    next();
+  });
+
+  schema.pre('insertMany', function (next, docs: unknown) {
+    const tenantId = tenantFor('insertMany');
+    if (tenantId) {
+      (Array.isArray(docs) ? docs : [docs]).forEach(doc => stamp(doc, tenantId));
+    }
+    next();
+  });
+
+  schema.pre('bulkWrite', function (next, ops: unknown[]) {
+    const tenantId = tenantFor('bulkWrite');
+    if (tenantId) {
+      ops.forEach(op => scopeBulkOperation(op, tenantId));
+    }
+    next();
+  });
+
+  schema.index({ tenantId: 1 });
+};
@@ -0,0 +1,66 @@
+/**
+ * Audit Log Repository
+ *
+ * Data access layer for AuditLog model
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { AuditLog } from '../models/AuditLog.model';
+import { IAuditLog } from '../types';
+
+/**
+ * Filter for listing audit entries
+ */
+export interface AuditLogFilter {
+  impersonatorId?: string;
+  customerId?: string;
+}
+
+export class AuditLogRepository extends BaseRepository<IAuditLog> {
+  constructor() {
+    super(AuditLog);
+  }
+
+  /**
+   * Record an audit entry
+   *
+   * @param entry - Audit entry fields
+   * @returns Created entry
+   */
+  async record(entry: Partial<IAuditLog>): Promise<IAuditLog> {
+    return this.create(entry);
+  }
+
+  /**
+   * List audit entries, newest first
+   *
+   * @param filter - Impersonator and/or customer to filter by
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Page of entries and the total count
+   */
+  async findPage(
+    filter: AuditLogFilter,
+    page: number,
+    limit: number
+  ): Promise<{ items: IAuditLog[]; total: number }> {
+    const query: any = {};
+    if (filter.impersonatorId && Types.ObjectId.isValid(filter.impersonatorId)) {
+      query.impersonatorId = filter.impersonatorId;
+    }
+    if (filter.customerId && Types.ObjectId.isValid(filter.customerId)) {
+      query.customerId = filter.customerId;
+    }
+
+    const [items, total] = await Promise.all([
+      this.find(query, { sort: { createdAt: -1 }, skip: (page - 1) * limit, limit }),
+      this.count(query),
+    ]);
+
+    return { items, total };
+  }
+}
+
+// Export singleton instance
+export const auditLogRepository = new AuditLogRepository();
@@ -0,0 +1,57 @@
+/**
+ * Cache Entry Repository
+ *
+ * Data access layer for CacheEntry model
+ */
+
+import { BaseRepository } from './base.repository';
+import { CacheEntry } from '../models/CacheEntry.model';
+import { ICacheEntry } from '../types';
+
+// Escape a string for use at the start of a regular expression
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class CacheEntryRepository extends BaseRepository<ICacheEntry> {
+  constructor() {
+    super(CacheEntry);
+  }
+
+  /**
+   * Find an unexpired entry
+   *
+   * @param key - Cache key
+   * @returns Entry or null if missing or expired
+   */
+  async findValid(key: string): Promise<ICacheEntry | null> {
+    return this.findOne({ key, expiresAt: { $gt: new Date() } });
+  }
+
+  /**
+   * Create or replace an entry
+   *
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param expiresAt - When the entry stops being served
+   */
+  async put(key: string, value: unknown, expiresAt: Date): Promise<void> {
+    await this.model
+      .updateOne({ key }, { $set: { value, expiresAt } }, { upsert: true })
+      .exec();
+  }
+
+  /**
+   * Delete every entry whose key starts with a prefix
+   *
+   * @param prefix - Key prefix
+   * @returns Number of entries deleted
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const result = await this.model
+      .deleteMany({ key: { $regex: `^${escapeRegExp(prefix)}` } })
+      .exec();
+    return result.deletedCount;
+  }
+}
+
+// Export singleton instance
+export const cacheEntryRepository = new CacheEntryRepository();
@@ -0,0 +1,90 @@
+/**
+ * Cancellation Request Repository
+ *
+ * Data access layer for CancellationRequest model
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { CancellationRequest } from '../models/CancellationRequest.model';
+import { CancellationStatus, ICancellationRequest } from '../types';
+
+export class CancellationRequestRepository extends BaseRepository<ICancellationRequest> {
+  constructor() {
+    super(CancellationRequest);
+  }
+
+  /**
+   * Mark a pending request as decided
+   *
+   * Only succeeds once, so two reviewers can't both act on a request. Claim
+   * a request this way before acting on the decision.
+   *
+   * @param id - Request ID
+   * @param status - Decision
+   * @param reviewedBy - Staff member who decided (omit when approved automatically)
+   * @param reviewNote - Note from the reviewer
+   * @returns Updated request, or null if it was no longer pending
+   */
+  async markDecided(
+    id: string | Types.ObjectId,
+    status: Exclude<CancellationStatus, 'pending'>,
+    reviewedBy?: Types.ObjectId,
+    reviewNote?: string
+  ): Promise<ICancellationRequest | null> {
+    return this.updateOne(
+      { _id: id, status: 'pending' },
+      {
+        status,
+        reviewedAt: new Date(),
+        ...(reviewedBy ? { reviewedBy } : { autoApproved: true }),
+        ...(reviewNote && { reviewNote }),
+      }
+    );
+  }
+
+  /**
+   * Put an approved request back to pending
+   *
+   * Used when cancelling the job fails after the request was claimed, so it
+   * can be approved again.
+   *
+   * @param id - Request ID
+   * @returns Reopened request, or null if it was not approved
+   */
+  async reopen(id: string | Types.ObjectId): Promise<ICancellationRequest | null> {
+    return this.updateOne(
+      { _id: id, status: 'approved' },
+      {
+        $set: { status: 'pending', autoApproved: false },
+        $unset: { reviewedBy: 1, reviewedAt: 1, reviewNote: 1 },
+      }
+    );
+  }
+
+  /**
+   * List requests, newest first
+   *
+   * @param status - Only requests with this status (default: all)
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Page of requests and the total count
+   */
+  async findPage(
+    status: CancellationStatus | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: ICancellationRequest[]; total: number }> {
+    const query = status ? { status } : {};
+
+    const [items, total] = await Promise.all([
+      this.find(query, { sort: { createdAt: -1 }, skip: (page - 1) * limit, limit }),
+      this.count(query),
+    ]);
+
+    return { items, total };
+  }
+}
+
+// Export singleton instance
+export const cancellationRequestRepository = new CancellationRequestRepository();
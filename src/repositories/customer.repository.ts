@@ -4,9 +4,10 @@
  * Data access layer for Customer model
  */
 
+import { Types } from 'mongoose';
 import { BaseRepository } from './base.repository';
 import { Customer } from '../models/Customer.model';
-import { ICustomer } from '../types';
+import { ICustomer, Role } from '../types';
 
 export class CustomerRepository extends BaseRepository<ICustomer> {
   constructor() {
@@ -61,11 +62,159 @@ export class CustomerRepository extends BaseRepository<ICustomer> {
   /**
    * Find customer by ServiceM8 client UUID
    *
+   * Deleted (anonymised) accounts are ignored.
+   *
    * @param uuid - ServiceM8 client UUID
    * @returns Customer or null if not found
    */
   async findByServiceM8Uuid(uuid: string): Promise<ICustomer | null> {
-    return this.findOne({ servicem8ClientUuid: uuid });
+    return this.findOne({ servicem8ClientUuid: uuid, deletedAt: { $exists: false } });
+  }
+
+  /**
+   * Find every active portal user of a ServiceM8 company
+   *
+   * @param uuid - ServiceM8 client UUID
+   * @returns Customers, oldest first
+   */
+  async findAllByServiceM8Uuid(uuid: string): Promise<ICustomer[]> {
+    return this.find(
+      { servicem8ClientUuid: uuid, deletedAt: { $exists: false } },
+      { sort: { createdAt: 1 } }
+    );
+  }
+
+  /**
+   * Get the ServiceM8 companies linked to at least one active account
+   *
+   * @returns Company UUIDs
+   */
+  async findLinkedCompanyUuids(): Promise<Set<string>> {
+    const customers = await this.find(
+      { servicem8ClientUuid: { $exists: true, $ne: null }, deletedAt: { $exists: false } },
+      { select: 'servicem8ClientUuid' }
+    );
+    return new Set(customers.map(customer => customer.servicem8ClientUuid!));
+  }
+
+  /**
+   * Count a company's owners
+   *
+   * @param uuid - ServiceM8 client UUID
+   * @returns Number of active owners
+   */
+  async countOwners(uuid: string): Promise<number> {
+    return this.count({
+      servicem8ClientUuid: uuid,
+      companyRole: 'owner',
+      deletedAt: { $exists: false },
+    });
+  }
+
+  /**
+   * List accounts, newest first, optionally filtered by role
+   *
+   * Deleted (anonymised) accounts are excluded.
+   *
+   * @param role - Only return accounts with this role
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Page of accounts and the total count
+   */
+  async findPage(
+    role: Role | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: ICustomer[]; total: number }> {
+    const filter: any = { deletedAt: { $exists: false } };
+    if (role) {
+      filter.role = role;
+    }
+
+    const [items, total] = await Promise.all([
+      this.find(filter, { sort: { createdAt: -1 }, skip: (page - 1) * limit, limit }),
+      this.count(filter),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Record a failed login attempt
+   *
+   * @param id - Customer ID
+   * @returns Updated customer or null if not found
+   */
+  async recordFailedLogin(id: string | Types.ObjectId): Promise<ICustomer | null> {
+    return this.update(id.toString(), {
+      $inc: { failedLoginAttempts: 1 },
+      $set: { lastFailedLoginAt: new Date() },
+    });
+  }
+
+  /**
+   * Lock a customer's account until a given time
+   *
+   * @param id - Customer ID
+   * @param lockedUntil - When the lock expires
+   * @returns Updated customer or null if not found
+   */
+  async lock(id: string | Types.ObjectId, lockedUntil: Date): Promise<ICustomer | null> {
+    return this.update(id.toString(), { $set: { lockedUntil } });
+  }
+
+  /**
+   * Open a 2FA login challenge, replacing any earlier one
+   *
+   * @param id - Customer ID
+   * @param challengeId - Hashed challenge ID
+   * @returns Updated customer or null if not found
+   */
+  async openTwoFactorChallenge(id: string | Types.ObjectId, challengeId: string): Promise<ICustomer | null> {
+    return this.update(id.toString(), {
+      $set: { twoFactorChallengeId: challengeId, twoFactorChallengeAttempts: 0 },
+    });
+  }
+
+  /**
+   * Count an attempt against an open 2FA challenge
+   *
+   * @param id - Customer ID
+   * @param challengeId - Hashed challenge ID
+   * @returns Updated customer, or null if the challenge is no longer open
+   */
+  async recordTwoFactorAttempt(id: string | Types.ObjectId, challengeId: string): Promise<ICustomer | null> {
+    return this.updateOne(
+      { _id: id, twoFactorChallengeId: challengeId },
+      { $inc: { twoFactorChallengeAttempts: 1 } }
+    );
+  }
+
+  /**
+   * Close a 2FA challenge so its token can't be used again
+   *
+   * @param id - Customer ID
+   * @param challengeId - Hashed challenge ID
+   * @returns Updated customer, or null if the challenge was already closed
+   */
+  async closeTwoFactorChallenge(id: string | Types.ObjectId, challengeId: string): Promise<ICustomer | null> {
+    return this.updateOne(
+      { _id: id, twoFactorChallengeId: challengeId },
+      { $unset: { twoFactorChallengeId: 1, twoFactorChallengeAttempts: 1 } }
+    );
+  }
+
+  /**
+   * Clear failed login tracking and any lock
+   *
+   * @param id - Customer ID
+   * @returns Updated customer or null if not found
+   */
+  async resetFailedLogins(id: string | Types.ObjectId): Promise<ICustomer | null> {
+    return this.update(id.toString(), {
+      $set: { failedLoginAttempts: 0 },
+      $unset: { lastFailedLoginAt: 1, lockedUntil: 1 },
+    });
   }
 }
 
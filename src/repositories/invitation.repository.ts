@@ -0,0 +1,106 @@
+/**
+ * Invitation Repository
+ *
+ * Data access layer for Invitation model
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { Invitation } from '../models/Invitation.model';
+import { CompanyRole, IInvitation } from '../types';
+
+export class InvitationRepository extends BaseRepository<IInvitation> {
+  constructor() {
+    super(Invitation);
+  }
+
+  /**
+   * Create an invitation
+   *
+   * @param companyUuid - ServiceM8 company the invitee will join
+   * @param email - Invitee's email
+   * @param companyRole - Role the invitee will get
+   * @param tokenHash - Hash of the invitation token
+   * @param invitedBy - Customer who sent the invitation
+   * @param expiresAt - Expiration date
+   * @returns Created invitation
+   */
+  async createInvitation(
+    companyUuid: string,
+    email: string,
+    companyRole: CompanyRole,
+    tokenHash: string,
+    invitedBy: string | Types.ObjectId,
+    expiresAt: Date
+  ): Promise<IInvitation> {
+    return this.create({
+      companyUuid,
+      email,
+      companyRole,
+      tokenHash,
+      invitedBy: invitedBy as any,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Find pending (unaccepted, unexpired) invitations for a company
+   *
+   * @param companyUuid - ServiceM8 company UUID
+   * @returns Invitations, newest first
+   */
+  async findPendingByCompany(companyUuid: string): Promise<IInvitation[]> {
+    return this.find(
+      { companyUuid, acceptedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { sort: { createdAt: -1 } }
+    );
+  }
+
+  /**
+   * Find a pending invitation by token hash
+   *
+   * @param tokenHash - Hash of the invitation token
+   * @returns Invitation or null if unknown, accepted or expired
+   */
+  async findPendingByTokenHash(tokenHash: string): Promise<IInvitation | null> {
+    return this.findOne({
+      tokenHash,
+      acceptedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  /**
+   * Atomically mark a pending invitation as accepted
+   *
+   * @param id - Invitation ID
+   * @param acceptedBy - Customer created from the invitation
+   * @returns Updated invitation or null if it was already accepted
+   */
+  async markAccepted(
+    id: string | Types.ObjectId,
+    acceptedBy: string | Types.ObjectId
+  ): Promise<IInvitation | null> {
+    return this.updateOne(
+      { _id: id, acceptedAt: { $exists: false } },
+      { $set: { acceptedAt: new Date(), acceptedBy } }
+    );
+  }
+
+  /**
+   * Delete pending invitations for an email within a company
+   *
+   * @param companyUuid - ServiceM8 company UUID
+   * @param email - Invitee's email
+   * @returns Number of deleted invitations
+   */
+  async deletePendingForEmail(companyUuid: string, email: string): Promise<number> {
+    const result = await this.model
+      .deleteMany({ companyUuid, email, acceptedAt: { $exists: false } })
+      .exec();
+    return result.deletedCount || 0;
+  }
+}
+
+// Export singleton instance
+export const invitationRepository = new InvitationRepository();
@@ -43,6 +43,39 @@ export class MessageRepository extends BaseRepository<IMessage> {
       .exec();
   }
 
+  /**
+   * Find all messages written by or for a customer (lean)
+   *
+   * @param customerId - Customer ID
+   * @returns Array of message objects, oldest first
+   */
+  async findByCustomerIdLean(customerId: string | Types.ObjectId): Promise<any[]> {
+    return this.model
+      .find({ customerId })
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Replace the text of every message a customer (or staff member) wrote
+   *
+   * System messages are kept since they only describe job events.
+   *
+   * @param customerId - Customer ID
+   * @param replacement - Text to store instead
+   * @returns Number of redacted messages
+   */
+  async redactCustomerMessages(
+    customerId: string | Types.ObjectId,
+    replacement: string
+  ): Promise<number> {
+    const result = await this.model
+      .updateMany({ customerId, senderType: { $ne: 'system' } }, { $set: { message: replacement } })
+      .exec();
+    return result.modifiedCount || 0;
+  }
+
   /**
    * Create customer message
    *
@@ -64,6 +97,27 @@ export class MessageRepository extends BaseRepository<IMessage> {
     });
   }
 
+  /**
+   * Create staff reply
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @param staffId - ID of the staff member replying
+   * @param message - Message content
+   * @returns Created message
+   */
+  async createStaffMessage(
+    jobUuid: string,
+    staffId: string | Types.ObjectId,
+    message: string
+  ): Promise<IMessage> {
+    return this.create({
+      jobUuid,
+      customerId: staffId as any,
+      message,
+      senderType: 'staff',
+    });
+  }
+
   /**
    * Create system message
    *
@@ -0,0 +1,92 @@
+/**
+ * Mirror Repository
+ *
+ * Shared data access for local copies of ServiceM8 records. Records are
+ * keyed by their ServiceM8 UUID within the current tenant.
+ */
+
+import { AnyBulkWriteOperation, FilterQuery, Model } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { getCurrentTenantId } from '../utils/tenantContext';
+import { IMirrorRecord } from '../types';
+
+/**
+ * Fields written when a record is synced (syncedAt is added automatically)
+ */
+export type MirrorUpsert<T extends IMirrorRecord> = Partial<Omit<T, 'syncedAt'>> & { uuid: string };
+
+export abstract class MirrorRepository<T extends IMirrorRecord> extends BaseRepository<T> {
+  constructor(model: Model<T>) {
+    super(model);
+  }
+
+  /**
+   * Find a record by ServiceM8 UUID
+   */
+  async findByUuid(uuid: string): Promise<T | null> {
+    const filter: FilterQuery<T> = { uuid };
+    return this.findOne(filter);
+  }
+
+  /**
+   * Find which of the given UUIDs are mirrored
+   *
+   * @param uuids - ServiceM8 UUIDs
+   * @returns The UUIDs that have a local record
+   */
+  async findExistingUuids(uuids: string[]): Promise<Set<string>> {
+    if (uuids.length === 0) {
+      return new Set();
+    }
+    const filter: FilterQuery<T> = { uuid: { $in: uuids } };
+    const records = await this.find(filter, { select: 'uuid' });
+    return new Set(records.map(record => record.uuid));
+  }
+
+  /**
+   * Remove the records with the given UUIDs
+   *
+   * @param uuids - ServiceM8 UUIDs
+   * @returns Number of records removed
+   */
+  async deleteByUuids(uuids: string[]): Promise<number> {
+    if (uuids.length === 0) {
+      return 0;
+    }
+    const filter: FilterQuery<T> = { uuid: { $in: uuids } };
+    const result = await this.model.deleteMany(filter).exec();
+    return result.deletedCount || 0;
+  }
+
+  /**
+   * Insert or update records in one round trip
+   *
+   * Bulk writes skip the tenant plugin's hooks, so the tenant is added to
+   * the filter and the document here.
+   *
+   * @param records - Records to write
+   * @returns Number of records written
+   */
+  async upsertMany(records: MirrorUpsert<T>[]): Promise<number> {
+    if (records.length === 0) {
+      return 0;
+    }
+
+    const tenantId = getCurrentTenantId();
+    const syncedAt = new Date();
+
+    const operations: AnyBulkWriteOperation<T>[] = records.map(record => ({
+      updateOne: {
+        filter: tenantId ? { uuid: record.uuid, tenantId } : { uuid: record.uuid },
+        update: {
+          $set: { ...record, syncedAt },
+          ...(tenantId && { $setOnInsert: { tenantId } }),
+        },
+        upsert: true,
+      },
+    }));
+    await this.model.bulkWrite(operations, { ordered: false });
+
+    return records.length;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Mirrored Attachment Repository
+ *
+ * Data access layer for MirroredAttachment model
+ */
+
+import { MirrorRepository } from './mirror.repository';
+import { MirroredAttachment } from '../models/MirroredAttachment.model';
+import { IMirroredAttachment } from '../types';
+
+export class MirroredAttachmentRepository extends MirrorRepository<IMirroredAttachment> {
+  constructor() {
+    super(MirroredAttachment);
+  }
+
+  /**
+   * Find a job's active attachments
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @returns Attachments, oldest first
+   */
+  async findActiveByJob(jobUuid: string): Promise<IMirroredAttachment[]> {
+    return this.find({ jobUuid, active: true }, { sort: { createdAt: 1 } });
+  }
+
+  /**
+   * Remove the attachments of some jobs
+   *
+   * @param jobUuids - ServiceM8 Job UUIDs
+   * @returns Number of attachments removed
+   */
+  async deleteByJobs(jobUuids: string[]): Promise<number> {
+    if (jobUuids.length === 0) {
+      return 0;
+    }
+    const result = await this.model.deleteMany({ jobUuid: { $in: jobUuids } }).exec();
+    return result.deletedCount || 0;
+  }
+}
+
+// Export singleton instance
+export const mirroredAttachmentRepository = new MirroredAttachmentRepository();
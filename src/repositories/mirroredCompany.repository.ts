@@ -0,0 +1,18 @@
+/**
+ * Mirrored Company Repository
+ *
+ * Data access layer for MirroredCompany model
+ */
+
+import { MirrorRepository } from './mirror.repository';
+import { MirroredCompany } from '../models/MirroredCompany.model';
+import { IMirroredCompany } from '../types';
+
+export class MirroredCompanyRepository extends MirrorRepository<IMirroredCompany> {
+  constructor() {
+    super(MirroredCompany);
+  }
+}
+
+// Export singleton instance
+export const mirroredCompanyRepository = new MirroredCompanyRepository();
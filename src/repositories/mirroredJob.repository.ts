@@ -0,0 +1,43 @@
+/**
+ * Mirrored Job Repository
+ *
+ * Data access layer for MirroredJob model
+ */
+
+import { MirrorRepository } from './mirror.repository';
+import { MirroredJob } from '../models/MirroredJob.model';
+import { IMirroredJob } from '../types';
+
+/**
+ * Filter for active mirrored jobs
+ */
+export interface MirroredJobFilter {
+  companyUuid?: string; // Omit for every company
+  status?: string;
+}
+
+export class MirroredJobRepository extends MirrorRepository<IMirroredJob> {
+  constructor() {
+    super(MirroredJob);
+  }
+
+  /**
+   * Find active jobs, optionally for one company and status
+   *
+   * @param filter - Company and status to match
+   * @returns Matching jobs
+   */
+  async findActive(filter: MirroredJobFilter): Promise<IMirroredJob[]> {
+    const query: any = { active: true };
+    if (filter.companyUuid) {
+      query.companyUuid = filter.companyUuid;
+    }
+    if (filter.status) {
+      query.status = filter.status;
+    }
+    return this.find(query);
+  }
+}
+
+// Export singleton instance
+export const mirroredJobRepository = new MirroredJobRepository();
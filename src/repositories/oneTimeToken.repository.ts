@@ -0,0 +1,135 @@
+/**
+ * One-time Token Repository
+ *
+ * Data access layer for OneTimeToken model
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { OneTimeToken } from '../models/OneTimeToken.model';
+import { IOneTimeToken, OneTimeTokenPurpose } from '../types';
+
+export class OneTimeTokenRepository extends BaseRepository<IOneTimeToken> {
+  constructor() {
+    super(OneTimeToken);
+  }
+
+  /**
+   * Create a one-time token for a customer
+   *
+   * @param customerId - Customer ID
+   * @param purpose - What the token can be used for
+   * @param tokenHash - Hashed token
+   * @param expiresAt - Expiration date
+   * @returns Created token
+   */
+  async createToken(
+    customerId: string | Types.ObjectId,
+    purpose: OneTimeTokenPurpose,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<IOneTimeToken> {
+    return this.create({
+      customerId: customerId as any,
+      purpose,
+      tokenHash,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Atomically mark a token as used
+   *
+   * Only unused, unexpired tokens for the given purpose can be consumed,
+   * so a token can never be redeemed twice.
+   *
+   * @param tokenHash - Hashed token
+   * @param purpose - Expected purpose
+   * @returns Consumed token or null if invalid, expired or already used
+   */
+  async consume(tokenHash: string, purpose: OneTimeTokenPurpose): Promise<IOneTimeToken | null> {
+    return this.updateOne(
+      {
+        tokenHash,
+        purpose,
+        consumedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { consumedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Find the most recent unused, unexpired token of a purpose for a customer
+   *
+   * @param customerId - Customer ID
+   * @param purpose - Token purpose
+   * @returns Token or null if none is active
+   */
+  async findActive(
+    customerId: string | Types.ObjectId,
+    purpose: OneTimeTokenPurpose
+  ): Promise<IOneTimeToken | null> {
+    return this.model
+      .findOne({
+        customerId,
+        purpose,
+        consumedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Record a failed verification attempt
+   *
+   * @param id - Token ID
+   * @returns Updated token or null if not found
+   */
+  async incrementAttempts(id: string | Types.ObjectId): Promise<IOneTimeToken | null> {
+    return this.update(id.toString(), { $inc: { attempts: 1 } });
+  }
+
+  /**
+   * Mark a token as used by ID
+   *
+   * @param id - Token ID
+   * @returns Consumed token or null if it was already used
+   */
+  async consumeById(id: string | Types.ObjectId): Promise<IOneTimeToken | null> {
+    return this.updateOne(
+      { _id: id, consumedAt: { $exists: false } },
+      { $set: { consumedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Delete all tokens of a purpose for a customer
+   *
+   * @param customerId - Customer ID
+   * @param purpose - Token purpose
+   * @returns Number of deleted tokens
+   */
+  async deleteByCustomerId(
+    customerId: string | Types.ObjectId,
+    purpose: OneTimeTokenPurpose
+  ): Promise<number> {
+    const result = await this.model.deleteMany({ customerId, purpose }).exec();
+    return result.deletedCount || 0;
+  }
+
+  /**
+   * Delete every token for a customer, whatever its purpose
+   *
+   * @param customerId - Customer ID
+   * @returns Number of deleted tokens
+   */
+  async deleteAllForCustomer(customerId: string | Types.ObjectId): Promise<number> {
+    const result = await this.model.deleteMany({ customerId }).exec();
+    return result.deletedCount || 0;
+  }
+}
+
+// Export singleton instance
+export const oneTimeTokenRepository = new OneTimeTokenRepository();
@@ -0,0 +1,99 @@
+/**
+ * Reschedule Request Repository
+ *
+ * Data access layer for RescheduleRequest model
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { RescheduleRequest } from '../models/RescheduleRequest.model';
+import { IRescheduleRequest, RescheduleStatus } from '../types';
+
+export class RescheduleRequestRepository extends BaseRepository<IRescheduleRequest> {
+  constructor() {
+    super(RescheduleRequest);
+  }
+
+  /**
+   * Find requests holding time in a period
+   *
+   * Pending requests hold their slot until staff decide; confirmed ones
+   * until the visit is booked in the ServiceM8 diary.
+   *
+   * @param from - Start of the period
+   * @param to - End of the period
+   * @returns Pending and confirmed requests overlapping the period, newest first
+   */
+  async findHolds(from: Date, to: Date): Promise<IRescheduleRequest[]> {
+    return this.find(
+      { status: { $in: ['pending', 'confirmed'] }, startsAt: { $lt: to }, endsAt: { $gt: from } },
+      { sort: { createdAt: -1 } }
+    );
+  }
+
+  /**
+   * Mark a pending request as decided
+   *
+   * Only succeeds once, so two reviewers can't both act on a request. Claim
+   * a request this way before acting on the decision.
+   *
+   * @param id - Request ID
+   * @param status - Decision
+   * @param reviewedBy - Staff member who decided
+   * @param reviewNote - Note from the reviewer
+   * @returns Updated request, or null if it was no longer pending
+   */
+  async markDecided(
+    id: string | Types.ObjectId,
+    status: Exclude<RescheduleStatus, 'pending'>,
+    reviewedBy: Types.ObjectId,
+    reviewNote?: string
+  ): Promise<IRescheduleRequest | null> {
+    return this.updateOne(
+      { _id: id, status: 'pending' },
+      { status, reviewedBy, reviewedAt: new Date(), ...(reviewNote && { reviewNote }) }
+    );
+  }
+
+  /**
+   * Put a confirmed request back to pending
+   *
+   * Used when moving the job fails after the request was claimed, so it can
+   * be confirmed or declined again.
+   *
+   * @param id - Request ID
+   * @returns Reopened request, or null if it was not confirmed
+   */
+  async reopen(id: string | Types.ObjectId): Promise<IRescheduleRequest | null> {
+    return this.updateOne(
+      { _id: id, status: 'confirmed' },
+      { $set: { status: 'pending' }, $unset: { reviewedBy: 1, reviewedAt: 1, reviewNote: 1 } }
+    );
+  }
+
+  /**
+   * List requests, newest first
+   *
+   * @param status - Only requests with this status (default: all)
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Page of requests and the total count
+   */
+  async findPage(
+    status: RescheduleStatus | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: IRescheduleRequest[]; total: number }> {
+    const query = status ? { status } : {};
+
+    const [items, total] = await Promise.all([
+      this.find(query, { sort: { createdAt: -1 }, skip: (page - 1) * limit, limit }),
+      this.count(query),
+    ]);
+
+    return { items, total };
+  }
+}
+
+// Export singleton instance
+export const rescheduleRequestRepository = new RescheduleRequestRepository();
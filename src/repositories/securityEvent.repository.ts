@@ -0,0 +1,72 @@
+/**
+ * Security Event Repository
+ *
+ * Data access layer for SecurityEvent model
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { SecurityEvent } from '../models/SecurityEvent.model';
+import { ISecurityEvent, SecurityEventType, SessionContext } from '../types';
+
+export class SecurityEventRepository extends BaseRepository<ISecurityEvent> {
+  constructor() {
+    super(SecurityEvent);
+  }
+
+  /**
+   * Record a security event
+   *
+   * @param type - Event type
+   * @param customerId - Customer the event relates to (if known)
+   * @param context - Client details (IP, user agent)
+   * @param metadata - Extra details
+   * @returns Created event
+   */
+  async record(
+    type: SecurityEventType,
+    customerId?: string | Types.ObjectId,
+    context: SessionContext = {},
+    metadata?: Record<string, any>
+  ): Promise<ISecurityEvent> {
+    return this.create({
+      type,
+      customerId: customerId as any,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata,
+    });
+  }
+
+  /**
+   * Find recent events for a customer
+   *
+   * @param customerId - Customer ID
+   * @param limit - Maximum number of events (default: 50)
+   * @returns Events, newest first
+   */
+  async findByCustomerId(
+    customerId: string | Types.ObjectId,
+    limit: number = 50
+  ): Promise<ISecurityEvent[]> {
+    return this.find({ customerId }, { sort: { createdAt: -1 }, limit });
+  }
+
+  /**
+   * Strip client details (IP address, user agent) from a customer's events
+   *
+   * The events themselves are kept as an audit trail.
+   *
+   * @param customerId - Customer ID
+   * @returns Number of updated events
+   */
+  async anonymiseByCustomerId(customerId: string | Types.ObjectId): Promise<number> {
+    const result = await this.model
+      .updateMany({ customerId }, { $unset: { ipAddress: 1, userAgent: 1 } })
+      .exec();
+    return result.modifiedCount || 0;
+  }
+}
+
+// Export singleton instance
+export const securityEventRepository = new SecurityEventRepository();
@@ -0,0 +1,71 @@
+/**
+ * ServiceM8 Connection Repository
+ *
+ * Data access layer for ServiceM8Connection model
+ */
+
+import { BaseRepository } from './base.repository';
+import { ServiceM8Connection } from '../models/ServiceM8Connection.model';
+import { IServiceM8Connection } from '../types';
+
+/**
+ * Tokens to store (already encrypted)
+ */
+export interface ConnectionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+  scope?: string;
+}
+
+export class ServiceM8ConnectionRepository extends BaseRepository<IServiceM8Connection> {
+  constructor() {
+    super(ServiceM8Connection);
+  }
+
+  /**
+   * Find the connection for an installation
+   *
+   * @param key - Installation key
+   * @returns Connection or null if ServiceM8 hasn't been connected
+   */
+  async findByKey(key: string): Promise<IServiceM8Connection | null> {
+    return this.findOne({ key });
+  }
+
+  /**
+   * Create or replace the connection for an installation
+   *
+   * @param key - Installation key
+   * @param tokens - Encrypted tokens
+   * @param connectedBy - Admin who completed the install
+   * @returns Stored connection
+   */
+  async upsertTokens(
+    key: string,
+    tokens: ConnectionTokens,
+    connectedBy?: string
+  ): Promise<IServiceM8Connection> {
+    return this.model
+      .findOneAndUpdate(
+        { key },
+        { ...tokens, connectedBy, $unset: { lastRefreshedAt: 1 } },
+        { new: true, upsert: true, runValidators: true }
+      )
+      .exec() as Promise<IServiceM8Connection>;
+  }
+
+  /**
+   * Store tokens returned by a refresh
+   *
+   * @param key - Installation key
+   * @param tokens - Encrypted tokens
+   * @returns Updated connection, or null if it was disconnected meanwhile
+   */
+  async updateTokens(key: string, tokens: ConnectionTokens): Promise<IServiceM8Connection | null> {
+    return this.updateOne({ key }, { ...tokens, lastRefreshedAt: new Date() });
+  }
+}
+
+// Export singleton instance
+export const servicem8ConnectionRepository = new ServiceM8ConnectionRepository();
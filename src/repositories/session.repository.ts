@@ -7,7 +7,8 @@
 import { Types } from 'mongoose';
 import { BaseRepository } from './base.repository';
 import { Session } from '../models/Session.model';
-import { ISession } from '../types';
+import { ISession, SessionContext } from '../types';
+import { describeUserAgent } from '../utils/userAgent.utils';
 
 export class SessionRepository extends BaseRepository<ISession> {
   constructor() {
@@ -15,13 +16,60 @@ export class SessionRepository extends BaseRepository<ISession> {
   }
 
   /**
-   * Find session by token
+   * Find a live session by its current refresh token hash
    *
-   * @param token - JWT token
-   * @returns Session or null if not found
+   * @param refreshTokenHash - Hashed refresh token
+   * @returns Session or null if not found or expired
    */
-  async findByToken(token: string): Promise<ISession | null> {
-    return this.findOne({ token });
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<ISession | null> {
+    return this.findOne({ refreshTokenHash, expiresAt: { $gt: new Date() } });
+  }
+
+  /**
+   * Find a live (not expired) session by ID
+   *
+   * @param sessionId - Session ID
+   * @returns Session or null if not found or expired
+   */
+  async findActiveById(sessionId: string): Promise<ISession | null> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+
+    return this.findOne({ _id: sessionId, expiresAt: { $gt: new Date() } });
+  }
+
+  /**
+   * Update the last-seen timestamp of a session
+   *
+   * Skips the write if the session was already touched within the interval,
+   * so authenticated requests don't each cost a database write.
+   *
+   * @param sessionId - Session ID
+   * @param intervalMs - Minimum time between updates (default: 1 minute)
+   */
+  async touch(sessionId: string | Types.ObjectId, intervalMs: number = 60 * 1000): Promise<void> {
+    const threshold = new Date(Date.now() - intervalMs);
+
+    await this.model
+      .updateOne(
+        {
+          _id: sessionId,
+          $or: [{ lastUsedAt: { $exists: false } }, { lastUsedAt: { $lt: threshold } }],
+        },
+        { $set: { lastUsedAt: new Date() } }
+      )
+      .exec();
+  }
+
+  /**
+   * Find the session a previously rotated refresh token belonged to
+   *
+   * @param refreshTokenHash - Hashed refresh token
+   * @returns Session or null if the token was never rotated
+   */
+  async findByPreviousTokenHash(refreshTokenHash: string): Promise<ISession | null> {
+    return this.findOne({ previousTokenHashes: refreshTokenHash });
   }
 
   /**
@@ -31,37 +79,116 @@ export class SessionRepository extends BaseRepository<ISession> {
    * @returns Array of sessions
    */
   async findByCustomerId(customerId: string | Types.ObjectId): Promise<ISession[]> {
-    return this.find({ customerId });
+    // Impersonation sessions belong to the admin, not the customer's devices
+    return this.find(
+      { customerId, impersonatorId: { $exists: false }, expiresAt: { $gt: new Date() } },
+      {
+        sort: { lastUsedAt: -1 }, // Most recently used first
+      }
+    );
+  }
+
+  /**
+   * Delete a session owned by a customer
+   *
+   * @param sessionId - Session ID
+   * @param customerId - Customer ID
+   * @returns True if deleted, false if not found or not owned by the customer
+   */
+  async deleteForCustomer(
+    sessionId: string,
+    customerId: string | Types.ObjectId
+  ): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    return this.deleteOne({ _id: sessionId, customerId });
   }
 
   /**
    * Create session for customer
    *
    * @param customerId - Customer ID
-   * @param token - JWT token
+   * @param refreshTokenHash - Hashed refresh token
    * @param expiresAt - Expiration date
+   * @param context - Client details (user agent, IP, device name)
    * @returns Created session
    */
   async createSession(
     customerId: string | Types.ObjectId,
-    token: string,
-    expiresAt: Date
+    refreshTokenHash: string,
+    expiresAt: Date,
+    context: SessionContext = {}
   ): Promise<ISession> {
     return this.create({
       customerId: customerId as any,
-      token,
+      refreshTokenHash,
+      previousTokenHashes: [],
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      deviceLabel: context.deviceName || describeUserAgent(context.userAgent),
+      lastUsedAt: new Date(),
       expiresAt,
     });
   }
 
   /**
-   * Delete session by token
+   * Create a session for an admin impersonating a customer
    *
-   * @param token - JWT token
-   * @returns True if deleted, false if not found
+   * @param customerId - Customer being impersonated
+   * @param impersonatorId - Admin acting as the customer
+   * @param allowDestructive - Whether destructive job operations are allowed
+   * @param refreshTokenHash - Hash of an unissued token (impersonation can't be refreshed)
+   * @param expiresAt - Expiration date
+   * @param context - Client details
+   * @returns Created session
    */
-  async deleteByToken(token: string): Promise<boolean> {
-    return this.deleteOne({ token });
+  async createImpersonationSession(
+    customerId: string | Types.ObjectId,
+    impersonatorId: string | Types.ObjectId,
+    allowDestructive: boolean,
+    refreshTokenHash: string,
+    expiresAt: Date,
+    context: SessionContext = {}
+  ): Promise<ISession> {
+    return this.create({
+      customerId: customerId as any,
+      impersonatorId: impersonatorId as any,
+      allowDestructive,
+      refreshTokenHash,
+      previousTokenHashes: [],
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      deviceLabel: 'Impersonation',
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Atomically replace the current refresh token of a session
+   *
+   * Only succeeds if the presented hash is still current, so two concurrent
+   * refreshes with the same token cannot both rotate.
+   *
+   * @param currentHash - Hash of the refresh token being rotated
+   * @param nextHash - Hash of the newly issued refresh token
+   * @param expiresAt - New expiration date
+   * @returns Updated session or null if the token is no longer current
+   */
+  async rotateRefreshToken(
+    currentHash: string,
+    nextHash: string,
+    expiresAt: Date
+  ): Promise<ISession | null> {
+    return this.updateOne(
+      { refreshTokenHash: currentHash, expiresAt: { $gt: new Date() } },
+      {
+        $set: { refreshTokenHash: nextHash, expiresAt, lastUsedAt: new Date() },
+        $push: { previousTokenHashes: currentHash },
+      }
+    );
   }
 
   /**
@@ -75,6 +202,23 @@ export class SessionRepository extends BaseRepository<ISession> {
     return result.deletedCount || 0;
   }
 
+  /**
+   * Delete all sessions for a customer except one (e.g. the current device)
+   *
+   * @param customerId - Customer ID
+   * @param keepSessionId - Session to keep
+   * @returns Number of deleted sessions
+   */
+  async deleteOthersForCustomer(
+    customerId: string | Types.ObjectId,
+    keepSessionId: string
+  ): Promise<number> {
+    const result = await this.model
+      .deleteMany({ customerId, _id: { $ne: keepSessionId } })
+      .exec();
+    return result.deletedCount || 0;
+  }
+
   /**
    * Delete expired sessions
    *
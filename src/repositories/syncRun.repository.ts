@@ -0,0 +1,94 @@
+/**
+ * Sync Run Repository
+ *
+ * Data access layer for SyncRun model
+ */
+
+import { BaseRepository } from './base.repository';
+import { SyncRun } from '../models/SyncRun.model';
+import { ISyncRun, MirrorEntity, SyncFailure, SyncTrigger } from '../types';
+
+// Failures kept on a rolling webhook run
+const MAX_WEBHOOK_FAILURES = 100;
+
+export class SyncRunRepository extends BaseRepository<ISyncRun> {
+  constructor() {
+    super(SyncRun);
+  }
+
+  /**
+   * Find the latest finished full run (scheduled or manual)
+   *
+   * Its watermarks are where the next run starts.
+   *
+   * @returns Run, or null before the first sync
+   */
+  async findLatestFullRun(): Promise<ISyncRun | null> {
+    return this.model
+      .findOne({ trigger: { $in: ['schedule', 'manual'] }, status: { $ne: 'running' } })
+      .sort({ startedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Get a page of runs, newest first
+   *
+   * @param trigger - Only runs started this way (default: all)
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  async findPage(
+    trigger: SyncTrigger | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: ISyncRun[]; total: number }> {
+    const query = trigger ? { trigger } : {};
+
+    const [items, total] = await Promise.all([
+      this.find(query, { sort: { startedAt: -1 }, skip: (page - 1) * limit, limit }),
+      this.count(query),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Count a webhook change on the rolling run for a period
+   *
+   * Webhook changes share one run per period rather than getting a run
+   * each, so they don't bury full runs. The first change in a period
+   * creates the run.
+   *
+   * @param startedAt - Start of the period
+   * @param entity - Kind of record changed
+   * @param stored - Records written
+   * @param failure - Why the change couldn't be applied, if it failed
+   */
+  async recordWebhookChange(
+    startedAt: Date,
+    entity: MirrorEntity,
+    stored: number,
+    failure?: SyncFailure
+  ): Promise<void> {
+    const update = {
+      $inc: { changes: 1, [`counts.${entity}`]: stored },
+      $set: { finishedAt: new Date(), ...(failure && { status: 'partial' }) },
+      ...(failure
+        ? { $push: { failures: { $each: [failure], $slice: -MAX_WEBHOOK_FAILURES } } }
+        : { $setOnInsert: { status: 'succeeded' } }),
+    };
+
+    try {
+      await this.model.updateOne({ trigger: 'webhook', startedAt }, update, { upsert: true }).exec();
+    } catch (error: any) {
+      // Another change created the run at the same moment
+      if (error.code !== 11000) {
+        throw error;
+      }
+      await this.model.updateOne({ trigger: 'webhook', startedAt }, update).exec();
+    }
+  }
+}
+
+// Export singleton instance
+export const syncRunRepository = new SyncRunRepository();
@@ -0,0 +1,57 @@
+/**
+ * Tenant Repository
+ *
+ * Data access layer for Tenant model
+ */
+
+import { BaseRepository } from './base.repository';
+import { Tenant } from '../models/Tenant.model';
+import { ITenant } from '../types';
+
+export class TenantRepository extends BaseRepository<ITenant> {
+  constructor() {
+    super(Tenant);
+  }
+
+  /**
+   * Find an active tenant by slug
+   *
+   * @param slug - Tenant slug (from the tenant header)
+   * @returns Tenant or null if not found
+   */
+  async findActiveBySlug(slug: string): Promise<ITenant | null> {
+    return this.findOne({ slug: slug.toLowerCase(), active: true });
+  }
+
+  /**
+   * Find an active tenant serving a hostname
+   *
+   * @param hostname - Request hostname
+   * @returns Tenant or null if not found
+   */
+  async findActiveByHostname(hostname: string): Promise<ITenant | null> {
+    return this.findOne({ hostnames: hostname.toLowerCase(), active: true });
+  }
+
+  /**
+   * Find an active tenant by ID
+   *
+   * @param id - Tenant ID
+   * @returns Tenant or null if not found
+   */
+  async findActiveById(id: string): Promise<ITenant | null> {
+    return this.findOne({ _id: id, active: true });
+  }
+
+  /**
+   * Find every active tenant
+   *
+   * @returns Tenants (for background jobs that run per tenant)
+   */
+  async findAllActive(): Promise<ITenant[]> {
+    return this.find({ active: true });
+  }
+}
+
+// Export singleton instance
+export const tenantRepository = new TenantRepository();
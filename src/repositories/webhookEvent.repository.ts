@@ -0,0 +1,111 @@
+/**
+ * Webhook Event Repository
+ *
+ * Data access layer for WebhookEvent model. The collection doubles as a
+ * durable queue: events are claimed with a lease so a crashed worker's
+ * events are picked up again once the lease runs out.
+ */
+
+import { Types } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { WebhookEvent } from '../models/WebhookEvent.model';
+import { IWebhookEvent, ServiceM8WebhookObject } from '../types';
+
+/**
+ * Event to queue
+ */
+export interface NewWebhookEvent {
+  tenantId?: Types.ObjectId;
+  eventId: string;
+  object: ServiceM8WebhookObject;
+  uuid: string;
+  changedFields: string[];
+  occurredAt?: Date;
+}
+
+export class WebhookEventRepository extends BaseRepository<IWebhookEvent> {
+  constructor() {
+    super(WebhookEvent);
+  }
+
+  /**
+   * Queue an event unless it has been received before
+   *
+   * @param event - Event to queue
+   * @returns False if the event is a duplicate
+   */
+  async enqueue(event: NewWebhookEvent): Promise<boolean> {
+    try {
+      await this.create(event);
+      return true;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the next event that is due, across all tenants
+   *
+   * Events stuck in `processing` past their lease are claimed again.
+   *
+   * @param leaseMs - How long the claim lasts
+   * @returns Claimed event, or null if the queue is empty
+   */
+  async claimNext(leaseMs: number): Promise<IWebhookEvent | null> {
+    const now = new Date();
+    return this.model
+      .findOneAndUpdate(
+        {
+          $or: [
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            { status: 'processing', lockedUntil: { $lt: now } },
+          ],
+        },
+        {
+          $set: { status: 'processing', lockedUntil: new Date(now.getTime() + leaseMs) },
+          $inc: { attempts: 1 },
+        },
+        { sort: { nextAttemptAt: 1 }, new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Mark an event as handled
+   */
+  async markProcessed(id: Types.ObjectId): Promise<void> {
+    await this.model
+      .updateOne(
+        { _id: id },
+        { $set: { status: 'processed', processedAt: new Date() }, $unset: { lockedUntil: 1, lastError: 1 } }
+      )
+      .exec();
+  }
+
+  /**
+   * Record a failed attempt
+   *
+   * @param id - Event ID
+   * @param error - Failure message
+   * @param retryAt - When to try again, or null to give up
+   */
+  async markFailed(id: Types.ObjectId, error: string, retryAt: Date | null): Promise<void> {
+    await this.model
+      .updateOne(
+        { _id: id },
+        {
+          $set: retryAt
+            ? { status: 'pending', nextAttemptAt: retryAt, lastError: error }
+            : { status: 'failed', lastError: error },
+          $unset: { lockedUntil: 1 },
+        }
+      )
+      .exec();
+  }
+}
+
+// Export singleton instance
+export const webhookEventRepository = new WebhookEventRepository();
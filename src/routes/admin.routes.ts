@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requireRole, requirePermission } from '../middleware/authorization.middleware';
+import { validate } from '../middleware/validation.middleware';
+import {
+  listUsersSchema,
+  createOfficeUserSchema,
+  updateRoleSchema,
+  impersonateSchema,
+  listAuditLogsSchema,
+  listSyncRunsSchema,
+} from '../validators/admin.validator';
+
+const router = Router();
+
+// All admin routes require an authenticated admin
+router.use(authMiddleware, requireRole('admin'));
+
+// GET /api/admin/users - List accounts (optionally by role)
+router.get('/users', requirePermission('users:read'), validate(listUsersSchema), AdminController.listUsers);
+
+// POST /api/admin/users - Create a staff or admin account
+router.post('/users', requirePermission('users:manage'), validate(createOfficeUserSchema), AdminController.createUser);
+
+// PATCH /api/admin/users/:id/role - Change a user's role
+router.patch('/users/:id/role', requirePermission('users:manage'), validate(updateRoleSchema), AdminController.updateRole);
+
+// POST /api/admin/impersonate/:customerId - Get a short-lived token to act as a customer
+router.post('/impersonate/:customerId', validate(impersonateSchema), AdminController.impersonate);
+
+// GET /api/admin/audit-logs - List impersonation audit entries
+router.get('/audit-logs', validate(listAuditLogsSchema), AdminController.listAuditLogs);
+
+// GET /api/admin/sync/runs - List ServiceM8 sync runs
+router.get('/sync/runs', validate(listSyncRunsSchema), AdminController.listSyncRuns);
+
+// POST /api/admin/sync - Start a ServiceM8 sync now
+router.post('/sync', AdminController.startSync);
+
+export default router;
@@ -3,7 +3,27 @@ import { AuthController } from '../controllers/auth.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { validate } from '../middleware/validation.middleware';
 import { authRateLimiter } from '../middleware/rateLimiter.middleware';
-import { registerSchema, loginSchema, logoutSchema } from '../validators/auth.validator';
+import { denyDuringImpersonation } from '../middleware/authorization.middleware';
+import {
+  registerSchema,
+  loginSchema,
+  otpRequestSchema,
+  otpVerifySchema,
+  refreshTokenSchema,
+  logoutSchema,
+  revokeSessionSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorConfirmSchema,
+  twoFactorDisableSchema,
+  twoFactorVerifySchema,
+  sendVerificationSchema,
+  confirmVerificationSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  deleteAccountSchema,
+  confirmLinkSchema,
+} from '../validators/auth.validator';
 
 const router = Router();
 
@@ -13,11 +33,74 @@ router.post('/register', authRateLimiter, validate(registerSchema), AuthControll
 // POST /api/auth/login - Login with email/phone + password
 router.post('/login', authRateLimiter, validate(loginSchema), AuthController.login);
 
+// POST /api/auth/otp/request - Send a one-time login code by email or SMS
+router.post('/otp/request', authRateLimiter, validate(otpRequestSchema), AuthController.requestOtp);
+
+// POST /api/auth/otp/verify - Login with a one-time code
+router.post('/otp/verify', authRateLimiter, validate(otpVerifySchema), AuthController.verifyOtp);
+
+// POST /api/auth/2fa/verify - Complete login with an authenticator or recovery code
+router.post('/2fa/verify', authRateLimiter, validate(twoFactorVerifySchema), AuthController.verifyTwoFactor);
+
+// POST /api/auth/refresh - Rotate refresh token and issue a new access token
+router.post('/refresh', authRateLimiter, validate(refreshTokenSchema), AuthController.refresh);
+
+// POST /api/auth/password/forgot - Send a password reset link
+router.post('/password/forgot', authRateLimiter, validate(forgotPasswordSchema), AuthController.forgotPassword);
+
+// POST /api/auth/password/reset - Set a new password with a reset token
+router.post('/password/reset', authRateLimiter, validate(resetPasswordSchema), AuthController.resetPassword);
+
 // POST /api/auth/logout - Logout and invalidate session
 router.post('/logout', authMiddleware, validate(logoutSchema), AuthController.logout);
 
+// POST /api/auth/logout-all - Revoke every session for the customer
+router.post('/logout-all', authMiddleware, denyDuringImpersonation, validate(logoutSchema), AuthController.logoutAll);
+
 // GET /api/auth/me - Get current customer info
 router.get('/me', authMiddleware, AuthController.me);
 
+// PATCH /api/auth/me - Update name, address, email or phone (contact changes require current password)
+router.patch('/me', authMiddleware, denyDuringImpersonation, authRateLimiter, validate(updateProfileSchema), AuthController.updateProfile);
+
+// POST /api/auth/me/password - Change password (requires current password)
+router.post('/me/password', authMiddleware, denyDuringImpersonation, authRateLimiter, validate(changePasswordSchema), AuthController.changePassword);
+
+// GET /api/auth/me/export - Download everything stored about the customer
+router.get('/me/export', authMiddleware, AuthController.exportData);
+
+// DELETE /api/auth/me - Delete and anonymise the account (requires password)
+router.delete('/me', authMiddleware, denyDuringImpersonation, authRateLimiter, validate(deleteAccountSchema), AuthController.deleteAccount);
+
+// POST /api/auth/verify/send - Send a verification code to email or phone
+router.post('/verify/send', authMiddleware, denyDuringImpersonation, validate(sendVerificationSchema), AuthController.sendVerification);
+
+// POST /api/auth/verify/confirm - Confirm email or phone with a code
+router.post('/verify/confirm', authMiddleware, denyDuringImpersonation, authRateLimiter, validate(confirmVerificationSchema), AuthController.confirmVerification);
+
+// POST /api/auth/link/resend - Resend the code that links an existing ServiceM8 account
+router.post('/link/resend', authMiddleware, denyDuringImpersonation, AuthController.resendLinkCode);
+
+// POST /api/auth/link/confirm - Link the existing ServiceM8 account with the code
+router.post('/link/confirm', authMiddleware, denyDuringImpersonation, authRateLimiter, validate(confirmLinkSchema), AuthController.confirmLink);
+
+// POST /api/auth/link/decline - Create a new ServiceM8 account instead of linking
+router.post('/link/decline', authMiddleware, denyDuringImpersonation, AuthController.declineLink);
+
+// POST /api/auth/2fa/enroll - Start TOTP enrolment
+router.post('/2fa/enroll', authMiddleware, denyDuringImpersonation, AuthController.enrollTwoFactor);
+
+// POST /api/auth/2fa/confirm - Confirm enrolment and receive recovery codes
+router.post('/2fa/confirm', authMiddleware, denyDuringImpersonation, validate(twoFactorConfirmSchema), AuthController.confirmTwoFactor);
+
+// POST /api/auth/2fa/disable - Disable 2FA (requires password and a code)
+router.post('/2fa/disable', authMiddleware, denyDuringImpersonation, authRateLimiter, validate(twoFactorDisableSchema), AuthController.disableTwoFactor);
+
+// GET /api/auth/sessions - List active sessions (devices)
+router.get('/sessions', authMiddleware, AuthController.listSessions);
+
+// DELETE /api/auth/sessions/:id - Revoke a session
+router.delete('/sessions/:id', authMiddleware, denyDuringImpersonation, validate(revokeSessionSchema), AuthController.revokeSession);
+
 export default router;
 
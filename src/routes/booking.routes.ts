@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { BookingController } from '../controllers/booking.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/validation.middleware';
 import {
   getAllBookingsSchema,
@@ -10,7 +11,7 @@ import {
 const router = Router();
 
 // All booking routes require authentication
-router.use(authMiddleware);
+router.use(authMiddleware, requirePermission('bookings:read'));
 
 // GET /api/bookings
 router.get('/', validate(getAllBookingsSchema), BookingController.getAllBookings);
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { CancellationController } from '../controllers/cancellation.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorization.middleware';
+import { validate } from '../middleware/validation.middleware';
+import {
+  listCancellationsSchema,
+  approveCancellationSchema,
+  rejectCancellationSchema,
+} from '../validators/job.validator';
+
+const router = Router();
+
+// Reviewing cancellation requests is for staff and admins
+router.use(authMiddleware, requirePermission('cancellations:review'));
+
+// GET /api/cancellations - List cancellation requests (optionally by status)
+router.get('/', validate(listCancellationsSchema), CancellationController.listRequests);
+
+// POST /api/cancellations/:id/approve - Approve a request and cancel the job
+router.post('/:id/approve', validate(approveCancellationSchema), CancellationController.approve);
+
+// POST /api/cancellations/:id/reject - Decline a request
+router.post('/:id/reject', validate(rejectCancellationSchema), CancellationController.reject);
+
+export default router;
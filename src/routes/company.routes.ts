@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { CompanyController } from '../controllers/company.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission, denyDuringImpersonation } from '../middleware/authorization.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { authRateLimiter } from '../middleware/rateLimiter.middleware';
+import {
+  inviteSchema,
+  acceptInvitationSchema,
+  revokeInvitationSchema,
+  updateMemberSchema,
+  removeMemberSchema,
+} from '../validators/company.validator';
+
+const router = Router();
+
+// POST /api/company/invitations/accept - Create an account from an invitation (public)
+router.post('/invitations/accept', authRateLimiter, validate(acceptInvitationSchema), CompanyController.acceptInvitation);
+
+// All other company routes require authentication
+router.use(authMiddleware);
+
+// GET /api/company/members - List portal users of the company
+router.get('/members', requirePermission('company:read'), CompanyController.listMembers);
+
+// PATCH /api/company/members/:id - Change a member's role (owners only)
+router.patch('/members/:id', requirePermission('company:manage'), validate(updateMemberSchema), CompanyController.updateMember);
+
+// DELETE /api/company/members/:id - Remove a member (owners only)
+router.delete('/members/:id', requirePermission('company:manage'), denyDuringImpersonation, validate(removeMemberSchema), CompanyController.removeMember);
+
+// GET /api/company/invitations - List pending invitations (owners only)
+router.get('/invitations', requirePermission('company:manage'), CompanyController.listInvitations);
+
+// POST /api/company/invitations - Invite someone by email (owners only)
+router.post('/invitations', requirePermission('company:manage'), validate(inviteSchema), CompanyController.invite);
+
+// DELETE /api/company/invitations/:id - Revoke a pending invitation (owners only)
+router.delete('/invitations/:id', requirePermission('company:manage'), validate(revokeInvitationSchema), CompanyController.revokeInvitation);
+
+export default router;
@@ -3,6 +3,13 @@ import authRoutes from './auth.routes';
 import bookingRoutes from './booking.routes';
 import messageRoutes from './message.routes';
 import jobRoutes from './job.routes';
+import cancellationRoutes from './cancellation.routes';
+import rescheduleRoutes from './reschedule.routes';
+import companyRoutes from './company.routes';
+import adminRoutes from './admin.routes';
+import servicem8Routes from './servicem8.routes';
+import tenantRoutes from './tenant.routes';
+import webhookRoutes from './webhook.routes';
 
 const router = Router();
 
@@ -10,7 +17,14 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/bookings', bookingRoutes);
 router.use('/jobs', jobRoutes);
+router.use('/cancellations', cancellationRoutes);
+router.use('/reschedules', rescheduleRoutes);
 router.use('/messages', messageRoutes);
+router.use('/company', companyRoutes);
+router.use('/admin', adminRoutes);
+router.use('/servicem8', servicem8Routes);
+router.use('/tenant', tenantRoutes);
+router.use('/webhooks', webhookRoutes);
 
 // Health check endpoint
 router.get('/health', (req, res) => {
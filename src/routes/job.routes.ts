@@ -1,12 +1,15 @@
 import { Router } from 'express';
 import { JobController } from '../controllers/job.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/validation.middleware';
 import { jobCreationRateLimiter } from '../middleware/rateLimiter.middleware';
 import {
   createJobSchema,
   updateJobSchema,
-  deleteJobSchema,
+  requestCancellationSchema,
+  getSlotsSchema,
+  requestRescheduleSchema,
 } from '../validators/job.validator';
 
 const router = Router();
@@ -15,13 +18,19 @@ const router = Router();
 router.use(authMiddleware);
 
 // POST /api/jobs - Create new job
-router.post('/', jobCreationRateLimiter, validate(createJobSchema), JobController.createJob);
+router.post('/', requirePermission('jobs:create'), jobCreationRateLimiter, validate(createJobSchema), JobController.createJob);
 
 // PUT /api/jobs/:id - Update existing job
-router.put('/:id', validate(updateJobSchema), JobController.updateJob);
+router.put('/:id', requirePermission('jobs:update'), validate(updateJobSchema), JobController.updateJob);
 
-// DELETE /api/jobs/:id - Delete job
-router.delete('/:id', validate(deleteJobSchema), JobController.deleteJob);
+// POST /api/jobs/:id/cancellation - Ask for a job to be cancelled
+router.post('/:id/cancellation', requirePermission('jobs:cancel'), validate(requestCancellationSchema), JobController.requestCancellation);
+
+// GET /api/jobs/:id/slots - List free slots for the job
+router.get('/:id/slots', requirePermission('bookings:read'), validate(getSlotsSchema), JobController.getSlots);
+
+// POST /api/jobs/:id/reschedule - Ask for the job to be moved to a free slot
+router.post('/:id/reschedule', requirePermission('jobs:reschedule'), validate(requestRescheduleSchema), JobController.requestReschedule);
 
 export default router;
 
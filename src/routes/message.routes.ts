@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { MessageController } from '../controllers/message.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/validation.middleware';
 import {
   getMessagesSchema,
@@ -13,10 +14,10 @@ const router = Router();
 router.use(authMiddleware);
 
 // GET /api/messages/:jobId
-router.get('/:jobId', validate(getMessagesSchema), MessageController.getMessages);
+router.get('/:jobId', requirePermission('messages:read'), validate(getMessagesSchema), MessageController.getMessages);
 
 // POST /api/messages/:jobId
-router.post('/:jobId', validate(sendMessageSchema), MessageController.sendMessage);
+router.post('/:jobId', requirePermission('messages:send'), validate(sendMessageSchema), MessageController.sendMessage);
 
 export default router;
 
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { RescheduleController } from '../controllers/reschedule.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorization.middleware';
+import { validate } from '../middleware/validation.middleware';
+import {
+  listReschedulesSchema,
+  confirmRescheduleSchema,
+  declineRescheduleSchema,
+} from '../validators/job.validator';
+
+const router = Router();
+
+// Reviewing reschedule requests is for staff and admins
+router.use(authMiddleware, requirePermission('reschedules:review'));
+
+// GET /api/reschedules - List reschedule requests (optionally by status)
+router.get('/', validate(listReschedulesSchema), RescheduleController.listRequests);
+
+// POST /api/reschedules/:id/confirm - Confirm a request and move the job in ServiceM8
+router.post('/:id/confirm', validate(confirmRescheduleSchema), RescheduleController.confirm);
+
+// POST /api/reschedules/:id/decline - Decline a request
+router.post('/:id/decline', validate(declineRescheduleSchema), RescheduleController.decline);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { ServiceM8Controller } from '../controllers/servicem8.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/authorization.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { oauthCallbackSchema } from '../validators/servicem8.validator';
+
+const router = Router();
+
+// GET /api/servicem8/oauth/callback - ServiceM8 redirects here after the admin approves the install
+router.get('/oauth/callback', validate(oauthCallbackSchema), ServiceM8Controller.oauthCallback);
+
+// GET /api/servicem8/connection - Show how the API authenticates with ServiceM8
+router.get('/connection', authMiddleware, requireRole('admin'), ServiceM8Controller.getConnection);
+
+// POST /api/servicem8/connection - Start the OAuth install (returns the authorize URL)
+router.post('/connection', authMiddleware, requireRole('admin'), ServiceM8Controller.connect);
+
+// DELETE /api/servicem8/connection - Forget the stored OAuth tokens
+router.delete('/connection', authMiddleware, requireRole('admin'), ServiceM8Controller.disconnect);
+
+// GET /api/servicem8/cache - Show cache hit rates and TTLs
+router.get('/cache', authMiddleware, requireRole('admin'), ServiceM8Controller.getCacheStats);
+
+// DELETE /api/servicem8/cache - Drop everything cached from ServiceM8
+router.delete('/cache', authMiddleware, requireRole('admin'), ServiceM8Controller.clearCache);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { TenantController } from '../controllers/tenant.controller';
+
+const router = Router();
+
+// GET /api/tenant - Branding for the tenant serving this request (public)
+router.get('/', TenantController.getBranding);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhook.controller';
+import { verifyServiceM8Signature } from '../middleware/webhook.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { servicem8WebhookSchema } from '../validators/webhook.validator';
+
+const router = Router();
+
+// POST /api/webhooks/servicem8 - Changes made in ServiceM8 (signed by ServiceM8, no user auth)
+router.post(
+  '/servicem8',
+  verifyServiceM8Signature,
+  validate(servicem8WebhookSchema),
+  WebhookController.servicem8
+);
+
+export default router;
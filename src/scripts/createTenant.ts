@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import { config } from '../config/env';
+import { Customer } from '../models';
+import { tenantService } from '../services/tenant.service';
+import { runWithTenant } from '../utils/tenantContext';
+import { ServiceM8AuthMode } from '../types';
+
+/**
+ * Create a tenant and its first admin
+ *
+ * Usage:
+ *   npm run tenant:create -- --slug acme --host portal.acmeplumbing.com \
+ *     --name "Acme Plumbing" --api-token <servicem8-api-key> \
+ *     --admin-email admin@acmeplumbing.com --admin-password <password>
+ *
+ * Use --auth-mode oauth (and no --api-token) to connect ServiceM8 later
+ * through POST /api/servicem8/connection. --host may be repeated.
+ */
+
+// Read `--name value` pairs (repeatable) from the command line
+const parseArgs = (argv: string[]): Map<string, string[]> => {
+  const args = new Map<string, string[]>();
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    args.set(name, [...(args.get(name) || []), argv[i + 1]]);
+  }
+  return args;
+};
+
+async function createTenant() {
+  const args = parseArgs(process.argv.slice(2));
+  const arg = (name: string) => args.get(name)?.[0];
+
+  const slug = arg('slug');
+  const name = arg('name');
+  const adminEmail = arg('admin-email');
+  const adminPassword = arg('admin-password');
+  const authMode = (arg('auth-mode') || 'api_key') as ServiceM8AuthMode;
+
+  if (!slug || !name || !adminEmail || !adminPassword) {
+    console.error('❌ --slug, --name, --admin-email and --admin-password are required');
+    process.exit(1);
+  }
+
+  if (authMode === 'api_key' && !arg('api-token')) {
+    console.error('❌ --api-token is required unless --auth-mode oauth is used');
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(config.mongodbUri);
+    console.log('✅ Connected to MongoDB');
+
+    const tenant = await tenantService.createTenant({
+      slug,
+      hostnames: args.get('host') || [],
+      displayName: name,
+      servicem8AuthMode: authMode,
+      servicem8ApiToken: arg('api-token'),
+      logoUrl: arg('logo-url'),
+      primaryColor: arg('primary-color'),
+      supportEmail: arg('support-email'),
+    });
+    console.log(`✅ Created tenant: ${tenant.slug} (${tenant._id})`);
+
+    // Admins belong to the tenant, like every other account
+    await runWithTenant(tenant, () =>
+      Customer.create({
+        role: 'admin',
+        email: adminEmail,
+        password: adminPassword,
+      })
+    );
+    console.log(`✅ Created admin: ${adminEmail}`);
+
+    if (!config.multiTenant) {
+      console.log('⚠️  Set MULTI_TENANT=true for the API to serve tenants');
+    }
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Tenant creation failed:', error);
+    process.exit(1);
+  }
+}
+
+createTenant();
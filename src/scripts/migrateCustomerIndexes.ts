@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { config } from '../config/env';
+import { Customer } from '../models';
+
+/**
+ * Replace the global email/phone unique indexes with per-tenant ones
+ *
+ * Databases created before multi-tenant mode have unique `email_1` and
+ * `phone_1` indexes on `customers`, which stop two tenants from having a
+ * customer with the same email or phone. They also block the plain lookup
+ * indexes of the same name from being built. Safe to run more than once.
+ *
+ * Usage:
+ *   npm run migrate:customer-indexes
+ */
+
+// Indexes that used to be unique across every tenant
+const LEGACY_UNIQUE_INDEXES = ['email_1', 'phone_1'];
+
+async function migrateCustomerIndexes() {
+  try {
+    await mongoose.connect(config.mongodbUri);
+    console.log('✅ Connected to MongoDB');
+
+    // A fresh database has no collection yet, and so nothing to drop
+    const collections = await mongoose.connection.db!.listCollections({ name: Customer.collection.name }).toArray();
+    const indexes = collections.length > 0 ? await Customer.collection.indexes() : [];
+
+    for (const index of indexes) {
+      if (index.name && LEGACY_UNIQUE_INDEXES.includes(index.name) && index.unique) {
+        await Customer.collection.dropIndex(index.name);
+        console.log(`🗑️  Dropped unique index ${index.name}`);
+      }
+    }
+
+    // Builds the per-tenant unique indexes and the plain lookup ones
+    await Customer.createIndexes();
+    console.log('✅ Customer indexes are up to date');
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Index migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrateCustomerIndexes();
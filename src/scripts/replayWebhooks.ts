@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { config } from '../config/env';
+import { SIGNATURE_HEADER } from '../services/webhook.service';
+
+/**
+ * Replay recorded ServiceM8 webhook deliveries against a running API
+ *
+ * Usage:
+ *   npm run webhooks:replay
+ *   npm run webhooks:replay -- job-status-changed company-updated
+ *   npm run webhooks:replay -- --times 2 --tenant acme --url http://localhost:4000/api/webhooks/servicem8
+ *
+ * Fixtures live in fixtures/servicem8-webhooks and are signed with
+ * SERVICEM8_WEBHOOK_SECRET. Replaying with --times 2 shows the second
+ * delivery of each change being reported as a duplicate. Pass --unsigned to
+ * check that unsigned deliveries are rejected.
+ */
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/servicem8-webhooks');
+
+// Read `--name value` options and bare fixture names
+const parseArgs = (argv: string[]) => {
+  const options = new Map<string, string>();
+  const names: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--unsigned') {
+      options.set('unsigned', 'true');
+    } else if (argv[i].startsWith('--')) {
+      options.set(argv[i].replace(/^--/, ''), argv[i + 1]);
+      i++;
+    } else {
+      names.push(argv[i].replace(/\.json$/, ''));
+    }
+  }
+  return { options, names };
+};
+
+async function replayWebhooks() {
+  const { options, names } = parseArgs(process.argv.slice(2));
+  const times = parseInt(options.get('times') || '1', 10);
+  const tenant = options.get('tenant');
+  const url = options.get('url') || config.servicem8WebhookUrl;
+  const signed = options.get('unsigned') !== 'true';
+
+  if (signed && !config.servicem8WebhookSecret) {
+    console.error('❌ SERVICEM8_WEBHOOK_SECRET must be set to sign deliveries');
+    process.exit(1);
+  }
+
+  const fixtures = (names.length > 0 ? names : fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+  ).sort();
+
+  let failed = 0;
+  for (let round = 1; round <= times; round++) {
+    for (const name of fixtures) {
+      // Send the file's bytes as-is so the signature matches what is received
+      const body = fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`));
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (signed) {
+        headers[SIGNATURE_HEADER] = crypto
+          .createHmac('sha256', config.servicem8WebhookSecret)
+          .update(body)
+          .digest('hex');
+      }
+
+      const response = await axios.post(url, body, {
+        headers,
+        params: tenant ? { tenant } : undefined,
+        validateStatus: () => true,
+        transformRequest: data => data,
+      });
+
+      const ok = response.status >= 200 && response.status < 300;
+      if (!ok) {
+        failed++;
+      }
+      console.log(
+        `${ok ? '✅' : '❌'} [${round}] ${name}: ${response.status} ${JSON.stringify(response.data)}`
+      );
+    }
+  }
+
+  process.exit(failed > 0 && signed ? 1 : 0);
+}
+
+replayWebhooks().catch(error => {
+  console.error('❌ Replay failed:', error.message);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import { config } from '../config/env';
 import { Customer } from '../models';
+import { runWithoutTenant } from '../utils/tenantContext';
 
 async function seed() {
   try {
@@ -10,8 +11,9 @@ async function seed() {
     await mongoose.connect(config.mongodbUri);
     console.log('✅ Connected to MongoDB');
 
-    // Clear existing customers (optional - comment out if you want to keep existing data)
-    await Customer.deleteMany({});
+    // Clear existing customers (optional - comment out if you want to keep existing data).
+    // Accounts belonging to tenants are left alone.
+    await Customer.deleteMany({ tenantId: { $exists: false } });
     console.log('🗑️  Cleared existing customers');
 
     // Create demo customers
@@ -47,6 +49,17 @@ async function seed() {
       console.log(`✅ Created customer: ${customerData.email}`);
     }
 
+    // Create an admin so office users can be managed via /api/admin
+    const admin = {
+      role: 'admin',
+      email: 'admin@example.com',
+      password: 'password123',
+      firstName: 'Portal',
+      lastName: 'Admin',
+    };
+    await Customer.create(admin);
+    console.log(`✅ Created admin: ${admin.email}`);
+
     console.log('');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('🎉 Seed completed successfully!');
@@ -61,6 +74,10 @@ async function seed() {
       console.log(`  Password: password123`);
       console.log('');
     });
+    console.log('Admin:');
+    console.log(`  Email: ${admin.email}`);
+    console.log(`  Password: password123`);
+    console.log('');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
     await mongoose.connection.close();
@@ -71,5 +88,6 @@ async function seed() {
   }
 }
 
-seed();
+// Seeds accounts that belong to no tenant
+runWithoutTenant(seed);
 
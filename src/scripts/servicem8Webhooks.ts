@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import { config } from '../config/env';
+import { servicem8Registry } from '../services/servicem8.service';
+import { WEBHOOK_SUBSCRIPTIONS } from '../services/webhook.service';
+import { tenantRepository } from '../repositories/tenant.repository';
+import { ITenant, ServiceM8WebhookObject } from '../types';
+
+/**
+ * Manage the ServiceM8 webhook subscriptions that feed POST /api/webhooks/servicem8
+ *
+ * Usage:
+ *   npm run webhooks -- register [--tenant acme]
+ *   npm run webhooks -- unregister [--tenant acme]
+ *   npm run webhooks -- list [--tenant acme]
+ *
+ * Subscriptions call SERVICEM8_WEBHOOK_URL, with `?tenant=<slug>` added in
+ * multi-tenant mode so deliveries can be matched to the tenant.
+ */
+
+const COMMANDS = ['register', 'unregister', 'list'];
+
+const OBJECTS = Object.keys(WEBHOOK_SUBSCRIPTIONS) as ServiceM8WebhookObject[];
+
+async function manageWebhooks() {
+  const [command, ...rest] = process.argv.slice(2);
+  const tenantIndex = rest.indexOf('--tenant');
+  const slug = tenantIndex >= 0 ? rest[tenantIndex + 1] : undefined;
+
+  if (!COMMANDS.includes(command)) {
+    console.error(`❌ Usage: npm run webhooks -- <${COMMANDS.join('|')}> [--tenant <slug>]`);
+    process.exit(1);
+  }
+
+  if (config.multiTenant && !slug) {
+    console.error('❌ --tenant is required when MULTI_TENANT=true');
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(config.mongodbUri);
+
+    let tenant: ITenant | undefined;
+    if (slug) {
+      tenant = (await tenantRepository.findActiveBySlug(slug)) ?? undefined;
+      if (!tenant) {
+        throw new Error(`No active tenant with slug "${slug}"`);
+      }
+    }
+
+    const servicem8 = servicem8Registry.forTenant(tenant);
+    const callbackUrl = tenant
+      ? `${config.servicem8WebhookUrl}?tenant=${encodeURIComponent(tenant.slug)}`
+      : config.servicem8WebhookUrl;
+
+    if (command === 'register') {
+      if (!config.servicem8WebhookSecret) {
+        console.log('⚠️  SERVICEM8_WEBHOOK_SECRET is not set - deliveries will be rejected');
+      }
+      for (const object of OBJECTS) {
+        await servicem8.subscribeWebhook(object, WEBHOOK_SUBSCRIPTIONS[object], callbackUrl);
+        console.log(`✅ Subscribed to ${object} changes`);
+      }
+      console.log(`   Callback: ${callbackUrl}`);
+    } else if (command === 'unregister') {
+      for (const object of OBJECTS) {
+        await servicem8.unsubscribeWebhook(object, callbackUrl);
+        console.log(`✅ Unsubscribed from ${object} changes`);
+      }
+    } else {
+      const subscriptions = await servicem8.listWebhookSubscriptions();
+      if (subscriptions.length === 0) {
+        console.log('No webhook subscriptions');
+      }
+      subscriptions.forEach(subscription => {
+        console.log(`• ${subscription.object}: ${subscription.fields} → ${subscription.callback_url}`);
+      });
+    }
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Webhook command failed:', error);
+    process.exit(1);
+  }
+}
+
+manageWebhooks();
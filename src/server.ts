@@ -7,6 +7,10 @@ import { errorHandler } from './middleware/errorHandler.middleware';
 import { applySecurity } from './middleware/security.middleware';
 import { apiRateLimiter } from './middleware/rateLimiter.middleware';
 import { requestLogger } from './middleware/requestLogger.middleware';
+import { resolveTenant } from './middleware/tenant.middleware';
+import { captureRawBody } from './middleware/webhook.middleware';
+import { webhookService } from './services/webhook.service';
+import { servicem8Sync } from './services/servicem8Sync.service';
 import { logger } from './utils/logger';
 
 class Server {
@@ -26,9 +30,9 @@ class Server {
     // 2. Rate limiting
     this.app.use('/api', apiRateLimiter);
 
-    // 3. Body parser (with size limits)
-    this.app.use(express.json({ limit: '10mb' }));
-    this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+    // 3. Body parser (with size limits; webhooks keep the raw body for signature checks)
+    this.app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+    this.app.use(express.urlencoded({ extended: true, limit: '10mb', verify: captureRawBody }));
 
     // 4. CORS
     this.app.use(
@@ -40,6 +44,9 @@ class Server {
 
     // 5. Request logging
     this.app.use(requestLogger);
+
+    // 6. Tenant resolution (multi-tenant mode only)
+    this.app.use('/api', resolveTenant);
   }
 
   private routes(): void {
@@ -79,6 +86,12 @@ class Server {
       // Connect to MongoDB
       await connectDatabase();
 
+      // Handle queued ServiceM8 webhook events
+      webhookService.startWorker();
+
+      // Keep the local mirror of ServiceM8 up to date (if enabled)
+      servicem8Sync.startScheduler();
+
       // Start server
       this.app.listen(config.port, () => {
         // logger.info('');
@@ -0,0 +1,250 @@
+/**
+ * Account Service
+ *
+ * Self-service privacy requests: exporting everything we hold about a
+ * customer, and deleting (anonymising) their account.
+ */
+
+import { servicem8Registry } from './servicem8.service';
+import { sessionService, SessionSummary } from './session.service';
+import { bookingService, BookingSummary } from './booking.service';
+import { customerRepository } from '../repositories/customer.repository';
+import { messageRepository } from '../repositories/message.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { oneTimeTokenRepository } from '../repositories/oneTimeToken.repository';
+import { securityEventRepository } from '../repositories/securityEvent.repository';
+import { generateOpaqueToken } from '../utils/crypto.utils';
+import { logger } from '../utils/logger';
+import { ServiceUnavailableError, ValidationError } from '../utils/errors';
+import { ICustomer } from '../types';
+
+// Text stored in place of messages written by a deleted customer
+const REDACTED_MESSAGE = '[deleted]';
+
+/**
+ * Machine-readable archive of a customer's data
+ */
+export interface AccountExport {
+  exportedAt: Date;
+  customer: {
+    id: string;
+    role: string;
+    email?: string;
+    phone?: string;
+    firstName?: string;
+    lastName?: string;
+    address?: string;
+    servicem8ClientUuid?: string;
+    companyRole?: string;
+    emailVerified: boolean;
+    phoneVerified: boolean;
+    twoFactorEnabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  messages: Array<{
+    id: string;
+    jobUuid: string;
+    message: string;
+    senderType: string;
+    createdAt: Date;
+  }>;
+  sessions: SessionSummary[];
+  securityEvents: Array<{
+    type: string;
+    ipAddress?: string;
+    userAgent?: string;
+    createdAt: Date;
+  }>;
+  bookings: BookingSummary[];
+}
+
+/**
+ * Delete account input
+ */
+export interface DeleteAccountInput {
+  password: string;
+  deactivateServiceM8Company?: boolean;
+}
+
+class AccountService {
+  /**
+   * Export everything we hold about a customer
+   *
+   * Secrets (password hash, 2FA secrets, recovery codes) are never included.
+   *
+   * @param customer - Customer document
+   * @param currentSessionId - Session making the request
+   * @returns Account archive
+   * @throws ServiceUnavailableError if bookings can't be fetched from ServiceM8
+   */
+  async exportData(customer: ICustomer, currentSessionId?: string): Promise<AccountExport> {
+    const [messages, sessions, securityEvents] = await Promise.all([
+      messageRepository.findByCustomerIdLean(customer._id),
+      sessionService.listSessions(customer._id, currentSessionId),
+      securityEventRepository.findByCustomerId(customer._id, 1000),
+    ]);
+
+    // Only customers have bookings of their own. An export without them
+    // would be incomplete, so fail instead.
+    let bookings: BookingSummary[] = [];
+    if (customer.role === 'customer') {
+      try {
+        bookings = await bookingService.getAllBookings(customer._id.toString(), customer);
+      } catch (error: any) {
+        logger.error('Failed to fetch bookings for account export', {
+          customerId: customer._id,
+          error: error.message,
+        });
+        throw new ServiceUnavailableError('ServiceM8');
+      }
+    }
+
+    logger.info('Customer exported account data', { customerId: customer._id });
+
+    return {
+      exportedAt: new Date(),
+      customer: {
+        id: customer._id.toString(),
+        role: customer.role,
+        email: customer.email,
+        phone: customer.phone,
+        firstName: customer.firstName,
+        lastName: customer.lastName,
+        address: customer.address,
+        servicem8ClientUuid: customer.servicem8ClientUuid,
+        companyRole: customer.companyRole,
+        emailVerified: customer.emailVerified,
+        phoneVerified: customer.phoneVerified,
+        twoFactorEnabled: customer.twoFactorEnabled,
+        createdAt: customer.createdAt,
+        updatedAt: customer.updatedAt,
+      },
+      messages: messages.map(msg => ({
+        id: msg._id.toString(),
+        jobUuid: msg.jobUuid,
+        message: msg.message,
+        senderType: msg.senderType,
+        createdAt: msg.createdAt,
+      })),
+      sessions,
+      securityEvents: securityEvents.map(event => ({
+        type: event.type,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        createdAt: event.createdAt,
+      })),
+      bookings,
+    };
+  }
+
+  /**
+   * Delete the customer's account
+   *
+   * Personal data is removed from the customer record and their messages,
+   * every session and one-time token is revoked, and the record is kept
+   * only as an anonymous stub so job history in ServiceM8 stays consistent.
+   *
+   * @param customer - Customer document
+   * @param input - Password confirmation and ServiceM8 option
+   * @throws ValidationError if the password is wrong, or other portal users
+   *   of the company would be left without an owner or company
+   * @throws ServiceUnavailableError if the ServiceM8 company can't be deactivated
+   */
+  async deleteAccount(customer: ICustomer, input: DeleteAccountInput): Promise<void> {
+    const isPasswordValid = await customer.comparePassword(input.password);
+    if (!isPasswordValid) {
+      throw new ValidationError('Password is incorrect');
+    }
+
+    await this.assertCompanyCanLoseUser(customer, !!input.deactivateServiceM8Company);
+
+    // Deactivate in ServiceM8 first so a failure leaves the account untouched
+    if (input.deactivateServiceM8Company && customer.servicem8ClientUuid) {
+      try {
+        await servicem8Registry.current().updateCompany(customer.servicem8ClientUuid, { active: 0 });
+      } catch (error: any) {
+        logger.error('Failed to deactivate ServiceM8 company', {
+          customerId: customer._id,
+          error: error.message,
+        });
+        throw new ServiceUnavailableError('ServiceM8');
+      }
+    }
+
+    await this.anonymise(customer);
+
+    logger.info('Customer account deleted', {
+      customerId: customer._id,
+      servicem8CompanyDeactivated: !!input.deactivateServiceM8Company,
+    });
+  }
+
+  /**
+   * Strip personal data from an account and revoke all access
+   *
+   * Also used when a company owner removes a member.
+   *
+   * @param customer - Customer document
+   */
+  async anonymise(customer: ICustomer): Promise<void> {
+    const customerId = customer._id;
+
+    customer.email = undefined;
+    customer.phone = undefined;
+    customer.firstName = undefined;
+    customer.lastName = undefined;
+    customer.address = undefined;
+    customer.emailVerified = false;
+    customer.phoneVerified = false;
+    customer.twoFactorEnabled = false;
+    customer.twoFactorSecret = undefined;
+    customer.twoFactorPendingSecret = undefined;
+    customer.twoFactorRecoveryCodes = [];
+    customer.twoFactorLastUsedStep = undefined;
+    // Nobody knows this password, so the account can never be logged into
+    customer.password = generateOpaqueToken(32);
+    customer.deletedAt = new Date();
+    await customer.save();
+
+    const [redactedMessages, revokedSessions] = await Promise.all([
+      messageRepository.redactCustomerMessages(customerId, REDACTED_MESSAGE),
+      sessionRepository.deleteByCustomerId(customerId),
+      oneTimeTokenRepository.deleteAllForCustomer(customerId),
+      securityEventRepository.anonymiseByCustomerId(customerId),
+    ]);
+
+    logger.info('Account anonymised', { customerId, redactedMessages, revokedSessions });
+  }
+
+  /**
+   * Make sure deleting this user doesn't strand the rest of their company
+   */
+  private async assertCompanyCanLoseUser(
+    customer: ICustomer,
+    deactivateCompany: boolean
+  ): Promise<void> {
+    if (!customer.servicem8ClientUuid) {
+      return;
+    }
+
+    const users = await customerRepository.findAllByServiceM8Uuid(customer.servicem8ClientUuid);
+    const others = users.filter(user => !user._id.equals(customer._id));
+    if (others.length === 0) {
+      return;
+    }
+
+    if (deactivateCompany) {
+      throw new ValidationError(
+        'Other portal users share this ServiceM8 company, so it cannot be deactivated'
+      );
+    }
+
+    if (customer.companyRole === 'owner' && !others.some(user => user.companyRole === 'owner')) {
+      throw new ValidationError('Make another user an owner before deleting your account');
+    }
+  }
+}
+
+// Export singleton instance
+export const accountService = new AccountService();
@@ -0,0 +1,171 @@
+/**
+ * Account Lockout Service
+ *
+ * Tracks failed logins (password or one-time code) per customer. Each
+ * failure adds an exponentially growing delay before the next attempt is
+ * considered, and after too many failures the account is locked for a
+ * while. A password reset unlocks the account.
+ */
+
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { customerRepository } from '../repositories/customer.repository';
+import { securityEventRepository } from '../repositories/securityEvent.repository';
+import { notificationService } from './notification.service';
+import { logger } from '../utils/logger';
+import { ICustomer, SessionContext } from '../types';
+
+// Upper bound for the progressive delay between attempts
+const MAX_BACKOFF_SECONDS = 5 * 60;
+
+class AccountLockoutService {
+  /**
+   * Check whether the customer may attempt a login right now
+   *
+   * Blocked attempts are logged as security events. Callers should respond
+   * with the same generic error as for a wrong password.
+   *
+   * @param customer - Customer document
+   * @param context - Client details for the security log
+   * @returns True if the attempt may proceed
+   */
+  async canAttempt(customer: ICustomer, context: SessionContext = {}): Promise<boolean> {
+    const now = Date.now();
+
+    // Lock has expired - start counting afresh
+    if (customer.lockedUntil && customer.lockedUntil.getTime() <= now) {
+      await customerRepository.resetFailedLogins(customer._id);
+      customer.failedLoginAttempts = 0;
+      customer.lockedUntil = undefined;
+      customer.lastFailedLoginAt = undefined;
+      return true;
+    }
+
+    const blockedUntil = this.getBlockedUntil(customer);
+    if (!blockedUntil || blockedUntil.getTime() <= now) {
+      return true;
+    }
+
+    await securityEventRepository.record('login_blocked', customer._id, context, {
+      failedLoginAttempts: customer.failedLoginAttempts,
+      blockedUntil,
+      locked: !!customer.lockedUntil,
+    });
+
+    logger.warn('Login attempt blocked', { customerId: customer._id, blockedUntil });
+    return false;
+  }
+
+  /**
+   * Record a failed login, locking the account at the threshold
+   *
+   * @param customer - Customer document
+   * @param context - Client details for the security log
+   */
+  async recordFailure(customer: ICustomer, context: SessionContext = {}): Promise<void> {
+    const updated = await customerRepository.recordFailedLogin(customer._id);
+    const attempts = updated?.failedLoginAttempts ?? customer.failedLoginAttempts + 1;
+
+    await securityEventRepository.record('login_failed', customer._id, context, {
+      failedLoginAttempts: attempts,
+    });
+
+    if (attempts < config.loginMaxFailedAttempts) {
+      return;
+    }
+
+    const lockedUntil = JWTUtils.getExpirationDate(config.loginLockoutDuration);
+    await customerRepository.lock(customer._id, lockedUntil);
+
+    await securityEventRepository.record('account_locked', customer._id, context, {
+      failedLoginAttempts: attempts,
+      lockedUntil,
+    });
+
+    logger.warn('Account locked after repeated failed logins', {
+      customerId: customer._id,
+      lockedUntil,
+    });
+
+    await this.notifyLocked(customer);
+  }
+
+  /**
+   * Clear failed attempts after a successful login
+   *
+   * @param customer - Customer document
+   */
+  async recordSuccess(customer: ICustomer): Promise<void> {
+    if (customer.failedLoginAttempts > 0 || customer.lockedUntil) {
+      await customerRepository.resetFailedLogins(customer._id);
+    }
+  }
+
+  /**
+   * Unlock an account (e.g. after a password reset)
+   *
+   * @param customer - Customer document
+   * @param context - Client details for the security log
+   */
+  async unlock(customer: ICustomer, context: SessionContext = {}): Promise<void> {
+    if (customer.failedLoginAttempts === 0 && !customer.lockedUntil) {
+      return;
+    }
+
+    await customerRepository.resetFailedLogins(customer._id);
+    await securityEventRepository.record('account_unlocked', customer._id, context, {
+      reason: 'password_reset',
+    });
+
+    logger.info('Account unlocked', { customerId: customer._id });
+  }
+
+  /**
+   * When the next attempt is allowed, or null if there is no restriction
+   */
+  private getBlockedUntil(customer: ICustomer): Date | null {
+    if (customer.lockedUntil) {
+      return customer.lockedUntil;
+    }
+
+    if (!customer.failedLoginAttempts || !customer.lastFailedLoginAt) {
+      return null;
+    }
+
+    const backoffSeconds = Math.min(
+      config.loginBackoffBaseSeconds * 2 ** (customer.failedLoginAttempts - 1),
+      MAX_BACKOFF_SECONDS
+    );
+
+    return new Date(customer.lastFailedLoginAt.getTime() + backoffSeconds * 1000);
+  }
+
+  /**
+   * Tell the customer their account was locked and how to unlock it
+   */
+  private async notifyLocked(customer: ICustomer): Promise<void> {
+    const to = customer.email || customer.phone;
+    if (!to) {
+      return;
+    }
+
+    try {
+      await notificationService.send({
+        channel: customer.email ? 'email' : 'sms',
+        to,
+        subject: 'Your account has been temporarily locked',
+        body:
+          `We locked your account for ${config.loginLockoutDuration} after several failed login attempts. ` +
+          `If this wasn't you, reset your password at ${config.frontendUrl}/forgot-password to unlock it now.`,
+      });
+    } catch (error: any) {
+      logger.warn('Failed to send account locked notification', {
+        customerId: customer._id,
+        error: error.message,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const accountLockoutService = new AccountLockoutService();
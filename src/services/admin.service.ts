@@ -0,0 +1,133 @@
+/**
+ * Admin Service
+ *
+ * User management for administrators: listing accounts, creating office
+ * (staff/admin) users and changing roles.
+ */
+
+import { customerRepository } from '../repositories/customer.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { authService, CustomerProfile } from './auth.service';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { ICustomer, Role } from '../types';
+
+/**
+ * Office user creation input
+ */
+export interface CreateOfficeUserInput {
+  email: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  role: Exclude<Role, 'customer'>;
+}
+
+/**
+ * Page of users
+ */
+export interface UserPage {
+  users: CustomerProfile[];
+  total: number;
+}
+
+class AdminService {
+  /**
+   * List accounts, optionally filtered by role
+   *
+   * @param role - Only return accounts with this role
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Page of user profiles
+   */
+  async listUsers(role: Role | undefined, page: number, limit: number): Promise<UserPage> {
+    const { items, total } = await customerRepository.findPage(role, page, limit);
+
+    return {
+      users: items.map(user => authService.getProfile(user)),
+      total,
+    };
+  }
+
+  /**
+   * Create a staff or admin account
+   *
+   * Office users aren't linked to a ServiceM8 company.
+   *
+   * @param input - Account details and role
+   * @returns Created user profile
+   * @throws ConflictError if the email is already in use
+   */
+  async createOfficeUser(input: CreateOfficeUserInput): Promise<CustomerProfile> {
+    const email = input.email.toLowerCase().trim();
+
+    const existing = await customerRepository.findByEmail(email);
+    if (existing) {
+      throw new ConflictError('An account with this email already exists');
+    }
+
+    // Password is hashed by the model's pre-save hook
+    const user = await customerRepository.create({
+      role: input.role,
+      email,
+      password: input.password,
+      firstName: input.firstName,
+      lastName: input.lastName,
+    } as Partial<ICustomer>);
+
+    logger.info('Office user created', { userId: user._id, role: user.role });
+
+    return authService.getProfile(user);
+  }
+
+  /**
+   * Change an account's role
+   *
+   * Existing sessions are revoked so the new role applies immediately.
+   *
+   * @param actor - Admin making the change
+   * @param userId - Account to change
+   * @param role - New role
+   * @returns Updated user profile
+   * @throws NotFoundError if the account doesn't exist
+   * @throws ValidationError if the change isn't allowed
+   */
+  async updateRole(actor: ICustomer, userId: string, role: Role): Promise<CustomerProfile> {
+    const user = await customerRepository.findById(userId);
+    if (!user || user.deletedAt) {
+      throw new NotFoundError('User');
+    }
+
+    if (user._id.equals(actor._id)) {
+      throw new ValidationError('You cannot change your own role');
+    }
+
+    if (role === 'customer' && !user.servicem8ClientUuid) {
+      throw new ValidationError('Only accounts linked to a ServiceM8 company can be customers');
+    }
+
+    if (user.role === role) {
+      return authService.getProfile(user);
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    // Company roles only apply to customers
+    user.companyRole = role === 'customer' ? user.companyRole || 'member' : undefined;
+    await user.save();
+
+    await sessionRepository.deleteByCustomerId(user._id);
+
+    logger.info('User role changed', {
+      userId: user._id,
+      previousRole,
+      role,
+      changedBy: actor._id,
+    });
+
+    return authService.getProfile(user);
+  }
+}
+
+// Export singleton instance
+export const adminService = new AdminService();
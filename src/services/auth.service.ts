@@ -6,17 +6,25 @@
  */
 
 import { Types } from 'mongoose';
-import { JWTUtils } from '../utils/jwt.utils';
-import { servicem8Service } from './servicem8.service';
+import { servicem8Registry } from './servicem8.service';
+import { sessionService, SessionTokens } from './session.service';
+import { otpService, OtpVerifyInput } from './otp.service';
+import { twoFactorService, TwoFactorVerifyInput } from './twoFactor.service';
+import { verificationService } from './verification.service';
+import { accountLockoutService } from './accountLockout.service';
+import { companyService } from './company.service';
+import { clientLinkService, CompanyMatch } from './clientLink.service';
 import { customerRepository } from '../repositories/customer.repository';
 import { sessionRepository } from '../repositories/session.repository';
+import { passwordSchema } from '../validators/auth.validator';
 import { logger } from '../utils/logger';
 import {
   ConflictError,
   AuthenticationError,
   ValidationError,
+  ServiceUnavailableError,
 } from '../utils/errors';
-import { ICustomer } from '../types';
+import { CompanyRole, ICustomer, Role, SessionContext } from '../types';
 
 /**
  * Registration input data
@@ -30,6 +38,17 @@ export interface RegisterInput {
   address?: string;
 }
 
+/**
+ * Accept invitation input data
+ */
+export interface AcceptInvitationInput {
+  token: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+}
+
 /**
  * Login input data
  */
@@ -40,42 +59,72 @@ export interface LoginInput {
 }
 
 /**
- * Auth result with token and customer data
+ * Auth result with access token, refresh token and customer data
  */
 export interface AuthResult {
   token: string;
+  refreshToken: string;
   customer: {
     id: Types.ObjectId;
+    role: Role;
     email?: string;
     phone?: string;
     firstName?: string;
     lastName?: string;
     address?: string;
-    servicem8ClientUuid: string; // Required - created during registration
+    emailVerified: boolean;
+    phoneVerified: boolean;
+    servicem8ClientUuid?: string; // Linked company (customers only; left out by register)
+    companyRole?: CompanyRole;
   };
 }
 
+/**
+ * Returned instead of an AuthResult when the account has 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * Result of the first login step
+ */
+export type LoginResult = AuthResult | TwoFactorChallenge;
+
 /**
  * Customer profile data
  */
 export interface CustomerProfile {
   id: Types.ObjectId;
+  role: Role;
   email?: string;
   phone?: string;
   firstName?: string;
   lastName?: string;
+  address?: string;
+  emailVerified: boolean;
+  phoneVerified: boolean;
+  twoFactorEnabled: boolean;
+  companyRole?: CompanyRole;
 }
 
 class AuthService {
   /**
    * Register a new customer
    *
+   * If the email or phone already belongs to a ServiceM8 company, the
+   * account is created with a pending link and a code is sent to that
+   * contact instead of creating a duplicate company. The response is the
+   * same either way, so sign-ups can't be used to find out who is a client.
+   *
    * @param input - Registration data
+   * @param context - Client details recorded on the new session
    * @returns Auth result with token and customer
    * @throws ValidationError if input is invalid
    * @throws ConflictError if customer already exists
    */
-  async register(input: RegisterInput): Promise<AuthResult> {
+  async register(input: RegisterInput, context: SessionContext = {}): Promise<AuthResult> {
     const { email, phone, password, firstName, lastName, address } = input;
 
     // Normalize inputs
@@ -87,8 +136,9 @@ class AuthService {
       throw new ValidationError('Either email or phone is required');
     }
 
-    if (!password || password.length < 6) {
-      throw new ValidationError('Password must be at least 6 characters');
+    const policy = passwordSchema.safeParse(password);
+    if (!policy.success) {
+      throw new ValidationError(policy.error.issues[0].message);
     }
 
     // Check if customer already exists
@@ -101,6 +151,12 @@ class AuthService {
       throw new ConflictError('Customer with this email or phone already exists');
     }
 
+    // Returning customers are linked to their existing company once verified
+    const existingCompany = await this.findExistingCompany(normalizedEmail, normalizedPhone);
+    if (existingCompany) {
+      return this.registerWithPendingLink(input, existingCompany, context);
+    }
+
     // Create company in ServiceM8 (mandatory - registration fails if this fails)
     const companyName = `${firstName || ''} ${lastName || ''}`.trim() || 
                         normalizedEmail || 
@@ -109,7 +165,7 @@ class AuthService {
     
     let servicem8ClientUuid: string;
     try {
-      const company = await servicem8Service.createCompany({
+      const company = await servicem8Registry.current().createCompany({
         name: companyName,
         email: normalizedEmail,
         mobile: normalizedPhone,
@@ -122,6 +178,9 @@ class AuthService {
       logger.error('Failed to create ServiceM8 company during registration', { 
         error: error.message 
       });
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
       throw new Error('Failed to create customer account in ServiceM8. Please try again.');
     }
 
@@ -136,15 +195,11 @@ class AuthService {
       servicem8ClientUuid,
     });
 
-    // Generate JWT token
-    const token = JWTUtils.generateToken({
-      customerId: customer._id.toString(),
-      email: normalizedEmail || normalizedPhone || '',
-    });
+    // Send verification codes to the email/phone provided
+    await verificationService.sendInitialCodes(customer);
 
-    // Store session in database
-    const expiresAt = JWTUtils.getExpirationDate();
-    await sessionRepository.createSession(customer._id, token, expiresAt);
+    // Start a new session (access + refresh token)
+    const tokens = await sessionService.startSession(customer, context);
 
     logger.info('Customer registered successfully', { 
       customerId: customer._id,
@@ -152,29 +207,126 @@ class AuthService {
       phone: customer.phone 
     });
 
-    return {
-      token,
-      customer: {
-        id: customer._id,
-        email: customer.email,
-        phone: customer.phone,
-        firstName: customer.firstName,
-        lastName: customer.lastName,
-        address: customer.address,
-        servicem8ClientUuid: customer.servicem8ClientUuid,
-      },
-    };
+    return this.buildRegistrationResult(customer, tokens);
+  }
+
+  /**
+   * Look up an existing ServiceM8 company, treating lookup failures as "none"
+   */
+  private async findExistingCompany(
+    email?: string,
+    phone?: string
+  ): Promise<CompanyMatch | null> {
+    try {
+      return await clientLinkService.findExistingCompany(email, phone);
+    } catch (error: any) {
+      logger.warn('Could not search ServiceM8 for an existing company', { error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Create a customer whose link to an existing company awaits verification
+   */
+  private async registerWithPendingLink(
+    input: RegisterInput,
+    match: CompanyMatch,
+    context: SessionContext
+  ): Promise<AuthResult> {
+    const customer = await customerRepository.create({
+      email: input.email?.toLowerCase().trim(),
+      phone: input.phone?.trim(),
+      password: input.password,
+      firstName: input.firstName,
+      lastName: input.lastName,
+      address: input.address,
+      pendingServiceM8ClientUuid: match.companyUuid,
+      pendingServiceM8LinkChannel: match.channel,
+    });
+
+    // The link code also verifies the matched channel, so other codes wait until then
+    try {
+      await clientLinkService.sendCode(customer);
+    } catch (error: any) {
+      logger.warn('Failed to send account link code', {
+        customerId: customer._id,
+        error: error.message,
+      });
+    }
+
+    const tokens = await sessionService.startSession(customer, context);
+
+    logger.info('Customer registered with pending ServiceM8 link', {
+      customerId: customer._id,
+      channel: match.channel,
+    });
+
+    return this.buildRegistrationResult(customer, tokens);
+  }
+
+  /**
+   * Create an account from a company invitation
+   *
+   * The new user joins the inviting customer's ServiceM8 company with the
+   * invited role. Their email counts as verified because the invitation
+   * was delivered to it.
+   *
+   * @param input - Invitation token and account details
+   * @param context - Client details recorded on the new session
+   * @returns Auth result with token and customer
+   * @throws InvalidTokenError if the invitation is invalid, expired or used
+   * @throws ConflictError if the email or phone already has an account
+   */
+  async acceptInvitation(
+    input: AcceptInvitationInput,
+    context: SessionContext = {}
+  ): Promise<AuthResult> {
+    const normalizedPhone = input.phone?.trim();
+
+    // Check before claiming so a clash doesn't burn the invitation
+    if (normalizedPhone && (await customerRepository.findByPhone(normalizedPhone))) {
+      throw new ConflictError('Customer with this email or phone already exists');
+    }
+
+    const customerId = new Types.ObjectId();
+    const invitation = await companyService.claimInvitation(input.token, customerId);
+
+    const customer = await customerRepository.create({
+      _id: customerId,
+      role: 'customer',
+      companyRole: invitation.companyRole,
+      email: invitation.email,
+      emailVerified: true,
+      phone: normalizedPhone,
+      password: input.password,
+      firstName: input.firstName,
+      lastName: input.lastName,
+      servicem8ClientUuid: invitation.companyUuid,
+    } as Partial<ICustomer>);
+
+    await verificationService.sendInitialCodes(customer);
+
+    const tokens = await sessionService.startSession(customer, context);
+
+    logger.info('Customer joined company from invitation', {
+      customerId: customer._id,
+      companyUuid: invitation.companyUuid,
+      companyRole: invitation.companyRole,
+    });
+
+    return this.buildAuthResult(customer, tokens);
   }
 
   /**
    * Login a customer
    *
    * @param input - Login credentials
-   * @returns Auth result with token and customer
+   * @param context - Client details recorded on the new session
+   * @returns Auth result with token and customer, or a 2FA challenge
    * @throws ValidationError if input is invalid
    * @throws AuthenticationError if credentials are invalid
    */
-  async login(input: LoginInput): Promise<AuthResult> {
+  async login(input: LoginInput, context: SessionContext = {}): Promise<LoginResult> {
     const { email, phone, password } = input;
 
     // Normalize inputs
@@ -200,21 +352,31 @@ class AuthService {
       throw new AuthenticationError('Invalid credentials');
     }
 
+    // Refuse attempts while the account is backing off or locked.
+    // Same generic error as a wrong password so account state isn't revealed.
+    const canAttempt = await accountLockoutService.canAttempt(customer, context);
+    if (!canAttempt) {
+      throw new AuthenticationError('Invalid credentials');
+    }
+
     // Verify password
     const isPasswordValid = await customer.comparePassword(password);
     if (!isPasswordValid) {
+      await accountLockoutService.recordFailure(customer, context);
       throw new AuthenticationError('Invalid credentials');
     }
 
-    // Generate JWT token
-    const token = JWTUtils.generateToken({
-      customerId: customer._id.toString(),
-      email: customer.email || customer.phone || '',
-    });
+    // Second factor required before a session is issued. Failed attempts
+    // are only cleared once it has been passed too.
+    if (customer.twoFactorEnabled) {
+      logger.info('Two-factor challenge issued', { customerId: customer._id });
+      return this.buildChallenge(customer);
+    }
+
+    await accountLockoutService.recordSuccess(customer);
 
-    // Store session in database
-    const expiresAt = JWTUtils.getExpirationDate();
-    await sessionRepository.createSession(customer._id, token, expiresAt);
+    // Start a new session (access + refresh token)
+    const tokens = await sessionService.startSession(customer, context);
 
     logger.info('Customer logged in successfully', { 
       customerId: customer._id,
@@ -222,32 +384,125 @@ class AuthService {
       phone: customer.phone 
     });
 
-    return {
-      token,
-      customer: {
-        id: customer._id,
-        email: customer.email,
-        phone: customer.phone,
-        firstName: customer.firstName,
-        lastName: customer.lastName,
-        address: customer.address,
-        servicem8ClientUuid: customer.servicem8ClientUuid,
-      },
-    };
+    return this.buildAuthResult(customer, tokens);
+  }
+
+  /**
+   * Login with a one-time code instead of a password
+   *
+   * @param input - Email or phone and the code that was sent to it
+   * @param context - Client details recorded on the new session
+   * @returns Auth result with token and customer, or a 2FA challenge (same as login)
+   * @throws AuthenticationError if the code is invalid or expired
+   */
+  async loginWithOtp(input: OtpVerifyInput, context: SessionContext = {}): Promise<LoginResult> {
+    const { customer } = await otpService.findCustomer(input);
+
+    if (!customer) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    // Codes share the password login's backoff and lockout, so they can't
+    // be used to keep guessing once the account is throttled
+    const canAttempt = await accountLockoutService.canAttempt(customer, context);
+    if (!canAttempt) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    const isCodeValid = await otpService.verifyLoginCode(customer, input.code);
+    if (!isCodeValid) {
+      await accountLockoutService.recordFailure(customer, context);
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    // A one-time code replaces the password, not the second factor
+    if (customer.twoFactorEnabled) {
+      logger.info('Two-factor challenge issued', { customerId: customer._id });
+      return this.buildChallenge(customer);
+    }
+
+    await accountLockoutService.recordSuccess(customer);
+
+    // Start a new session (access + refresh token)
+    const tokens = await sessionService.startSession(customer, context);
+
+    logger.info('Customer logged in with one-time code', { 
+      customerId: customer._id,
+      email: customer.email, 
+      phone: customer.phone 
+    });
+
+    return this.buildAuthResult(customer, tokens);
+  }
+
+  /**
+   * Complete a 2FA login with an authenticator or recovery code
+   *
+   * @param input - Challenge token from login and the second factor
+   * @param context - Client details recorded on the new session
+   * @returns Auth result with token and customer
+   * @throws InvalidTokenError if the challenge token is invalid or expired
+   * @throws AuthenticationError if the code is invalid
+   */
+  async verifyTwoFactor(
+    input: TwoFactorVerifyInput,
+    context: SessionContext = {}
+  ): Promise<AuthResult> {
+    const customer = await twoFactorService.verifyChallenge(input, context);
+
+    // Start a new session (access + refresh token)
+    const tokens = await sessionService.startSession(customer, context);
+
+    logger.info('Customer logged in with two-factor authentication', { 
+      customerId: customer._id,
+      email: customer.email, 
+      phone: customer.phone 
+    });
+
+    return this.buildAuthResult(customer, tokens);
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   *
+   * @param refreshToken - Current refresh token
+   * @returns Auth result with the rotated tokens
+   * @throws InvalidTokenError if the refresh token is invalid or was reused
+   */
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const { customer, tokens } = await sessionService.rotate(refreshToken);
+
+    logger.info('Session refreshed', { customerId: customer._id });
+
+    return this.buildAuthResult(customer, tokens);
   }
 
   /**
    * Logout a customer by invalidating their session
    *
-   * @param token - JWT token to invalidate
+   * @param sessionId - Session the access token belongs to
    */
-  async logout(token: string): Promise<void> {
-    if (token) {
-      await sessionRepository.deleteByToken(token);
+  async logout(sessionId: string): Promise<void> {
+    if (sessionId) {
+      await sessionService.endSession(sessionId);
       logger.info('Customer logged out successfully');
     }
   }
 
+  /**
+   * Logout a customer from every device by revoking all of their sessions
+   *
+   * @param customerId - Customer ID
+   * @returns Number of sessions revoked
+   */
+  async logoutAll(customerId: Types.ObjectId): Promise<number> {
+    const revoked = await sessionRepository.deleteByCustomerId(customerId);
+
+    logger.info('Customer logged out from all sessions', { customerId, revoked });
+
+    return revoked;
+  }
+
   /**
    * Get customer profile from a customer document
    *
@@ -257,10 +512,59 @@ class AuthService {
   getProfile(customer: ICustomer): CustomerProfile {
     return {
       id: customer._id,
+      role: customer.role,
       email: customer.email,
       phone: customer.phone,
       firstName: customer.firstName,
       lastName: customer.lastName,
+      address: customer.address,
+      emailVerified: customer.emailVerified,
+      phoneVerified: customer.phoneVerified,
+      twoFactorEnabled: customer.twoFactorEnabled,
+      companyRole: customer.companyRole,
+    };
+  }
+
+  /**
+   * Build the challenge returned when a second factor is required
+   */
+  private async buildChallenge(customer: ICustomer): Promise<TwoFactorChallenge> {
+    return {
+      twoFactorRequired: true,
+      challengeToken: await twoFactorService.createChallenge(customer),
+    };
+  }
+
+  /**
+   * Build the auth result returned by register, without the company UUID
+   * that only exists when no ServiceM8 company matched the sign-up
+   */
+  private buildRegistrationResult(customer: ICustomer, tokens: SessionTokens): AuthResult {
+    const result = this.buildAuthResult(customer, tokens);
+    delete result.customer.servicem8ClientUuid;
+    return result;
+  }
+
+  /**
+   * Build the auth result returned by register/login/refresh
+   */
+  private buildAuthResult(customer: ICustomer, tokens: SessionTokens): AuthResult {
+    return {
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      customer: {
+        id: customer._id,
+        role: customer.role,
+        email: customer.email,
+        phone: customer.phone,
+        firstName: customer.firstName,
+        lastName: customer.lastName,
+        address: customer.address,
+        emailVerified: customer.emailVerified,
+        phoneVerified: customer.phoneVerified,
+        servicem8ClientUuid: customer.servicem8ClientUuid,
+        companyRole: customer.companyRole,
+      },
     };
   }
 }
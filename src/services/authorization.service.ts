@@ -0,0 +1,111 @@
+/**
+ * Authorization Service
+ *
+ * Shared access policy for every role. Customers may only touch jobs that
+ * belong to their own ServiceM8 company (shared by every portal user of that
+ * company); staff and admins may touch any job.
+ */
+
+import { servicem8Mirror } from './servicem8Mirror.service';
+import { ROLE_PERMISSIONS, COMPANY_ROLE_PERMISSIONS, Permission } from '../config/permissions';
+import { logger } from '../utils/logger';
+import { NotFoundError, ForbiddenError } from '../utils/errors';
+import { ICustomer, ServiceM8Job } from '../types';
+
+/**
+ * Describes the job access being checked (used in errors and logs)
+ */
+export interface JobAccessOptions {
+  resource: string; // e.g. 'Booking' or 'Job' - used in NotFoundError
+  action: string; // e.g. 'update this job' - used in ForbiddenError
+  preferLocal?: boolean; // Read the job from the local mirror if it is there
+}
+
+class AuthorizationService {
+  /**
+   * Check whether a principal's role grants a permission
+   *
+   * @param principal - Authenticated customer, staff member or admin
+   * @param permission - Permission to check
+   */
+  hasPermission(principal: ICustomer, permission: Permission): boolean {
+    return this.getPermissions(principal).includes(permission);
+  }
+
+  /**
+   * Get every permission a principal has
+   *
+   * @param principal - Authenticated customer, staff member or admin
+   */
+  getPermissions(principal: ICustomer): readonly Permission[] {
+    if (principal.role === 'customer') {
+      return COMPANY_ROLE_PERMISSIONS[principal.companyRole || 'owner'] ?? [];
+    }
+
+    return ROLE_PERMISSIONS[principal.role] ?? [];
+  }
+
+  /**
+   * Check whether a principal may access a job
+   *
+   * @param principal - Authenticated customer, staff member or admin
+   * @param job - ServiceM8 job
+   */
+  canAccessJob(principal: ICustomer, job: ServiceM8Job): boolean {
+    if (principal.role !== 'customer') {
+      return true;
+    }
+
+    return !!principal.servicem8ClientUuid && job.company_uuid === principal.servicem8ClientUuid;
+  }
+
+  /**
+   * Keep only the jobs a principal may access
+   *
+   * @param principal - Authenticated customer, staff member or admin
+   * @param jobs - ServiceM8 jobs
+   * @returns Accessible jobs
+   */
+  filterAccessibleJobs(principal: ICustomer, jobs: ServiceM8Job[]): ServiceM8Job[] {
+    return jobs.filter(job => this.canAccessJob(principal, job));
+  }
+
+  /**
+   * Fetch an active job and verify the principal may access it
+   *
+   * @param principal - Authenticated customer, staff member or admin
+   * @param jobUuid - ServiceM8 Job UUID
+   * @param options - Resource name and action for errors, and where to read the job
+   * @returns The job
+   * @throws NotFoundError if the job doesn't exist or is inactive
+   * @throws ForbiddenError if the principal may not access the job
+   */
+  async getAccessibleJob(
+    principal: ICustomer,
+    jobUuid: string,
+    options: JobAccessOptions
+  ): Promise<ServiceM8Job> {
+    const job = await servicem8Mirror.getJob(jobUuid, { preferLocal: options.preferLocal });
+
+    if (!job || job.active === 0) {
+      throw new NotFoundError(options.resource);
+    }
+
+    if (!this.canAccessJob(principal, job)) {
+      logger.warn('Principal attempted to access a job they do not own', {
+        principalId: principal._id,
+        role: principal.role,
+        action: options.action,
+        jobUuid,
+        jobCompanyUuid: job.company_uuid,
+        customerCompanyUuid: principal.servicem8ClientUuid,
+      });
+      throw new ForbiddenError(`You do not have permission to ${options.action}`);
+    }
+
+    return job;
+  }
+}
+
+// Export singleton instance
+export const authorizationService = new AuthorizationService();
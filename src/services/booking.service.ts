@@ -1,13 +1,15 @@
 /**
  * Booking Service
  *
- * Handles all booking-related business logic by fetching directly from ServiceM8.
- * No local database storage - all data fetched in real-time.
+ * Handles all booking-related business logic by fetching from ServiceM8.
+ * With SERVICEM8_SYNC_ENABLED, customers' bookings are read from the local
+ * mirror instead (see servicem8Mirror.service).
  */
 
-import { servicem8Service } from './servicem8.service';
+import { servicem8Mirror } from './servicem8Mirror.service';
+import { authorizationService } from './authorization.service';
 import { logger } from '../utils/logger';
-import { NotFoundError, ForbiddenError } from '../utils/errors';
+import { parseServiceM8Date } from '../utils/servicem8Date.utils';
 import { ICustomer, ServiceM8Job, ServiceM8Attachment } from '../types';
 
 /**
@@ -24,6 +26,38 @@ export interface BookingSummary {
   contactName?: string;
 }
 
+/**
+ * Which side of "now" a booking's scheduled date falls on
+ */
+export type BookingTimeframe = 'upcoming' | 'past';
+
+/**
+ * Sort keys for booking lists ("-" prefix for descending)
+ */
+export type BookingSort = 'scheduledDate' | '-scheduledDate' | 'jobNumber' | '-jobNumber';
+
+/**
+ * Filters, sorting and paging for a booking list
+ */
+export interface BookingListQuery {
+  page: number;
+  limit: number;
+  status?: string;
+  from?: Date; // scheduled_date on or after
+  to?: Date; // scheduled_date on or before
+  search?: string; // Matches description or address
+  timeframe?: BookingTimeframe;
+  sort?: BookingSort;
+}
+
+/**
+ * Page of bookings
+ */
+export interface BookingPage {
+  bookings: BookingSummary[];
+  total: number;
+}
+
 /**
  * Attachment summary
  */
@@ -48,6 +82,9 @@ class BookingService {
   /**
    * Get all bookings for a customer directly from ServiceM8
    *
+   * Customers only download their own company's jobs. Staff and admins see
+   * every active booking.
+   *
    * @param customerId - Customer ID (for logging)
    * @param customer - Customer document
    * @returns Array of bookings
@@ -62,13 +99,7 @@ class BookingService {
       servicem8ClientUuid: customer.servicem8ClientUuid
     });
 
-    // Fetch all jobs from ServiceM8
-    const allJobs = await servicem8Service.getAllJobs();
-
-    // Filter jobs that belong to this customer (by company_uuid) and are active
-    const customerJobs = allJobs.filter(
-      job => job.company_uuid === customer.servicem8ClientUuid && job.active === 1
-    );
+    const customerJobs = await this.fetchAccessibleJobs(customer);
 
     logger.info('Found active jobs for customer in ServiceM8', { 
       count: customerJobs.length 
@@ -77,6 +108,39 @@ class BookingService {
     return customerJobs.map(job => this.mapServiceM8JobToSummary(job));
   }
 
+  /**
+   * Get one page of a customer's bookings
+   *
+   * Status is filtered by ServiceM8; dates, text and timeframe are applied
+   * here. Sorting always falls back to the job UUID so pages are stable.
+   *
+   * @param customerId - Customer ID (for logging)
+   * @param customer - Customer document
+   * @param query - Filters, sort and page
+   * @returns Requested page and the total number of matches
+   */
+  async listBookings(
+    customerId: string,
+    customer: ICustomer,
+    query: BookingListQuery
+  ): Promise<BookingPage> {
+    logger.info('Listing bookings for customer', { customerId, ...query });
+
+    const jobs = (await this.fetchAccessibleJobs(customer, query.status))
+      .filter(job => this.matchesQuery(job, query));
+
+    const timeframe = query.timeframe;
+    const sort = query.sort ?? (timeframe === 'upcoming' ? 'scheduledDate' : '-scheduledDate');
+    jobs.sort((a, b) => this.compareJobs(a, b, sort));
+
+    const start = (query.page - 1) * query.limit;
+
+    return {
+      bookings: jobs.slice(start, start + query.limit).map(job => this.mapServiceM8JobToSummary(job)),
+      total: jobs.length,
+    };
+  }
+
   /**
    * Get a specific booking by UUID from ServiceM8
    *
@@ -97,31 +161,15 @@ class BookingService {
       jobUuid
     });
 
-    // Fetch job from ServiceM8
-    const job = await servicem8Service.getJobByUuid(jobUuid);
-
-    if (!job) {
-      throw new NotFoundError('Booking');
-    }
-
-    // Check if job is active
-    if (job.active === 0) {
-      throw new NotFoundError('Booking');
-    }
-
-    // Verify customer owns this job
-    if (job.company_uuid !== customer.servicem8ClientUuid) {
-      logger.warn('Customer attempted to access booking they do not own', {
-        customerId,
-        jobUuid,
-        jobCompanyUuid: job.company_uuid,
-        customerCompanyUuid: customer.servicem8ClientUuid
-      });
-      throw new ForbiddenError('You do not have permission to access this booking');
-    }
+    // Fetch job and verify the caller may see it
+    const job = await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Booking',
+      action: 'access this booking',
+      preferLocal: true,
+    });
 
-    // Fetch attachments from ServiceM8
-    const servicem8Attachments = await servicem8Service.getJobAttachments(jobUuid);
+    // Fetch attachments
+    const servicem8Attachments = await servicem8Mirror.getJobAttachments(jobUuid);
 
     return {
       ...this.mapServiceM8JobToSummary(job),
@@ -131,6 +179,87 @@ class BookingService {
     };
   }
 
+  /**
+   * Fetch the active jobs a caller may see
+   *
+   * Filtered by company, active flag and (optionally) status, either in
+   * ServiceM8 or in the local mirror.
+   */
+  private async fetchAccessibleJobs(customer: ICustomer, status?: string): Promise<ServiceM8Job[]> {
+    // Customers not yet linked to a company have no jobs
+    if (customer.role === 'customer' && !customer.servicem8ClientUuid) {
+      return [];
+    }
+
+    const jobs = await servicem8Mirror.getActiveJobs({
+      companyUuid: customer.role === 'customer' ? customer.servicem8ClientUuid : undefined,
+      status,
+    });
+
+    // Re-check access in case ServiceM8 ignored part of the filter
+    return authorizationService
+      .filterAccessibleJobs(customer, jobs)
+      .filter(job => job.active === 1);
+  }
+
+  /**
+   * Apply the in-memory filters of a list query
+   */
+  private matchesQuery(job: ServiceM8Job, query: BookingListQuery): boolean {
+    const scheduled = parseServiceM8Date(job.scheduled_date);
+
+    if (query.from && (!scheduled || scheduled < query.from)) {
+      return false;
+    }
+    if (query.to && (!scheduled || scheduled > query.to)) {
+      return false;
+    }
+
+    // Jobs that aren't scheduled yet are still to come
+    if (query.timeframe === 'upcoming' && scheduled && scheduled.getTime() < Date.now()) {
+      return false;
+    }
+    if (query.timeframe === 'past' && (!scheduled || scheduled.getTime() >= Date.now())) {
+      return false;
+    }
+
+    if (query.search) {
+      const search = query.search.toLowerCase();
+      const text = `${job.job_description || ''} ${job.job_address || ''}`.toLowerCase();
+      if (!text.includes(search)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Compare two jobs for a sort key, breaking ties by UUID
+   *
+   * Unscheduled jobs always sort last.
+   */
+  private compareJobs(a: ServiceM8Job, b: ServiceM8Job, sort: BookingSort): number {
+    const direction = sort.startsWith('-') ? -1 : 1;
+    let result = 0;
+
+    if (sort.endsWith('scheduledDate')) {
+      const aTime = parseServiceM8Date(a.scheduled_date)?.getTime();
+      const bTime = parseServiceM8Date(b.scheduled_date)?.getTime();
+      if (aTime !== undefined && bTime !== undefined) {
+        result = (aTime - bTime) * direction;
+      } else if (aTime !== bTime) {
+        return aTime === undefined ? 1 : -1;
+      }
+    } else {
+      const aNumber = a.generated_job_id || '';
+      const bNumber = b.generated_job_id || '';
+      result = aNumber.localeCompare(bNumber, undefined, { numeric: true }) * direction;
+    }
+
+    return result || a.uuid.localeCompare(b.uuid);
+  }
+
   /**
    * Map ServiceM8 job to booking summary
    */
@@ -0,0 +1,382 @@
+/**
+ * Cancellation Service
+ *
+ * Customers cancel jobs by making a cancellation request with a reason,
+ * rather than the job quietly disappearing from their view. Outside the
+ * cut-off before the scheduled time (CANCELLATION_CUTOFF_HOURS, or the
+ * tenant's setting) the job is cancelled straight away; inside it, staff
+ * approve or reject the request.
+ *
+ * Every step is recorded as a note on the job in ServiceM8, so the office
+ * sees why, and as a system message on the job's thread.
+ */
+
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { servicem8Registry } from './servicem8.service';
+import { servicem8Mirror } from './servicem8Mirror.service';
+import { authorizationService } from './authorization.service';
+import { impersonationService } from './impersonation.service';
+import { jobLifecycleService } from './jobLifecycle.service';
+import { messageService } from './message.service';
+import { notificationService } from './notification.service';
+import { cancellationRequestRepository } from '../repositories/cancellationRequest.repository';
+import { customerRepository } from '../repositories/customer.repository';
+import { getCurrentTenant } from '../utils/tenantContext';
+import { parseServiceM8Date } from '../utils/servicem8Date.utils';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ServiceUnavailableError, JobUpdateError } from '../utils/errors';
+import {
+  CancellationStatus,
+  ICancellationRequest,
+  ICustomer,
+  ImpersonationClaims,
+  JobActor,
+  ServiceM8Job,
+} from '../types';
+
+/**
+ * Cancellation request for API responses
+ */
+export interface CancellationSummary {
+  id: Types.ObjectId;
+  jobUuid: string;
+  status: CancellationStatus;
+  reason: string;
+  scheduledDate?: string;
+  autoApproved: boolean;
+  reviewNote?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+class CancellationService {
+  /**
+   * Ask for a job to be cancelled
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @param reason - Why the customer is cancelling
+   * @param customer - Customer making the request
+   * @param impersonation - Set when an admin is acting as the customer
+   * @returns The request - approved if outside the cut-off, otherwise pending
+   * @throws NotFoundError if job not found
+   * @throws ForbiddenError if customer doesn't own the job, or when
+   *   impersonating without destructive access
+   * @throws JobTransitionError if the job can no longer be cancelled
+   * @throws ConflictError if a request is already awaiting approval
+   * @throws JobUpdateError if cancelling in ServiceM8 fails
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
+   */
+  async requestCancellation(
+    jobUuid: string,
+    reason: string,
+    customer: ICustomer,
+    impersonation?: ImpersonationClaims
+  ): Promise<CancellationSummary> {
+    impersonationService.assertDestructiveAllowed(impersonation, 'cancel jobs');
+
+    const job = await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Job',
+      action: 'cancel this job',
+    });
+
+    this.assertCancellable(job, 'system');
+
+    let request: ICancellationRequest;
+    try {
+      request = await cancellationRequestRepository.create({
+        jobUuid,
+        companyUuid: job.company_uuid,
+        requestedBy: customer._id,
+        reason,
+        scheduledDate: job.scheduled_date,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError('A cancellation request for this job is already awaiting approval');
+      }
+      throw error;
+    }
+
+    const cutoffHours = this.getCutoffHours();
+    const requester = this.describe(customer);
+
+    if (this.isWithinCutoff(job, cutoffHours)) {
+      await this.addNote(
+        jobUuid,
+        `Cancellation requested by ${requester} via the customer portal: ${reason}\n` +
+          `The job is scheduled within ${cutoffHours} hours, so the request needs staff approval.`
+      );
+      await this.postMessage(
+        jobUuid,
+        customer._id,
+        `Cancellation requested: ${reason}. As the job is scheduled within ${cutoffHours} hours, ` +
+          'our team will review the request and let you know.'
+      );
+
+      logger.info('Cancellation request awaiting approval', { jobUuid, requestId: request._id });
+      return this.mapRequest(request);
+    }
+
+    // Outside the cut-off the portal cancels on the customer's behalf.
+    // Approve first, so staff can't decide the request while we cancel.
+    const approved = await cancellationRequestRepository.markDecided(request._id, 'approved');
+    if (!approved) {
+      throw new ConflictError('This cancellation request has already been decided');
+    }
+
+    try {
+      await this.cancelJob(job, 'system', customer);
+    } catch (error) {
+      // Let the customer try again rather than leave a request nobody asked staff to review
+      await cancellationRequestRepository.delete(request._id.toString());
+      throw error;
+    }
+
+    await this.addNote(jobUuid, `Job cancelled by ${requester} via the customer portal: ${reason}`);
+
+    logger.info('Job cancelled by customer', { jobUuid, requestId: request._id });
+    return this.mapRequest(approved);
+  }
+
+  /**
+   * List cancellation requests, newest first
+   *
+   * @param status - Only requests with this status (default: all)
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  async listRequests(
+    status: CancellationStatus | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: CancellationSummary[]; total: number }> {
+    const { items, total } = await cancellationRequestRepository.findPage(status, page, limit);
+    return { items: items.map(request => this.mapRequest(request)), total };
+  }
+
+  /**
+   * Approve a pending request and cancel the job
+   *
+   * @param requestId - Cancellation request ID
+   * @param reviewer - Staff member approving
+   * @param note - Optional note for the customer
+   * @returns Approved request
+   * @throws NotFoundError if the request doesn't exist
+   * @throws ConflictError if the request has already been decided
+   * @throws JobTransitionError if the job can no longer be cancelled
+   * @throws JobUpdateError if cancelling in ServiceM8 fails
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
+   */
+  async approve(requestId: string, reviewer: ICustomer, note?: string): Promise<CancellationSummary> {
+    const request = await this.getPendingRequest(requestId);
+
+    const job = await authorizationService.getAccessibleJob(reviewer, request.jobUuid, {
+      resource: 'Job',
+      action: 'cancel this job',
+    });
+
+    this.assertCancellable(job, 'staff');
+
+    // Claim the request before cancelling, so two reviewers can't both act on it
+    const approved = await cancellationRequestRepository.markDecided(request._id, 'approved', reviewer._id, note);
+    if (!approved) {
+      throw new ConflictError('This cancellation request has already been decided');
+    }
+
+    try {
+      await this.cancelJob(job, 'staff', reviewer);
+    } catch (error) {
+      await this.releaseClaim(approved);
+      throw error;
+    }
+
+    await this.addNote(
+      request.jobUuid,
+      `Cancellation approved by ${this.describe(reviewer)}. Reason given: ${request.reason}` +
+        (note ? `\nNote: ${note}` : '')
+    );
+    if (note) {
+      await this.postMessage(request.jobUuid, reviewer._id, note);
+    }
+
+    logger.info('Cancellation request approved', { requestId, reviewerId: reviewer._id });
+    return this.mapRequest(approved);
+  }
+
+  /**
+   * Reject a pending request; the job goes ahead
+   *
+   * @param requestId - Cancellation request ID
+   * @param reviewer - Staff member rejecting
+   * @param note - Explanation for the customer
+   * @returns Rejected request
+   * @throws NotFoundError if the request doesn't exist
+   * @throws ConflictError if the request has already been decided
+   */
+  async reject(requestId: string, reviewer: ICustomer, note: string): Promise<CancellationSummary> {
+    const request = await this.getPendingRequest(requestId);
+
+    const rejected = await cancellationRequestRepository.markDecided(request._id, 'rejected', reviewer._id, note);
+    if (!rejected) {
+      throw new ConflictError('This cancellation request has already been decided');
+    }
+
+    await this.addNote(
+      request.jobUuid,
+      `Cancellation request declined by ${this.describe(reviewer)}: ${note}`
+    );
+    await this.postMessage(request.jobUuid, reviewer._id, `Cancellation request declined: ${note}`);
+    await this.notifyRequester(rejected, `Your cancellation request was declined: ${note}`);
+
+    logger.info('Cancellation request rejected', { requestId, reviewerId: reviewer._id });
+    return this.mapRequest(rejected);
+  }
+
+  /**
+   * Check the job can be cancelled by the actor
+   */
+  private assertCancellable(job: ServiceM8Job, actor: JobActor): void {
+    if (job.status === 'Cancelled') {
+      throw new ConflictError('This job is already cancelled');
+    }
+    jobLifecycleService.assertCanTransition(job.status, 'Cancelled', actor);
+  }
+
+  /**
+   * Set the job's status to Cancelled in ServiceM8 and run the lifecycle side effects
+   *
+   * The job stays active so customers still see it, as cancelled.
+   */
+  private async cancelJob(job: ServiceM8Job, actor: JobActor, principal: ICustomer): Promise<void> {
+    const transition = jobLifecycleService.assertCanTransition(job.status, 'Cancelled', actor)!;
+
+    let cancelled: ServiceM8Job;
+    try {
+      cancelled = await servicem8Registry.current().updateJob(job.uuid, { status: 'Cancelled' });
+    } catch (error: any) {
+      logger.error('Failed to cancel job in ServiceM8', { jobUuid: job.uuid, error: error.message });
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
+      throw new JobUpdateError('Failed to cancel job in ServiceM8');
+    }
+
+    await servicem8Mirror.rememberJob(cancelled);
+    await jobLifecycleService.applySideEffects(cancelled, transition, principal);
+  }
+
+  /**
+   * Put a claimed request back to pending after cancelling the job failed
+   *
+   * If that fails too the request stays approved for a job that wasn't
+   * cancelled, so it is logged for staff to put right.
+   */
+  private async releaseClaim(request: ICancellationRequest): Promise<void> {
+    try {
+      await cancellationRequestRepository.reopen(request._id);
+    } catch (error: any) {
+      logger.error('Failed to reopen cancellation request', { requestId: request._id, error: error.message });
+    }
+  }
+
+  /**
+   * Check whether the job is scheduled too soon to cancel without approval
+   *
+   * Jobs that aren't scheduled can always be cancelled; jobs whose time has
+   * passed always need approval.
+   */
+  private isWithinCutoff(job: ServiceM8Job, cutoffHours: number): boolean {
+    const scheduled = parseServiceM8Date(job.scheduled_date);
+    if (!scheduled) {
+      return false;
+    }
+    return scheduled.getTime() - Date.now() < cutoffHours * 60 * 60 * 1000;
+  }
+
+  private getCutoffHours(): number {
+    return getCurrentTenant()?.settings?.cancellationCutoffHours ?? config.cancellationCutoffHours;
+  }
+
+  private async getPendingRequest(requestId: string): Promise<ICancellationRequest> {
+    const request = Types.ObjectId.isValid(requestId)
+      ? await cancellationRequestRepository.findById(requestId)
+      : null;
+    if (!request) {
+      throw new NotFoundError('Cancellation request');
+    }
+    if (request.status !== 'pending') {
+      throw new ConflictError('This cancellation request has already been decided');
+    }
+    return request;
+  }
+
+  /**
+   * Add a note to the job in ServiceM8
+   *
+   * Best effort: by now the request has been recorded (and possibly acted
+   * on), so a failed note is logged rather than undoing it.
+   */
+  private async addNote(jobUuid: string, note: string): Promise<void> {
+    try {
+      await servicem8Registry.current().addJobNote(jobUuid, note);
+    } catch (error: any) {
+      logger.error('Failed to add cancellation note to job', { jobUuid, error: error.message });
+    }
+  }
+
+  private async postMessage(jobUuid: string, senderId: Types.ObjectId, text: string): Promise<void> {
+    try {
+      await messageService.createSystemMessage(jobUuid, senderId, text);
+    } catch (error: any) {
+      logger.warn('Failed to post cancellation message', { jobUuid, error: error.message });
+    }
+  }
+
+  private async notifyRequester(request: ICancellationRequest, body: string): Promise<void> {
+    try {
+      const requester = await customerRepository.findById(request.requestedBy.toString());
+      const to = requester?.email || requester?.phone;
+      if (!requester || !to) {
+        return;
+      }
+      await notificationService.send({
+        channel: requester.email ? 'email' : 'sms',
+        to,
+        subject: 'Your cancellation request',
+        body,
+      });
+    } catch (error: any) {
+      logger.warn('Failed to notify cancellation requester', { requestId: request._id, error: error.message });
+    }
+  }
+
+  private describe(principal: ICustomer): string {
+    return (
+      `${principal.firstName || ''} ${principal.lastName || ''}`.trim() ||
+      principal.email ||
+      principal.phone ||
+      'a customer'
+    );
+  }
+
+  /**
+   * Map request to summary
+   */
+  private mapRequest(request: ICancellationRequest): CancellationSummary {
+    return {
+      id: request._id,
+      jobUuid: request.jobUuid,
+      status: request.status,
+      reason: request.reason,
+      scheduledDate: request.scheduledDate,
+      autoApproved: request.autoApproved,
+      reviewNote: request.reviewNote,
+      reviewedAt: request.reviewedAt,
+      createdAt: request.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const cancellationService = new CancellationService();
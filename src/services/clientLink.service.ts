@@ -0,0 +1,285 @@
+/**
+ * Client Link Service
+ *
+ * Returning customers often already exist in ServiceM8. Instead of creating
+ * a duplicate company at sign-up, we look for an existing company or job
+ * contact with the same email or phone and, once the customer proves they
+ * own that contact with a code, link their portal account to it.
+ */
+
+import { config } from '../config/env';
+import { servicem8Registry } from './servicem8.service';
+import { otpService } from './otp.service';
+import { verificationService } from './verification.service';
+import { bookingService, BookingSummary } from './booking.service';
+import { customerRepository } from '../repositories/customer.repository';
+import { logger } from '../utils/logger';
+import {
+  ConflictError,
+  JobCreationError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../utils/errors';
+import { ContactChannel, ICustomer } from '../types';
+
+/**
+ * Existing ServiceM8 company matching a sign-up
+ */
+export interface CompanyMatch {
+  companyUuid: string;
+  channel: ContactChannel; // Contact detail that matched - the code is sent here
+}
+
+/**
+ * Result of confirming a link
+ */
+export interface LinkResult {
+  servicem8ClientUuid: string;
+  bookings: BookingSummary[]; // Jobs already on the linked company
+}
+
+class ClientLinkService {
+  /**
+   * Look for an existing ServiceM8 company for a new sign-up
+   *
+   * Email matches win over phone matches. Companies that already belong to
+   * a portal account are skipped - those users should invite the customer.
+   *
+   * @param email - Sign-up email
+   * @param phone - Sign-up phone
+   * @returns Best match, or null if the customer is new to ServiceM8
+   */
+  async findExistingCompany(email?: string, phone?: string): Promise<CompanyMatch | null> {
+    if (email) {
+      const companyUuid = await this.findUnclaimedCompany(email, undefined);
+      if (companyUuid) {
+        return { companyUuid, channel: 'email' };
+      }
+    }
+
+    if (phone) {
+      const companyUuid = await this.findUnclaimedCompany(undefined, phone);
+      if (companyUuid) {
+        return { companyUuid, channel: 'phone' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Send (or resend) the code that confirms a pending link
+   *
+   * The message is the only prompt to link: API responses never say whether
+   * a sign-up matched a company. Resolves without sending when nothing is
+   * pending, for the same reason.
+   *
+   * @param customer - Customer with a pending link
+   * @throws TooManyRequestsError if a code was sent too recently
+   */
+  async sendCode(customer: ICustomer): Promise<void> {
+    if (!this.hasPendingLink(customer)) {
+      return;
+    }
+
+    const channel = this.getPendingChannel(customer);
+    const to = channel === 'email' ? customer.email : customer.phone;
+    if (!to) {
+      throw new ValidationError(`No ${channel} on this account`);
+    }
+
+    await otpService.issueCode(customer, 'servicem8_link', {
+      channel: channel === 'email' ? 'email' : 'sms',
+      to,
+      subject: 'Link your existing account',
+      describe: (code) =>
+        `We found your existing service history. To see it in the portal, enter code ${code} at ` +
+        `${config.frontendUrl}/link-account. It expires in ${config.otpExpiresIn}. ` +
+        `If you didn't sign up, you can ignore this message.`,
+    });
+  }
+
+  /**
+   * Confirm a pending link with the code that was sent
+   *
+   * The matched contact channel is marked verified, and the company's
+   * existing jobs are returned so they can be shown straight away.
+   *
+   * @param customer - Customer with a pending link
+   * @param code - Code entered by the customer
+   * @returns Linked company and its bookings
+   * @throws ValidationError if the code is wrong or nothing is pending (same message)
+   * @throws ConflictError if another portal account claimed the company meanwhile
+   */
+  async confirm(customer: ICustomer, code: string): Promise<LinkResult> {
+    if (!this.hasPendingLink(customer)) {
+      throw new ValidationError('Invalid or expired code');
+    }
+
+    const channel = this.getPendingChannel(customer);
+    const companyUuid = customer.pendingServiceM8ClientUuid!;
+
+    const result = await otpService.checkCode(customer, 'servicem8_link', code);
+    if (result !== 'valid') {
+      throw new ValidationError('Invalid or expired code');
+    }
+
+    const claimedBy = await customerRepository.findByServiceM8Uuid(companyUuid);
+    if (claimedBy && !claimedBy._id.equals(customer._id)) {
+      throw new ConflictError(
+        'This account is already linked to another portal user. Ask them to invite you.'
+      );
+    }
+
+    customer.servicem8ClientUuid = companyUuid;
+    customer.companyRole = 'owner';
+    customer.pendingServiceM8ClientUuid = undefined;
+    customer.pendingServiceM8LinkChannel = undefined;
+    verificationService.markVerified(customer, channel);
+    await customer.save();
+
+    logger.info('Customer linked to existing ServiceM8 company', {
+      customerId: customer._id,
+      companyUuid,
+      channel,
+    });
+
+    // Any other contact channel still needs verifying
+    await verificationService.sendInitialCodes(customer);
+
+    return {
+      servicem8ClientUuid: companyUuid,
+      bookings: await this.getHistoricalBookings(customer),
+    };
+  }
+
+  /**
+   * Decline a pending link and create a fresh ServiceM8 company instead
+   *
+   * Succeeds without changes when nothing is pending, so it can't be used
+   * to find out whether a sign-up matched a company.
+   *
+   * @param customer - Customer with a pending link
+   * @returns The new company UUID, or the current one if nothing was pending
+   * @throws JobCreationError if the company can't be created in ServiceM8
+   */
+  async decline(customer: ICustomer): Promise<string | undefined> {
+    if (!this.hasPendingLink(customer)) {
+      return customer.servicem8ClientUuid;
+    }
+
+    const companyName = `${customer.firstName || ''} ${customer.lastName || ''}`.trim() ||
+                        customer.email ||
+                        customer.phone ||
+                        'Customer';
+
+    let companyUuid: string;
+    try {
+      const company = await servicem8Registry.current().createCompany({
+        name: companyName,
+        email: customer.email,
+        mobile: customer.phone,
+        address: customer.address,
+      });
+      companyUuid = company.uuid;
+    } catch (error: any) {
+      logger.error('Failed to create ServiceM8 company after declined link', {
+        customerId: customer._id,
+        error: error.message,
+      });
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
+      throw new JobCreationError('Failed to create customer account in ServiceM8');
+    }
+
+    customer.servicem8ClientUuid = companyUuid;
+    customer.companyRole = 'owner';
+    customer.pendingServiceM8ClientUuid = undefined;
+    customer.pendingServiceM8LinkChannel = undefined;
+    await customer.save();
+
+    logger.info('Customer declined link, created new ServiceM8 company', {
+      customerId: customer._id,
+      companyUuid,
+    });
+
+    await verificationService.sendInitialCodes(customer);
+
+    return companyUuid;
+  }
+
+  /**
+   * Find a matching company that no portal account has claimed yet
+   */
+  private async findUnclaimedCompany(email?: string, phone?: string): Promise<string | null> {
+    const servicem8 = servicem8Registry.current();
+
+    const fromCompanies = await this.firstUnclaimed(await servicem8.findCompanyUuidsByContact(email, phone));
+    if (fromCompanies) {
+      return fromCompanies;
+    }
+
+    // Job contacts catch customers whose company record has no contact details
+    const jobs = await servicem8.findJobsByContact(email, phone);
+    return this.firstUnclaimed(
+      jobs.map(job => job.company_uuid).filter((uuid): uuid is string => !!uuid)
+    );
+  }
+
+  /**
+   * Pick the first of several matching companies that isn't linked yet
+   */
+  private async firstUnclaimed(companyUuids: string[]): Promise<string | null> {
+    const candidates = [...new Set(companyUuids)];
+
+    for (const uuid of candidates) {
+      const claimedBy = await customerRepository.findByServiceM8Uuid(uuid);
+      if (!claimedBy) {
+        if (candidates.length > 1) {
+          logger.info('Several ServiceM8 companies match sign-up, using first', {
+            count: candidates.length,
+          });
+        }
+        return uuid;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the customer has a link waiting to be confirmed or declined
+   */
+  private hasPendingLink(customer: ICustomer): boolean {
+    return !!customer.pendingServiceM8ClientUuid && !!customer.pendingServiceM8LinkChannel;
+  }
+
+  /**
+   * Get the channel of a pending link, failing if there isn't one
+   */
+  private getPendingChannel(customer: ICustomer): ContactChannel {
+    if (!customer.pendingServiceM8ClientUuid || !customer.pendingServiceM8LinkChannel) {
+      throw new ValidationError('There is no account waiting to be linked');
+    }
+    return customer.pendingServiceM8LinkChannel;
+  }
+
+  /**
+   * Load the linked company's jobs, tolerating ServiceM8 being unavailable
+   */
+  private async getHistoricalBookings(customer: ICustomer): Promise<BookingSummary[]> {
+    try {
+      return await bookingService.getAllBookings(customer._id.toString(), customer);
+    } catch (error: any) {
+      logger.warn('Failed to load bookings after linking', {
+        customerId: customer._id,
+        error: error.message,
+      });
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const clientLinkService = new ClientLinkService();
@@ -0,0 +1,327 @@
+/**
+ * Company Service
+ *
+ * Several portal users can share one ServiceM8 company (e.g. a landlord and
+ * their tenants). Each has an owner, member or viewer role. Owners invite
+ * new users by email and manage existing ones.
+ */
+
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { generateOpaqueToken, hashToken } from '../utils/crypto.utils';
+import { customerRepository } from '../repositories/customer.repository';
+import { invitationRepository } from '../repositories/invitation.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { notificationService } from './notification.service';
+import { accountService } from './account.service';
+import { logger } from '../utils/logger';
+import {
+  ConflictError,
+  InvalidTokenError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors';
+import { CompanyRole, ICustomer, IInvitation } from '../types';
+
+/**
+ * Portal user of a company
+ */
+export interface CompanyMember {
+  id: Types.ObjectId;
+  email?: string;
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+  companyRole: CompanyRole;
+  createdAt: Date;
+}
+
+/**
+ * Pending invitation
+ */
+export interface InvitationSummary {
+  id: Types.ObjectId;
+  email: string;
+  companyRole: CompanyRole;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Invitation input
+ */
+export interface InviteInput {
+  email: string;
+  companyRole: CompanyRole;
+}
+
+class CompanyService {
+  /**
+   * List the portal users of the caller's company
+   *
+   * @param customer - Any user of the company
+   * @returns Company members, oldest first
+   */
+  async listMembers(customer: ICustomer): Promise<CompanyMember[]> {
+    const companyUuid = this.getCompanyUuid(customer);
+    const members = await customerRepository.findAllByServiceM8Uuid(companyUuid);
+
+    return members.map(member => this.mapMember(member));
+  }
+
+  /**
+   * List pending invitations for the caller's company
+   *
+   * @param owner - Company owner
+   * @returns Pending invitations, newest first
+   */
+  async listInvitations(owner: ICustomer): Promise<InvitationSummary[]> {
+    const companyUuid = this.getCompanyUuid(owner);
+    const invitations = await invitationRepository.findPendingByCompany(companyUuid);
+
+    return invitations.map(invitation => this.mapInvitation(invitation));
+  }
+
+  /**
+   * Invite someone by email to join the caller's company
+   *
+   * Re-inviting the same email replaces the earlier invitation.
+   *
+   * @param owner - Company owner sending the invitation
+   * @param input - Invitee email and role
+   * @returns Created invitation
+   * @throws ConflictError if the email already has a portal account
+   */
+  async invite(owner: ICustomer, input: InviteInput): Promise<InvitationSummary> {
+    const companyUuid = this.getCompanyUuid(owner);
+    const email = input.email.toLowerCase().trim();
+
+    // A login belongs to exactly one company
+    const existing = await customerRepository.findByEmail(email);
+    if (existing) {
+      throw new ConflictError('This email already has a portal account');
+    }
+
+    await invitationRepository.deletePendingForEmail(companyUuid, email);
+
+    const token = generateOpaqueToken(32);
+    const expiresAt = JWTUtils.getExpirationDate(config.invitationExpiresIn);
+    const invitation = await invitationRepository.createInvitation(
+      companyUuid,
+      email,
+      input.companyRole,
+      hashToken(token),
+      owner._id,
+      expiresAt
+    );
+
+    const inviterName = `${owner.firstName || ''} ${owner.lastName || ''}`.trim() || 'A customer';
+    const acceptUrl = `${config.frontendUrl}/accept-invitation?token=${encodeURIComponent(token)}`;
+
+    await notificationService.send({
+      channel: 'email',
+      to: email,
+      subject: 'You have been invited to the customer portal',
+      body:
+        `${inviterName} has invited you to view and manage their jobs. ` +
+        `Accept the invitation here: ${acceptUrl}. It expires in ${config.invitationExpiresIn}.`,
+    });
+
+    logger.info('Company invitation sent', {
+      invitationId: invitation._id,
+      companyUuid,
+      companyRole: input.companyRole,
+      invitedBy: owner._id,
+    });
+
+    return this.mapInvitation(invitation);
+  }
+
+  /**
+   * Revoke a pending invitation
+   *
+   * @param owner - Company owner
+   * @param invitationId - Invitation ID
+   * @throws NotFoundError if the invitation doesn't exist for this company
+   */
+  async revokeInvitation(owner: ICustomer, invitationId: string): Promise<void> {
+    const companyUuid = this.getCompanyUuid(owner);
+
+    const deleted = Types.ObjectId.isValid(invitationId)
+      ? await invitationRepository.deleteOne({
+          _id: invitationId,
+          companyUuid,
+          acceptedAt: { $exists: false },
+        })
+      : false;
+
+    if (!deleted) {
+      throw new NotFoundError('Invitation');
+    }
+
+    logger.info('Company invitation revoked', { invitationId, revokedBy: owner._id });
+  }
+
+  /**
+   * Claim a pending invitation
+   *
+   * Marks the invitation accepted so it can't be used twice. The caller
+   * creates the account.
+   *
+   * @param token - Invitation token from the email
+   * @param customerId - ID the new account will have
+   * @returns The claimed invitation
+   * @throws InvalidTokenError if the token is invalid, expired or already used
+   * @throws ConflictError if the invited email already has an account
+   */
+  async claimInvitation(token: string, customerId: Types.ObjectId): Promise<IInvitation> {
+    const invitation = await invitationRepository.findPendingByTokenHash(hashToken(token));
+    if (!invitation) {
+      throw new InvalidTokenError('Invalid or expired invitation');
+    }
+
+    const existing = await customerRepository.findByEmail(invitation.email);
+    if (existing) {
+      throw new ConflictError('This email already has a portal account');
+    }
+
+    const claimed = await invitationRepository.markAccepted(invitation._id, customerId);
+    if (!claimed) {
+      throw new InvalidTokenError('Invalid or expired invitation');
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Change a member's role within the company
+   *
+   * @param owner - Company owner
+   * @param memberId - Member to change
+   * @param companyRole - New role
+   * @returns Updated member
+   * @throws NotFoundError if the member isn't part of this company
+   * @throws ValidationError if this would leave the company without an owner
+   */
+  async updateMemberRole(
+    owner: ICustomer,
+    memberId: string,
+    companyRole: CompanyRole
+  ): Promise<CompanyMember> {
+    const member = await this.getMember(owner, memberId);
+
+    if (member.companyRole === companyRole) {
+      return this.mapMember(member);
+    }
+
+    if (member.companyRole === 'owner') {
+      await this.assertAnotherOwner(owner.servicem8ClientUuid!);
+    }
+
+    member.companyRole = companyRole;
+    await member.save();
+
+    // Revoke sessions so the new permissions apply immediately
+    await sessionRepository.deleteByCustomerId(member._id);
+
+    logger.info('Company member role changed', {
+      memberId: member._id,
+      companyRole,
+      changedBy: owner._id,
+    });
+
+    return this.mapMember(member);
+  }
+
+  /**
+   * Remove a member from the company
+   *
+   * Logins only exist for their company, so the member's account is
+   * anonymised. Owners leave by deleting their own account.
+   *
+   * @param owner - Company owner
+   * @param memberId - Member to remove
+   * @throws NotFoundError if the member isn't part of this company
+   * @throws ValidationError if the owner tries to remove themselves
+   */
+  async removeMember(owner: ICustomer, memberId: string): Promise<void> {
+    const member = await this.getMember(owner, memberId);
+
+    if (member._id.equals(owner._id)) {
+      throw new ValidationError('Delete your own account instead of removing yourself');
+    }
+
+    await accountService.anonymise(member);
+
+    logger.info('Company member removed', { memberId: member._id, removedBy: owner._id });
+  }
+
+  /**
+   * Load a member of the caller's company
+   */
+  private async getMember(caller: ICustomer, memberId: string): Promise<ICustomer> {
+    const companyUuid = this.getCompanyUuid(caller);
+
+    const member = Types.ObjectId.isValid(memberId)
+      ? await customerRepository.findById(memberId)
+      : null;
+
+    if (!member || member.deletedAt || member.servicem8ClientUuid !== companyUuid) {
+      throw new NotFoundError('Member');
+    }
+
+    return member;
+  }
+
+  /**
+   * Fail unless the company has more than one owner
+   */
+  private async assertAnotherOwner(companyUuid: string): Promise<void> {
+    const owners = await customerRepository.countOwners(companyUuid);
+    if (owners <= 1) {
+      throw new ValidationError('A company must have at least one owner');
+    }
+  }
+
+  /**
+   * Get the caller's company, failing for users without one
+   */
+  private getCompanyUuid(customer: ICustomer): string {
+    if (!customer.servicem8ClientUuid) {
+      throw new ValidationError('Your account is not linked to a ServiceM8 company');
+    }
+    return customer.servicem8ClientUuid;
+  }
+
+  /**
+   * Map customer to company member
+   */
+  private mapMember(customer: ICustomer): CompanyMember {
+    return {
+      id: customer._id,
+      email: customer.email,
+      phone: customer.phone,
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      companyRole: customer.companyRole || 'owner',
+      createdAt: customer.createdAt,
+    };
+  }
+
+  /**
+   * Map invitation to summary
+   */
+  private mapInvitation(invitation: IInvitation): InvitationSummary {
+    return {
+      id: invitation._id,
+      email: invitation.email,
+      companyRole: invitation.companyRole,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const companyService = new CompanyService();
@@ -0,0 +1,204 @@
+/**
+ * Impersonation Service
+ *
+ * Lets an admin view the portal as a customer to reproduce problems.
+ * Impersonation uses its own short-lived session and a flagged access
+ * token (no refresh token), and everything done with it is audited.
+ */
+
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { generateOpaqueToken, hashToken } from '../utils/crypto.utils';
+import { customerRepository } from '../repositories/customer.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { auditLogRepository, AuditLogFilter } from '../repositories/auditLog.repository';
+import { authService, CustomerProfile } from './auth.service';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+import { IAuditLog, ICustomer, ImpersonationClaims, SessionContext } from '../types';
+
+/**
+ * Impersonation start input
+ */
+export interface StartImpersonationInput {
+  reason: string;
+  allowDestructive?: boolean;
+}
+
+/**
+ * Impersonation token returned to the admin
+ */
+export interface ImpersonationResult {
+  token: string;
+  expiresAt: Date;
+  allowDestructive: boolean;
+  customer: CustomerProfile;
+}
+
+/**
+ * Details of an impersonated request for the audit log
+ */
+export interface ImpersonatedRequest {
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+class ImpersonationService {
+  /**
+   * Issue a short-lived token for acting as a customer
+   *
+   * @param admin - Admin starting the impersonation
+   * @param customerId - Customer to impersonate
+   * @param input - Reason and whether destructive operations are allowed
+   * @param context - Admin's client details
+   * @returns Impersonation token
+   * @throws NotFoundError if the customer doesn't exist
+   * @throws ValidationError if the account isn't a customer
+   */
+  async start(
+    admin: ICustomer,
+    customerId: string,
+    input: StartImpersonationInput,
+    context: SessionContext = {}
+  ): Promise<ImpersonationResult> {
+    const customer = await customerRepository.findById(customerId);
+    if (!customer || customer.deletedAt) {
+      throw new NotFoundError('Customer');
+    }
+
+    if (customer.role !== 'customer') {
+      throw new ValidationError('Only customer accounts can be impersonated');
+    }
+
+    const allowDestructive = !!input.allowDestructive;
+    const expiresAt = JWTUtils.getExpirationDate(config.impersonationExpiresIn);
+
+    // The refresh token is never handed out, so the session can't be extended
+    const session = await sessionRepository.createImpersonationSession(
+      customer._id,
+      admin._id,
+      allowDestructive,
+      hashToken(generateOpaqueToken()),
+      expiresAt,
+      context
+    );
+
+    const token = JWTUtils.generateToken(
+      {
+        customerId: customer._id.toString(),
+        email: customer.email || customer.phone || '',
+        sessionId: session._id.toString(),
+        impersonation: {
+          impersonatorId: admin._id.toString(),
+          allowDestructive,
+        },
+      },
+      config.impersonationExpiresIn
+    );
+
+    await auditLogRepository.record({
+      action: 'impersonation_started',
+      impersonatorId: admin._id,
+      customerId: customer._id,
+      sessionId: session._id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { reason: input.reason, allowDestructive, expiresAt },
+    });
+
+    logger.warn('Admin started impersonating customer', {
+      adminId: admin._id,
+      customerId: customer._id,
+      allowDestructive,
+      expiresAt,
+    });
+
+    return {
+      token,
+      expiresAt,
+      allowDestructive,
+      customer: authService.getProfile(customer),
+    };
+  }
+
+  /**
+   * Check that an impersonation token is still valid
+   *
+   * The session must have been issued to the same admin, and they must
+   * still be an admin.
+   *
+   * @param claims - Impersonation claims from the access token
+   * @param sessionImpersonatorId - Impersonator recorded on the session
+   * @returns True if the impersonation may continue
+   */
+  async isValid(claims: ImpersonationClaims, sessionImpersonatorId?: string): Promise<boolean> {
+    if (!sessionImpersonatorId || sessionImpersonatorId !== claims.impersonatorId) {
+      return false;
+    }
+
+    const admin = await customerRepository.findById(claims.impersonatorId);
+    return !!admin && admin.role === 'admin' && !admin.deletedAt;
+  }
+
+  /**
+   * Write an audit entry for a request made while impersonating
+   *
+   * @param claims - Impersonation claims from the access token
+   * @param customerId - Customer being impersonated
+   * @param sessionId - Impersonation session
+   * @param request - Request details
+   */
+  async recordRequest(
+    claims: ImpersonationClaims,
+    customerId: string,
+    sessionId: string,
+    request: ImpersonatedRequest
+  ): Promise<void> {
+    await auditLogRepository.record({
+      action: 'impersonated_request',
+      impersonatorId: claims.impersonatorId as any,
+      customerId: customerId as any,
+      sessionId: sessionId as any,
+      method: request.method,
+      path: request.path,
+      statusCode: request.statusCode,
+      ipAddress: request.ipAddress,
+      userAgent: request.userAgent,
+    });
+  }
+
+  /**
+   * List audit entries, newest first
+   *
+   * @param filter - Impersonator and/or customer to filter by
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   * @returns Page of entries and the total count
+   */
+  async listAuditLogs(
+    filter: AuditLogFilter,
+    page: number,
+    limit: number
+  ): Promise<{ items: IAuditLog[]; total: number }> {
+    return auditLogRepository.findPage(filter, page, limit);
+  }
+
+  /**
+   * Block an operation during impersonation unless it was explicitly allowed
+   *
+   * @param claims - Impersonation claims, if the request is impersonated
+   * @param operation - Description used in the error, e.g. 'delete jobs'
+   * @throws ForbiddenError if impersonating without destructive access
+   */
+  assertDestructiveAllowed(claims: ImpersonationClaims | undefined, operation: string): void {
+    if (claims && !claims.allowDestructive) {
+      throw new ForbiddenError(`You cannot ${operation} while impersonating a customer`);
+    }
+  }
+}
+
+// Export singleton instance
+export const impersonationService = new ImpersonationService();
@@ -2,17 +2,21 @@
  * Job Service
  *
  * Handles all job-related business logic directly with ServiceM8.
- * No local database storage - all data fetched in real-time.
+ * Jobs written here are also stored in the local mirror when syncing is on.
  */
 
-import { servicem8Service } from './servicem8.service';
+import { servicem8Registry } from './servicem8.service';
+import { servicem8Mirror } from './servicem8Mirror.service';
+import { jobLifecycleService } from './jobLifecycle.service';
+import { verificationService } from './verification.service';
+import { authorizationService } from './authorization.service';
 import { logger } from '../utils/logger';
 import {
   NotFoundError,
   JobCreationError,
   JobUpdateError,
-  JobDeletionError,
-  ForbiddenError,
+  ValidationError,
+  ServiceUnavailableError,
 } from '../utils/errors';
 import { ICustomer, ServiceM8Job } from '../types';
 
@@ -57,7 +61,12 @@ class JobService {
    * @param customerId - Customer ID (for logging)
    * @param customer - Customer document
    * @returns Created job
+   * @throws ForbiddenError if the customer must verify a contact channel first
+   * @throws ValidationError if a link to an existing company is still pending,
+   *   or a customer sets the scheduled date
+   * @throws JobTransitionError if the job may not start in the requested status
    * @throws JobCreationError if ServiceM8 creation fails
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
    */
   async createJob(
     input: CreateJobInput,
@@ -66,6 +75,17 @@ class JobService {
   ): Promise<JobResult> {
     const { job_address, job_description, scheduled_date, status } = input;
 
+    // Block unverified sign-ups from creating jobs (when the policy is enabled)
+    verificationService.assertCanCreateJobs(customer);
+
+    jobLifecycleService.assertCanCreate(status || 'Quote', jobLifecycleService.getActor(customer));
+    this.assertCanSetSchedule(scheduled_date, customer);
+
+    // Creating a company now would duplicate the one awaiting confirmation
+    if (customer.pendingServiceM8ClientUuid) {
+      throw new ValidationError('Confirm or decline linking your existing account before booking');
+    }
+
     logger.info('Creating job for customer', { 
       customerId,
       email: customer.email, 
@@ -85,7 +105,7 @@ class JobService {
                             customer.phone || 
                             'Customer';
         
-        const company = await servicem8Service.createCompany({
+        const company = await servicem8Registry.current().createCompany({
           name: companyName,
           email: customer.email,
           mobile: customer.phone,
@@ -106,6 +126,9 @@ class JobService {
         logger.error('Failed to create company for existing customer', { 
           error: error.message 
         });
+        if (error instanceof ServiceUnavailableError) {
+          throw error;
+        }
         throw new JobCreationError('Failed to create customer account in ServiceM8');
       }
     }
@@ -113,7 +136,7 @@ class JobService {
     // Create job in ServiceM8
     let servicem8Job: ServiceM8Job;
     try {
-      servicem8Job = await servicem8Service.createJob({
+      servicem8Job = await servicem8Registry.current().createJob({
         job_address,
         job_description,
         scheduled_date,
@@ -124,6 +147,9 @@ class JobService {
       logger.info('Created job in ServiceM8', { uuid: servicem8Job.uuid });
     } catch (error: any) {
       logger.error('Failed to create job in ServiceM8', { error: error.message });
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
       throw new JobCreationError('Failed to create job in ServiceM8');
     }
 
@@ -135,6 +161,8 @@ class JobService {
       throw new JobCreationError('Invalid response from ServiceM8 - missing job uuid');
     }
 
+    await servicem8Mirror.rememberJob(servicem8Job);
+
     return this.mapServiceM8JobToResult(servicem8Job);
   }
 
@@ -148,7 +176,10 @@ class JobService {
    * @returns Updated job
    * @throws NotFoundError if job not found
    * @throws ForbiddenError if customer doesn't own the job
+   * @throws ValidationError if a customer sets the scheduled date
+   * @throws JobTransitionError if the status change is not allowed
    * @throws JobUpdateError if update fails
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
    */
   async updateJob(
     jobUuid: string,
@@ -159,26 +190,17 @@ class JobService {
     const { job_address, job_description, scheduled_date, status } = input;
 
     // Fetch job from ServiceM8 to verify ownership
-    const job = await servicem8Service.getJobByUuid(jobUuid);
-    if (!job) {
-      throw new NotFoundError('Job');
-    }
+    const job = await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Job',
+      action: 'update this job',
+    });
 
-    // Check if job is active
-    if (job.active === 0) {
-      throw new NotFoundError('Job');
-    }
+    this.assertCanSetSchedule(scheduled_date, customer);
 
-    // Verify customer owns this job
-    if (job.company_uuid !== customer.servicem8ClientUuid) {
-      logger.warn('Customer attempted to update job they do not own', {
-        customerId,
-        jobUuid,
-        jobCompanyUuid: job.company_uuid,
-        customerCompanyUuid: customer.servicem8ClientUuid
-      });
-      throw new ForbiddenError('You do not have permission to update this job');
-    }
+    // Check the status change before anything is sent to ServiceM8
+    const transition = status
+      ? jobLifecycleService.assertCanTransition(job.status, status, jobLifecycleService.getActor(customer))
+      : null;
 
     logger.info('Updating job', { 
       customerId,
@@ -195,67 +217,36 @@ class JobService {
     // Update job in ServiceM8
     let servicem8Job: ServiceM8Job;
     try {
-      servicem8Job = await servicem8Service.updateJob(jobUuid, updateData);
+      servicem8Job = await servicem8Registry.current().updateJob(jobUuid, updateData);
       logger.info('Updated job in ServiceM8', { uuid: servicem8Job.uuid });
     } catch (error: any) {
       logger.error('Failed to update job in ServiceM8', { error: error.message });
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
       throw new JobUpdateError('Failed to update job in ServiceM8');
     }
 
+    await servicem8Mirror.rememberJob(servicem8Job);
+
+    if (transition) {
+      await jobLifecycleService.applySideEffects(servicem8Job, transition, customer);
+    }
+
     return this.mapServiceM8JobToResult(servicem8Job);
   }
 
   /**
-   * Delete a job (cancel in ServiceM8)
+   * Check the principal may set the scheduled date directly
    *
-   * @param jobUuid - ServiceM8 Job UUID
-   * @param customerId - Customer ID for logging
-   * @param customer - Customer document for ownership verification
-   * @throws NotFoundError if job not found
-   * @throws ForbiddenError if customer doesn't own the job
-   * @throws JobDeletionError if cancellation fails
+   * Customers pick from the free slots and make a reschedule request
+   * instead, so the office confirms every booking.
    */
-  async deleteJob(jobUuid: string, customerId: string, customer: ICustomer): Promise<void> {
-    // Fetch job from ServiceM8 to verify ownership
-    const job = await servicem8Service.getJobByUuid(jobUuid);
-    if (!job) {
-      throw new NotFoundError('Job');
-    }
-
-    // Check if job is already inactive
-    if (job.active === 0) {
-      throw new NotFoundError('Job');
-    }
-
-    // Verify customer owns this job
-    if (job.company_uuid !== customer.servicem8ClientUuid) {
-      logger.warn('Customer attempted to delete job they do not own', {
-        customerId,
-        jobUuid,
-        jobCompanyUuid: job.company_uuid,
-        customerCompanyUuid: customer.servicem8ClientUuid
-      });
-      throw new ForbiddenError('You do not have permission to delete this job');
-    }
-
-    logger.info('Deleting job', { 
-      customerId,
-      jobUuid
-    });
-
-    // Deactivate job in ServiceM8 by setting active to 0
-    // This is the proper way to delete/cancel jobs in ServiceM8
-    try {
-      await servicem8Service.updateJob(jobUuid, {
-        active: 0,
-      });
-      logger.info('Deactivated job in ServiceM8', { jobUuid });
-    } catch (error: any) {
-      logger.error('Failed to deactivate job in ServiceM8', { 
-        jobUuid,
-        error: error.message 
-      });
-      throw new JobDeletionError('Failed to deactivate job in ServiceM8');
+  private assertCanSetSchedule(scheduledDate: string | undefined, customer: ICustomer): void {
+    if (scheduledDate && jobLifecycleService.getActor(customer) === 'customer') {
+      throw new ValidationError(
+        'To choose a time, pick one of the available slots and request a reschedule'
+      );
     }
   }
 
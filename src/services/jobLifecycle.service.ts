@@ -0,0 +1,162 @@
+/**
+ * Job Lifecycle Service
+ *
+ * Enforces the job status state machine in config/jobLifecycle before a
+ * status change is sent to ServiceM8, and carries out the side effects of a
+ * change once ServiceM8 has accepted it: a system message on the job's
+ * thread and, for customer-facing changes, a notification to the company's
+ * portal users.
+ */
+
+import { messageService } from './message.service';
+import { notificationService } from './notification.service';
+import { customerRepository } from '../repositories/customer.repository';
+import { INITIAL_JOB_STATUSES, JOB_TRANSITIONS, JobTransition } from '../config/jobLifecycle';
+import { JobTransitionError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ICustomer, JobActor, JobStatus, ServiceM8Job } from '../types';
+
+const ACTOR_NAMES: Record<JobActor, string> = {
+  customer: 'Customers',
+  staff: 'Staff',
+  system: 'The portal',
+};
+
+class JobLifecycleService {
+  /**
+   * Get the actor a principal changes jobs as
+   *
+   * @param principal - Authenticated customer, staff member or admin
+   */
+  getActor(principal: ICustomer): JobActor {
+    return principal.role === 'customer' ? 'customer' : 'staff';
+  }
+
+  /**
+   * Get the statuses an actor may move a job to
+   *
+   * @param from - Current status
+   * @param actor - Who would make the change
+   */
+  getAllowedStatuses(from: string, actor: JobActor): JobStatus[] {
+    return JOB_TRANSITIONS
+      .filter(transition => transition.from === from && transition.actors.includes(actor))
+      .map(transition => transition.to);
+  }
+
+  /**
+   * Check that a new job may start in a status
+   *
+   * @param status - Requested status
+   * @param actor - Who is creating the job
+   * @throws JobTransitionError if the actor may not create jobs in that status
+   */
+  assertCanCreate(status: string, actor: JobActor): void {
+    const allowed = INITIAL_JOB_STATUSES[actor];
+    if (!allowed.includes(status as JobStatus)) {
+      throw new JobTransitionError(
+        `${ACTOR_NAMES[actor]} cannot create a job as ${status}. Allowed: ${allowed.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Check a status change
+   *
+   * @param from - Current status
+   * @param to - Requested status
+   * @param actor - Who is making the change
+   * @returns The transition, or null if the status is unchanged
+   * @throws JobTransitionError if the change is not allowed for the actor
+   */
+  assertCanTransition(from: string, to: string, actor: JobActor): JobTransition | null {
+    if (from === to) {
+      return null;
+    }
+
+    const transition = JOB_TRANSITIONS.find(candidate => candidate.from === from && candidate.to === to);
+    if (transition && transition.actors.includes(actor)) {
+      return transition;
+    }
+
+    if (actor === 'customer' && to === 'Cancelled') {
+      throw new JobTransitionError('To cancel a job, request a cancellation with a reason');
+    }
+
+    const allowed = this.getAllowedStatuses(from, actor);
+    const reason = transition
+      ? `${ACTOR_NAMES[actor]} cannot change a job from ${from} to ${to}`
+      : `A job cannot change from ${from} to ${to}`;
+
+    throw new JobTransitionError(
+      allowed.length > 0
+        ? `${reason}. Allowed: ${allowed.join(', ')}`
+        : `${reason}. No status changes are allowed from ${from}`
+    );
+  }
+
+  /**
+   * Carry out the side effects of a status change ServiceM8 has accepted
+   *
+   * Best effort: the change has already been made, so failures are logged
+   * rather than thrown.
+   *
+   * @param job - Job after the change
+   * @param transition - Transition that was made
+   * @param principal - Who made the change (or triggered it, for the system)
+   */
+  async applySideEffects(job: ServiceM8Job, transition: JobTransition, principal: ICustomer): Promise<void> {
+    try {
+      await messageService.createSystemMessage(job.uuid, principal._id, transition.message);
+    } catch (error: any) {
+      logger.warn('Failed to post status change message', { jobUuid: job.uuid, error: error.message });
+    }
+
+    logger.info('Job status changed', {
+      jobUuid: job.uuid,
+      from: transition.from,
+      to: transition.to,
+      changedBy: principal._id,
+    });
+
+    if (!transition.notify || !job.company_uuid) {
+      return;
+    }
+
+    let recipients: ICustomer[];
+    try {
+      recipients = (await customerRepository.findAllByServiceM8Uuid(job.company_uuid))
+        .filter(customer => !customer._id.equals(principal._id));
+    } catch (error: any) {
+      logger.warn('Failed to find customers to notify', { jobUuid: job.uuid, error: error.message });
+      return;
+    }
+
+    const subject = `Job ${job.generated_job_id || job.uuid}: ${transition.to}`;
+
+    for (const recipient of recipients) {
+      const to = recipient.email || recipient.phone;
+      if (!to) {
+        continue;
+      }
+
+      try {
+        await notificationService.send({
+          channel: recipient.email ? 'email' : 'sms',
+          to,
+          subject,
+          body: `${subject}. ${transition.message}`,
+        });
+      } catch (error: any) {
+        logger.warn('Failed to send status change notification', {
+          jobUuid: job.uuid,
+          customerId: recipient._id,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const jobLifecycleService = new JobLifecycleService();
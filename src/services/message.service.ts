@@ -7,10 +7,10 @@
 
 import { Types } from 'mongoose';
 import { messageRepository } from '../repositories/message.repository';
-import { servicem8Service } from './servicem8.service';
+import { authorizationService } from './authorization.service';
 import { logger } from '../utils/logger';
-import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
-import { ICustomer } from '../types';
+import { ValidationError } from '../utils/errors';
+import { ICustomer, MessageSenderType } from '../types';
 
 /**
  * Message result for API responses
@@ -18,7 +18,7 @@ import { ICustomer } from '../types';
 export interface MessageResult {
   id: Types.ObjectId;
   message: string;
-  senderType: 'customer' | 'system';
+  senderType: MessageSenderType;
   createdAt: Date;
 }
 
@@ -39,25 +39,11 @@ class MessageService {
     customer: ICustomer
   ): Promise<MessageResult[]> {
     // Verify job exists and belongs to customer
-    const job = await servicem8Service.getJobByUuid(jobUuid);
-    if (!job) {
-      throw new NotFoundError('Booking');
-    }
-
-    // Check if job is active
-    if (job.active === 0) {
-      throw new NotFoundError('Booking');
-    }
-
-    if (job.company_uuid !== customer.servicem8ClientUuid) {
-      logger.warn('Customer attempted to access messages for job they do not own', {
-        customerId,
-        jobUuid,
-        jobCompanyUuid: job.company_uuid,
-        customerCompanyUuid: customer.servicem8ClientUuid
-      });
-      throw new ForbiddenError('You do not have permission to access these messages');
-    }
+    await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Booking',
+      action: 'access these messages',
+      preferLocal: true,
+    });
 
     // Fetch messages (lean query for performance)
     const messages = await messageRepository.findByJobUuidLean(jobUuid);
@@ -95,36 +81,21 @@ class MessageService {
     }
 
     // Verify job exists and belongs to customer
-    const job = await servicem8Service.getJobByUuid(jobUuid);
-    if (!job) {
-      throw new NotFoundError('Booking');
-    }
-
-    // Check if job is active
-    if (job.active === 0) {
-      throw new NotFoundError('Booking');
-    }
-
-    if (job.company_uuid !== customer.servicem8ClientUuid) {
-      logger.warn('Customer attempted to send message for job they do not own', {
-        customerId,
-        jobUuid,
-        jobCompanyUuid: job.company_uuid,
-        customerCompanyUuid: customer.servicem8ClientUuid
-      });
-      throw new ForbiddenError('You do not have permission to send messages for this job');
-    }
+    await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Booking',
+      action: 'send messages for this job',
+      preferLocal: true,
+    });
 
-    // Create message
-    const newMessage = await messageRepository.createCustomerMessage(
-      jobUuid,
-      customerId,
-      trimmedMessage
-    );
+    // Create message (office users reply as staff)
+    const newMessage = customer.role === 'customer'
+      ? await messageRepository.createCustomerMessage(jobUuid, customerId, trimmedMessage)
+      : await messageRepository.createStaffMessage(jobUuid, customerId, trimmedMessage);
 
-    logger.info('New message sent by customer', { 
+    logger.info('New message sent', { 
       jobUuid,
       customerId,
+      senderType: newMessage.senderType,
       messageId: newMessage._id 
     });
 
@@ -0,0 +1,109 @@
+/**
+ * Notification Service
+ *
+ * Sends email/SMS notifications to customers through a pluggable transport.
+ * Console and file transports are provided as stand-ins for local development;
+ * production deployments register a real provider with `setTransport`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+/**
+ * Delivery channel
+ */
+export type NotificationChannel = 'email' | 'sms';
+
+/**
+ * Notification to deliver
+ */
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Transport that delivers notifications (email provider, SMS gateway, ...)
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Writes notifications to the application log
+ */
+export class ConsoleNotificationTransport implements NotificationTransport {
+  readonly name = 'console';
+
+  async send(message: NotificationMessage): Promise<void> {
+    logger.info('Notification (console transport)', { ...message });
+  }
+}
+
+/**
+ * Appends notifications as JSON lines to a file
+ */
+export class FileNotificationTransport implements NotificationTransport {
+  readonly name = 'file';
+
+  constructor(
+    private readonly filePath: string = path.join(__dirname, '../../logs/notifications.log')
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    await fs.promises.appendFile(this.filePath, `${line}\n`);
+  }
+}
+
+/**
+ * Create the transport selected by NOTIFICATION_TRANSPORT
+ */
+const createTransport = (name: string): NotificationTransport => {
+  switch (name) {
+    case 'file':
+      return new FileNotificationTransport();
+    case 'console':
+      return new ConsoleNotificationTransport();
+    default:
+      logger.warn('Unknown notification transport, falling back to console', { name });
+      return new ConsoleNotificationTransport();
+  }
+};
+
+class NotificationService {
+  constructor(private transport: NotificationTransport) {}
+
+  /**
+   * Replace the transport (e.g. with a real email/SMS provider)
+   *
+   * @param transport - Transport to use for all subsequent notifications
+   */
+  setTransport(transport: NotificationTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a notification
+   *
+   * @param message - Notification to deliver
+   */
+  async send(message: NotificationMessage): Promise<void> {
+    await this.transport.send(message);
+
+    logger.info('Notification sent', {
+      transport: this.transport.name,
+      channel: message.channel,
+    });
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService(
+  createTransport(config.notificationTransport)
+);
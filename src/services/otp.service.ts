@@ -0,0 +1,250 @@
+/**
+ * One-time Code (OTP) Service
+ *
+ * Issues and verifies short numeric codes sent by email or SMS, with expiry,
+ * attempt counting and resend throttling. Used for passwordless login.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { hashToken } from '../utils/crypto.utils';
+import { customerRepository } from '../repositories/customer.repository';
+import { oneTimeTokenRepository } from '../repositories/oneTimeToken.repository';
+import { notificationService, NotificationChannel } from './notification.service';
+import { logger } from '../utils/logger';
+import {
+  AuthenticationError,
+  TooManyRequestsError,
+  ValidationError,
+} from '../utils/errors';
+import { ICustomer, OneTimeTokenPurpose } from '../types';
+
+/**
+ * Input identifying the account a code is for
+ */
+export interface OtpRequestInput {
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Input for verifying a login code
+ */
+export interface OtpVerifyInput extends OtpRequestInput {
+  code: string;
+}
+
+/**
+ * Result of checking a code
+ */
+export type OtpCheckResult = 'valid' | 'invalid' | 'expired';
+
+/**
+ * Code delivery details
+ */
+export interface OtpDelivery {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  describe: (code: string) => string;
+}
+
+const CODE_LENGTH = 6;
+
+class OtpService {
+  /**
+   * Send a login code to the customer's email or phone
+   *
+   * Resolves silently for unknown accounts, and when a code was sent too
+   * recently (no new code is sent), so callers can't probe for accounts.
+   *
+   * @param input - Email or phone of the account
+   */
+  async requestLoginCode(input: OtpRequestInput): Promise<void> {
+    const { customer, channel } = await this.findCustomer(input);
+
+    if (!customer) {
+      logger.info('Login code requested for unknown account', { channel });
+      return;
+    }
+
+    try {
+      await this.issueCode(customer, 'login_otp', {
+        channel,
+        to: channel === 'email' ? customer.email! : customer.phone!,
+        subject: 'Your login code',
+        describe: (code) => `Your login code is ${code}. It expires in ${config.otpExpiresIn}.`,
+      });
+    } catch (error) {
+      if (!(error instanceof TooManyRequestsError)) {
+        throw error;
+      }
+      logger.info('Login code requested again too soon; not resent', { customerId: customer._id });
+    }
+  }
+
+  /**
+   * Verify a login code
+   *
+   * @param customer - Customer the code was requested for (see findCustomer)
+   * @param code - Code entered by the customer
+   * @returns True if the code was accepted; false if wrong, expired or out of attempts
+   */
+  async verifyLoginCode(customer: ICustomer, code: string): Promise<boolean> {
+    const result = await this.checkCode(customer, 'login_otp', code);
+    if (result !== 'valid') {
+      return false;
+    }
+
+    logger.info('Login code verified', { customerId: customer._id });
+
+    return true;
+  }
+
+  /**
+   * Generate, store and deliver a new code
+   *
+   * Replaces any previous code of the same purpose.
+   *
+   * @param customer - Customer the code is for
+   * @param purpose - What the code can be used for
+   * @param delivery - Where and how to send the code
+   * @throws TooManyRequestsError if a code was sent too recently
+   */
+  async issueCode(
+    customer: ICustomer,
+    purpose: OneTimeTokenPurpose,
+    delivery: OtpDelivery
+  ): Promise<void> {
+    await this.assertCanResend(customer, purpose);
+
+    await oneTimeTokenRepository.deleteByCustomerId(customer._id, purpose);
+
+    const code = crypto.randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+    const expiresAt = JWTUtils.getExpirationDate(config.otpExpiresIn);
+    await oneTimeTokenRepository.createToken(
+      customer._id,
+      purpose,
+      this.hashCode(customer, code),
+      expiresAt
+    );
+
+    await notificationService.send({
+      channel: delivery.channel,
+      to: delivery.to,
+      subject: delivery.subject,
+      body: delivery.describe(code),
+    });
+
+    logger.info('One-time code issued', {
+      customerId: customer._id,
+      purpose,
+      channel: delivery.channel,
+    });
+  }
+
+  /**
+   * Check that a new code of a purpose may be sent yet
+   *
+   * @param customer - Customer the code would be for
+   * @param purpose - What the code would be used for
+   * @throws TooManyRequestsError if a code was sent too recently
+   */
+  async assertCanResend(customer: ICustomer, purpose: OneTimeTokenPurpose): Promise<void> {
+    const previous = await oneTimeTokenRepository.findActive(customer._id, purpose);
+    if (!previous) {
+      return;
+    }
+
+    const elapsedSeconds = (Date.now() - previous.createdAt.getTime()) / 1000;
+    if (elapsedSeconds < config.otpResendIntervalSeconds) {
+      const waitSeconds = Math.ceil(config.otpResendIntervalSeconds - elapsedSeconds);
+      throw new TooManyRequestsError(
+        `Please wait ${waitSeconds} seconds before requesting another code`
+      );
+    }
+  }
+
+  /**
+   * Check a code against the customer's active code of a purpose
+   *
+   * Wrong guesses count towards the attempt limit; once it is reached the
+   * code is burned and a new one must be requested.
+   *
+   * @param customer - Customer the code was issued to
+   * @param purpose - Expected purpose
+   * @param code - Code entered by the customer
+   * @returns 'valid' if accepted (and consumed), otherwise the reason
+   */
+  async checkCode(
+    customer: ICustomer,
+    purpose: OneTimeTokenPurpose,
+    code: string
+  ): Promise<OtpCheckResult> {
+    const token = await oneTimeTokenRepository.findActive(customer._id, purpose);
+    if (!token || token.attempts >= config.otpMaxAttempts) {
+      return 'expired';
+    }
+
+    const expected = Buffer.from(token.tokenHash, 'hex');
+    const actual = Buffer.from(this.hashCode(customer, code.trim()), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      const updated = await oneTimeTokenRepository.incrementAttempts(token._id);
+
+      if (updated && updated.attempts >= config.otpMaxAttempts) {
+        await oneTimeTokenRepository.consumeById(token._id);
+        logger.warn('One-time code burned after too many attempts', {
+          customerId: customer._id,
+          purpose,
+        });
+      }
+
+      return 'invalid';
+    }
+
+    const consumed = await oneTimeTokenRepository.consumeById(token._id);
+    return consumed ? 'valid' : 'expired';
+  }
+
+  /**
+   * Look up the customer by email or phone and pick the matching channel
+   *
+   * @param input - Email or phone of the account
+   * @returns Matching customer (or null) and the channel the input names
+   * @throws ValidationError if neither email nor phone is given
+   */
+  async findCustomer(
+    input: OtpRequestInput
+  ): Promise<{ customer: ICustomer | null; channel: NotificationChannel }> {
+    const normalizedEmail = input.email?.toLowerCase().trim();
+    const normalizedPhone = input.phone?.trim();
+
+    if (normalizedEmail) {
+      return {
+        customer: await customerRepository.findByEmail(normalizedEmail),
+        channel: 'email',
+      };
+    }
+
+    if (normalizedPhone) {
+      return {
+        customer: await customerRepository.findByPhone(normalizedPhone),
+        channel: 'sms',
+      };
+    }
+
+    throw new ValidationError('Either email or phone is required');
+  }
+
+  /**
+   * Hash a code, salted with the customer ID so equal codes never collide
+   */
+  private hashCode(customer: ICustomer, code: string): string {
+    return hashToken(`${customer._id.toString()}:${code}`);
+  }
+}
+
+// Export singleton instance
+export const otpService = new OtpService();
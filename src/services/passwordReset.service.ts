@@ -0,0 +1,127 @@
+/**
+ * Password Reset Service
+ *
+ * Handles account recovery with hashed, single-use reset tokens delivered
+ * by email or SMS.
+ */
+
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { generateOpaqueToken, hashToken } from '../utils/crypto.utils';
+import { customerRepository } from '../repositories/customer.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { oneTimeTokenRepository } from '../repositories/oneTimeToken.repository';
+import { notificationService, NotificationChannel } from './notification.service';
+import { accountLockoutService } from './accountLockout.service';
+import { passwordSchema } from '../validators/auth.validator';
+import { logger } from '../utils/logger';
+import { ValidationError, InvalidTokenError } from '../utils/errors';
+
+/**
+ * Forgot password input data
+ */
+export interface ForgotPasswordInput {
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Reset password input data
+ */
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+class PasswordResetService {
+  /**
+   * Send a password reset link to the customer
+   *
+   * Always resolves without revealing whether an account exists.
+   *
+   * @param input - Email or phone of the account
+   */
+  async requestReset(input: ForgotPasswordInput): Promise<void> {
+    const normalizedEmail = input.email?.toLowerCase().trim();
+    const normalizedPhone = input.phone?.trim();
+
+    if (!normalizedEmail && !normalizedPhone) {
+      throw new ValidationError('Either email or phone is required');
+    }
+
+    const customer = await customerRepository.findByEmailOrPhone(
+      normalizedEmail,
+      normalizedPhone
+    );
+
+    if (!customer) {
+      logger.info('Password reset requested for unknown account');
+      return;
+    }
+
+    // Only the most recent reset link is valid
+    await oneTimeTokenRepository.deleteByCustomerId(customer._id, 'password_reset');
+
+    const token = generateOpaqueToken(32);
+    const expiresAt = JWTUtils.getExpirationDate(config.passwordResetExpiresIn);
+    await oneTimeTokenRepository.createToken(
+      customer._id,
+      'password_reset',
+      hashToken(token),
+      expiresAt
+    );
+
+    // Reply on the channel the customer asked on
+    const channel: NotificationChannel = normalizedEmail && customer.email ? 'email' : 'sms';
+    const resetUrl = `${config.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await notificationService.send({
+      channel,
+      to: channel === 'email' ? customer.email! : customer.phone!,
+      subject: 'Reset your password',
+      body: `Use this link to reset your password: ${resetUrl}. It expires in ${config.passwordResetExpiresIn}.`,
+    });
+
+    logger.info('Password reset requested', { customerId: customer._id, channel });
+  }
+
+  /**
+   * Set a new password using a reset token
+   *
+   * Revokes every existing session for the customer and unlocks the
+   * account if it was locked after failed logins.
+   *
+   * @param input - Reset token and new password
+   * @throws InvalidTokenError if the token is invalid, expired or already used
+   */
+  async resetPassword(input: ResetPasswordInput): Promise<void> {
+    const { token, password } = input;
+
+    const policy = passwordSchema.safeParse(password);
+    if (!policy.success) {
+      throw new ValidationError(policy.error.issues[0].message);
+    }
+
+    const resetToken = await oneTimeTokenRepository.consume(hashToken(token), 'password_reset');
+    if (!resetToken) {
+      throw new InvalidTokenError('Invalid or expired reset token');
+    }
+
+    const customer = await customerRepository.findById(resetToken.customerId.toString());
+    if (!customer) {
+      throw new InvalidTokenError('Invalid or expired reset token');
+    }
+
+    // Password is hashed by the model's pre-save hook
+    customer.password = password;
+    await customer.save();
+
+    const revoked = await sessionRepository.deleteByCustomerId(customer._id);
+    await accountLockoutService.unlock(customer);
+
+    logger.info('Password reset completed', { customerId: customer._id, revokedSessions: revoked });
+  }
+}
+
+// Export singleton instance
+export const passwordResetService = new PasswordResetService();
@@ -0,0 +1,236 @@
+/**
+ * Profile Service
+ *
+ * Lets customers edit their own details and change their password.
+ * Contact and address changes are pushed to the linked ServiceM8 company
+ * so the office always has current details.
+ */
+
+import { servicem8Registry } from './servicem8.service';
+import { verificationService } from './verification.service';
+import { customerRepository } from '../repositories/customer.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { logger } from '../utils/logger';
+import {
+  ConflictError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../utils/errors';
+import { ICustomer } from '../types';
+
+/**
+ * Profile update input (all fields optional)
+ */
+export interface UpdateProfileInput {
+  firstName?: string;
+  lastName?: string;
+  address?: string;
+  email?: string;
+  phone?: string;
+  currentPassword?: string; // Required to change email or phone
+}
+
+/**
+ * Change password input
+ */
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Profile fields an update can change
+ */
+type ProfileSnapshot = Pick<
+  ICustomer,
+  'firstName' | 'lastName' | 'address' | 'email' | 'emailVerified' | 'phone' | 'phoneVerified'
+>;
+
+class ProfileService {
+  /**
+   * Update the customer's profile
+   *
+   * Changing the email or phone needs the current password, since either
+   * can be used to reset it. The new details must be verified again, and
+   * codes already sent to the old ones stop working.
+   *
+   * @param customer - Customer document
+   * @param input - Fields to change
+   * @returns Updated customer
+   * @throws ValidationError if the current password is missing or wrong
+   * @throws ConflictError if the new email or phone belongs to another account
+   * @throws TooManyRequestsError if a verification code was sent too recently
+   * @throws ServiceUnavailableError if ServiceM8 can't be updated (the change is undone)
+   */
+  async updateProfile(customer: ICustomer, input: UpdateProfileInput): Promise<ICustomer> {
+    const normalizedEmail = input.email?.toLowerCase().trim();
+    const normalizedPhone = input.phone?.trim();
+
+    const emailChanged = !!normalizedEmail && normalizedEmail !== customer.email;
+    const phoneChanged = !!normalizedPhone && normalizedPhone !== customer.phone;
+
+    if (emailChanged || phoneChanged) {
+      if (!input.currentPassword) {
+        throw new ValidationError('Current password is required to change your email or phone');
+      }
+      const isPasswordValid = await customer.comparePassword(input.currentPassword);
+      if (!isPasswordValid) {
+        throw new ValidationError('Current password is incorrect');
+      }
+    }
+
+    // Check the new contact details aren't used by another account
+    if (emailChanged || phoneChanged) {
+      const existing = await customerRepository.findByEmailOrPhone(
+        emailChanged ? normalizedEmail : undefined,
+        phoneChanged ? normalizedPhone : undefined
+      );
+
+      if (existing && !existing._id.equals(customer._id)) {
+        throw new ConflictError('Customer with this email or phone already exists');
+      }
+    }
+
+    // Refuse before anything changes rather than skip the new code
+    if (emailChanged) await verificationService.assertCanResend(customer, 'email');
+    if (phoneChanged) await verificationService.assertCanResend(customer, 'phone');
+
+    // Kept to put back if ServiceM8 refuses the change
+    const previous: ProfileSnapshot = {
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      address: customer.address,
+      email: customer.email,
+      emailVerified: customer.emailVerified,
+      phone: customer.phone,
+      phoneVerified: customer.phoneVerified,
+    };
+
+    if (input.firstName !== undefined) customer.firstName = input.firstName;
+    if (input.lastName !== undefined) customer.lastName = input.lastName;
+    if (input.address !== undefined) customer.address = input.address;
+    if (emailChanged) {
+      customer.email = normalizedEmail;
+      customer.emailVerified = false;
+    }
+    if (phoneChanged) {
+      customer.phone = normalizedPhone;
+      customer.phoneVerified = false;
+    }
+
+    if (!customer.isModified()) {
+      return customer;
+    }
+
+    // Save first so a local failure (e.g. a duplicate email) never leaves
+    // ServiceM8 ahead of the portal, then undo it if ServiceM8 can't be updated
+    await customer.save();
+
+    try {
+      await this.syncToServiceM8(customer);
+    } catch (error) {
+      await this.revert(customer, previous);
+      throw error;
+    }
+
+    logger.info('Customer profile updated', {
+      customerId: customer._id,
+      emailChanged,
+      phoneChanged,
+    });
+
+    if (emailChanged) await verificationService.discardCodes(customer, 'email');
+    if (phoneChanged) await verificationService.discardCodes(customer, 'phone');
+
+    if (emailChanged) await verificationService.sendCode(customer, 'email');
+    if (phoneChanged) await verificationService.sendCode(customer, 'phone');
+
+    return customer;
+  }
+
+  /**
+   * Change the customer's password
+   *
+   * Signs out every other device; the current session stays active.
+   *
+   * @param customer - Customer document
+   * @param input - Current and new password
+   * @param currentSessionId - Session making the request
+   * @throws ValidationError if the current password is wrong
+   */
+  async changePassword(
+    customer: ICustomer,
+    input: ChangePasswordInput,
+    currentSessionId: string
+  ): Promise<void> {
+    const isPasswordValid = await customer.comparePassword(input.currentPassword);
+    if (!isPasswordValid) {
+      throw new ValidationError('Current password is incorrect');
+    }
+
+    if (input.currentPassword === input.newPassword) {
+      throw new ValidationError('New password must be different from the current password');
+    }
+
+    // Password is hashed by the model's pre-save hook
+    customer.password = input.newPassword;
+    await customer.save();
+
+    const revoked = await sessionRepository.deleteOthersForCustomer(
+      customer._id,
+      currentSessionId
+    );
+
+    logger.info('Customer changed password', { customerId: customer._id, revokedSessions: revoked });
+  }
+
+  /**
+   * Put back the profile details saved before a failed ServiceM8 sync
+   */
+  private async revert(customer: ICustomer, previous: ProfileSnapshot): Promise<void> {
+    Object.assign(customer, previous);
+
+    try {
+      await customer.save();
+    } catch (error: any) {
+      logger.error('Failed to revert profile after ServiceM8 sync failed', {
+        customerId: customer._id,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Push name, contact details and address to the linked ServiceM8 company
+   */
+  private async syncToServiceM8(customer: ICustomer): Promise<void> {
+    // Members and viewers share the owner's company; their details stay local
+    if (!customer.servicem8ClientUuid || customer.companyRole !== 'owner') {
+      return;
+    }
+
+    const name =
+      `${customer.firstName || ''} ${customer.lastName || ''}`.trim() ||
+      customer.email ||
+      customer.phone ||
+      'Customer';
+
+    try {
+      await servicem8Registry.current().updateCompany(customer.servicem8ClientUuid, {
+        name,
+        email: customer.email,
+        mobile: customer.phone,
+        address: customer.address,
+      });
+    } catch (error: any) {
+      logger.error('Failed to sync profile to ServiceM8', {
+        customerId: customer._id,
+        error: error.message,
+      });
+      throw new ServiceUnavailableError('ServiceM8');
+    }
+  }
+}
+
+// Export singleton instance
+export const profileService = new ProfileService();
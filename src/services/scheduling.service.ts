@@ -0,0 +1,551 @@
+/**
+ * Scheduling Service
+ *
+ * Offers customers the appointment slots that are still free and lets them
+ * ask for a job to be moved to one. Staff confirm (or decline) the request;
+ * only a confirmed request changes the job's scheduled date in ServiceM8.
+ *
+ * Slots are worked out by the slot calculator from the business hours,
+ * service durations and blackout dates in config (SCHEDULING_*), against
+ * the visits already in the ServiceM8 diary plus the times held by other
+ * customers' reschedule requests.
+ */
+
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { servicem8Registry } from './servicem8.service';
+import { servicem8Mirror } from './servicem8Mirror.service';
+import { authorizationService } from './authorization.service';
+import { jobLifecycleService } from './jobLifecycle.service';
+import { messageService } from './message.service';
+import { notificationService } from './notification.service';
+import { rescheduleRequestRepository } from '../repositories/rescheduleRequest.repository';
+import { customerRepository } from '../repositories/customer.repository';
+import {
+  SlotPolicy,
+  TimeRange,
+  calculateAvailableSlots,
+  isSlotAvailable,
+  parseBusinessHours,
+  parseServiceDurations,
+} from '../utils/slotCalculator.utils';
+import { formatServiceM8Date, parseServiceM8Date } from '../utils/servicem8Date.utils';
+import { logger } from '../utils/logger';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  ServiceUnavailableError,
+  JobUpdateError,
+} from '../utils/errors';
+import { ICustomer, IRescheduleRequest, RescheduleStatus, ServiceM8Job } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Jobs that can still be given a new time
+const RESCHEDULABLE_STATUSES = ['Quote', 'Work Order', 'Scheduled'];
+
+/**
+ * Slot lookup options
+ */
+export interface SlotOptions {
+  from?: string; // "YYYY-MM-DD", default today
+  days?: number; // Default 7, capped at the booking horizon
+  service?: string; // Default: the first configured service
+}
+
+/**
+ * Free slot, in ServiceM8 date format
+ */
+export interface SlotSummary {
+  start: string;
+  end: string;
+}
+
+/**
+ * Slot lookup result
+ */
+export interface SlotsResult {
+  service: string;
+  durationMinutes: number;
+  slots: SlotSummary[];
+}
+
+/**
+ * Reschedule request input
+ */
+export interface RequestRescheduleInput {
+  start: string; // "YYYY-MM-DD HH:mm", one of the offered slots
+  service?: string;
+  note?: string;
+}
+
+/**
+ * Reschedule request for API responses
+ */
+export interface RescheduleSummary {
+  id: Types.ObjectId;
+  jobUuid: string;
+  status: RescheduleStatus;
+  service: string;
+  start: string;
+  end: string;
+  note?: string;
+  previousScheduledDate?: string;
+  reviewNote?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+class SchedulingService {
+  private readonly policy: SlotPolicy;
+  private readonly durations: Record<string, number>;
+  private readonly defaultService: string;
+
+  constructor() {
+    this.policy = {
+      businessHours: parseBusinessHours(config.schedulingBusinessHours),
+      slotIntervalMinutes: config.schedulingSlotIntervalMinutes,
+      leadTimeMinutes: config.schedulingLeadTimeHours * 60,
+      blackoutDates: config.schedulingBlackoutDates,
+      capacity: config.schedulingCapacity,
+    };
+    this.durations = parseServiceDurations(config.schedulingServiceDurations);
+    this.defaultService = Object.keys(this.durations)[0];
+  }
+
+  /**
+   * List the free slots a job could be moved to
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @param customer - Customer asking
+   * @param options - Period and service
+   * @returns Free slots, earliest first
+   * @throws NotFoundError if job not found
+   * @throws ForbiddenError if customer doesn't own the job
+   * @throws ValidationError if the service or start date is unknown
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
+   */
+  async getSlots(jobUuid: string, customer: ICustomer, options: SlotOptions = {}): Promise<SlotsResult> {
+    await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Job',
+      action: 'view slots for this job',
+    });
+
+    const service = options.service || this.defaultService;
+    const durationMinutes = this.getDuration(service);
+
+    const now = new Date();
+    const from = options.from ? this.parseDay(options.from) : this.startOfDay(now);
+    const days = Math.min(options.days ?? 7, config.schedulingHorizonDays);
+    const to = new Date(
+      Math.min(from.getTime() + days * MS_PER_DAY, now.getTime() + config.schedulingHorizonDays * MS_PER_DAY)
+    );
+    if (to <= from) {
+      return { service, durationMinutes, slots: [] };
+    }
+
+    const bookings = await this.getBookings(jobUuid, from, to);
+    const slots = calculateAvailableSlots(this.policy, { from, to, durationMinutes, now }, bookings);
+
+    return { service, durationMinutes, slots: slots.map(slot => this.mapSlot(slot)) };
+  }
+
+  /**
+   * Ask for a job to be moved to a free slot
+   *
+   * The slot is held for the job until staff confirm or decline.
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @param customer - Customer making the request
+   * @param input - Slot, service and an optional note for the office
+   * @returns Pending request
+   * @throws NotFoundError if job not found
+   * @throws ForbiddenError if customer doesn't own the job
+   * @throws ValidationError if the service or start time can't be read
+   * @throws ConflictError if the job can't be rescheduled, the slot is no
+   *   longer free, or a request is already awaiting confirmation
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
+   */
+  async requestReschedule(
+    jobUuid: string,
+    customer: ICustomer,
+    input: RequestRescheduleInput
+  ): Promise<RescheduleSummary> {
+    const job = await authorizationService.getAccessibleJob(customer, jobUuid, {
+      resource: 'Job',
+      action: 'reschedule this job',
+    });
+    this.assertReschedulable(job);
+
+    const service = input.service || this.defaultService;
+    const slot = this.toSlot(input.start, this.getDuration(service));
+
+    if (slot.start.getTime() > Date.now() + config.schedulingHorizonDays * MS_PER_DAY) {
+      throw new ConflictError(`Slots can only be booked up to ${config.schedulingHorizonDays} days ahead`);
+    }
+    const bookings = await this.getBookings(jobUuid, slot.start, slot.end);
+    if (!isSlotAvailable(this.policy, slot, bookings, new Date())) {
+      throw new ConflictError('That time is no longer available. Please choose another slot');
+    }
+
+    let request: IRescheduleRequest;
+    try {
+      request = await rescheduleRequestRepository.create({
+        jobUuid,
+        companyUuid: job.company_uuid,
+        requestedBy: customer._id,
+        service,
+        startsAt: slot.start,
+        endsAt: slot.end,
+        note: input.note,
+        previousScheduledDate: job.scheduled_date,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError('A reschedule request for this job is already awaiting confirmation');
+      }
+      throw error;
+    }
+
+    const when = formatServiceM8Date(slot.start);
+    await this.addNote(
+      jobUuid,
+      `Reschedule to ${when} (${service}) requested by ${this.describe(customer)} via the customer portal` +
+        (input.note ? `: ${input.note}` : '')
+    );
+    await this.postMessage(
+      jobUuid,
+      customer._id,
+      `New time requested: ${when}. Our team will confirm and let you know.`
+    );
+
+    logger.info('Reschedule requested', { jobUuid, requestId: request._id });
+    return this.mapRequest(request);
+  }
+
+  /**
+   * List reschedule requests, newest first
+   *
+   * @param status - Only requests with this status (default: all)
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  async listRequests(
+    status: RescheduleStatus | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: RescheduleSummary[]; total: number }> {
+    const { items, total } = await rescheduleRequestRepository.findPage(status, page, limit);
+    return { items: items.map(request => this.mapRequest(request)), total };
+  }
+
+  /**
+   * Confirm a pending request and move the job in ServiceM8
+   *
+   * Work orders become Scheduled; quotes and scheduled jobs keep their status.
+   *
+   * @param requestId - Reschedule request ID
+   * @param reviewer - Staff member confirming
+   * @param options - Note for the customer; force to book over a clash
+   * @returns Confirmed request
+   * @throws NotFoundError if the request doesn't exist
+   * @throws ConflictError if the request has already been decided, the job
+   *   can no longer be rescheduled, or the slot has since been taken
+   * @throws JobUpdateError if updating the job in ServiceM8 fails
+   * @throws ServiceUnavailableError if ServiceM8 is down or rate limiting us
+   */
+  async confirm(
+    requestId: string,
+    reviewer: ICustomer,
+    options: { note?: string; force?: boolean } = {}
+  ): Promise<RescheduleSummary> {
+    const request = await this.getPendingRequest(requestId);
+
+    const job = await authorizationService.getAccessibleJob(reviewer, request.jobUuid, {
+      resource: 'Job',
+      action: 'reschedule this job',
+    });
+    this.assertReschedulable(job);
+
+    const slot = { start: request.startsAt, end: request.endsAt };
+    if (slot.start.getTime() <= Date.now()) {
+      throw new ConflictError('The requested time has passed');
+    }
+    if (!options.force) {
+      // Lead time is measured from when the customer asked, not from now
+      const bookings = await this.getBookings(request.jobUuid, slot.start, slot.end);
+      if (!isSlotAvailable(this.policy, slot, bookings, request.createdAt)) {
+        throw new ConflictError('The requested time is no longer free. Decline the request or confirm with force');
+      }
+    }
+
+    const transition =
+      job.status === 'Work Order'
+        ? jobLifecycleService.assertCanTransition(job.status, 'Scheduled', 'staff')
+        : null;
+
+    // Claim the request before moving the job, so two reviewers can't both act on it
+    const confirmed = await rescheduleRequestRepository.markDecided(
+      request._id,
+      'confirmed',
+      reviewer._id,
+      options.note
+    );
+    if (!confirmed) {
+      throw new ConflictError('This reschedule request has already been decided');
+    }
+
+    let updated: ServiceM8Job;
+    try {
+      updated = await servicem8Registry.current().updateJob(job.uuid, {
+        scheduled_date: formatServiceM8Date(slot.start),
+        ...(transition && { status: transition.to }),
+      });
+    } catch (error: any) {
+      logger.error('Failed to reschedule job in ServiceM8', { jobUuid: job.uuid, error: error.message });
+      await this.releaseClaim(confirmed);
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
+      throw new JobUpdateError('Failed to reschedule job in ServiceM8');
+    }
+
+    await servicem8Mirror.rememberJob(updated);
+    if (transition) {
+      await jobLifecycleService.applySideEffects(updated, transition, reviewer);
+    }
+
+    const when = formatServiceM8Date(slot.start);
+    await this.addNote(
+      request.jobUuid,
+      `Reschedule to ${when} confirmed by ${this.describe(reviewer)}` +
+        (request.previousScheduledDate ? ` (was ${request.previousScheduledDate})` : '') +
+        (options.note ? `\nNote: ${options.note}` : '')
+    );
+    await this.postMessage(
+      request.jobUuid,
+      reviewer._id,
+      `Your new time is confirmed: ${when}.` + (options.note ? ` ${options.note}` : '')
+    );
+    await this.notifyRequester(confirmed, `Your new time is confirmed: ${when}.`);
+
+    logger.info('Reschedule request confirmed', { requestId, reviewerId: reviewer._id });
+    return this.mapRequest(confirmed);
+  }
+
+  /**
+   * Decline a pending request; the job keeps its current time
+   *
+   * @param requestId - Reschedule request ID
+   * @param reviewer - Staff member declining
+   * @param note - Explanation for the customer
+   * @returns Declined request
+   * @throws NotFoundError if the request doesn't exist
+   * @throws ConflictError if the request has already been decided
+   */
+  async decline(requestId: string, reviewer: ICustomer, note: string): Promise<RescheduleSummary> {
+    const request = await this.getPendingRequest(requestId);
+
+    const declined = await rescheduleRequestRepository.markDecided(request._id, 'declined', reviewer._id, note);
+    if (!declined) {
+      throw new ConflictError('This reschedule request has already been decided');
+    }
+
+    const when = formatServiceM8Date(request.startsAt);
+    await this.addNote(
+      request.jobUuid,
+      `Reschedule to ${when} declined by ${this.describe(reviewer)}: ${note}`
+    );
+    await this.postMessage(request.jobUuid, reviewer._id, `Requested time ${when} declined: ${note}`);
+    await this.notifyRequester(declined, `Your requested time (${when}) was declined: ${note}`);
+
+    logger.info('Reschedule request declined', { requestId, reviewerId: reviewer._id });
+    return this.mapRequest(declined);
+  }
+
+  /**
+   * Collect what is already booked in a period, other than the job itself
+   *
+   * Visits in the ServiceM8 diary, plus the times held by other jobs'
+   * reschedule requests. A job's latest request is its hold; once staff have
+   * put the job in the diary the visit counts instead.
+   */
+  private async getBookings(jobUuid: string, from: Date, to: Date): Promise<TimeRange[]> {
+    const [activities, holds] = await Promise.all([
+      servicem8Registry.current().getScheduledActivities(from, to),
+      rescheduleRequestRepository.findHolds(from, to),
+    ]);
+
+    const bookings: TimeRange[] = [];
+    const inDiary = new Set<string>();
+
+    for (const activity of activities) {
+      const start = parseServiceM8Date(activity.start_date);
+      const end = parseServiceM8Date(activity.end_date);
+      if (activity.job_uuid === jobUuid || !start || !end) {
+        continue;
+      }
+      inDiary.add(activity.job_uuid);
+      bookings.push({ start, end });
+    }
+
+    // Holds are newest first, so the first one seen is the job's latest
+    const seen = new Set<string>([jobUuid, ...inDiary]);
+    for (const hold of holds) {
+      if (seen.has(hold.jobUuid)) {
+        continue;
+      }
+      seen.add(hold.jobUuid);
+      bookings.push({ start: hold.startsAt, end: hold.endsAt });
+    }
+
+    return bookings;
+  }
+
+  private assertReschedulable(job: ServiceM8Job): void {
+    if (!RESCHEDULABLE_STATUSES.includes(job.status)) {
+      throw new ConflictError(`A job that is ${job.status} can no longer be rescheduled`);
+    }
+  }
+
+  private getDuration(service: string): number {
+    const duration = this.durations[service];
+    if (!duration) {
+      throw new ValidationError(
+        `Unknown service "${service}". Available: ${Object.keys(this.durations).join(', ')}`
+      );
+    }
+    return duration;
+  }
+
+  /**
+   * Read a "YYYY-MM-DD HH:mm" start time into a slot of the given length
+   *
+   * Times that don't exist, such as 31 February or one skipped when clocks
+   * go forward, are rejected rather than moved.
+   */
+  private toSlot(start: string, durationMinutes: number): TimeRange {
+    const minute = start.slice(0, 16);
+    const startsAt = parseServiceM8Date(`${minute}:00`);
+    if (!startsAt || formatServiceM8Date(startsAt).slice(0, 16) !== minute) {
+      throw new ValidationError('Invalid start time');
+    }
+    return { start: startsAt, end: new Date(startsAt.getTime() + durationMinutes * MS_PER_MINUTE) };
+  }
+
+  private parseDay(value: string): Date {
+    const day = parseServiceM8Date(`${value} 00:00:00`);
+    if (!day) {
+      throw new ValidationError('Invalid from date');
+    }
+    return day;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private async getPendingRequest(requestId: string): Promise<IRescheduleRequest> {
+    const request = Types.ObjectId.isValid(requestId)
+      ? await rescheduleRequestRepository.findById(requestId)
+      : null;
+    if (!request) {
+      throw new NotFoundError('Reschedule request');
+    }
+    if (request.status !== 'pending') {
+      throw new ConflictError('This reschedule request has already been decided');
+    }
+    return request;
+  }
+
+  /**
+   * Put a claimed request back to pending after moving the job failed
+   *
+   * If that fails too the request stays confirmed for a job that wasn't
+   * moved, so it is logged for staff to put right.
+   */
+  private async releaseClaim(request: IRescheduleRequest): Promise<void> {
+    try {
+      await rescheduleRequestRepository.reopen(request._id);
+    } catch (error: any) {
+      logger.error('Failed to reopen reschedule request', { requestId: request._id, error: error.message });
+    }
+  }
+
+  /**
+   * Add a note to the job in ServiceM8
+   *
+   * Best effort: the request has already been recorded (and possibly acted
+   * on), so a failed note is logged rather than undoing it.
+   */
+  private async addNote(jobUuid: string, note: string): Promise<void> {
+    try {
+      await servicem8Registry.current().addJobNote(jobUuid, note);
+    } catch (error: any) {
+      logger.error('Failed to add reschedule note to job', { jobUuid, error: error.message });
+    }
+  }
+
+  private async postMessage(jobUuid: string, senderId: Types.ObjectId, text: string): Promise<void> {
+    try {
+      await messageService.createSystemMessage(jobUuid, senderId, text);
+    } catch (error: any) {
+      logger.warn('Failed to post reschedule message', { jobUuid, error: error.message });
+    }
+  }
+
+  private async notifyRequester(request: IRescheduleRequest, body: string): Promise<void> {
+    try {
+      const requester = await customerRepository.findById(request.requestedBy.toString());
+      const to = requester?.email || requester?.phone;
+      if (!requester || !to) {
+        return;
+      }
+      await notificationService.send({
+        channel: requester.email ? 'email' : 'sms',
+        to,
+        subject: 'Your reschedule request',
+        body,
+      });
+    } catch (error: any) {
+      logger.warn('Failed to notify reschedule requester', { requestId: request._id, error: error.message });
+    }
+  }
+
+  private describe(principal: ICustomer): string {
+    return (
+      `${principal.firstName || ''} ${principal.lastName || ''}`.trim() ||
+      principal.email ||
+      principal.phone ||
+      'a customer'
+    );
+  }
+
+  private mapSlot(slot: TimeRange): SlotSummary {
+    return { start: formatServiceM8Date(slot.start), end: formatServiceM8Date(slot.end) };
+  }
+
+  /**
+   * Map request to summary
+   */
+  private mapRequest(request: IRescheduleRequest): RescheduleSummary {
+    return {
+      id: request._id,
+      jobUuid: request.jobUuid,
+      status: request.status,
+      service: request.service,
+      start: formatServiceM8Date(request.startsAt),
+      end: formatServiceM8Date(request.endsAt),
+      note: request.note,
+      previousScheduledDate: request.previousScheduledDate,
+      reviewNote: request.reviewNote,
+      reviewedAt: request.reviewedAt,
+      createdAt: request.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const schedulingService = new SchedulingService();
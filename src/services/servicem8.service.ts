@@ -1,43 +1,173 @@
 import axios, { AxiosInstance } from 'axios';
 import { config } from '../config/env';
-import { ServiceM8Job, ServiceM8Attachment, ServiceM8Company, CreateJobPayload } from '../types';
+import {
+  ServiceM8Job,
+  ServiceM8Attachment,
+  ServiceM8Company,
+  CreateJobPayload,
+  ITenant,
+  ServiceM8WebhookObject,
+  ServiceM8JobActivity,
+} from '../types';
 import { logger } from '../utils/logger';
+import { ServiceUnavailableError } from '../utils/errors';
+import { contactMatches, normalizeEmail } from '../utils/contact.utils';
+import { CircuitBreaker } from '../utils/circuitBreaker.utils';
+import { TokenBucket } from '../utils/tokenBucket.utils';
+import {
+  backoffDelay,
+  isIdempotentMethod,
+  isTransientError,
+  parseRetryAfter,
+  sleep,
+} from '../utils/retry.utils';
+import { ServiceM8Filter } from '../utils/servicem8Filter.utils';
+import { getCurrentTenant } from '../utils/tenantContext';
+import { servicem8AuthService, ServiceM8Credentials } from './servicem8Auth.service';
+import { ServiceM8Cache, CacheStats, servicem8CacheStore } from './servicem8Cache.service';
+import { servicem8Events } from './servicem8Events.service';
 
-class ServiceM8Service {
+/**
+ * Webhook subscription registered with ServiceM8
+ */
+export interface ServiceM8WebhookSubscription {
+  object: string;
+  fields: string;
+  callback_url: string;
+}
+
+/**
+ * Client for one ServiceM8 account
+ *
+ * Transient failures (429, 5xx, timeouts) of idempotent calls are retried
+ * with jittered exponential backoff. Repeated failures open a circuit
+ * breaker so callers get a 503 straight away, and a token bucket keeps us
+ * under the account's rate limit.
+ *
+ * Get instances from `servicem8Registry` rather than constructing them.
+ */
+export class ServiceM8Service {
   private client: AxiosInstance;
   private readonly baseURL = 'https://api.servicem8.com/api_1.0';
+  // Webhook subscriptions live outside the versioned API
+  private readonly webhookSubscriptionsURL = 'https://api.servicem8.com/webhook_subscriptions';
+  private readonly breaker = new CircuitBreaker('servicem8', {
+    failureThreshold: config.servicem8BreakerFailureThreshold,
+    cooldownMs: config.servicem8BreakerCooldownSeconds * 1000,
+  });
+  private readonly rateLimiter = new TokenBucket({
+    capacity: config.servicem8RateLimitBurst,
+    refillPerSecond: config.servicem8RateLimitPerMinute / 60,
+    maxWaitMs: config.servicem8RetryMaxDelayMs,
+  });
 
-  constructor() {
-    // Use API Key authentication as per ServiceM8 documentation
+  constructor(
+    private readonly credentials: ServiceM8Credentials,
+    private readonly cache: ServiceM8Cache
+  ) {
+    // Authenticates with an API key or, for add-on installs, an OAuth access token
     // https://developer.servicem8.com/docs/authentication
     this.client = axios.create({
       baseURL: this.baseURL,
       headers: {
-        'X-API-Key': config.servicem8ApiToken,
         'Content-Type': 'application/json',
       },
       timeout: 10000,
     });
 
-    // Request interceptor for logging
-    this.client.interceptors.request.use((config) => {
+    // Request interceptor for rate limiting, credentials and logging
+    this.client.interceptors.request.use(async (requestConfig) => {
+      if (!(await this.rateLimiter.take())) {
+        logger.warn('ServiceM8 rate limit queue is full', { url: requestConfig.url });
+        throw new ServiceUnavailableError('ServiceM8');
+      }
+      if (!this.breaker.tryAcquire()) {
+        throw new ServiceUnavailableError('ServiceM8');
+      }
+
+      const authHeaders = await this.credentials.getAuthHeaders();
+      Object.entries(authHeaders).forEach(([name, value]) => requestConfig.headers.set(name, value));
+
       logger.debug('ServiceM8 API Request', { 
-        method: config.method?.toUpperCase(), 
-        url: config.url 
+        method: requestConfig.method?.toUpperCase(), 
+        url: requestConfig.url 
       });
-      return config;
+      return requestConfig;
     });
 
-    // Response interceptor for logging
+    // Response interceptor for retries and logging
     this.client.interceptors.response.use(
       (response) => {
+        this.breaker.recordSuccess();
         logger.debug('ServiceM8 API Success', { 
           url: response.config.url, 
           status: response.status 
         });
         return response;
       },
-      (error) => {
+      async (error) => {
+        // Rejected before sending (rate limit queue full or circuit open)
+        if (error instanceof ServiceUnavailableError) {
+          throw error;
+        }
+
+        const request = error.config;
+        const status = error.response?.status;
+        const transient = isTransientError(error);
+
+        // 429s mean ServiceM8 is up, so only 5xx and network errors count
+        // towards opening the circuit
+        if (transient && status !== 429) {
+          this.breaker.recordFailure();
+        } else {
+          this.breaker.recordSuccess();
+        }
+
+        // An access token can be revoked before it expires - refresh once and retry
+        if (status === 401 && request && !request._authRetried) {
+          request._authRetried = true;
+          if (await this.credentials.forceRefresh()) {
+            return this.client.request(request);
+          }
+        }
+
+        // A 429 was rejected before any change was made, so any method can
+        // be retried; other transient errors only for idempotent calls
+        const attempt: number = request?._retryCount ?? 0;
+        if (
+          request &&
+          transient &&
+          attempt < config.servicem8MaxRetries &&
+          (status === 429 || isIdempotentMethod(request.method))
+        ) {
+          const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+          const delay = retryAfter ?? backoffDelay(
+            attempt,
+            config.servicem8RetryBaseDelayMs,
+            config.servicem8RetryMaxDelayMs
+          );
+
+          // Don't hold the caller's request for longer than we'd ever back off
+          if (delay <= config.servicem8RetryMaxDelayMs) {
+            if (status === 429) {
+              this.rateLimiter.pause(delay);
+            }
+
+            request._retryCount = attempt + 1;
+            logger.warn('Retrying ServiceM8 request', {
+              method: request.method?.toUpperCase(),
+              url: request.url,
+              status,
+              code: error.code,
+              attempt: attempt + 1,
+              delayMs: delay,
+            });
+
+            await sleep(delay);
+            return this.client.request(request);
+          }
+        }
+
         logger.error('ServiceM8 API Error', {
           url: error.config?.url,
           status: error.response?.status,
@@ -53,19 +183,104 @@ class ServiceM8Service {
    */
   async getAllJobs(): Promise<ServiceM8Job[]> {
     try {
-      const response = await this.client.get<ServiceM8Job[]>('/job.json');
-      logger.info('Fetched jobs from ServiceM8', { count: response.data.length });
-      return response.data;
+      return await this.cache.getOrLoad('jobList', '*', async () => {
+        const response = await this.client.get<ServiceM8Job[]>('/job.json');
+        logger.info('Fetched jobs from ServiceM8', { count: response.data.length });
+        return response.data;
+      });
     } catch (error: any) {
       logger.error('Error fetching jobs from ServiceM8', { error: error.message });
-      throw new Error('Failed to fetch jobs from ServiceM8');
+      throw this.toServiceError(error, 'Failed to fetch jobs from ServiceM8');
+    }
+  }
+
+  /**
+   * Fetch the jobs matching a filter from ServiceM8
+   *
+   * ServiceM8 applies the filter, so only matching rows are downloaded.
+   */
+  async findJobs(filter: ServiceM8Filter): Promise<ServiceM8Job[]> {
+    try {
+      return await this.cache.getOrLoad('jobList', filter.toString() || '*', async () => {
+        const response = await this.client.get<ServiceM8Job[]>('/job.json', {
+          params: filter.isEmpty() ? undefined : { '$filter': filter.toString() },
+        });
+        logger.info('Fetched filtered jobs from ServiceM8', {
+          filter: filter.toString(),
+          count: response.data.length,
+        });
+        return response.data;
+      });
+    } catch (error: any) {
+      logger.error('Error fetching filtered jobs from ServiceM8', {
+        filter: filter.toString(),
+        error: error.message,
+      });
+      throw this.toServiceError(error, 'Failed to fetch jobs from ServiceM8');
+    }
+  }
+
+  /**
+   * Fetch one page of records straight from ServiceM8 (not cached)
+   *
+   * Uses ServiceM8's cursor paging: pass '-1' for the first page, then the
+   * returned cursor until there is none.
+   *
+   * @param resource - Endpoint, e.g. 'job'
+   * @param filter - Rows to return
+   * @param cursor - Page cursor
+   * @returns Records and the cursor of the next page, if any
+   */
+  async listPage<T>(
+    resource: 'job' | 'company' | 'attachment' | 'jobactivity',
+    filter: ServiceM8Filter,
+    cursor: string
+  ): Promise<{ records: T[]; nextCursor?: string }> {
+    try {
+      const response = await this.client.get<T[]>(`/${resource}.json`, {
+        params: {
+          cursor,
+          ...(filter.isEmpty() ? {} : { '$filter': filter.toString() }),
+        },
+      });
+      const nextCursor = response.headers['x-next-cursor'];
+      logger.debug('Fetched page from ServiceM8', {
+        resource,
+        filter: filter.toString(),
+        count: response.data.length,
+      });
+      return {
+        records: response.data,
+        nextCursor: nextCursor && nextCursor !== cursor ? String(nextCursor) : undefined,
+      };
+    } catch (error: any) {
+      logger.error('Error fetching page from ServiceM8', {
+        resource,
+        filter: filter.toString(),
+        error: error.message,
+      });
+      throw this.toServiceError(error, `Failed to fetch ${resource} records from ServiceM8`);
     }
   }
 
   /**
-   * Fetch a specific job by UUID from ServiceM8
+   * Fetch a company's active jobs from ServiceM8
+   */
+  async getActiveJobsForCompany(companyUuid: string): Promise<ServiceM8Job[]> {
+    return this.findJobs(new ServiceM8Filter().eq('company_uuid', companyUuid).eq('active', 1));
+  }
+
+  /**
+   * Fetch a specific job by UUID from ServiceM8 (cached)
    */
   async getJobByUuid(uuid: string): Promise<ServiceM8Job | null> {
+    return this.cache.getOrLoad('job', uuid, () => this.fetchJob(uuid));
+  }
+
+  /**
+   * Fetch a job straight from ServiceM8, bypassing the cache
+   */
+  private async fetchJob(uuid: string): Promise<ServiceM8Job | null> {
     try {
       const response = await this.client.get<ServiceM8Job>(`/job/${uuid}.json`);
       logger.debug('Fetched job from ServiceM8', { uuid });
@@ -76,7 +291,7 @@ class ServiceM8Service {
         return null;
       }
       logger.error('Error fetching job from ServiceM8', { uuid, error: error.message });
-      throw new Error('Failed to fetch job from ServiceM8');
+      throw this.toServiceError(error, 'Failed to fetch job from ServiceM8');
     }
   }
 
@@ -85,20 +300,22 @@ class ServiceM8Service {
    */
   async getJobAttachments(jobUuid: string): Promise<ServiceM8Attachment[]> {
     try {
-      const response = await this.client.get<ServiceM8Attachment[]>(
-        `/attachment.json`,
-        {
-          params: {
-            'related_object': 'job',
-            'related_object_uuid': jobUuid,
-          },
-        }
-      );
-      logger.debug('Fetched attachments for job', { 
-        jobUuid, 
-        count: response.data.length 
+      return await this.cache.getOrLoad('attachments', jobUuid, async () => {
+        const response = await this.client.get<ServiceM8Attachment[]>(
+          `/attachment.json`,
+          {
+            params: {
+              'related_object': 'job',
+              'related_object_uuid': jobUuid,
+            },
+          }
+        );
+        logger.debug('Fetched attachments for job', { 
+          jobUuid, 
+          count: response.data.length 
+        });
+        return response.data;
       });
-      return response.data;
     } catch (error: any) {
       logger.error('Error fetching attachments for job', { 
         jobUuid, 
@@ -114,16 +331,18 @@ class ServiceM8Service {
    */
   async getJobActivity(jobUuid: string): Promise<any[]> {
     try {
-      const response = await this.client.get('/jobactivity.json', {
-        params: {
-          'job_uuid': jobUuid,
-        },
-      });
-      logger.debug('Fetched activities for job', { 
-        jobUuid, 
-        count: response.data.length 
+      return await this.cache.getOrLoad('jobActivity', jobUuid, async () => {
+        const response = await this.client.get('/jobactivity.json', {
+          params: {
+            'job_uuid': jobUuid,
+          },
+        });
+        logger.debug('Fetched activities for job', { 
+          jobUuid, 
+          count: response.data.length 
+        });
+        return response.data;
       });
-      return response.data;
     } catch (error: any) {
       logger.error('Error fetching job activity', { 
         jobUuid, 
@@ -134,6 +353,162 @@ class ServiceM8Service {
     }
   }
 
+  /**
+   * Fetch the scheduled visits overlapping a period, across all jobs (not cached)
+   *
+   * These are the staff allocations in the ServiceM8 diary, used to work
+   * out which appointment slots are still free.
+   *
+   * @param from - Start of the period
+   * @param to - End of the period
+   */
+  async getScheduledActivities(from: Date, to: Date): Promise<ServiceM8JobActivity[]> {
+    const filter = new ServiceM8Filter()
+      .eq('activity_was_scheduled', 1)
+      .eq('active', 1)
+      .lt('start_date', to)
+      .gt('end_date', from);
+
+    const activities: ServiceM8JobActivity[] = [];
+    let cursor: string | undefined = '-1';
+    while (cursor) {
+      const page: { records: ServiceM8JobActivity[]; nextCursor?: string } =
+        await this.listPage<ServiceM8JobActivity>('jobactivity', filter, cursor);
+      activities.push(...page.records);
+      cursor = page.nextCursor;
+    }
+    return activities;
+  }
+
+  /**
+   * Add a note to a job in ServiceM8 (shown on the job in the office app)
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @param note - Note text
+   */
+  async addJobNote(jobUuid: string, note: string): Promise<void> {
+    try {
+      await this.client.post('/note.json', {
+        related_object: 'job',
+        related_object_uuid: jobUuid,
+        note,
+        active: 1,
+      });
+      logger.info('Added note to job in ServiceM8', { jobUuid });
+    } catch (error: any) {
+      logger.error('Error adding note to job in ServiceM8', { jobUuid, error: error.message });
+      throw this.toServiceError(error, 'Failed to add note to job in ServiceM8');
+    }
+  }
+
+  /**
+   * Fetch a single attachment straight from ServiceM8 (not cached)
+   *
+   * Used to find the job an attachment belongs to when it changes.
+   */
+  async getAttachmentByUuid(uuid: string): Promise<ServiceM8Attachment | null> {
+    try {
+      const response = await this.client.get<ServiceM8Attachment>(`/attachment/${uuid}.json`);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      logger.error('Error fetching attachment from ServiceM8', { uuid, error: error.message });
+      throw this.toServiceError(error, 'Failed to fetch attachment from ServiceM8');
+    }
+  }
+
+  /**
+   * Fetch a single job activity straight from ServiceM8 (not cached)
+   *
+   * Used to find the job an activity belongs to when it changes.
+   */
+  async getJobActivityByUuid(uuid: string): Promise<any | null> {
+    try {
+      const response = await this.client.get(`/jobactivity/${uuid}.json`);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      logger.error('Error fetching job activity from ServiceM8', { uuid, error: error.message });
+      throw this.toServiceError(error, 'Failed to fetch job activity from ServiceM8');
+    }
+  }
+
+  /**
+   * List the webhook subscriptions registered for this account
+   */
+  async listWebhookSubscriptions(): Promise<ServiceM8WebhookSubscription[]> {
+    try {
+      const response = await this.client.get<ServiceM8WebhookSubscription[]>(this.webhookSubscriptionsURL);
+      return response.data;
+    } catch (error: any) {
+      logger.error('Error listing ServiceM8 webhook subscriptions', { error: error.message });
+      throw this.toServiceError(error, 'Failed to list webhook subscriptions in ServiceM8');
+    }
+  }
+
+  /**
+   * Subscribe to changes of an object
+   *
+   * ServiceM8 calls the callback URL whenever one of the fields changes.
+   * Subscribing again with the same object replaces the subscription.
+   *
+   * @param object - Object type, e.g. 'job'
+   * @param fields - Fields to watch
+   * @param callbackUrl - Our webhook endpoint
+   */
+  async subscribeWebhook(
+    object: ServiceM8WebhookObject,
+    fields: string[],
+    callbackUrl: string
+  ): Promise<void> {
+    try {
+      const body = new URLSearchParams({
+        object,
+        fields: fields.join(','),
+        callback_url: callbackUrl,
+      });
+      await this.client.post(this.webhookSubscriptionsURL, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      });
+      logger.info('Subscribed to ServiceM8 webhook', { object, callbackUrl });
+    } catch (error: any) {
+      logger.error('Error subscribing to ServiceM8 webhook', {
+        object,
+        error: error.message,
+        response: error.response?.data,
+      });
+      throw this.toServiceError(error, 'Failed to subscribe to ServiceM8 webhook');
+    }
+  }
+
+  /**
+   * Remove the subscription for an object
+   *
+   * @param object - Object type, e.g. 'job'
+   * @param callbackUrl - Endpoint the subscription calls
+   */
+  async unsubscribeWebhook(object: ServiceM8WebhookObject, callbackUrl: string): Promise<void> {
+    try {
+      const body = new URLSearchParams({ object, callback_url: callbackUrl });
+      await this.client.delete(this.webhookSubscriptionsURL, {
+        data: body.toString(),
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      });
+      logger.info('Unsubscribed from ServiceM8 webhook', { object, callbackUrl });
+    } catch (error: any) {
+      logger.error('Error unsubscribing from ServiceM8 webhook', {
+        object,
+        error: error.message,
+        response: error.response?.data,
+      });
+      throw this.toServiceError(error, 'Failed to unsubscribe from ServiceM8 webhook');
+    }
+  }
+
   /**
    * Test connection to ServiceM8 API
    */
@@ -151,20 +526,114 @@ class ServiceM8Service {
   /**
    * Match a customer to ServiceM8 jobs by email or phone
    */
-  matchJobsToCustomer(jobs: ServiceM8Job[], email: string, phone: string): ServiceM8Job[] {
-    const normalizedEmail = email.toLowerCase().trim();
-    const normalizedPhone = phone.replace(/\D/g, ''); // Remove non-digits
+  matchJobsToCustomer(jobs: ServiceM8Job[], email?: string, phone?: string): ServiceM8Job[] {
+    return jobs.filter((job) =>
+      contactMatches(
+        { email: job.job_contact_email, phone: job.job_contact_mobile },
+        { email, phone }
+      )
+    );
+  }
 
-    return jobs.filter((job) => {
-      const jobEmail = job.job_contact_email?.toLowerCase().trim();
-      const jobPhone = job.job_contact_mobile?.replace(/\D/g, '');
+  /**
+   * Find UUIDs of active companies whose own details or contacts match an
+   * email or phone
+   *
+   * ServiceM8 filters companies and contacts by each detail, so only
+   * matching rows are downloaded. Its comparison is exact, so a phone number
+   * stored in a different format than it was entered won't be found.
+   */
+  async findCompanyUuidsByContact(email?: string, phone?: string): Promise<string[]> {
+    const filters = this.contactFilters({ email: 'email', phone: 'mobile' }, email, phone);
+    if (filters.length === 0) {
+      return [];
+    }
 
-      // Match by email or phone
-      const emailMatch = jobEmail && jobEmail === normalizedEmail;
-      const phoneMatch = jobPhone && jobPhone.includes(normalizedPhone);
+    try {
+      const [companies, contacts] = await Promise.all([
+        this.findRecords<ServiceM8Company>('company', filters),
+        this.findRecords<any>('companycontact', filters),
+      ]);
 
-      return emailMatch || phoneMatch;
-    });
+      const fromCompanies = companies
+        .filter(company => contactMatches({ email: company.email, phone: company.mobile }, { email, phone }))
+        .map(company => company.uuid);
+
+      // Contacts of archived companies don't count
+      const contactCompanyUuids = [
+        ...new Set(
+          contacts
+            .filter(contact => contactMatches({ email: contact.email, phone: contact.mobile }, { email, phone }))
+            .map(contact => contact.company_uuid as string)
+            .filter(uuid => uuid && !fromCompanies.includes(uuid))
+        ),
+      ];
+      const contactCompanies = await Promise.all(contactCompanyUuids.map(uuid => this.getCompanyByUuid(uuid)));
+      const fromContacts = contactCompanies
+        .filter((company): company is ServiceM8Company => !!company && company.active !== 0)
+        .map(company => company.uuid);
+
+      const uuids = [...fromCompanies, ...fromContacts];
+      logger.debug('Matched ServiceM8 companies by contact', { count: uuids.length });
+      return uuids;
+    } catch (error: any) {
+      logger.error('Error searching companies in ServiceM8', { error: error.message });
+      throw this.toServiceError(error, 'Failed to search companies in ServiceM8');
+    }
+  }
+
+  /**
+   * Find active jobs whose job contact matches an email or phone
+   *
+   * Catches customers whose company record has no contact details. Filtered
+   * by ServiceM8 like findCompanyUuidsByContact.
+   */
+  async findJobsByContact(email?: string, phone?: string): Promise<ServiceM8Job[]> {
+    const filters = this.contactFilters({ email: 'job_contact_email', phone: 'job_contact_mobile' }, email, phone);
+
+    const results = await Promise.all(filters.map(filter => this.findJobs(filter)));
+    const jobs = new Map(results.flat().map(job => [job.uuid, job]));
+
+    return this.matchJobsToCustomer([...jobs.values()], email, phone);
+  }
+
+  /**
+   * Build one filter per contact detail given, as ServiceM8 can't `or` them
+   *
+   * @param fields - Names of the record's email and phone fields
+   * @returns Filters for active records with that email, and with that phone
+   */
+  private contactFilters(
+    fields: { email: string; phone: string },
+    email?: string,
+    phone?: string
+  ): ServiceM8Filter[] {
+    const filters: ServiceM8Filter[] = [];
+    if (normalizeEmail(email)) {
+      filters.push(new ServiceM8Filter().eq(fields.email, normalizeEmail(email)).eq('active', 1));
+    }
+    if (phone?.trim()) {
+      filters.push(new ServiceM8Filter().eq(fields.phone, phone.trim()).eq('active', 1));
+    }
+    return filters;
+  }
+
+  /**
+   * Fetch the rows matching any of several filters (not cached)
+   *
+   * @returns Matching rows, each once
+   */
+  private async findRecords<T extends { uuid: string }>(
+    resource: 'company' | 'companycontact',
+    filters: ServiceM8Filter[]
+  ): Promise<T[]> {
+    const responses = await Promise.all(
+      filters.map(filter =>
+        this.client.get<T[]>(`/${resource}.json`, { params: { '$filter': filter.toString() } })
+      )
+    );
+    const records = new Map(responses.flatMap(response => response.data).map(record => [record.uuid, record]));
+    return [...records.values()];
   }
 
   /**
@@ -220,14 +689,21 @@ class ServiceM8Service {
         error: error.message,
         response: error.response?.data 
       });
-      throw new Error('Failed to create company in ServiceM8');
+      throw this.toServiceError(error, 'Failed to create company in ServiceM8');
     }
   }
 
   /**
-   * Get a company by UUID from ServiceM8
+   * Get a company by UUID from ServiceM8 (cached)
    */
   async getCompanyByUuid(uuid: string): Promise<ServiceM8Company | null> {
+    return this.cache.getOrLoad('company', uuid, () => this.fetchCompany(uuid));
+  }
+
+  /**
+   * Fetch a company straight from ServiceM8, bypassing the cache
+   */
+  private async fetchCompany(uuid: string): Promise<ServiceM8Company | null> {
     try {
       const response = await this.client.get<ServiceM8Company>(`/company/${uuid}.json`);
       logger.debug('Fetched company from ServiceM8', { uuid });
@@ -241,7 +717,54 @@ class ServiceM8Service {
         uuid, 
         error: error.message 
       });
-      throw new Error('Failed to fetch company from ServiceM8');
+      throw this.toServiceError(error, 'Failed to fetch company from ServiceM8');
+    }
+  }
+
+  /**
+   * Update an existing company in ServiceM8
+   */
+  async updateCompany(
+    uuid: string,
+    companyData: Partial<Omit<ServiceM8Company, 'uuid'>>
+  ): Promise<ServiceM8Company> {
+    try {
+      // First fetch the existing company to get all current fields (never
+      // from the cache, or a stale copy could overwrite newer changes)
+      const existingCompany = await this.fetchCompany(uuid);
+      if (!existingCompany) {
+        throw new Error('Company not found');
+      }
+
+      // Merge the updates with existing data
+      const updatedData = {
+        ...existingCompany,
+        ...companyData,
+        uuid, // Ensure UUID is preserved
+      };
+
+      logger.debug('Updating company in ServiceM8', { uuid, updates: companyData });
+
+      // POST the complete record back to ServiceM8
+      await this.client.post<ServiceM8Company>(`/company/${uuid}.json`, updatedData);
+
+      const updatedCompany = await this.fetchCompany(uuid);
+      if (!updatedCompany) {
+        throw new Error('Failed to fetch updated company');
+      }
+
+      // Write through so the next read sees the update
+      await this.cache.set('company', uuid, updatedCompany);
+
+      logger.info('Updated company in ServiceM8', { uuid });
+      return updatedCompany;
+    } catch (error: any) {
+      logger.error('Error updating company in ServiceM8', {
+        uuid,
+        error: error.message,
+        response: error.response?.data,
+      });
+      throw this.toServiceError(error, 'Failed to update company in ServiceM8');
     }
   }
 
@@ -289,11 +812,14 @@ class ServiceM8Service {
       
       logger.info('Created job in ServiceM8', { jobUuid });
       
-      // Fetch the complete job data
+      // Fetch the complete job data (this also caches it)
       const createdJob = await this.getJobByUuid(jobUuid);
       if (!createdJob) {
         throw new Error('Failed to fetch created job from ServiceM8');
       }
+
+      // Cached job lists no longer include every job
+      await this.cache.invalidate('jobList');
       
       return createdJob;
     } catch (error: any) {
@@ -302,7 +828,7 @@ class ServiceM8Service {
         responseStatus: error.response?.status,
         responseData: error.response?.data,
       });
-      throw new Error('Failed to create job in ServiceM8');
+      throw this.toServiceError(error, 'Failed to create job in ServiceM8');
     }
   }
 
@@ -311,8 +837,9 @@ class ServiceM8Service {
    */
   async updateJob(uuid: string, jobData: Partial<CreateJobPayload>): Promise<ServiceM8Job> {
     try {
-      // First fetch the existing job to get all current fields
-      const existingJob = await this.getJobByUuid(uuid);
+      // First fetch the existing job to get all current fields (never
+      // from the cache, or a stale copy could overwrite newer changes)
+      const existingJob = await this.fetchJob(uuid);
       if (!existingJob) {
         throw new Error('Job not found');
       }
@@ -337,11 +864,15 @@ class ServiceM8Service {
       });
 
       // After update, fetch the latest version to ensure we have current data
-      const updatedJob = await this.getJobByUuid(uuid);
+      const updatedJob = await this.fetchJob(uuid);
       if (!updatedJob) {
         throw new Error('Failed to fetch updated job');
       }
 
+      // Write through, and drop lists that may now filter differently
+      await this.cache.set('job', uuid, updatedJob);
+      await this.cache.invalidate('jobList');
+
       logger.info('Updated job in ServiceM8', { uuid });
       return updatedJob;
     } catch (error: any) {
@@ -350,10 +881,159 @@ class ServiceM8Service {
         error: error.message,
         response: error.response?.data
       });
-      throw new Error('Failed to update job in ServiceM8');
+      throw this.toServiceError(error, 'Failed to update job in ServiceM8');
+    }
+  }
+
+  /**
+   * Get the state of the circuit breaker (for health checks)
+   */
+  getCircuitState(): string {
+    return this.breaker.getState();
+  }
+
+  /**
+   * Turn a failed call into the error callers should see
+   *
+   * Outages (open circuit, or transient errors that outlasted the retries)
+   * become a 503 rather than a generic 500.
+   */
+  private toServiceError(error: any, message: string): Error {
+    if (error instanceof ServiceUnavailableError) {
+      return error;
+    }
+    if (axios.isAxiosError(error) && isTransientError(error)) {
+      return new ServiceUnavailableError('ServiceM8');
+    }
+    return new Error(message);
+  }
+
+  /**
+   * Drop everything cached about a job (e.g. when ServiceM8 reports a change)
+   */
+  async invalidateJob(uuid: string): Promise<void> {
+    await Promise.all([
+      this.cache.invalidate('job', uuid),
+      this.cache.invalidate('attachments', uuid),
+      this.cache.invalidate('jobActivity', uuid),
+      this.cache.invalidate('jobList'),
+    ]);
+  }
+
+  /**
+   * Drop a job's cached attachments
+   */
+  async invalidateAttachments(jobUuid: string): Promise<void> {
+    await this.cache.invalidate('attachments', jobUuid);
+  }
+
+  /**
+   * Drop a job's cached activity
+   */
+  async invalidateJobActivity(jobUuid: string): Promise<void> {
+    await this.cache.invalidate('jobActivity', jobUuid);
+  }
+
+  /**
+   * Drop a cached company (e.g. when ServiceM8 reports a change)
+   */
+  async invalidateCompany(uuid: string): Promise<void> {
+    await this.cache.invalidate('company', uuid);
+  }
+
+  /**
+   * Drop everything cached for this account
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  /**
+   * Get cache hit/miss counts for tuning TTLs
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+}
+
+/**
+ * Hands out one ServiceM8Service per ServiceM8 account
+ *
+ * In single-tenant mode there is one instance using the configured
+ * credentials. In multi-tenant mode each tenant gets its own, rebuilt
+ * whenever the tenant record changes.
+ */
+class ServiceM8Registry {
+  private defaultInstance?: ServiceM8Service;
+  private tenantInstances = new Map<string, { service: ServiceM8Service; version: number }>();
+
+  /**
+   * Get the client for a tenant
+   *
+   * @param tenant - Tenant (undefined in single-tenant mode)
+   */
+  forTenant(tenant?: ITenant): ServiceM8Service {
+    if (!tenant) {
+      this.defaultInstance ??= new ServiceM8Service(
+        servicem8AuthService.credentialsFor(),
+        new ServiceM8Cache(servicem8CacheStore, 'default')
+      );
+      return this.defaultInstance;
+    }
+
+    const tenantId = tenant._id.toString();
+    const version = tenant.updatedAt.getTime();
+    const existing = this.tenantInstances.get(tenantId);
+    if (existing && existing.version === version) {
+      return existing.service;
     }
+
+    const service = new ServiceM8Service(
+      servicem8AuthService.credentialsFor(tenant),
+      new ServiceM8Cache(servicem8CacheStore, tenantId)
+    );
+    this.tenantInstances.set(tenantId, { service, version });
+    return service;
+  }
+
+  /**
+   * Get the client for the current request's tenant
+   *
+   * @throws Error in multi-tenant mode when no tenant is active, rather
+   *   than falling back to another account's data
+   */
+  current(): ServiceM8Service {
+    const tenant = getCurrentTenant();
+    if (config.multiTenant && !tenant) {
+      throw new Error('No tenant is active for this ServiceM8 call');
+    }
+    return this.forTenant(tenant);
   }
 }
 
-export const servicem8Service = new ServiceM8Service();
+// Export singleton instance
+export const servicem8Registry = new ServiceM8Registry();
+
+// Keep cached ServiceM8 data in step with changes made in ServiceM8
+servicem8Events.subscribe('servicem8-cache', async (event) => {
+  const servicem8 = servicem8Registry.current();
 
+  switch (event.object) {
+    case 'job':
+      await servicem8.invalidateJob(event.uuid);
+      break;
+    case 'company':
+      await servicem8.invalidateCompany(event.uuid);
+      break;
+    case 'attachment':
+      if (event.jobUuid) {
+        await servicem8.invalidateAttachments(event.jobUuid);
+      }
+      break;
+    case 'jobactivity':
+      if (event.jobUuid) {
+        await servicem8.invalidateJobActivity(event.jobUuid);
+      }
+      break;
+  }
+});
@@ -0,0 +1,373 @@
+/**
+ * ServiceM8 Auth Service
+ *
+ * Supplies the credentials for ServiceM8 API calls. A private install uses
+ * an API key (from config, or the tenant in multi-tenant mode). As a
+ * published add-on the portal uses the OAuth2 authorization-code flow
+ * instead: an admin connects the ServiceM8 account once, the tokens are
+ * stored encrypted, and the access token is refreshed shortly before it
+ * expires.
+ */
+
+import axios from 'axios';
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { encrypt, decrypt } from '../utils/encryption.utils';
+import {
+  servicem8ConnectionRepository,
+  ConnectionTokens,
+} from '../repositories/servicem8Connection.repository';
+import { logger } from '../utils/logger';
+import {
+  InvalidTokenError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../utils/errors';
+import { tenantService } from './tenant.service';
+import { ICustomer, IServiceM8Connection, ITenant, ServiceM8AuthMode } from '../types';
+
+// Connection key in single-tenant mode (tenants use their ID)
+const DEFAULT_CONNECTION_KEY = 'default';
+
+// Refresh this long before the access token actually expires
+const REFRESH_LEEWAY_MS = 60 * 1000;
+
+/**
+ * Token endpoint response
+ */
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number; // Seconds
+  scope?: string;
+}
+
+/**
+ * Parameters ServiceM8 sends to the install callback
+ */
+export interface OAuthCallbackInput {
+  code?: string;
+  state: string;
+  error?: string;
+}
+
+/**
+ * Authenticates the requests of one ServiceM8Service instance
+ */
+export interface ServiceM8Credentials {
+  getAuthHeaders(): Promise<Record<string, string>>;
+  forceRefresh(): Promise<boolean>; // False when there is nothing to refresh
+}
+
+/**
+ * Current state of the ServiceM8 connection
+ */
+export interface ConnectionStatus {
+  mode: ServiceM8AuthMode;
+  connected: boolean;
+  scope?: string;
+  expiresAt?: Date;
+  connectedAt?: Date;
+  lastRefreshedAt?: Date;
+}
+
+class ServiceM8AuthService {
+  // In-flight refreshes by connection key, shared by concurrent requests
+  private refreshing = new Map<string, Promise<string>>();
+
+  /**
+   * Build the URL an admin visits to install the add-on
+   *
+   * @param admin - Admin starting the install
+   * @param tenant - Tenant being connected (multi-tenant mode)
+   * @returns ServiceM8 authorize URL
+   * @throws ValidationError if OAuth isn't configured
+   */
+  getAuthorizeUrl(admin: ICustomer, tenant?: ITenant): string {
+    this.assertOAuthConfigured(tenant);
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.servicem8OAuthClientId,
+      scope: config.servicem8OAuthScopes,
+      redirect_uri: config.servicem8OAuthRedirectUri,
+      state: JWTUtils.generateOAuthState(admin._id.toString(), tenant?._id.toString()),
+    });
+
+    return `${config.servicem8OAuthAuthorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Complete the install by exchanging the authorization code for tokens
+   *
+   * The callback has no tenant of its own; it comes from the signed state.
+   *
+   * @param input - Callback query parameters
+   * @returns New connection status
+   * @throws InvalidTokenError if the state is invalid or expired
+   * @throws ValidationError if the install was declined or the code rejected
+   * @throws ServiceUnavailableError if the token endpoint can't be reached
+   */
+  async handleCallback(input: OAuthCallbackInput): Promise<ConnectionStatus> {
+    let adminId: string;
+    let tenant: ITenant | undefined;
+    try {
+      const state = JWTUtils.verifyOAuthState(input.state);
+      adminId = state.customerId;
+      tenant = state.tenantId ? (await tenantService.getById(state.tenantId)) ?? undefined : undefined;
+      if (state.tenantId && !tenant) {
+        throw new Error('Tenant no longer exists');
+      }
+    } catch (error) {
+      throw new InvalidTokenError('Invalid or expired OAuth state');
+    }
+
+    this.assertOAuthConfigured(tenant);
+
+    if (input.error || !input.code) {
+      logger.warn('ServiceM8 install was declined', { adminId, error: input.error });
+      throw new ValidationError('ServiceM8 authorisation was declined');
+    }
+
+    let tokens: TokenResponse;
+    try {
+      tokens = await this.requestTokens({
+        grant_type: 'authorization_code',
+        code: input.code,
+        redirect_uri: config.servicem8OAuthRedirectUri,
+      });
+    } catch (error: any) {
+      logger.error('Failed to exchange ServiceM8 authorization code', {
+        status: error.response?.status,
+        error: error.message,
+      });
+      if (error.response?.status >= 400 && error.response?.status < 500) {
+        throw new ValidationError('ServiceM8 rejected the authorization code');
+      }
+      throw new ServiceUnavailableError('ServiceM8');
+    }
+
+    if (!tokens.refresh_token) {
+      throw new ValidationError('ServiceM8 did not return a refresh token');
+    }
+
+    await servicem8ConnectionRepository.upsertTokens(
+      this.getConnectionKey(tenant),
+      this.encryptTokens(tokens, tokens.refresh_token),
+      adminId
+    );
+
+    logger.info('ServiceM8 connected via OAuth', {
+      adminId,
+      tenantId: tenant?._id,
+      scope: tokens.scope,
+    });
+
+    return this.getStatus(tenant);
+  }
+
+  /**
+   * Describe the current connection
+   *
+   * @param tenant - Tenant to describe (multi-tenant mode)
+   */
+  async getStatus(tenant?: ITenant): Promise<ConnectionStatus> {
+    const mode = this.getAuthMode(tenant);
+    if (mode !== 'oauth') {
+      return { mode, connected: !!this.getApiKey(tenant) };
+    }
+
+    const connection = await servicem8ConnectionRepository.findByKey(this.getConnectionKey(tenant));
+
+    return {
+      mode,
+      connected: !!connection,
+      scope: connection?.scope,
+      expiresAt: connection?.expiresAt,
+      connectedAt: connection?.createdAt,
+      lastRefreshedAt: connection?.lastRefreshedAt,
+    };
+  }
+
+  /**
+   * Forget the stored tokens
+   *
+   * ServiceM8 calls fail until an admin connects again.
+   *
+   * @param admin - Admin disconnecting
+   * @param tenant - Tenant to disconnect (multi-tenant mode)
+   */
+  async disconnect(admin: ICustomer, tenant?: ITenant): Promise<void> {
+    await servicem8ConnectionRepository.deleteOne({ key: this.getConnectionKey(tenant) });
+
+    logger.info('ServiceM8 OAuth connection removed', { adminId: admin._id, tenantId: tenant?._id });
+  }
+
+  /**
+   * Get the credentials for a ServiceM8 account
+   *
+   * @param tenant - Tenant whose account to use (undefined in single-tenant mode)
+   * @returns Credentials for a ServiceM8Service instance
+   */
+  credentialsFor(tenant?: ITenant): ServiceM8Credentials {
+    const mode = this.getAuthMode(tenant);
+    const connectionKey = this.getConnectionKey(tenant);
+
+    if (mode !== 'oauth') {
+      const apiKey = this.getApiKey(tenant);
+      return {
+        getAuthHeaders: async () => ({ 'X-API-Key': apiKey }),
+        forceRefresh: async () => false,
+      };
+    }
+
+    return {
+      getAuthHeaders: async () => {
+        const connection = await this.getConnection(connectionKey);
+        if (connection.expiresAt.getTime() - Date.now() > REFRESH_LEEWAY_MS) {
+          return { Authorization: `Bearer ${decrypt(connection.accessToken)}` };
+        }
+        return { Authorization: `Bearer ${await this.refresh(connection)}` };
+      },
+      // e.g. after ServiceM8 rejected a token before it expired
+      forceRefresh: async () => {
+        await this.refresh(await this.getConnection(connectionKey));
+        return true;
+      },
+    };
+  }
+
+  /**
+   * Load a stored connection, failing if there isn't one
+   */
+  private async getConnection(key: string): Promise<IServiceM8Connection> {
+    const connection = await servicem8ConnectionRepository.findByKey(key);
+    if (!connection) {
+      logger.warn('ServiceM8 request made before the OAuth install was completed', { key });
+      throw new ServiceUnavailableError('ServiceM8');
+    }
+    return connection;
+  }
+
+  /**
+   * Refresh an access token, sharing one refresh between concurrent callers
+   */
+  private refresh(connection: IServiceM8Connection): Promise<string> {
+    let refreshing = this.refreshing.get(connection.key);
+    if (!refreshing) {
+      refreshing = this.refreshTokens(connection).finally(() => {
+        this.refreshing.delete(connection.key);
+      });
+      this.refreshing.set(connection.key, refreshing);
+    }
+    return refreshing;
+  }
+
+  /**
+   * Exchange the refresh token for a new access token and store both
+   */
+  private async refreshTokens(connection: IServiceM8Connection): Promise<string> {
+    const refreshToken = decrypt(connection.refreshToken);
+
+    let tokens: TokenResponse;
+    try {
+      tokens = await this.requestTokens({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      });
+    } catch (error: any) {
+      logger.error('Failed to refresh ServiceM8 access token', {
+        key: connection.key,
+        status: error.response?.status,
+        error: error.message,
+      });
+      throw new ServiceUnavailableError('ServiceM8');
+    }
+
+    // Keep the existing refresh token if ServiceM8 didn't rotate it
+    await servicem8ConnectionRepository.updateTokens(
+      connection.key,
+      this.encryptTokens(tokens, tokens.refresh_token || refreshToken)
+    );
+
+    logger.info('Refreshed ServiceM8 access token', {
+      key: connection.key,
+      expiresIn: tokens.expires_in,
+    });
+
+    return tokens.access_token;
+  }
+
+  /**
+   * POST to the token endpoint with the client credentials
+   */
+  private async requestTokens(params: Record<string, string>): Promise<TokenResponse> {
+    const body = new URLSearchParams({
+      ...params,
+      client_id: config.servicem8OAuthClientId,
+      client_secret: config.servicem8OAuthClientSecret,
+    });
+
+    const response = await axios.post<TokenResponse>(config.servicem8OAuthTokenUrl, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 10000,
+    });
+
+    if (!response.data?.access_token) {
+      throw new Error('Token endpoint did not return an access token');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Encrypt a token response for storage
+   */
+  private encryptTokens(tokens: TokenResponse, refreshToken: string): ConnectionTokens {
+    return {
+      accessToken: encrypt(tokens.access_token),
+      refreshToken: encrypt(refreshToken),
+      expiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+      scope: tokens.scope,
+    };
+  }
+
+  /**
+   * Get how a tenant (or the deployment) authenticates with ServiceM8
+   */
+  private getAuthMode(tenant?: ITenant): ServiceM8AuthMode {
+    return tenant ? tenant.servicem8AuthMode : config.servicem8AuthMode;
+  }
+
+  /**
+   * Get the API key for api_key mode
+   */
+  private getApiKey(tenant?: ITenant): string {
+    if (!tenant) {
+      return config.servicem8ApiToken;
+    }
+    return tenant.servicem8ApiToken ? decrypt(tenant.servicem8ApiToken) : '';
+  }
+
+  /**
+   * Get the key OAuth tokens are stored under
+   */
+  private getConnectionKey(tenant?: ITenant): string {
+    return tenant ? tenant._id.toString() : DEFAULT_CONNECTION_KEY;
+  }
+
+  /**
+   * Fail unless OAuth mode is enabled and has client credentials
+   */
+  private assertOAuthConfigured(tenant?: ITenant): void {
+    if (this.getAuthMode(tenant) !== 'oauth') {
+      throw new ValidationError('ServiceM8 OAuth is not enabled');
+    }
+    if (!config.servicem8OAuthClientId || !config.servicem8OAuthClientSecret) {
+      throw new ValidationError('ServiceM8 OAuth client credentials are not configured');
+    }
+  }
+}
+
+// Export singleton instance
+export const servicem8AuthService = new ServiceM8AuthService();
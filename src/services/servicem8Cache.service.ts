@@ -0,0 +1,327 @@
+/**
+ * ServiceM8 Cache Service
+ *
+ * Read-through cache for ServiceM8 data. Jobs are read on almost every
+ * request (and on every message poll), so each entity type is cached for a
+ * short, configurable TTL. Concurrent reads of the same key share a single
+ * ServiceM8 request, writes update or invalidate the affected entries, and
+ * hit/miss counts are kept for tuning the TTLs.
+ *
+ * Entries live in a pluggable store: in memory (per process) or in MongoDB
+ * (shared by every API instance).
+ */
+
+import { config } from '../config/env';
+import { cacheEntryRepository } from '../repositories/cacheEntry.repository';
+import { logger } from '../utils/logger';
+import { CacheEntity } from '../types';
+
+// Upper bound on in-memory entries; the oldest are evicted first
+const MEMORY_STORE_MAX_ENTRIES = 5000;
+
+const CACHE_ENTITIES: CacheEntity[] = ['job', 'jobList', 'company', 'attachments', 'jobActivity'];
+
+/**
+ * Storage backend for cached values
+ *
+ * `get` returns a wrapper so a cached `null` (e.g. a job that doesn't
+ * exist) can be told apart from a miss.
+ */
+export interface CacheStore {
+  get(key: string): Promise<{ value: unknown } | undefined>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Per-process store backed by a Map
+ *
+ * Values are copied in and out so callers can't modify cached objects.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async get(key: string): Promise<{ value: unknown } | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return { value: structuredClone(entry.value) };
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    // Re-insert so Map order reflects recency for eviction
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    if (this.entries.size > MEMORY_STORE_MAX_ENTRIES) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Store shared between API instances, backed by the `cacheentries` collection
+ */
+export class MongoCacheStore implements CacheStore {
+  async get(key: string): Promise<{ value: unknown } | undefined> {
+    const entry = await cacheEntryRepository.findValid(key);
+    return entry ? { value: entry.value } : undefined;
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    await cacheEntryRepository.put(key, value, new Date(Date.now() + ttlSeconds * 1000));
+  }
+
+  async delete(key: string): Promise<void> {
+    await cacheEntryRepository.deleteOne({ key });
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    await cacheEntryRepository.deleteByPrefix(prefix);
+  }
+}
+
+/**
+ * A ServiceM8 read in progress, shared by concurrent misses of one key
+ *
+ * Marked stale when the key is written or invalidated meanwhile, so the
+ * older value it returns isn't cached over the newer state.
+ */
+interface InFlightLoad {
+  request: Promise<unknown>;
+  stale: boolean;
+}
+
+/**
+ * Hit/miss counts for one entity type
+ */
+export interface CacheEntityStats {
+  hits: number;
+  misses: number;
+  coalesced: number; // Misses that joined an in-flight request
+  hitRate: number; // 0-1
+}
+
+/**
+ * Cache statistics for one ServiceM8 account
+ */
+export interface CacheStats {
+  store: string;
+  ttlSeconds: Record<CacheEntity, number>;
+  entities: Record<CacheEntity, CacheEntityStats>;
+}
+
+/**
+ * Cache for one ServiceM8 account
+ *
+ * Keys are prefixed with a namespace (the tenant) so accounts sharing a
+ * store never see each other's entries.
+ */
+export class ServiceM8Cache {
+  private inFlight = new Map<string, InFlightLoad>();
+  private counts = new Map<CacheEntity, { hits: number; misses: number; coalesced: number }>();
+
+  constructor(
+    private readonly store: CacheStore | null,
+    private readonly namespace: string
+  ) {}
+
+  /**
+   * Return a cached value, loading and caching it on a miss
+   *
+   * Store failures are logged and treated as misses so ServiceM8 is still
+   * reachable when the cache isn't. Loader errors are never cached.
+   *
+   * @param entity - Entity type (selects the TTL)
+   * @param id - Entity ID or query
+   * @param loader - Fetches the value from ServiceM8
+   */
+  async getOrLoad<T>(entity: CacheEntity, id: string, loader: () => Promise<T>): Promise<T> {
+    const ttl = config.servicem8CacheTtlSeconds[entity];
+    if (!this.store || ttl <= 0) {
+      return loader();
+    }
+
+    const key = this.key(entity, id);
+    const counts = this.getCounts(entity);
+
+    try {
+      const cached = await this.store.get(key);
+      if (cached) {
+        counts.hits++;
+        return cached.value as T;
+      }
+    } catch (error: any) {
+      logger.warn('ServiceM8 cache read failed', { key, error: error.message });
+    }
+
+    counts.misses++;
+
+    // Identical concurrent reads share one ServiceM8 request
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      counts.coalesced++;
+      return pending.request as Promise<T>;
+    }
+
+    const load = { stale: false } as InFlightLoad;
+    load.request = loader()
+      .then(async value => {
+        if (!load.stale) {
+          await this.write(key, value, ttl);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === load) {
+          this.inFlight.delete(key);
+        }
+      });
+
+    this.inFlight.set(key, load);
+    return load.request as Promise<T>;
+  }
+
+  /**
+   * Store a fresh value (write-through after an update)
+   */
+  async set(entity: CacheEntity, id: string, value: unknown): Promise<void> {
+    const ttl = config.servicem8CacheTtlSeconds[entity];
+    if (this.store && ttl > 0) {
+      const key = this.key(entity, id);
+      this.abandonLoads(key);
+      await this.write(key, value, ttl);
+    }
+  }
+
+  /**
+   * Drop one entry, or every entry of an entity type when no ID is given
+   */
+  async invalidate(entity: CacheEntity, id?: string): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    // Later reads load afresh rather than join a load that started before
+    // the change
+    const key = id === undefined ? `${this.namespace}:${entity}:` : this.key(entity, id);
+    this.abandonLoads(key, id === undefined);
+
+    try {
+      if (id === undefined) {
+        await this.store.deleteByPrefix(key);
+      } else {
+        await this.store.delete(key);
+      }
+    } catch (error: any) {
+      logger.warn('ServiceM8 cache invalidation failed', { entity, id, error: error.message });
+    }
+  }
+
+  /**
+   * Drop everything cached for this account
+   */
+  async clear(): Promise<void> {
+    await Promise.all(CACHE_ENTITIES.map(entity => this.invalidate(entity)));
+    this.counts.clear();
+  }
+
+  /**
+   * Get hit/miss counts since start-up (or the last clear)
+   */
+  getStats(): CacheStats {
+    const entities = {} as Record<CacheEntity, CacheEntityStats>;
+    for (const entity of CACHE_ENTITIES) {
+      const { hits, misses, coalesced } = this.getCounts(entity);
+      entities[entity] = {
+        hits,
+        misses,
+        coalesced,
+        hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      };
+    }
+
+    return {
+      store: this.store ? config.servicem8CacheStore : 'none',
+      ttlSeconds: config.servicem8CacheTtlSeconds,
+      entities,
+    };
+  }
+
+  private key(entity: CacheEntity, id: string): string {
+    return `${this.namespace}:${entity}:${id}`;
+  }
+
+  /**
+   * Stop in-flight loads of a key (or of every key with a prefix) from
+   * being cached or joined
+   */
+  private abandonLoads(key: string, isPrefix = false): void {
+    const keys = isPrefix ? [...this.inFlight.keys()].filter(loadKey => loadKey.startsWith(key)) : [key];
+
+    for (const loadKey of keys) {
+      const load = this.inFlight.get(loadKey);
+      if (load) {
+        load.stale = true;
+        this.inFlight.delete(loadKey);
+      }
+    }
+  }
+
+  private getCounts(entity: CacheEntity): { hits: number; misses: number; coalesced: number } {
+    let counts = this.counts.get(entity);
+    if (!counts) {
+      counts = { hits: 0, misses: 0, coalesced: 0 };
+      this.counts.set(entity, counts);
+    }
+    return counts;
+  }
+
+  private async write(key: string, value: unknown, ttl: number): Promise<void> {
+    try {
+      await this.store!.set(key, value, ttl);
+    } catch (error: any) {
+      logger.warn('ServiceM8 cache write failed', { key, error: error.message });
+    }
+  }
+}
+
+/**
+ * Build the store selected by SERVICEM8_CACHE_STORE
+ *
+ * @returns Store, or null when caching is disabled ('none')
+ */
+const createCacheStore = (): CacheStore | null => {
+  switch (config.servicem8CacheStore) {
+    case 'mongo':
+      return new MongoCacheStore();
+    case 'none':
+      return null;
+    default:
+      return new MemoryCacheStore();
+  }
+};
+
+// Shared by every ServiceM8Service instance (entries are namespaced)
+export const servicem8CacheStore = createCacheStore();
@@ -0,0 +1,93 @@
+/**
+ * ServiceM8 Events Service
+ *
+ * A single stream of changes made in ServiceM8 (reported by webhooks).
+ * The cache, notifications and anything else that reacts to office-side
+ * changes subscribe here rather than to the webhook endpoint itself.
+ *
+ * Subscribers run inside the event's tenant context, so they can use
+ * `servicem8Registry.current()` and tenant-scoped repositories as usual.
+ */
+
+import { logger } from '../utils/logger';
+import { ServiceM8WebhookObject } from '../types';
+
+/**
+ * A change made in ServiceM8
+ */
+export interface ServiceM8ChangeEvent {
+  eventId: string;
+  tenantId?: string;
+  object: ServiceM8WebhookObject;
+  uuid: string; // UUID of the changed record
+  jobUuid?: string; // Job the record belongs to (jobs, attachments, job activity)
+  companyUuid?: string; // Company the record belongs to (companies, jobs)
+  changedFields: string[];
+  occurredAt?: Date;
+}
+
+export type ServiceM8EventHandler = (event: ServiceM8ChangeEvent) => Promise<void>;
+
+class ServiceM8EventsService {
+  private subscribers: { name: string; objects?: ServiceM8WebhookObject[]; handler: ServiceM8EventHandler }[] = [];
+
+  /**
+   * Subscribe to changes
+   *
+   * @param name - Subscriber name (for logs)
+   * @param handler - Called for each matching change
+   * @param objects - Only receive changes to these objects (default: all)
+   * @returns Function that removes the subscription
+   */
+  subscribe(
+    name: string,
+    handler: ServiceM8EventHandler,
+    objects?: ServiceM8WebhookObject[]
+  ): () => void {
+    const subscriber = { name, objects, handler };
+    this.subscribers.push(subscriber);
+    return () => {
+      this.subscribers = this.subscribers.filter(existing => existing !== subscriber);
+    };
+  }
+
+  /**
+   * Deliver a change to every matching subscriber
+   *
+   * Every subscriber runs even if an earlier one fails; the event is then
+   * reported as failed so the webhook queue retries it. Subscribers should
+   * therefore be safe to run more than once for the same event.
+   *
+   * @param event - Change to deliver
+   * @throws Error if any subscriber failed
+   */
+  async publish(event: ServiceM8ChangeEvent): Promise<void> {
+    const failed: string[] = [];
+
+    for (const subscriber of this.subscribers) {
+      if (subscriber.objects && !subscriber.objects.includes(event.object)) {
+        continue;
+      }
+
+      try {
+        await subscriber.handler(event);
+      } catch (error: any) {
+        logger.error('ServiceM8 event subscriber failed', {
+          subscriber: subscriber.name,
+          eventId: event.eventId,
+          object: event.object,
+          uuid: event.uuid,
+          error: error.message,
+        });
+        failed.push(subscriber.name);
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`Subscribers failed: ${failed.join(', ')}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const servicem8Events = new ServiceM8EventsService();
@@ -0,0 +1,233 @@
+/**
+ * ServiceM8 Mirror Service
+ *
+ * Reads jobs, companies and attachments from the local copies kept by the
+ * sync engine (see servicem8Sync.service) when SERVICEM8_SYNC_ENABLED is
+ * set. A portal customer's jobs are read locally once their company has
+ * been mirrored; everything else still comes from ServiceM8 but falls back
+ * to the local copy while ServiceM8 is unavailable, so the portal stays
+ * usable (read-only) during outages.
+ *
+ * With syncing disabled every read goes straight to ServiceM8, as before.
+ */
+
+import { config } from '../config/env';
+import { servicem8Registry } from './servicem8.service';
+import { mirroredJobRepository, MirroredJobFilter } from '../repositories/mirroredJob.repository';
+import { mirroredCompanyRepository } from '../repositories/mirroredCompany.repository';
+import { mirroredAttachmentRepository } from '../repositories/mirroredAttachment.repository';
+import { MirrorUpsert } from '../repositories/mirror.repository';
+import { ServiceM8Filter } from '../utils/servicem8Filter.utils';
+import { ServiceUnavailableError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  IMirroredAttachment,
+  IMirroredCompany,
+  IMirroredJob,
+  ServiceM8Attachment,
+  ServiceM8Company,
+  ServiceM8Job,
+} from '../types';
+
+class ServiceM8MirrorService {
+  /**
+   * Check whether local copies are being kept
+   */
+  isEnabled(): boolean {
+    return config.servicem8SyncEnabled;
+  }
+
+  /**
+   * Get a job
+   *
+   * @param uuid - ServiceM8 Job UUID
+   * @param options.preferLocal - Use the local copy if there is one (for
+   *   reads that don't need to-the-second data, e.g. ownership checks)
+   * @returns Job, or null if it doesn't exist
+   * @throws ServiceUnavailableError if ServiceM8 is down and there is no local copy
+   */
+  async getJob(uuid: string, options: { preferLocal?: boolean } = {}): Promise<ServiceM8Job | null> {
+    if (this.isEnabled() && options.preferLocal) {
+      const local = await mirroredJobRepository.findByUuid(uuid);
+      if (local) {
+        return local.data;
+      }
+    }
+
+    return this.withFallback(
+      'job',
+      () => servicem8Registry.current().getJobByUuid(uuid),
+      async () => {
+        const local = await mirroredJobRepository.findByUuid(uuid);
+        if (!local) {
+          throw new ServiceUnavailableError('ServiceM8');
+        }
+        return local.data;
+      }
+    );
+  }
+
+  /**
+   * Get active jobs, optionally for one company and status
+   *
+   * A mirrored company's jobs are read locally. Without a company (staff
+   * and admin lists) ServiceM8 is asked; during an outage those lists only
+   * include mirrored jobs, i.e. those of portal customers.
+   *
+   * @param filter - Company and status to match
+   * @returns Active jobs
+   */
+  async getActiveJobs(filter: MirroredJobFilter): Promise<ServiceM8Job[]> {
+    if (
+      this.isEnabled() &&
+      filter.companyUuid &&
+      (await mirroredCompanyRepository.findByUuid(filter.companyUuid))
+    ) {
+      return (await mirroredJobRepository.findActive(filter)).map(record => record.data);
+    }
+
+    const servicem8Filter = new ServiceM8Filter().eq('active', 1);
+    if (filter.companyUuid) {
+      servicem8Filter.eq('company_uuid', filter.companyUuid);
+    }
+    if (filter.status) {
+      servicem8Filter.eq('status', filter.status);
+    }
+
+    return this.withFallback(
+      'jobList',
+      () => servicem8Registry.current().findJobs(servicem8Filter),
+      async () => (await mirroredJobRepository.findActive(filter)).map(record => record.data)
+    );
+  }
+
+  /**
+   * Get a job's attachments
+   *
+   * Read locally when the job is mirrored (attachments are synced with it).
+   *
+   * @param jobUuid - ServiceM8 Job UUID
+   * @returns Active attachments
+   */
+  async getJobAttachments(jobUuid: string): Promise<ServiceM8Attachment[]> {
+    if (this.isEnabled() && (await mirroredJobRepository.findByUuid(jobUuid))) {
+      return (await mirroredAttachmentRepository.findActiveByJob(jobUuid)).map(record => record.data);
+    }
+
+    return servicem8Registry.current().getJobAttachments(jobUuid);
+  }
+
+  /**
+   * Store jobs locally
+   *
+   * @returns Number of jobs written
+   */
+  async saveJobs(jobs: ServiceM8Job[]): Promise<number> {
+    return mirroredJobRepository.upsertMany(jobs.map(job => this.toJobRecord(job)));
+  }
+
+  /**
+   * Store companies locally
+   *
+   * @returns Number of companies written
+   */
+  async saveCompanies(companies: ServiceM8Company[]): Promise<number> {
+    return mirroredCompanyRepository.upsertMany(companies.map(company => this.toCompanyRecord(company)));
+  }
+
+  /**
+   * Store job attachments locally (other attachments are skipped)
+   *
+   * @returns Number of attachments written
+   */
+  async saveAttachments(attachments: ServiceM8Attachment[]): Promise<number> {
+    return mirroredAttachmentRepository.upsertMany(
+      attachments
+        .filter(attachment => attachment.related_object === 'job')
+        .map(attachment => this.toAttachmentRecord(attachment))
+    );
+  }
+
+  /**
+   * Remove local copies of jobs, with their attachments
+   *
+   * For jobs that have moved to a company no portal customer is linked to.
+   *
+   * @returns Number of jobs removed
+   */
+  async forgetJobs(uuids: string[]): Promise<number> {
+    await mirroredAttachmentRepository.deleteByJobs(uuids);
+    return mirroredJobRepository.deleteByUuids(uuids);
+  }
+
+  /**
+   * Store a job the portal has just written to ServiceM8
+   *
+   * Best effort: the next sync corrects the copy if this fails.
+   *
+   * @param job - Job as returned by ServiceM8
+   */
+  async rememberJob(job: ServiceM8Job): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.saveJobs([job]);
+    } catch (error: any) {
+      logger.warn('Failed to update local copy of job', { jobUuid: job.uuid, error: error.message });
+    }
+  }
+
+  /**
+   * Call ServiceM8, reading the local copy instead while it is unavailable
+   */
+  private async withFallback<T>(
+    what: string,
+    live: () => Promise<T>,
+    local: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await live();
+    } catch (error) {
+      if (!this.isEnabled() || !(error instanceof ServiceUnavailableError)) {
+        throw error;
+      }
+      logger.warn('ServiceM8 unavailable, serving local copy', { what });
+      return local();
+    }
+  }
+
+  private toJobRecord(job: ServiceM8Job): MirrorUpsert<IMirroredJob> {
+    return {
+      uuid: job.uuid,
+      companyUuid: job.company_uuid,
+      status: job.status,
+      active: job.active !== 0,
+      editDate: job.edit_date,
+      data: job,
+    };
+  }
+
+  private toCompanyRecord(company: ServiceM8Company): MirrorUpsert<IMirroredCompany> {
+    return {
+      uuid: company.uuid,
+      active: company.active !== 0,
+      editDate: company.edit_date,
+      data: company,
+    };
+  }
+
+  private toAttachmentRecord(attachment: ServiceM8Attachment): MirrorUpsert<IMirroredAttachment> {
+    return {
+      uuid: attachment.uuid,
+      jobUuid: attachment.related_object_uuid,
+      active: attachment.active !== 0,
+      editDate: attachment.edit_date,
+      data: attachment,
+    };
+  }
+}
+
+// Export singleton instance
+export const servicem8Mirror = new ServiceM8MirrorService();
@@ -0,0 +1,503 @@
+/**
+ * ServiceM8 Sync Service
+ *
+ * Keeps local copies of the ServiceM8 records portal customers can see:
+ * the companies customers are linked to, those companies' jobs, and the
+ * jobs' attachments. Enabled with SERVICEM8_SYNC_ENABLED.
+ *
+ * - A scheduled (or manual) run pages through each ServiceM8 endpoint for
+ *   records edited since the previous run's watermark (the newest
+ *   `edit_date` it saw) and stores the relevant ones. The first run copies
+ *   everything; later runs also copy in full any company that has been
+ *   linked since.
+ * - Webhook changes are applied as they arrive via `servicem8Events`.
+ *
+ * Every full run is recorded in the `syncruns` collection with its counts
+ * and failures; webhook changes are counted on one rolling run per hour.
+ * An entity that fails keeps its old watermark, so the next run picks up
+ * where it left off.
+ */
+
+import { config } from '../config/env';
+import { servicem8Registry, ServiceM8Service } from './servicem8.service';
+import { servicem8Mirror } from './servicem8Mirror.service';
+import { servicem8Events, ServiceM8ChangeEvent } from './servicem8Events.service';
+import { syncRunRepository } from '../repositories/syncRun.repository';
+import { customerRepository } from '../repositories/customer.repository';
+import { tenantRepository } from '../repositories/tenant.repository';
+import { mirroredJobRepository } from '../repositories/mirroredJob.repository';
+import { mirroredCompanyRepository } from '../repositories/mirroredCompany.repository';
+import { ServiceM8Filter } from '../utils/servicem8Filter.utils';
+import { getCurrentTenantId, runWithTenant } from '../utils/tenantContext';
+import { ConflictError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  ISyncRun,
+  MirrorEntity,
+  ServiceM8Attachment,
+  ServiceM8Company,
+  ServiceM8Job,
+  SyncFailure,
+  SyncTrigger,
+} from '../types';
+
+// Synced in this order: attachments are kept only for jobs already stored
+const ENTITIES: MirrorEntity[] = ['company', 'job', 'attachment'];
+
+// Re-read records edited this long before the watermark, in case more were
+// saved in the same second as the newest one seen
+const WATERMARK_OVERLAP_SECONDS = 120;
+
+// Failures kept on a run record
+const MAX_RECORDED_FAILURES = 100;
+
+// Webhook changes are counted on one run per period of this length
+const WEBHOOK_RUN_PERIOD_MS = 60 * 60 * 1000;
+
+/**
+ * Move a ServiceM8 "YYYY-MM-DD HH:mm:ss" timestamp by a number of seconds
+ */
+const shiftEditDate = (editDate: string, seconds: number): string => {
+  const date = new Date(`${editDate.replace(' ', 'T')}Z`);
+  if (isNaN(date.getTime())) {
+    return editDate;
+  }
+  date.setUTCSeconds(date.getUTCSeconds() + seconds);
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+};
+
+/**
+ * Progress of a run, written to its record when it finishes
+ */
+interface RunState {
+  watermarks: Partial<Record<MirrorEntity, string>>;
+  counts: Record<MirrorEntity, number>;
+  backfilledCompanies: number;
+  failures: SyncFailure[];
+}
+
+class ServiceM8SyncService {
+  private scheduler?: NodeJS.Timeout;
+
+  // Tenants ('default' in single-tenant mode) with a full run in progress
+  private running = new Set<string>();
+
+  /**
+   * Run a sync now and then every SERVICEM8_SYNC_INTERVAL_MINUTES
+   */
+  startScheduler(): void {
+    if (!config.servicem8SyncEnabled || this.scheduler) {
+      return;
+    }
+
+    const tick = () => {
+      this.syncAllTenants('schedule').catch(error =>
+        logger.error('Scheduled ServiceM8 sync failed', { error: error.message })
+      );
+    };
+
+    this.scheduler = setInterval(tick, config.servicem8SyncIntervalMinutes * 60 * 1000);
+    this.scheduler.unref();
+    setImmediate(tick);
+    logger.info('ServiceM8 sync scheduled', { intervalMinutes: config.servicem8SyncIntervalMinutes });
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stopScheduler(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+  }
+
+  /**
+   * Run a full sync for every active tenant (or the single ServiceM8 account)
+   *
+   * A tenant whose sync fails doesn't stop the others.
+   */
+  async syncAllTenants(trigger: SyncTrigger): Promise<void> {
+    if (!config.multiTenant) {
+      await this.syncSafely(trigger);
+      return;
+    }
+
+    const tenants = await tenantRepository.findAllActive();
+    for (const tenant of tenants) {
+      await runWithTenant(tenant, () => this.syncSafely(trigger));
+    }
+  }
+
+  /**
+   * Start a full sync for the current tenant without waiting for it
+   *
+   * @returns The run, still in progress
+   * @throws ValidationError if syncing is not enabled
+   * @throws ConflictError if a sync is already running
+   */
+  async startManualSync(): Promise<ISyncRun> {
+    if (!config.servicem8SyncEnabled) {
+      throw new ValidationError('ServiceM8 sync is not enabled (SERVICEM8_SYNC_ENABLED)');
+    }
+
+    const run = await this.beginRun('manual');
+
+    this.executeRun(run).catch(error =>
+      logger.error('Manual ServiceM8 sync failed', { runId: run._id, error: error.message })
+    );
+
+    return run;
+  }
+
+  /**
+   * List sync runs, newest first
+   *
+   * @param trigger - Only runs started this way (default: all)
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  async listRuns(
+    trigger: SyncTrigger | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ items: ISyncRun[]; total: number }> {
+    return syncRunRepository.findPage(trigger, page, limit);
+  }
+
+  /**
+   * Apply a change reported by a ServiceM8 webhook
+   *
+   * The record is read back from ServiceM8 and stored if a portal customer
+   * can see it. Failures are rethrown so the webhook queue retries.
+   *
+   * @param event - Change to apply
+   */
+  async applyChange(event: ServiceM8ChangeEvent): Promise<void> {
+    if (!config.servicem8SyncEnabled) {
+      return;
+    }
+
+    const entity = event.object as MirrorEntity;
+    try {
+      const stored = await this.applyRecordChange(entity, event);
+      await this.recordWebhookChange(entity, stored);
+    } catch (error: any) {
+      await this.recordWebhookChange(entity, 0, { entity, uuid: event.uuid, message: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a full sync, logging rather than throwing on failure
+   */
+  private async syncSafely(trigger: SyncTrigger): Promise<void> {
+    try {
+      await this.executeRun(await this.beginRun(trigger));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        logger.info('ServiceM8 sync skipped, previous run still in progress', {
+          tenantId: getCurrentTenantId(),
+        });
+        return;
+      }
+      logger.error('ServiceM8 sync failed', { tenantId: getCurrentTenantId(), error: error.message });
+    }
+  }
+
+  /**
+   * Record the start of a full run for the current tenant
+   */
+  private async beginRun(trigger: SyncTrigger): Promise<ISyncRun> {
+    const key = getCurrentTenantId()?.toString() ?? 'default';
+    if (this.running.has(key)) {
+      throw new ConflictError('A ServiceM8 sync is already running');
+    }
+
+    this.running.add(key);
+    try {
+      return await syncRunRepository.create({
+        trigger,
+        status: 'running',
+        startedAt: new Date(),
+      } as Partial<ISyncRun>);
+    } catch (error) {
+      this.running.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync every entity incrementally, then copy newly linked companies
+   */
+  private async executeRun(run: ISyncRun): Promise<void> {
+    const key = getCurrentTenantId()?.toString() ?? 'default';
+    const servicem8 = servicem8Registry.current();
+
+    try {
+      const previous = await syncRunRepository.findLatestFullRun();
+      const state = this.emptyState();
+      state.watermarks = { ...previous?.watermarks };
+
+      const linked = await customerRepository.findLinkedCompanyUuids();
+
+      for (const entity of ENTITIES) {
+        try {
+          state.watermarks[entity] = await this.syncEntity(servicem8, entity, linked, state);
+        } catch (error: any) {
+          this.addFailure(state, { entity, message: error.message });
+        }
+      }
+
+      // A first run has already copied everything; after that, companies
+      // linked since the last run need their older records too
+      if (previous?.watermarks?.company) {
+        await this.backfillNewCompanies(servicem8, linked, state);
+      }
+
+      await this.finishRun(run, state);
+      logger.info('ServiceM8 sync finished', {
+        tenantId: getCurrentTenantId(),
+        trigger: run.trigger,
+        status: run.status,
+        counts: state.counts,
+        failures: state.failures.length,
+      });
+    } finally {
+      this.running.delete(key);
+    }
+  }
+
+  /**
+   * Page through one endpoint for records edited since the watermark
+   *
+   * @returns New watermark (newest edit_date seen)
+   */
+  private async syncEntity(
+    servicem8: ServiceM8Service,
+    entity: MirrorEntity,
+    linked: Set<string>,
+    state: RunState
+  ): Promise<string | undefined> {
+    let watermark = state.watermarks[entity];
+
+    const filter = new ServiceM8Filter();
+    if (watermark) {
+      filter.gt('edit_date', shiftEditDate(watermark, -WATERMARK_OVERLAP_SECONDS));
+    }
+    if (entity === 'attachment') {
+      filter.eq('related_object', 'job');
+    }
+
+    let cursor: string | undefined = '-1';
+    while (cursor) {
+      const page: { records: any[]; nextCursor?: string } = await servicem8.listPage<any>(entity, filter, cursor);
+
+      state.counts[entity] += await this.saveRelevant(entity, page.records, linked);
+
+      for (const record of page.records) {
+        if (record.edit_date && (!watermark || record.edit_date > watermark)) {
+          watermark = record.edit_date;
+        }
+      }
+      cursor = page.nextCursor;
+    }
+
+    return watermark;
+  }
+
+  /**
+   * Store the records a portal customer can see
+   *
+   * @returns Number of records stored
+   */
+  private async saveRelevant(entity: MirrorEntity, records: any[], linked: Set<string>): Promise<number> {
+    switch (entity) {
+      case 'company':
+        return servicem8Mirror.saveCompanies(
+          (records as ServiceM8Company[]).filter(company => linked.has(company.uuid))
+        );
+      case 'job': {
+        const jobs = records as ServiceM8Job[];
+        const isLinked = (job: ServiceM8Job) => !!job.company_uuid && linked.has(job.company_uuid);
+
+        // Jobs moved to a company no customer is linked to aren't kept
+        await servicem8Mirror.forgetJobs(jobs.filter(job => !isLinked(job)).map(job => job.uuid));
+        return servicem8Mirror.saveJobs(jobs.filter(isLinked));
+      }
+      case 'attachment': {
+        const attachments = records as ServiceM8Attachment[];
+        const jobs = await mirroredJobRepository.findExistingUuids(
+          attachments.map(attachment => attachment.related_object_uuid)
+        );
+        return servicem8Mirror.saveAttachments(
+          attachments.filter(attachment => jobs.has(attachment.related_object_uuid))
+        );
+      }
+    }
+  }
+
+  /**
+   * Copy every record of companies that have no local copy yet
+   */
+  private async backfillNewCompanies(
+    servicem8: ServiceM8Service,
+    linked: Set<string>,
+    state: RunState
+  ): Promise<void> {
+    const mirrored = await mirroredCompanyRepository.findExistingUuids([...linked]);
+
+    for (const companyUuid of linked) {
+      if (mirrored.has(companyUuid)) {
+        continue;
+      }
+
+      try {
+        const company = await servicem8.getCompanyByUuid(companyUuid);
+        if (!company) {
+          continue;
+        }
+
+        const jobs = await this.listAll<ServiceM8Job>(
+          servicem8,
+          'job',
+          new ServiceM8Filter().eq('company_uuid', companyUuid)
+        );
+        state.counts.job += await servicem8Mirror.saveJobs(jobs);
+
+        for (const job of jobs) {
+          const attachments = await this.listAll<ServiceM8Attachment>(
+            servicem8,
+            'attachment',
+            new ServiceM8Filter().eq('related_object', 'job').eq('related_object_uuid', job.uuid)
+          );
+          state.counts.attachment += await servicem8Mirror.saveAttachments(attachments);
+        }
+
+        // Stored last, so a company that fails part way is retried next run
+        state.counts.company += await servicem8Mirror.saveCompanies([company]);
+        state.backfilledCompanies++;
+      } catch (error: any) {
+        this.addFailure(state, { entity: 'company', uuid: companyUuid, message: error.message });
+      }
+    }
+  }
+
+  /**
+   * Fetch every page of a filtered list
+   */
+  private async listAll<T>(
+    servicem8: ServiceM8Service,
+    entity: MirrorEntity,
+    filter: ServiceM8Filter
+  ): Promise<T[]> {
+    const records: T[] = [];
+    let cursor: string | undefined = '-1';
+    while (cursor) {
+      const page: { records: T[]; nextCursor?: string } = await servicem8.listPage<T>(entity, filter, cursor);
+      records.push(...page.records);
+      cursor = page.nextCursor;
+    }
+    return records;
+  }
+
+  /**
+   * Read a changed record back from ServiceM8 and store it if relevant
+   *
+   * @returns Number of records stored
+   */
+  private async applyRecordChange(entity: MirrorEntity, event: ServiceM8ChangeEvent): Promise<number> {
+    const servicem8 = servicem8Registry.current();
+
+    switch (entity) {
+      case 'company': {
+        if (!(await customerRepository.findByServiceM8Uuid(event.uuid))) {
+          return 0;
+        }
+        const company = await servicem8.getCompanyByUuid(event.uuid);
+        return company ? servicem8Mirror.saveCompanies([company]) : 0;
+      }
+      case 'job': {
+        const job = await servicem8.getJobByUuid(event.uuid);
+        if (job?.company_uuid && (await customerRepository.findByServiceM8Uuid(job.company_uuid))) {
+          return servicem8Mirror.saveJobs([job]);
+        }
+        // Deleted, or moved to a company no customer is linked to
+        await servicem8Mirror.forgetJobs([event.uuid]);
+        return 0;
+      }
+      case 'attachment': {
+        if (!event.jobUuid || !(await mirroredJobRepository.findByUuid(event.jobUuid))) {
+          return 0;
+        }
+        const attachment = await servicem8.getAttachmentByUuid(event.uuid);
+        return attachment ? servicem8Mirror.saveAttachments([attachment]) : 0;
+      }
+    }
+  }
+
+  /**
+   * Write a run's outcome
+   */
+  private async finishRun(run: ISyncRun, state: RunState): Promise<void> {
+    const failedEntities = new Set(state.failures.map(failure => failure.entity));
+    const status =
+      state.failures.length === 0
+        ? 'succeeded'
+        : failedEntities.size === ENTITIES.length
+          ? 'failed'
+          : 'partial';
+
+    run.status = status;
+    run.finishedAt = new Date();
+    run.watermarks = state.watermarks;
+    run.counts = state.counts;
+    run.backfilledCompanies = state.backfilledCompanies;
+    run.failures = state.failures;
+    await run.save();
+  }
+
+  /**
+   * Count a webhook change on the current period's run
+   *
+   * Best effort: the change itself has already been applied (or failed).
+   */
+  private async recordWebhookChange(entity: MirrorEntity, stored: number, failure?: SyncFailure): Promise<void> {
+    const period = new Date(Math.floor(Date.now() / WEBHOOK_RUN_PERIOD_MS) * WEBHOOK_RUN_PERIOD_MS);
+    try {
+      await syncRunRepository.recordWebhookChange(period, entity, stored, failure);
+    } catch (error: any) {
+      logger.warn('Failed to record webhook sync change', {
+        tenantId: getCurrentTenantId(),
+        entity,
+        error: error.message,
+      });
+    }
+  }
+
+  private emptyState(): RunState {
+    return {
+      watermarks: {},
+      counts: { job: 0, company: 0, attachment: 0 },
+      backfilledCompanies: 0,
+      failures: [],
+    };
+  }
+
+  private addFailure(state: RunState, failure: SyncFailure): void {
+    logger.warn('ServiceM8 sync failure', { tenantId: getCurrentTenantId(), ...failure });
+    if (state.failures.length < MAX_RECORDED_FAILURES) {
+      state.failures.push(failure);
+    }
+  }
+}
+
+// Export singleton instance
+export const servicem8Sync = new ServiceM8SyncService();
+
+// Apply webhook changes to the local copies (after the cache has been invalidated)
+servicem8Events.subscribe('servicem8-mirror', event => servicem8Sync.applyChange(event), [
+  'job',
+  'company',
+  'attachment',
+]);
@@ -0,0 +1,207 @@
+/**
+ * Session Service
+ *
+ * Issues short-lived access tokens and rotating refresh tokens.
+ * Each session is a refresh token family; presenting a refresh token that
+ * has already been rotated revokes the whole family.
+ */
+
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { generateOpaqueToken, hashToken } from '../utils/crypto.utils';
+import { sessionRepository } from '../repositories/session.repository';
+import { customerRepository } from '../repositories/customer.repository';
+import { logger } from '../utils/logger';
+import { InvalidTokenError, NotFoundError } from '../utils/errors';
+import { ICustomer, ISession, SessionContext } from '../types';
+
+/**
+ * Token pair returned to the client
+ */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Result of a successful refresh token rotation
+ */
+export interface RotatedSession {
+  customer: ICustomer;
+  tokens: SessionTokens;
+}
+
+/**
+ * Session details shown on the "my devices" screen
+ */
+export interface SessionSummary {
+  id: Types.ObjectId;
+  deviceLabel?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+class SessionService {
+  /**
+   * Start a new session (token family) for a customer
+   *
+   * @param customer - Customer document
+   * @param context - Client details recorded on the session
+   * @returns Access and refresh token pair
+   */
+  async startSession(customer: ICustomer, context: SessionContext = {}): Promise<SessionTokens> {
+    const refreshToken = generateOpaqueToken();
+    const expiresAt = JWTUtils.getExpirationDate(config.refreshTokenExpiresIn);
+
+    const session = await sessionRepository.createSession(
+      customer._id,
+      hashToken(refreshToken),
+      expiresAt,
+      context
+    );
+
+    return {
+      token: this.signAccessToken(customer, session._id.toString()),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   *
+   * @param refreshToken - Refresh token presented by the client
+   * @returns Customer and the next token pair
+   * @throws InvalidTokenError if the token is unknown, expired or reused
+   */
+  async rotate(refreshToken: string): Promise<RotatedSession> {
+    const currentHash = hashToken(refreshToken);
+
+    const session = await sessionRepository.findByRefreshTokenHash(currentHash);
+    if (!session) {
+      await this.handleUnknownToken(currentHash);
+      throw new InvalidTokenError('Invalid refresh token');
+    }
+
+    const customer = await customerRepository.findById(session.customerId.toString());
+    if (!customer) {
+      await sessionRepository.delete(session._id.toString());
+      throw new InvalidTokenError('Invalid refresh token');
+    }
+
+    const nextRefreshToken = generateOpaqueToken();
+    const expiresAt = JWTUtils.getExpirationDate(config.refreshTokenExpiresIn);
+
+    const rotated = await sessionRepository.rotateRefreshToken(
+      currentHash,
+      hashToken(nextRefreshToken),
+      expiresAt
+    );
+
+    // Another request rotated this token first - treat as reuse
+    if (!rotated) {
+      await this.handleUnknownToken(currentHash);
+      throw new InvalidTokenError('Invalid refresh token');
+    }
+
+    return {
+      customer,
+      tokens: {
+        token: this.signAccessToken(customer, rotated._id.toString()),
+        refreshToken: nextRefreshToken,
+      },
+    };
+  }
+
+  /**
+   * End a single session
+   *
+   * @param sessionId - Session ID
+   */
+  async endSession(sessionId: string): Promise<void> {
+    await sessionRepository.delete(sessionId);
+  }
+
+  /**
+   * List the live sessions of a customer
+   *
+   * @param customerId - Customer ID
+   * @param currentSessionId - Session of the calling request (flagged as current)
+   * @returns Session summaries, most recently used first
+   */
+  async listSessions(
+    customerId: Types.ObjectId,
+    currentSessionId?: string
+  ): Promise<SessionSummary[]> {
+    const sessions = await sessionRepository.findByCustomerId(customerId);
+
+    return sessions.map(session => this.mapSessionToSummary(session, currentSessionId));
+  }
+
+  /**
+   * Revoke one of the customer's sessions (e.g. a lost or shared device)
+   *
+   * @param customerId - Customer ID
+   * @param sessionId - Session to revoke
+   * @throws NotFoundError if the session doesn't exist or belongs to someone else
+   */
+  async revokeSession(customerId: Types.ObjectId, sessionId: string): Promise<void> {
+    const deleted = await sessionRepository.deleteForCustomer(sessionId, customerId);
+    if (!deleted) {
+      throw new NotFoundError('Session');
+    }
+
+    logger.info('Session revoked by customer', { customerId, sessionId });
+  }
+
+  /**
+   * Revoke the token family if a rotated refresh token is presented again
+   */
+  private async handleUnknownToken(refreshTokenHash: string): Promise<void> {
+    const family = await sessionRepository.findByPreviousTokenHash(refreshTokenHash);
+    if (!family) {
+      return;
+    }
+
+    await sessionRepository.delete(family._id.toString());
+
+    logger.warn('Refresh token reuse detected, session revoked', {
+      sessionId: family._id,
+      customerId: family.customerId,
+    });
+  }
+
+  /**
+   * Map session document to summary
+   */
+  private mapSessionToSummary(session: ISession, currentSessionId?: string): SessionSummary {
+    return {
+      id: session._id,
+      deviceLabel: session.deviceLabel,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session._id.toString() === currentSessionId,
+    };
+  }
+
+  /**
+   * Sign an access token bound to a session
+   */
+  private signAccessToken(customer: ICustomer, sessionId: string): string {
+    return JWTUtils.generateToken({
+      customerId: customer._id.toString(),
+      email: customer.email || customer.phone || '',
+      sessionId,
+    });
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
@@ -0,0 +1,141 @@
+/**
+ * Tenant Service
+ *
+ * In multi-tenant mode one deployment serves several trade businesses,
+ * each with its own ServiceM8 account, branding and settings. Requests are
+ * matched to a tenant by the tenant header or the hostname.
+ */
+
+import { config } from '../config/env';
+import { tenantRepository } from '../repositories/tenant.repository';
+import { encrypt } from '../utils/encryption.utils';
+import { logger } from '../utils/logger';
+import { ConflictError } from '../utils/errors';
+import { ITenant, ServiceM8AuthMode, TenantBranding, TenantSettings } from '../types';
+
+// Resolved tenants are cached briefly to avoid a lookup on every request
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Tenant creation input
+ */
+export interface CreateTenantInput {
+  slug: string;
+  hostnames: string[];
+  displayName: string;
+  servicem8AuthMode: ServiceM8AuthMode;
+  servicem8ApiToken?: string;
+  logoUrl?: string;
+  primaryColor?: string;
+  supportEmail?: string;
+  settings?: TenantSettings;
+}
+
+class TenantService {
+  private cache = new Map<string, { tenant: ITenant | null; expiresAt: number }>();
+
+  /**
+   * Find the tenant a request is for
+   *
+   * The tenant header wins over the hostname so one API host can serve
+   * several frontends.
+   *
+   * @param hostname - Request hostname
+   * @param slug - Value of the tenant header, if sent
+   * @returns Active tenant, or null if none matches
+   */
+  async resolve(hostname: string, slug?: string): Promise<ITenant | null> {
+    if (slug) {
+      return this.cached(`slug:${slug.toLowerCase()}`, () => tenantRepository.findActiveBySlug(slug));
+    }
+
+    return this.cached(`host:${hostname.toLowerCase()}`, () =>
+      tenantRepository.findActiveByHostname(hostname)
+    );
+  }
+
+  /**
+   * Load an active tenant by ID
+   *
+   * @param id - Tenant ID
+   * @returns Tenant, or null if it doesn't exist or was deactivated
+   */
+  async getById(id: string): Promise<ITenant | null> {
+    return this.cached(`id:${id}`, () => tenantRepository.findActiveById(id));
+  }
+
+  /**
+   * Get the branding a frontend should show
+   *
+   * @param tenant - Current tenant (undefined in single-tenant mode)
+   */
+  getBranding(tenant?: ITenant): TenantBranding {
+    if (!tenant) {
+      return { displayName: config.twoFactorIssuer };
+    }
+
+    return {
+      displayName: tenant.branding.displayName,
+      logoUrl: tenant.branding.logoUrl,
+      primaryColor: tenant.branding.primaryColor,
+      supportEmail: tenant.branding.supportEmail,
+    };
+  }
+
+  /**
+   * Create a tenant
+   *
+   * @param input - Tenant details; the API token is stored encrypted
+   * @returns Created tenant
+   * @throws ConflictError if the slug or a hostname is already taken
+   */
+  async createTenant(input: CreateTenantInput): Promise<ITenant> {
+    const slug = input.slug.toLowerCase().trim();
+    const hostnames = input.hostnames.map(hostname => hostname.toLowerCase().trim());
+
+    const existing = await tenantRepository.findOne({
+      $or: [{ slug }, { hostnames: { $in: hostnames } }],
+    });
+    if (existing) {
+      throw new ConflictError('A tenant with this slug or hostname already exists');
+    }
+
+    const tenant = await tenantRepository.create({
+      slug,
+      hostnames,
+      servicem8AuthMode: input.servicem8AuthMode,
+      servicem8ApiToken: input.servicem8ApiToken ? encrypt(input.servicem8ApiToken) : undefined,
+      branding: {
+        displayName: input.displayName,
+        logoUrl: input.logoUrl,
+        primaryColor: input.primaryColor,
+        supportEmail: input.supportEmail,
+      },
+      settings: input.settings ?? {},
+    });
+
+    logger.info('Tenant created', { tenantId: tenant._id, slug });
+
+    return tenant;
+  }
+
+  /**
+   * Return a cached lookup, running it if missing or stale
+   */
+  private async cached(
+    key: string,
+    lookup: () => Promise<ITenant | null>
+  ): Promise<ITenant | null> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.tenant;
+    }
+
+    const tenant = await lookup();
+    this.cache.set(key, { tenant, expiresAt: Date.now() + CACHE_TTL_MS });
+    return tenant;
+  }
+}
+
+// Export singleton instance
+export const tenantService = new TenantService();
@@ -0,0 +1,288 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * Handles TOTP enrolment, confirmation, disabling and the second step of a
+ * 2FA login (authenticator code or single-use recovery code).
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { JWTUtils } from '../utils/jwt.utils';
+import { hashToken } from '../utils/crypto.utils';
+import { encrypt, decrypt } from '../utils/encryption.utils';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUrl,
+} from '../utils/totp.utils';
+import { customerRepository } from '../repositories/customer.repository';
+import { accountLockoutService } from './accountLockout.service';
+import { logger } from '../utils/logger';
+import {
+  AuthenticationError,
+  ConflictError,
+  InvalidTokenError,
+  ValidationError,
+} from '../utils/errors';
+import { ICustomer, SessionContext } from '../types';
+
+/**
+ * Enrolment details shown to the customer (QR code / manual entry)
+ */
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Second-step login input
+ */
+export interface TwoFactorVerifyInput {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+class TwoFactorService {
+  /**
+   * Start enrolment by generating a pending secret
+   *
+   * @param customer - Customer document
+   * @returns Secret and otpauth URL for the authenticator app
+   * @throws ConflictError if 2FA is already enabled
+   */
+  async beginEnrollment(customer: ICustomer): Promise<TwoFactorEnrollment> {
+    if (customer.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    customer.twoFactorPendingSecret = encrypt(secret);
+    await customer.save();
+
+    logger.info('Two-factor enrolment started', { customerId: customer._id });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(
+        config.twoFactorIssuer,
+        customer.email || customer.phone || customer._id.toString(),
+        secret
+      ),
+    };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   *
+   * @param customer - Customer document
+   * @param code - Current TOTP code
+   * @returns Recovery codes (shown once, stored hashed)
+   * @throws ValidationError if there is no pending enrolment or the code is wrong
+   */
+  async confirmEnrollment(customer: ICustomer, code: string): Promise<string[]> {
+    if (customer.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    if (!customer.twoFactorPendingSecret) {
+      throw new ValidationError('Start two-factor enrolment first');
+    }
+
+    const step = verifyTotp(decrypt(customer.twoFactorPendingSecret), code);
+    if (step === null) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    customer.twoFactorSecret = customer.twoFactorPendingSecret;
+    customer.twoFactorPendingSecret = undefined;
+    customer.twoFactorEnabled = true;
+    customer.twoFactorLastUsedStep = step;
+    customer.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode =>
+      this.hashRecoveryCode(customer, recoveryCode)
+    );
+    await customer.save();
+
+    logger.info('Two-factor authentication enabled', { customerId: customer._id });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Disable 2FA after re-checking the password and a second factor
+   *
+   * @param customer - Customer document
+   * @param password - Current password
+   * @param code - TOTP code or recovery code
+   * @throws AuthenticationError if the password or code is wrong
+   */
+  async disable(customer: ICustomer, password: string, code: string): Promise<void> {
+    if (!customer.twoFactorEnabled) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    const isPasswordValid = await customer.comparePassword(password);
+    if (!isPasswordValid) {
+      throw new AuthenticationError('Invalid credentials');
+    }
+
+    const accepted =
+      (await this.acceptTotp(customer, code)) ||
+      (await this.acceptRecoveryCode(customer, code));
+    if (!accepted) {
+      throw new AuthenticationError('Invalid authentication code');
+    }
+
+    customer.twoFactorEnabled = false;
+    customer.twoFactorSecret = undefined;
+    customer.twoFactorPendingSecret = undefined;
+    customer.twoFactorRecoveryCodes = [];
+    customer.twoFactorLastUsedStep = undefined;
+    await customer.save();
+
+    logger.info('Two-factor authentication disabled', { customerId: customer._id });
+  }
+
+  /**
+   * Issue a challenge token after the first login factor succeeded
+   *
+   * Only the latest challenge is open, and it closes once used or after
+   * TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS wrong codes.
+   *
+   * @param customer - Customer document
+   * @returns Challenge token to exchange at /api/auth/2fa/verify
+   */
+  async createChallenge(customer: ICustomer): Promise<string> {
+    const challengeId = crypto.randomBytes(16).toString('hex');
+    await customerRepository.openTwoFactorChallenge(customer._id, hashToken(challengeId));
+
+    return JWTUtils.generateChallengeToken(customer._id.toString(), challengeId);
+  }
+
+  /**
+   * Complete a 2FA login
+   *
+   * Wrong codes count towards the account lockout, like wrong passwords.
+   *
+   * @param input - Challenge token and TOTP or recovery code
+   * @param context - Client details for the security log
+   * @returns Customer that passed both factors
+   * @throws InvalidTokenError if the challenge token is invalid, expired,
+   *   already used or has had too many wrong codes
+   * @throws AuthenticationError if the code is wrong or the account is locked
+   */
+  async verifyChallenge(input: TwoFactorVerifyInput, context: SessionContext = {}): Promise<ICustomer> {
+    let customerId: string;
+    let challengeId: string;
+    try {
+      ({ customerId, challengeId } = JWTUtils.verifyChallengeToken(input.challengeToken));
+    } catch (error) {
+      throw new InvalidTokenError('Invalid or expired challenge token');
+    }
+
+    const customer = await customerRepository.findById(customerId);
+    if (!customer || !customer.twoFactorEnabled || !challengeId) {
+      throw new InvalidTokenError('Invalid or expired challenge token');
+    }
+
+    const hashedChallengeId = hashToken(challengeId);
+    const attempt = await customerRepository.recordTwoFactorAttempt(customer._id, hashedChallengeId);
+    if (!attempt) {
+      throw new InvalidTokenError('Invalid or expired challenge token');
+    }
+
+    // Same generic error as a wrong code so account state isn't revealed
+    const canAttempt = await accountLockoutService.canAttempt(customer, context);
+    if (!canAttempt) {
+      throw new AuthenticationError('Invalid authentication code');
+    }
+
+    const accepted = input.recoveryCode
+      ? await this.acceptRecoveryCode(customer, input.recoveryCode)
+      : await this.acceptTotp(customer, input.code || '');
+
+    if (!accepted) {
+      logger.warn('Two-factor verification failed', { customerId: customer._id });
+      await accountLockoutService.recordFailure(customer, context);
+
+      if ((attempt.twoFactorChallengeAttempts ?? 0) >= config.twoFactorChallengeMaxAttempts) {
+        await customerRepository.closeTwoFactorChallenge(customer._id, hashedChallengeId);
+        throw new InvalidTokenError('Too many invalid codes. Please log in again');
+      }
+      throw new AuthenticationError('Invalid authentication code');
+    }
+
+    // Single use: a second request with the same token fails here
+    const closed = await customerRepository.closeTwoFactorChallenge(customer._id, hashedChallengeId);
+    if (!closed) {
+      throw new InvalidTokenError('Invalid or expired challenge token');
+    }
+
+    await accountLockoutService.recordSuccess(customer);
+
+    return customer;
+  }
+
+  /**
+   * Accept a TOTP code once (codes can't be replayed within their window)
+   */
+  private async acceptTotp(customer: ICustomer, code: string): Promise<boolean> {
+    if (!customer.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(decrypt(customer.twoFactorSecret), code);
+    if (step === null || step <= (customer.twoFactorLastUsedStep ?? -1)) {
+      return false;
+    }
+
+    customer.twoFactorLastUsedStep = step;
+    await customer.save();
+    return true;
+  }
+
+  /**
+   * Accept and burn a recovery code
+   */
+  private async acceptRecoveryCode(customer: ICustomer, recoveryCode: string): Promise<boolean> {
+    const hashed = this.hashRecoveryCode(customer, recoveryCode);
+    if (!customer.twoFactorRecoveryCodes.includes(hashed)) {
+      return false;
+    }
+
+    customer.twoFactorRecoveryCodes = customer.twoFactorRecoveryCodes.filter(
+      existing => existing !== hashed
+    );
+    await customer.save();
+
+    logger.info('Two-factor recovery code used', {
+      customerId: customer._id,
+      remaining: customer.twoFactorRecoveryCodes.length,
+    });
+    return true;
+  }
+
+  /**
+   * Generate human-friendly recovery codes (e.g. "a1b2c-3d4e5")
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code, salted with the customer ID
+   */
+  private hashRecoveryCode(customer: ICustomer, recoveryCode: string): string {
+    return hashToken(`${customer._id.toString()}:${recoveryCode.trim().toLowerCase()}`);
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
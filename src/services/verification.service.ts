@@ -0,0 +1,195 @@
+/**
+ * Contact Verification Service
+ *
+ * Verifies that a customer controls the email address and/or phone number
+ * on their account using single-use codes.
+ */
+
+import { config } from '../config/env';
+import { otpService } from './otp.service';
+import { oneTimeTokenRepository } from '../repositories/oneTimeToken.repository';
+import { logger } from '../utils/logger';
+import { getCurrentTenant } from '../utils/tenantContext';
+import { ValidationError, ForbiddenError } from '../utils/errors';
+import { ICustomer, ContactChannel, OneTimeTokenPurpose } from '../types';
+
+/**
+ * Verification state of a customer's contact channels
+ */
+export interface VerificationStatus {
+  emailVerified: boolean;
+  phoneVerified: boolean;
+}
+
+class VerificationService {
+  /**
+   * Send a verification code to one of the customer's contact channels
+   *
+   * @param customer - Customer document
+   * @param channel - 'email' or 'phone'
+   * @throws ValidationError if the channel is missing or already verified
+   * @throws TooManyRequestsError if a code was sent too recently
+   */
+  async sendCode(customer: ICustomer, channel: ContactChannel): Promise<void> {
+    const destination = this.getDestination(customer, channel);
+
+    if (this.isVerified(customer, channel)) {
+      throw new ValidationError(`Your ${channel} is already verified`);
+    }
+
+    await otpService.issueCode(customer, this.getPurpose(channel), {
+      channel: channel === 'email' ? 'email' : 'sms',
+      to: destination,
+      subject: 'Verify your contact details',
+      describe: (code) =>
+        `Your verification code is ${code}. It expires in ${config.otpExpiresIn}.`,
+    });
+  }
+
+  /**
+   * Send verification codes for every unverified channel on the account
+   *
+   * Used right after registration; delivery failures are logged, not thrown.
+   *
+   * @param customer - Customer document
+   */
+  async sendInitialCodes(customer: ICustomer): Promise<void> {
+    const channels: ContactChannel[] = [];
+    if (customer.email && !customer.emailVerified) channels.push('email');
+    if (customer.phone && !customer.phoneVerified) channels.push('phone');
+
+    for (const channel of channels) {
+      try {
+        await this.sendCode(customer, channel);
+      } catch (error: any) {
+        logger.warn('Failed to send verification code', {
+          customerId: customer._id,
+          channel,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Check that a new code may be sent to a channel yet
+   *
+   * @param customer - Customer document
+   * @param channel - 'email' or 'phone'
+   * @throws TooManyRequestsError if a code was sent too recently
+   */
+  async assertCanResend(customer: ICustomer, channel: ContactChannel): Promise<void> {
+    await otpService.assertCanResend(customer, this.getPurpose(channel));
+  }
+
+  /**
+   * Discard the outstanding codes for a channel (e.g. after the address changed)
+   *
+   * @param customer - Customer document
+   * @param channel - 'email' or 'phone'
+   */
+  async discardCodes(customer: ICustomer, channel: ContactChannel): Promise<void> {
+    await oneTimeTokenRepository.deleteByCustomerId(customer._id, this.getPurpose(channel));
+  }
+
+  /**
+   * Confirm a contact channel with the code that was sent to it
+   *
+   * @param customer - Customer document
+   * @param channel - 'email' or 'phone'
+   * @param code - Code entered by the customer
+   * @returns Updated verification status
+   * @throws ValidationError if the code is invalid or expired
+   */
+  async confirm(
+    customer: ICustomer,
+    channel: ContactChannel,
+    code: string
+  ): Promise<VerificationStatus> {
+    this.getDestination(customer, channel);
+
+    if (!this.isVerified(customer, channel)) {
+      const result = await otpService.checkCode(customer, this.getPurpose(channel), code);
+      if (result !== 'valid') {
+        throw new ValidationError('Invalid or expired verification code');
+      }
+
+      this.markVerified(customer, channel);
+      await customer.save();
+
+      logger.info('Contact channel verified', { customerId: customer._id, channel });
+    }
+
+    return this.getStatus(customer);
+  }
+
+  /**
+   * Enforce the "verified contact required" policy for job creation
+   *
+   * A tenant's own setting overrides the deployment default.
+   *
+   * @param customer - Customer document
+   * @throws ForbiddenError if the policy is on and nothing is verified
+   */
+  assertCanCreateJobs(customer: ICustomer): void {
+    const required =
+      getCurrentTenant()?.settings?.requireVerifiedContactForJobs ??
+      config.requireVerifiedContactForJobs;
+    if (!required) {
+      return;
+    }
+
+    if (!customer.emailVerified && !customer.phoneVerified) {
+      throw new ForbiddenError('Please verify your email or phone before creating jobs');
+    }
+  }
+
+  /**
+   * Get the verification state of a customer's contact channels
+   */
+  getStatus(customer: ICustomer): VerificationStatus {
+    return {
+      emailVerified: customer.emailVerified,
+      phoneVerified: customer.phoneVerified,
+    };
+  }
+
+  /**
+   * Mark a channel as verified (without saving)
+   */
+  markVerified(customer: ICustomer, channel: ContactChannel): void {
+    if (channel === 'email') {
+      customer.emailVerified = true;
+    } else {
+      customer.phoneVerified = true;
+    }
+  }
+
+  /**
+   * Check whether a channel is already verified
+   */
+  private isVerified(customer: ICustomer, channel: ContactChannel): boolean {
+    return channel === 'email' ? customer.emailVerified : customer.phoneVerified;
+  }
+
+  /**
+   * Map a channel to its one-time token purpose
+   */
+  private getPurpose(channel: ContactChannel): OneTimeTokenPurpose {
+    return channel === 'email' ? 'email_verification' : 'phone_verification';
+  }
+
+  /**
+   * Get the email/phone for a channel, failing if the account has none
+   */
+  private getDestination(customer: ICustomer, channel: ContactChannel): string {
+    const destination = channel === 'email' ? customer.email : customer.phone;
+    if (!destination) {
+      throw new ValidationError(`No ${channel} on this account`);
+    }
+    return destination;
+  }
+}
+
+// Export singleton instance
+export const verificationService = new VerificationService();
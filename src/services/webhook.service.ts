@@ -0,0 +1,335 @@
+/**
+ * Webhook Service
+ *
+ * Receives change notifications from ServiceM8 so the API hears about
+ * changes made in the office app straight away. Deliveries are verified,
+ * split into one event per changed record, deduplicated and stored in the
+ * `webhookevents` collection, which a background worker drains. Each event
+ * goes through the handler for its object type (to work out which job or
+ * company it affects) and is then published on `servicem8Events`.
+ *
+ * Storing events before handling them means a delivery is never lost
+ * because ServiceM8 or a subscriber was briefly unavailable: failed events
+ * are retried with backoff.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { servicem8Registry } from './servicem8.service';
+import { servicem8Events, ServiceM8ChangeEvent } from './servicem8Events.service';
+import { tenantService } from './tenant.service';
+import { webhookEventRepository } from '../repositories/webhookEvent.repository';
+import { runWithTenant, runWithoutTenant } from '../utils/tenantContext';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../utils/errors';
+import { ITenant, IWebhookEvent, ServiceM8WebhookObject } from '../types';
+
+// Header carrying the hex HMAC-SHA256 of the raw request body
+export const SIGNATURE_HEADER = 'x-servicem8-signature';
+
+// Fields watched for each object when subscribing
+export const WEBHOOK_SUBSCRIPTIONS: Record<ServiceM8WebhookObject, string[]> = {
+  job: ['status', 'scheduled_date', 'job_address', 'job_description', 'company_uuid', 'active'],
+  company: ['name', 'email', 'mobile', 'address', 'active'],
+  attachment: ['file_name', 'active'],
+  jobactivity: ['start_date', 'end_date', 'staff_uuid', 'activity_was_scheduled', 'active'],
+};
+
+// How long a worker owns a claimed event before another may retry it
+const CLAIM_LEASE_MS = 60 * 1000;
+
+// Retry delays double from the first, up to the last
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Body of a ServiceM8 webhook delivery
+ */
+export interface ServiceM8WebhookPayload {
+  object: ServiceM8WebhookObject;
+  entry: {
+    uuid: string;
+    changed_fields?: string[];
+    time?: string; // "YYYY-MM-DD HH:mm:ss"
+  }[];
+  resource_url?: string;
+}
+
+/**
+ * Result of receiving a delivery
+ */
+export interface ReceiveResult {
+  queued: number;
+  duplicates: number;
+}
+
+// Works out which job/company a changed record belongs to
+type WebhookHandler = (event: IWebhookEvent) => Promise<Pick<ServiceM8ChangeEvent, 'jobUuid' | 'companyUuid'>>;
+
+class WebhookService {
+  private worker?: NodeJS.Timeout;
+  private draining = false;
+
+  private readonly handlers: Record<ServiceM8WebhookObject, WebhookHandler> = {
+    job: async event => ({ jobUuid: event.uuid }),
+
+    company: async event => ({ companyUuid: event.uuid }),
+
+    attachment: async event => {
+      const attachment = await servicem8Registry.current().getAttachmentByUuid(event.uuid);
+      return attachment?.related_object === 'job'
+        ? { jobUuid: attachment.related_object_uuid }
+        : {};
+    },
+
+    jobactivity: async event => {
+      const activity = await servicem8Registry.current().getJobActivityByUuid(event.uuid);
+      return activity?.job_uuid ? { jobUuid: activity.job_uuid } : {};
+    },
+  };
+
+  /**
+   * Check a delivery's signature
+   *
+   * @param rawBody - Request body exactly as received
+   * @param signature - Value of the signature header
+   * @returns True if the body was signed with the webhook secret
+   */
+  verifySignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+    if (!config.servicem8WebhookSecret) {
+      logger.warn('ServiceM8 webhook received but SERVICEM8_WEBHOOK_SECRET is not set');
+      return false;
+    }
+    if (!rawBody || !signature) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', config.servicem8WebhookSecret)
+      .update(rawBody)
+      .digest('hex');
+    const received = signature.replace(/^sha256=/, '').toLowerCase();
+
+    return (
+      received.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+    );
+  }
+
+  /**
+   * Queue the changes in a delivery
+   *
+   * @param payload - Verified delivery body
+   * @param tenant - Tenant resolved for the request, if any
+   * @param tenantSlug - `tenant` query parameter of the callback URL
+   * @param hostname - Request hostname
+   * @param rawBody - Request body exactly as received
+   * @returns How many events were queued and how many were repeats
+   * @throws NotFoundError in multi-tenant mode if no tenant matches
+   */
+  async receive(
+    payload: ServiceM8WebhookPayload,
+    tenant: ITenant | undefined,
+    tenantSlug: string | undefined,
+    hostname: string,
+    rawBody?: Buffer
+  ): Promise<ReceiveResult> {
+    // ServiceM8 can't send our tenant header, so each tenant's callback URL
+    // names the tenant instead
+    if (config.multiTenant && !tenant) {
+      tenant = (await tenantService.resolve(hostname, tenantSlug)) ?? undefined;
+      if (!tenant) {
+        throw new NotFoundError('Tenant');
+      }
+    }
+
+    const deliveryId = this.getDeliveryId(payload, rawBody);
+
+    const enqueueAll = async () => {
+      let added = 0;
+      for (const entry of payload.entry) {
+        const isNew = await webhookEventRepository.enqueue({
+          tenantId: tenant?._id,
+          eventId: this.getEventId(payload.object, entry.uuid, entry.time ?? deliveryId, entry.changed_fields),
+          object: payload.object,
+          uuid: entry.uuid,
+          changedFields: entry.changed_fields ?? [],
+          occurredAt: entry.time ? new Date(entry.time.replace(' ', 'T')) : undefined,
+        });
+        if (isNew) {
+          added++;
+        }
+      }
+      return added;
+    };
+
+    // A tenant named in the callback URL wasn't known when the request started
+    const queued = await (tenant ? runWithTenant(tenant, enqueueAll) : enqueueAll());
+
+    const result = { queued, duplicates: payload.entry.length - queued };
+    logger.info('ServiceM8 webhook received', {
+      tenantId: tenant?._id,
+      object: payload.object,
+      ...result,
+    });
+
+    // Handle straight away rather than waiting for the next poll (outside
+    // this request's tenant, as the queue is shared)
+    if (queued > 0) {
+      setImmediate(() => runWithoutTenant(() => this.drainQueue()));
+    }
+
+    return result;
+  }
+
+  /**
+   * Start draining the queue in the background
+   */
+  startWorker(): void {
+    if (this.worker) {
+      return;
+    }
+
+    // The queue is shared, so the worker reads it across tenants
+    this.worker = setInterval(
+      () => runWithoutTenant(() => this.drainQueue()),
+      config.webhookPollIntervalSeconds * 1000
+    );
+    this.worker.unref();
+    logger.info('Webhook worker started', { pollIntervalSeconds: config.webhookPollIntervalSeconds });
+  }
+
+  /**
+   * Stop the background worker
+   */
+  stopWorker(): void {
+    if (this.worker) {
+      clearInterval(this.worker);
+      this.worker = undefined;
+    }
+  }
+
+  /**
+   * Handle every event that is due
+   *
+   * Only one drain runs at a time per process; other processes may drain
+   * the same queue, since events are claimed one at a time.
+   *
+   * @returns Number of events handled (successfully or not)
+   */
+  async drainQueue(): Promise<number> {
+    if (this.draining) {
+      return 0;
+    }
+
+    this.draining = true;
+    let handled = 0;
+    try {
+      let event = await webhookEventRepository.claimNext(CLAIM_LEASE_MS);
+      while (event) {
+        await this.process(event);
+        handled++;
+        event = await webhookEventRepository.claimNext(CLAIM_LEASE_MS);
+      }
+    } catch (error: any) {
+      logger.error('Webhook worker failed', { error: error.message });
+    } finally {
+      this.draining = false;
+    }
+    return handled;
+  }
+
+  /**
+   * Handle one claimed event and record the outcome
+   */
+  private async process(event: IWebhookEvent): Promise<void> {
+    try {
+      let tenant: ITenant | undefined;
+      if (event.tenantId) {
+        tenant = (await tenantService.getById(event.tenantId.toString())) ?? undefined;
+        if (!tenant) {
+          // The tenant was deactivated - retrying won't help
+          await webhookEventRepository.markFailed(event._id, 'Tenant not found', null);
+          return;
+        }
+      }
+
+      const dispatch = () => this.dispatch(event);
+      await (tenant ? runWithTenant(tenant, dispatch) : dispatch());
+
+      await webhookEventRepository.markProcessed(event._id);
+    } catch (error: any) {
+      const retryAt =
+        event.attempts < config.webhookMaxAttempts
+          ? new Date(Date.now() + Math.min(RETRY_BASE_DELAY_MS * 2 ** (event.attempts - 1), RETRY_MAX_DELAY_MS))
+          : null;
+
+      logger.error('Failed to handle ServiceM8 webhook event', {
+        eventId: event.eventId,
+        object: event.object,
+        uuid: event.uuid,
+        attempts: event.attempts,
+        retryAt,
+        error: error.message,
+      });
+
+      await webhookEventRepository.markFailed(event._id, error.message, retryAt);
+    }
+  }
+
+  /**
+   * Run the object's handler and publish the resulting change
+   */
+  private async dispatch(event: IWebhookEvent): Promise<void> {
+    const related = await this.handlers[event.object](event);
+
+    await servicem8Events.publish({
+      eventId: event.eventId,
+      tenantId: event.tenantId?.toString(),
+      object: event.object,
+      uuid: event.uuid,
+      changedFields: event.changedFields,
+      occurredAt: event.occurredAt,
+      ...related,
+    });
+  }
+
+  /**
+   * Derive a stable ID for a change
+   *
+   * ServiceM8 deliveries carry no ID of their own, so redeliveries of the
+   * same change are recognised by what changed and when.
+   *
+   * @param when - Entry's `time`, or the delivery ID for entries without one
+   */
+  private getEventId(
+    object: string,
+    uuid: string,
+    when: string,
+    changedFields: string[] | undefined
+  ): string {
+    return crypto
+      .createHash('sha256')
+      .update([object, uuid, when, [...(changedFields ?? [])].sort().join(',')].join('|'))
+      .digest('hex');
+  }
+
+  /**
+   * Derive an ID unique to one delivery
+   *
+   * Used in place of `time` for entries that lack it: without a time, two
+   * separate changes to the same fields of a record look identical, and the
+   * later one would be dropped as a repeat. Such entries are never treated
+   * as repeats instead.
+   */
+  private getDeliveryId(payload: ServiceM8WebhookPayload, rawBody: Buffer | undefined): string {
+    return crypto
+      .createHash('sha256')
+      .update(rawBody ?? JSON.stringify(payload))
+      .update(`|${Date.now()}|${crypto.randomBytes(8).toString('hex')}`)
+      .digest('hex');
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
@@ -1,53 +1,403 @@
 import { Request } from 'express';
 import { Document, Types } from 'mongoose';
 
+// Role of an authenticated principal (customer or office user)
+export type Role = 'customer' | 'staff' | 'admin';
+
+// Role of a customer within their ServiceM8 company
+export type CompanyRole = 'owner' | 'member' | 'viewer';
+
+// Tenant Types
+// One trade business (ServiceM8 account) served by a multi-tenant deployment
+export interface TenantBranding {
+  displayName: string;
+  logoUrl?: string;
+  primaryColor?: string;
+  supportEmail?: string;
+}
+
+export interface TenantSettings {
+  requireVerifiedContactForJobs?: boolean; // Overrides REQUIRE_VERIFIED_CONTACT_FOR_JOBS
+  cancellationCutoffHours?: number; // Overrides CANCELLATION_CUTOFF_HOURS
+}
+
+export interface ITenant extends Document {
+  _id: Types.ObjectId;
+  slug: string; // Matched against the tenant header
+  hostnames: string[]; // Matched against the request hostname
+  servicem8AuthMode: ServiceM8AuthMode;
+  servicem8ApiToken?: string; // Encrypted (api_key mode only)
+  branding: TenantBranding;
+  settings: TenantSettings;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Customer Types
+// Staff and admins are stored in the same collection with a different role
 export interface ICustomer extends Document {
   _id: Types.ObjectId;
+  tenantId?: Types.ObjectId; // Set in multi-tenant mode
+  role: Role;
   email?: string;
   phone?: string;
   password: string;
   firstName?: string;
   lastName?: string;
-  servicem8ClientUuid: string; // ServiceM8 Company/Contact UUID (required)
+  servicem8ClientUuid?: string; // ServiceM8 Company/Contact UUID (required for customers)
+  companyRole?: CompanyRole; // Customers only - several customers can share a company
+  pendingServiceM8ClientUuid?: string; // Existing company awaiting verification before linking
+  pendingServiceM8LinkChannel?: ContactChannel; // Channel that matched the existing company
   address?: string;
+  emailVerified: boolean;
+  phoneVerified: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // Encrypted TOTP secret
+  twoFactorPendingSecret?: string; // Encrypted secret awaiting confirmation
+  twoFactorRecoveryCodes: string[]; // Hashed single-use recovery codes
+  twoFactorLastUsedStep?: number; // Prevents replaying a TOTP code
+  twoFactorChallengeId?: string; // Hashed ID of the open login challenge (single use)
+  twoFactorChallengeAttempts?: number; // Codes tried against the open challenge
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date;
+  lockedUntil?: Date;
+  deletedAt?: Date; // Set when the account has been deleted and anonymised
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
 // Message Types
+export type MessageSenderType = 'customer' | 'staff' | 'system';
+
 export interface IMessage extends Document {
   _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
   jobUuid: string; // ServiceM8 Job UUID
   customerId: Types.ObjectId;
   message: string;
-  senderType: 'customer' | 'system';
+  senderType: MessageSenderType;
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Session Types
+// A session is a refresh token family: every rotation replaces the current
+// refresh token hash and keeps the previous ones for reuse detection.
 export interface ISession extends Document {
   _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  customerId: Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHashes: string[];
+  userAgent?: string;
+  ipAddress?: string;
+  deviceLabel?: string;
+  lastUsedAt?: Date;
+  impersonatorId?: Types.ObjectId; // Set when an admin is acting as the customer
+  allowDestructive?: boolean; // Impersonation may perform destructive job operations
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Security Event Types
+export type SecurityEventType =
+  | 'login_failed'
+  | 'login_blocked'
+  | 'account_locked'
+  | 'account_unlocked';
+
+export interface ISecurityEvent extends Document {
+  _id: Types.ObjectId;
+  customerId?: Types.ObjectId;
+  type: SecurityEventType;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Invitation Types
+// Invites someone by email to join a customer's ServiceM8 company
+export interface IInvitation extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  companyUuid: string;
+  email: string;
+  companyRole: CompanyRole;
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Audit Log Types
+// Written for everything an admin does while impersonating a customer
+export type AuditAction = 'impersonation_started' | 'impersonated_request';
+
+export interface IAuditLog extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  action: AuditAction;
+  impersonatorId: Types.ObjectId;
   customerId: Types.ObjectId;
-  token: string;
+  sessionId?: Types.ObjectId;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ServiceM8 Connection Types
+// How requests to ServiceM8 are authenticated
+export type ServiceM8AuthMode = 'api_key' | 'oauth';
+
+// OAuth tokens for the ServiceM8 account the portal is installed on.
+// Tokens are stored encrypted.
+export interface IServiceM8Connection extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+  scope?: string;
+  connectedBy?: Types.ObjectId;
+  lastRefreshedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ServiceM8 Cache Types
+// Kinds of ServiceM8 data cached, each with its own TTL
+export type CacheEntity = 'job' | 'jobList' | 'company' | 'attachments' | 'jobActivity';
+
+// Entry in the Mongo-backed cache store
+export interface ICacheEntry extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  value: any;
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// ServiceM8 webhook objects we subscribe to
+export type ServiceM8WebhookObject = 'job' | 'company' | 'attachment' | 'jobactivity';
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+// Change reported by a ServiceM8 webhook, queued until it has been handled
+export interface IWebhookEvent extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  eventId: string; // Derived from the change itself, so redeliveries dedupe
+  object: ServiceM8WebhookObject;
+  uuid: string;
+  changedFields: string[];
+  occurredAt?: Date;
+  status: WebhookEventStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ServiceM8 records mirrored into MongoDB (see servicem8Sync.service)
+export type MirrorEntity = 'job' | 'company' | 'attachment';
+
+// Fields shared by every mirrored record
+export interface IMirrorRecord extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  uuid: string;
+  active: boolean;
+  editDate?: string; // ServiceM8 edit_date ("YYYY-MM-DD HH:mm:ss")
+  syncedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IMirroredJob extends IMirrorRecord {
+  companyUuid?: string;
+  status: string;
+  data: ServiceM8Job;
+}
+
+export interface IMirroredCompany extends IMirrorRecord {
+  data: ServiceM8Company;
+}
+
+export interface IMirroredAttachment extends IMirrorRecord {
+  jobUuid: string;
+  data: ServiceM8Attachment;
+}
+
+export type SyncTrigger = 'schedule' | 'manual' | 'webhook';
+
+export type SyncRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface SyncFailure {
+  entity: MirrorEntity;
+  uuid?: string;
+  message: string;
+}
+
+// One pass of the sync engine
+export interface ISyncRun extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  watermarks: Partial<Record<MirrorEntity, string>>; // Newest edit_date synced per entity
+  counts: Record<MirrorEntity, number>;
+  backfilledCompanies: number; // Newly linked companies copied in full
+  changes: number; // Webhook changes applied (webhook runs only)
+  failures: SyncFailure[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One-time Token Types
+export type OneTimeTokenPurpose =
+  | 'password_reset'
+  | 'login_otp'
+  | 'email_verification'
+  | 'phone_verification'
+  | 'servicem8_link';
+
+// Contact channel a customer can verify
+export type ContactChannel = 'email' | 'phone';
+
+export interface IOneTimeToken extends Document {
+  _id: Types.ObjectId;
+  customerId: Types.ObjectId;
+  purpose: OneTimeTokenPurpose;
+  tokenHash: string;
+  attempts: number;
+  expiresAt: Date;
+  consumedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Client details recorded when a session is created
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+  deviceName?: string;
+}
+
+// Webhook requests keep the raw body so its signature can be checked
+export interface WebhookRequest extends Request {
+  rawBody?: Buffer;
+  tenant?: ITenant;
+}
+
 // Auth Types
 export interface AuthRequest extends Request {
   customer?: ICustomer;
   customerId?: Types.ObjectId;
+  sessionId?: string;
+  impersonation?: ImpersonationClaims;
+  tenant?: ITenant;
+}
+
+// Present in the access token when an admin is acting as the customer
+export interface ImpersonationClaims {
+  impersonatorId: string;
+  allowDestructive: boolean;
 }
 
 export interface TokenPayload {
   customerId: string;
   email: string;
+  sessionId: string;
+  impersonation?: ImpersonationClaims;
 }
 
+// Short-lived token proving the password step of a 2FA login succeeded
+export interface ChallengeTokenPayload {
+  customerId: string;
+  challengeId: string;
+  purpose: 'two_factor';
+}
+
+// Short-lived token carried through the ServiceM8 OAuth install as `state`
+export interface OAuthStatePayload {
+  customerId: string;
+  tenantId?: string;
+  purpose: 'servicem8_oauth';
+}
+
+// Cancellation Request Types
+export type CancellationStatus = 'pending' | 'approved' | 'rejected';
+
+// A customer asking for a job to be cancelled. Outside the cut-off before
+// the scheduled time it is approved straight away; inside it, staff decide.
+export interface ICancellationRequest extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  jobUuid: string;
+  companyUuid?: string;
+  requestedBy: Types.ObjectId;
+  reason: string;
+  status: CancellationStatus;
+  scheduledDate?: string; // Job's scheduled_date when the request was made
+  autoApproved: boolean; // Outside the cut-off, so no staff approval was needed
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Reschedule Request Types
+export type RescheduleStatus = 'pending' | 'confirmed' | 'declined';
+
+// A customer asking for a job to be moved to a free slot; staff confirm
+// it before the job is changed in ServiceM8
+export interface IRescheduleRequest extends Document {
+  _id: Types.ObjectId;
+  tenantId?: Types.ObjectId;
+  jobUuid: string;
+  companyUuid?: string;
+  requestedBy: Types.ObjectId;
+  service: string; // Key of SCHEDULING_SERVICE_DURATIONS
+  startsAt: Date;
+  endsAt: Date;
+  note?: string;
+  previousScheduledDate?: string; // Job's scheduled_date when the request was made
+  status: RescheduleStatus;
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Job Lifecycle Types
+// Statuses the portal manages (see config/jobLifecycle)
+export type JobStatus = 'Quote' | 'Work Order' | 'Scheduled' | 'In Progress' | 'Complete' | 'Cancelled';
+
+// Who is changing a job's status - staff covers admins; the system is the
+// portal acting on its own
+export type JobActor = 'customer' | 'staff' | 'system';
+
 // ServiceM8 API Types
 export interface ServiceM8Job {
   uuid: string;
@@ -83,6 +433,18 @@ export interface CreateJobPayload {
   active?: number;
 }
 
+// Scheduled visit in the ServiceM8 diary
+export interface ServiceM8JobActivity {
+  uuid: string;
+  job_uuid: string;
+  staff_uuid?: string;
+  start_date: string;
+  end_date: string;
+  activity_was_scheduled: number;
+  active: number;
+  [key: string]: any;
+}
+
 export interface ServiceM8Attachment {
   uuid: string;
   related_object: string;
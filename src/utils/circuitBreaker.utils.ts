@@ -0,0 +1,94 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling an external service after repeated failures so requests
+ * fail fast instead of each waiting for a timeout. After a cool-down a
+ * single trial request is let through; if it succeeds the circuit closes
+ * again, otherwise it stays open for another cool-down.
+ */
+
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before opening
+  cooldownMs: number; // How long to stay open before a trial request
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Check whether a request may be sent now
+   *
+   * Once the cool-down has passed this lets exactly one trial request
+   * through; its result must be reported with recordSuccess/recordFailure.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record that the service answered
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit closed', { circuit: this.name });
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record that the service failed or couldn't be reached
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn('Circuit opened', {
+          circuit: this.name,
+          consecutiveFailures: this.consecutiveFailures,
+          cooldownMs: this.options.cooldownMs,
+        });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Get the current state (for health checks)
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Contact Matching Utilities
+ *
+ * Loose comparison of email addresses and phone numbers coming from
+ * different systems (portal sign-ups vs ServiceM8 records).
+ */
+
+// Compare the last digits only so "+61 412 345 678" matches "0412345678"
+const PHONE_MATCH_DIGITS = 9;
+
+/**
+ * Normalise an email address for comparison
+ */
+export const normalizeEmail = (email?: string): string => (email || '').toLowerCase().trim();
+
+/**
+ * Reduce a phone number to its significant trailing digits
+ */
+export const normalizePhone = (phone?: string): string =>
+  (phone || '').replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+
+/**
+ * Check whether a record's email or phone matches the given contact details
+ *
+ * Empty values never match.
+ *
+ * @param record - Email/phone on the record being checked
+ * @param contact - Email/phone being searched for
+ */
+export const contactMatches = (
+  record: { email?: string; phone?: string },
+  contact: { email?: string; phone?: string }
+): boolean => {
+  const email = normalizeEmail(contact.email);
+  const phone = normalizePhone(contact.phone);
+
+  const emailMatch = !!email && normalizeEmail(record.email) === email;
+  const phoneMatch = phone.length >= 6 && normalizePhone(record.phone) === phone;
+
+  return emailMatch || phoneMatch;
+};
@@ -0,0 +1,32 @@
+/**
+ * Crypto Utilities
+ *
+ * Helpers for generating and hashing opaque tokens (refresh tokens,
+ * one-time codes) that are stored server-side.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/env';
+
+/**
+ * Generate a random URL-safe opaque token
+ *
+ * @param bytes - Number of random bytes (default: 48)
+ * @returns Base64url encoded token
+ */
+export const generateOpaqueToken = (bytes: number = 48): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash a token for storage
+ *
+ * Uses HMAC-SHA256 keyed with the JWT secret so a leaked database alone
+ * is not enough to brute force short tokens.
+ *
+ * @param token - Plain token
+ * @returns Hex encoded hash
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHmac('sha256', config.jwtSecret).update(token).digest('hex');
+};
@@ -0,0 +1,50 @@
+/**
+ * Encryption Utilities
+ *
+ * AES-256-GCM encryption for secrets that must be stored recoverably
+ * (e.g. TOTP secrets), keyed from ENCRYPTION_KEY.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/env';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Derive a fixed-length key from the configured secret
+const key = crypto.createHash('sha256').update(config.encryptionKey).digest();
+
+/**
+ * Encrypt a string
+ *
+ * @param plaintext - Value to encrypt
+ * @returns `iv.authTag.ciphertext`, each base64 encoded
+ */
+export const encrypt = (plaintext: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, ciphertext].map(part => part.toString('base64')).join('.');
+};
+
+/**
+ * Decrypt a value produced by `encrypt`
+ *
+ * @param payload - Encrypted value
+ * @returns Decrypted string
+ * @throws Error if the payload was tampered with or the key is wrong
+ */
+export const decrypt = (payload: string): string => {
+  const [iv, authTag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Invalid encrypted payload');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -79,6 +79,17 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * 429 - Too Many Requests
+ * Used when a client must wait before retrying (e.g., resend throttling)
+ */
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = 'Too many requests, please try again later') {
+    super(429, message);
+    Object.setPrototypeOf(this, TooManyRequestsError.prototype);
+  }
+}
+
 /**
  * 500 - Internal Server Error
  * Used for unexpected server errors
@@ -119,10 +130,10 @@ export class JobUpdateError extends AppError {
   }
 }
 
-export class JobDeletionError extends AppError {
-  constructor(message: string = 'Failed to delete job') {
-    super(500, message);
-    Object.setPrototypeOf(this, JobDeletionError.prototype);
+export class JobTransitionError extends ConflictError {
+  constructor(message: string = 'This status change is not allowed') {
+    super(message);
+    Object.setPrototypeOf(this, JobTransitionError.prototype);
   }
 }
 
@@ -1,14 +1,14 @@
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env';
-import { TokenPayload } from '../types';
+import { TokenPayload, ChallengeTokenPayload, OAuthStatePayload } from '../types';
 
 export class JWTUtils {
   /**
    * Generate a JWT token
    */
-  static generateToken(payload: TokenPayload): string {
+  static generateToken(payload: TokenPayload, expiresIn: string = config.jwtExpiresIn): string {
     return jwt.sign(payload as object, config.jwtSecret, {
-      expiresIn: config.jwtExpiresIn,
+      expiresIn,
     } as jwt.SignOptions);
   }
 
@@ -23,6 +23,58 @@ export class JWTUtils {
     }
   }
 
+  /**
+   * Generate a short-lived two-factor challenge token
+   */
+  static generateChallengeToken(customerId: string, challengeId: string): string {
+    const payload: ChallengeTokenPayload = { customerId, challengeId, purpose: 'two_factor' };
+
+    return jwt.sign(payload as object, config.jwtSecret, {
+      expiresIn: config.twoFactorChallengeExpiresIn,
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Verify and decode a two-factor challenge token
+   */
+  static verifyChallengeToken(token: string): ChallengeTokenPayload {
+    try {
+      const payload = jwt.verify(token, config.jwtSecret) as ChallengeTokenPayload;
+      if (payload.purpose !== 'two_factor') {
+        throw new Error('Wrong token purpose');
+      }
+      return payload;
+    } catch (error) {
+      throw new Error('Invalid or expired challenge token');
+    }
+  }
+
+  /**
+   * Generate the `state` parameter for a ServiceM8 OAuth install
+   */
+  static generateOAuthState(customerId: string, tenantId?: string): string {
+    const payload: OAuthStatePayload = { customerId, tenantId, purpose: 'servicem8_oauth' };
+
+    return jwt.sign(payload as object, config.jwtSecret, {
+      expiresIn: '10m',
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Verify and decode a ServiceM8 OAuth `state` parameter
+   */
+  static verifyOAuthState(state: string): OAuthStatePayload {
+    try {
+      const payload = jwt.verify(state, config.jwtSecret) as OAuthStatePayload;
+      if (payload.purpose !== 'servicem8_oauth') {
+        throw new Error('Wrong token purpose');
+      }
+      return payload;
+    } catch (error) {
+      throw new Error('Invalid or expired OAuth state');
+    }
+  }
+
   /**
    * Decode token without verification (useful for debugging)
    */
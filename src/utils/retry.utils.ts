@@ -0,0 +1,87 @@
+/**
+ * Retry Utilities
+ *
+ * Helpers for deciding whether a failed HTTP call to an external API is
+ * worth retrying, and how long to wait before doing so.
+ */
+
+import { AxiosError } from 'axios';
+
+// Methods that can be repeated without changing the result
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Network failures where the request may never have reached the server
+const TRANSIENT_ERROR_CODES = [
+  'ECONNABORTED',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ERR_NETWORK',
+];
+
+/**
+ * Wait for a number of milliseconds
+ */
+export const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check whether an HTTP method is safe to repeat
+ */
+export const isIdempotentMethod = (method?: string): boolean =>
+  IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase());
+
+/**
+ * Check whether a request failed for a reason that may go away on its own
+ *
+ * Rate limiting (429), server errors (5xx), timeouts and dropped
+ * connections are transient; other 4xx responses are not.
+ */
+export const isTransientError = (error: AxiosError): boolean => {
+  const status = error.response?.status;
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  return TRANSIENT_ERROR_CODES.includes(error.code || '');
+};
+
+/**
+ * Parse a Retry-After header into milliseconds
+ *
+ * @param header - Delay in seconds, or an HTTP date
+ * @returns Delay, or undefined if the header is missing or invalid
+ */
+export const parseRetryAfter = (header?: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0);
+  }
+
+  return undefined;
+};
+
+/**
+ * Get the delay before a retry using exponential backoff with full jitter
+ *
+ * Jitter spreads out retries from concurrent requests that failed
+ * together, so they don't hit the server again at the same moment.
+ *
+ * @param attempt - Retry number, starting at 0
+ * @param baseDelayMs - Delay ceiling for the first retry
+ * @param maxDelayMs - Upper bound on any delay
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+};
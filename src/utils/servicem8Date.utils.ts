@@ -0,0 +1,34 @@
+/**
+ * ServiceM8 Date Utilities
+ *
+ * ServiceM8 stores dates as "YYYY-MM-DD HH:mm:ss" in the account's local
+ * time, with "0000-00-00 00:00:00" for "not set".
+ */
+
+/**
+ * Parse a ServiceM8 date
+ *
+ * @param value - ServiceM8 date, e.g. a job's scheduled_date
+ * @returns Date, or undefined if the value is empty or unset
+ */
+export const parseServiceM8Date = (value?: string): Date | undefined => {
+  if (!value || value.startsWith('0000-00-00')) {
+    return undefined;
+  }
+  const date = new Date(value.replace(' ', 'T'));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Format a date the way ServiceM8 stores it
+ *
+ * @param date - Date to format
+ * @returns "YYYY-MM-DD HH:mm:ss" in local time
+ */
+export const formatServiceM8Date = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+};
@@ -0,0 +1,86 @@
+/**
+ * ServiceM8 Filter Utilities
+ *
+ * Builds `$filter` expressions so ServiceM8 does the filtering instead of us
+ * downloading a whole table, e.g. `company_uuid eq '...' and active eq 1`.
+ * ServiceM8 supports the eq, ne, gt and lt operators joined with `and`.
+ * Dates are compared as ServiceM8 stores them ("YYYY-MM-DD HH:mm:ss").
+ *
+ * @see https://developer.servicem8.com/docs/filtering
+ */
+
+import { formatServiceM8Date } from './servicem8Date.utils';
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'lt';
+export type FilterValue = string | number | Date;
+
+// Field names are interpolated as-is, so only allow plain identifiers
+const FIELD_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+/**
+ * Serialise a value: numbers bare, strings and dates single-quoted with
+ * quotes doubled
+ */
+const formatValue = (value: FilterValue): string => {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new Error('Invalid filter value: Invalid Date');
+    }
+    return `'${formatServiceM8Date(value)}'`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid filter value: ${value}`);
+    }
+    return String(value);
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+/**
+ * Chainable `$filter` builder
+ *
+ * @example
+ * new ServiceM8Filter().eq('company_uuid', uuid).eq('active', 1).toString();
+ * // "company_uuid eq '...' and active eq 1"
+ */
+export class ServiceM8Filter {
+  private readonly conditions: string[] = [];
+
+  /**
+   * Add a condition
+   *
+   * @throws Error if the field name isn't a plain identifier
+   */
+  where(field: string, operator: FilterOperator, value: FilterValue): this {
+    if (!FIELD_PATTERN.test(field)) {
+      throw new Error(`Invalid filter field: ${field}`);
+    }
+    this.conditions.push(`${field} ${operator} ${formatValue(value)}`);
+    return this;
+  }
+
+  eq(field: string, value: FilterValue): this {
+    return this.where(field, 'eq', value);
+  }
+
+  ne(field: string, value: FilterValue): this {
+    return this.where(field, 'ne', value);
+  }
+
+  gt(field: string, value: FilterValue): this {
+    return this.where(field, 'gt', value);
+  }
+
+  lt(field: string, value: FilterValue): this {
+    return this.where(field, 'lt', value);
+  }
+
+  isEmpty(): boolean {
+    return this.conditions.length === 0;
+  }
+
+  toString(): string {
+    return this.conditions.join(' and ');
+  }
+}
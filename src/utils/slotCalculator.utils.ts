@@ -0,0 +1,227 @@
+/**
+ * Slot Calculator
+ *
+ * Works out which appointment slots are free, given the business hours,
+ * blackout dates, how long the work takes and what is already booked.
+ * Pure: everything it needs (including the current time) is passed in, so
+ * it gives the same answer for the same input.
+ *
+ * All times are wall-clock times in the server's time zone, the same way
+ * ServiceM8 dates are read elsewhere (see servicem8Date.utils).
+ */
+
+import { formatServiceM8Date } from './servicem8Date.utils';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Opening window within a day, in minutes after midnight
+ */
+export interface OpeningWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Opening windows per weekday (0 = Sunday); days without windows are closed
+ */
+export type WeeklyHours = Record<number, OpeningWindow[]>;
+
+/**
+ * Period of time, end exclusive
+ */
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Rules for offering slots
+ */
+export interface SlotPolicy {
+  businessHours: WeeklyHours;
+  slotIntervalMinutes: number; // Slots start on this step from the opening time
+  leadTimeMinutes: number; // Nothing sooner than this after `now`
+  blackoutDates: string[]; // "YYYY-MM-DD" days with no slots
+  capacity: number; // Bookings that may overlap (e.g. number of crews)
+}
+
+/**
+ * Slots wanted
+ */
+export interface SlotQuery {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  now: Date;
+}
+
+/**
+ * Parse business hours such as "mon-fri 08:00-17:00; sat 09:00-12:00"
+ *
+ * Days are separated by semicolons; a day (or range of days) may have
+ * several windows separated by commas, e.g. "mon-fri 08:00-12:00,13:00-17:00".
+ *
+ * @param spec - Business hours
+ * @returns Windows per weekday
+ * @throws Error if the spec can't be read
+ */
+export const parseBusinessHours = (spec: string): WeeklyHours => {
+  const hours: WeeklyHours = {};
+
+  for (const part of spec.split(';').map(value => value.trim()).filter(Boolean)) {
+    const match = part.match(/^([a-z]{3})(?:-([a-z]{3}))?\s+(.+)$/i);
+    const first = match ? WEEKDAYS.indexOf(match[1].toLowerCase()) : -1;
+    const last = match?.[2] ? WEEKDAYS.indexOf(match[2].toLowerCase()) : first;
+    if (!match || first < 0 || last < 0) {
+      throw new Error(`Invalid business hours "${part}"`);
+    }
+
+    const windows = match[3].split(',').map(value => parseWindow(value.trim(), part));
+
+    // Ranges may wrap past Saturday (e.g. "sat-mon")
+    for (let day = first; ; day = (day + 1) % 7) {
+      hours[day] = [...(hours[day] ?? []), ...windows].sort((a, b) => a.start - b.start);
+      if (day === last) {
+        break;
+      }
+    }
+  }
+
+  return hours;
+};
+
+/**
+ * Parse "HH:mm-HH:mm" into minutes after midnight
+ */
+const parseWindow = (value: string, part: string): OpeningWindow => {
+  const match = value.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid business hours "${part}"`);
+  }
+
+  const start = Number(match[1]) * 60 + Number(match[2]);
+  const end = Number(match[3]) * 60 + Number(match[4]);
+  if (start >= end || end > MINUTES_PER_DAY) {
+    throw new Error(`Invalid business hours "${part}"`);
+  }
+  return { start, end };
+};
+
+/**
+ * Parse service durations such as "standard=120,inspection=60"
+ *
+ * @param spec - Durations in minutes per service
+ * @returns Minutes per service, in the order given
+ * @throws Error if the spec can't be read
+ */
+export const parseServiceDurations = (spec: string): Record<string, number> => {
+  const durations: Record<string, number> = {};
+
+  for (const part of spec.split(',').map(value => value.trim()).filter(Boolean)) {
+    const [name, minutes] = part.split('=').map(value => value.trim());
+    const duration = Number(minutes);
+    if (!name || !Number.isInteger(duration) || duration <= 0) {
+      throw new Error(`Invalid service duration "${part}"`);
+    }
+    durations[name] = duration;
+  }
+
+  return durations;
+};
+
+/**
+ * Count the bookings overlapping a period
+ */
+const countOverlaps = (slot: TimeRange, bookings: TimeRange[]): number =>
+  bookings.filter(booking => booking.start < slot.end && booking.end > slot.start).length;
+
+/**
+ * List the free slots between two times
+ *
+ * A slot lies entirely within one opening window, starts at least the lead
+ * time after `now`, is not on a blackout date, and overlaps fewer than
+ * `capacity` existing bookings.
+ *
+ * @param policy - Business hours and other rules
+ * @param query - Period to search, length of the work and the current time
+ * @param bookings - Existing bookings
+ * @returns Free slots, earliest first
+ */
+export const calculateAvailableSlots = (
+  policy: SlotPolicy,
+  query: SlotQuery,
+  bookings: TimeRange[]
+): TimeRange[] => {
+  const slots: TimeRange[] = [];
+  if (query.durationMinutes <= 0 || policy.slotIntervalMinutes <= 0 || policy.capacity <= 0) {
+    return slots;
+  }
+
+  const earliest = new Date(
+    Math.max(query.from.getTime(), query.now.getTime() + policy.leadTimeMinutes * MS_PER_MINUTE)
+  );
+  const blackouts = new Set(policy.blackoutDates);
+
+  const day = new Date(earliest.getFullYear(), earliest.getMonth(), earliest.getDate());
+  while (day < query.to) {
+    const windows = policy.businessHours[day.getDay()] ?? [];
+
+    if (!blackouts.has(formatServiceM8Date(day).slice(0, 10))) {
+      for (const window of windows) {
+        const closes = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, window.end);
+        for (
+          let minute = window.start;
+          minute + query.durationMinutes <= window.end;
+          minute += policy.slotIntervalMinutes
+        ) {
+          const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minute);
+          const end = new Date(start.getTime() + query.durationMinutes * MS_PER_MINUTE);
+          // Skip times that don't exist on the day clocks go forward
+          if (start.getHours() * 60 + start.getMinutes() !== minute) {
+            continue;
+          }
+          if (start < earliest || end > query.to || end > closes) {
+            continue;
+          }
+
+          const slot = { start, end };
+          if (countOverlaps(slot, bookings) < policy.capacity) {
+            slots.push(slot);
+          }
+        }
+      }
+    }
+
+    day.setDate(day.getDate() + 1);
+  }
+
+  return slots;
+};
+
+/**
+ * Check that a particular slot would be offered
+ *
+ * @param policy - Business hours and other rules
+ * @param slot - Slot to check
+ * @param bookings - Existing bookings
+ * @param now - Current time
+ * @returns True if the slot is free and within the rules
+ */
+export const isSlotAvailable = (
+  policy: SlotPolicy,
+  slot: TimeRange,
+  bookings: TimeRange[],
+  now: Date
+): boolean => {
+  const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / MS_PER_MINUTE;
+
+  return calculateAvailableSlots(
+    policy,
+    { from: slot.start, to: slot.end, durationMinutes, now },
+    bookings
+  ).some(candidate => candidate.start.getTime() === slot.start.getTime());
+};
@@ -0,0 +1,58 @@
+/**
+ * Tenant Context
+ *
+ * Carries the tenant resolved for the current request through every async
+ * call it makes, so repositories and the ServiceM8 client can scope
+ * themselves without the tenant being passed to every function.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Types } from 'mongoose';
+import { ITenant } from '../types';
+
+/**
+ * What the current async context is scoped to. An empty scope is work that
+ * deliberately spans every tenant.
+ */
+interface TenantScope {
+  tenant?: ITenant;
+}
+
+const storage = new AsyncLocalStorage<TenantScope>();
+
+/**
+ * Run a function with a tenant as the current tenant
+ *
+ * @param tenant - Tenant to scope to
+ * @param fn - Function to run (including everything it awaits)
+ * @returns Whatever the function returns
+ */
+export const runWithTenant = <T>(tenant: ITenant, fn: () => T): T => storage.run({ tenant }, fn);
+
+/**
+ * Run a function outside any tenant, e.g. background work started from a
+ * request that must see every tenant's documents
+ *
+ * @param fn - Function to run (including everything it awaits)
+ * @returns Whatever the function returns
+ */
+export const runWithoutTenant = <T>(fn: () => T): T => storage.run({}, fn);
+
+/**
+ * Get the current tenant, if any
+ *
+ * Undefined in single-tenant mode and outside a tenant's request.
+ */
+export const getCurrentTenant = (): ITenant | undefined => storage.getStore()?.tenant;
+
+/**
+ * Get the current tenant's ID, if any
+ */
+export const getCurrentTenantId = (): Types.ObjectId | undefined => getCurrentTenant()?._id;
+
+/**
+ * Whether the current code runs under `runWithTenant` or `runWithoutTenant`
+ *
+ * False for code that never chose a scope, such as a timer started at boot.
+ */
+export const hasTenantScope = (): boolean => storage.getStore() !== undefined;
@@ -0,0 +1,72 @@
+/**
+ * Token Bucket
+ *
+ * Client-side rate limiter that keeps calls to an external API under its
+ * published limit. The bucket holds up to `capacity` tokens and refills at
+ * a steady rate; each call takes a token, waiting for one if the bucket is
+ * empty.
+ */
+
+import { sleep } from './retry.utils';
+
+/**
+ * Token bucket settings
+ */
+export interface TokenBucketOptions {
+  capacity: number; // Largest burst allowed
+  refillPerSecond: number;
+  maxWaitMs: number; // Give up rather than queue for longer than this
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly options: TokenBucketOptions) {
+    this.tokens = options.capacity;
+  }
+
+  /**
+   * Take a token, waiting until one is available
+   *
+   * Waiting callers reserve their token up front (the count goes
+   * negative), so they are served in the order they arrived.
+   *
+   * @returns False if the wait would exceed maxWaitMs (no token is taken)
+   */
+  async take(): Promise<boolean> {
+    this.refill();
+
+    const waitMs = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.options.refillPerSecond) * 1000;
+    if (waitMs > this.options.maxWaitMs) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+    return true;
+  }
+
+  /**
+   * Hold back all calls for a while, e.g. after the server said we're over
+   * its limit
+   *
+   * @param ms - How long no tokens should be available
+   */
+  pause(ms: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, -(ms / 1000) * this.options.refillPerSecond);
+  }
+
+  /**
+   * Add the tokens earned since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.options.refillPerSecond;
+    this.tokens = Math.min(this.tokens + earned, this.options.capacity);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * TOTP Utilities
+ *
+ * Time-based one-time passwords (RFC 6238) compatible with authenticator
+ * apps such as Google Authenticator, 1Password and Authy.
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Encode bytes as base32 (RFC 4648, no padding)
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode a base32 string (case-insensitive, padding and spaces ignored)
+ */
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Compute the HOTP value for a counter (RFC 4226)
+ */
+const hotp = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+/**
+ * Get the time step for a timestamp
+ *
+ * @param timestamp - Milliseconds since epoch (default: now)
+ */
+export const getTotpStep = (timestamp: number = Date.now()): number => {
+  return Math.floor(timestamp / 1000 / STEP_SECONDS);
+};
+
+/**
+ * Generate a new random base32 TOTP secret (160 bits)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Generate the TOTP code for a secret at a time step
+ *
+ * @param secret - Base32 secret
+ * @param step - Time step (default: current)
+ */
+export const generateTotp = (secret: string, step: number = getTotpStep()): string => {
+  return hotp(base32Decode(secret), step);
+};
+
+/**
+ * Verify a TOTP code, allowing for clock drift
+ *
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param window - Number of steps accepted either side of now (default: 1)
+ * @returns Matching time step, or null if the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, window: number = 1): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = getTotpStep();
+
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = hotp(key, current + offset);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return current + offset;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build an otpauth:// URI for QR codes in authenticator apps
+ *
+ * @param issuer - Service name shown in the app
+ * @param accountName - Account label (email or phone)
+ * @param secret - Base32 secret
+ */
+export const buildOtpauthUrl = (issuer: string, accountName: string, secret: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: DIGITS.toString(),
+    period: STEP_SECONDS.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
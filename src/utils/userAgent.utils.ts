@@ -0,0 +1,51 @@
+/**
+ * User Agent Utilities
+ *
+ * Lightweight user agent parsing used to label sessions with a
+ * human-readable device name (e.g. "Chrome on Windows").
+ */
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/okhttp/i, 'Android App'],
+  [/CFNetwork|Darwin/, 'iOS App'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPad/, 'iPad'],
+  [/iPhone/, 'iPhone'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Build a device label from a user agent string
+ *
+ * @param userAgent - Raw User-Agent header
+ * @returns Device label, or "Unknown device" if nothing matched
+ *
+ * @example
+ * describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) ... Chrome/120.0 Safari/537.36');
+ * // => 'Chrome on Windows'
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser || platform || 'Unknown device';
+};
@@ -0,0 +1,109 @@
+/**
+ * Admin Validation Schemas
+ *
+ * Zod schemas for validating admin requests (user management, impersonation, audit logs, sync runs)
+ */
+
+import { z } from 'zod';
+import { passwordSchema } from './auth.validator';
+
+/**
+ * Role enum values
+ */
+const roleEnum = z.enum(['customer', 'staff', 'admin']);
+
+/**
+ * List users validation schema
+ */
+export const listUsersSchema = z.object({
+  query: z
+    .object({
+      role: roleEnum.optional(),
+      page: z
+        .string()
+        .regex(/^\d+$/, 'Page must be a number')
+        .optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/, 'Limit must be a number')
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Create office user validation schema
+ */
+export const createOfficeUserSchema = z.object({
+  body: z.object({
+    email: z.string().email('Invalid email format'),
+    password: passwordSchema,
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    role: z.enum(['staff', 'admin']),
+  }),
+});
+
+/**
+ * Update role validation schema
+ */
+export const updateRoleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+  }),
+  body: z.object({
+    role: roleEnum,
+  }),
+});
+
+/**
+ * Start impersonation validation schema
+ */
+export const impersonateSchema = z.object({
+  params: z.object({
+    customerId: z.string().min(1, 'Customer ID is required'),
+  }),
+  body: z.object({
+    reason: z.string().min(1, 'A reason is required for the audit log'),
+    allowDestructive: z.boolean().optional(),
+  }),
+});
+
+/**
+ * List audit logs validation schema
+ */
+export const listAuditLogsSchema = z.object({
+  query: z
+    .object({
+      impersonatorId: z.string().optional(),
+      customerId: z.string().optional(),
+      page: z
+        .string()
+        .regex(/^\d+$/, 'Page must be a number')
+        .optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/, 'Limit must be a number')
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * List sync runs validation schema
+ */
+export const listSyncRunsSchema = z.object({
+  query: z
+    .object({
+      trigger: z.enum(['schedule', 'manual', 'webhook']).optional(),
+      page: z
+        .string()
+        .regex(/^\d+$/, 'Page must be a number')
+        .optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/, 'Limit must be a number')
+        .optional(),
+    })
+    .optional(),
+});
@@ -1,11 +1,17 @@
 /**
  * Authentication Validation Schemas
  *
- * Zod schemas for validating authentication requests (register, login, logout)
+ * Zod schemas for validating authentication requests (register, login, OTP, refresh, logout, sessions, password reset, 2FA, verification, profile, account deletion, account linking)
  */
 
 import { z } from 'zod';
 
+/**
+ * Password policy, shared by every schema that sets a new password
+ * (registration, reset, change, invitations, office users)
+ */
+export const passwordSchema = z.string().min(8, 'Password must be at least 8 characters');
+
 /**
  * Register validation schema
  * Either email or phone is required along with password
@@ -15,10 +21,11 @@ export const registerSchema = z.object({
     .object({
       email: z.string().email('Invalid email format').optional(),
       phone: z.string().min(10, 'Phone number must be at least 10 characters').optional(),
-      password: z.string().min(8, 'Password must be at least 8 characters'),
+      password: passwordSchema,
       firstName: z.string().min(1, 'First name is required').optional(),
       lastName: z.string().min(1, 'Last name is required').optional(),
       address: z.string().optional(),
+      deviceName: z.string().max(100, 'Device name cannot exceed 100 characters').optional(),
     })
     .refine((data) => data.email || data.phone, {
       message: 'Either email or phone is required',
@@ -36,6 +43,40 @@ export const loginSchema = z.object({
       email: z.string().email('Invalid email format').optional(),
       phone: z.string().optional(),
       password: z.string().min(1, 'Password is required'),
+      deviceName: z.string().max(100, 'Device name cannot exceed 100 characters').optional(),
+    })
+    .refine((data) => data.email || data.phone, {
+      message: 'Either email or phone is required',
+      path: ['email'],
+    }),
+});
+
+/**
+ * OTP request validation schema
+ * Either email or phone is required
+ */
+export const otpRequestSchema = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email format').optional(),
+      phone: z.string().optional(),
+    })
+    .refine((data) => data.email || data.phone, {
+      message: 'Either email or phone is required',
+      path: ['email'],
+    }),
+});
+
+/**
+ * OTP verify validation schema
+ */
+export const otpVerifySchema = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email format').optional(),
+      phone: z.string().optional(),
+      code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+      deviceName: z.string().max(100, 'Device name cannot exceed 100 characters').optional(),
     })
     .refine((data) => data.email || data.phone, {
       message: 'Either email or phone is required',
@@ -43,6 +84,15 @@ export const loginSchema = z.object({
     }),
 });
 
+/**
+ * Refresh token validation schema
+ */
+export const refreshTokenSchema = z.object({
+  body: z.object({
+    refreshToken: z.string().min(1, 'Refresh token is required'),
+  }),
+});
+
 /**
  * Logout validation schema
  * No body required for logout, but included for consistency
@@ -50,3 +100,149 @@ export const loginSchema = z.object({
 export const logoutSchema = z.object({
   body: z.object({}).optional(),
 });
+
+/**
+ * Revoke session validation schema
+ */
+export const revokeSessionSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Session ID is required'),
+  }),
+});
+
+/**
+ * Forgot password validation schema
+ * Either email or phone is required
+ */
+export const forgotPasswordSchema = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email format').optional(),
+      phone: z.string().optional(),
+    })
+    .refine((data) => data.email || data.phone, {
+      message: 'Either email or phone is required',
+      path: ['email'],
+    }),
+});
+
+/**
+ * Reset password validation schema
+ */
+export const resetPasswordSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Reset token is required'),
+    password: passwordSchema,
+  }),
+});
+
+/**
+ * Two-factor confirm validation schema
+ */
+export const twoFactorConfirmSchema = z.object({
+  body: z.object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  }),
+});
+
+/**
+ * Two-factor disable validation schema
+ * Code may be an authenticator code or a recovery code
+ */
+export const twoFactorDisableSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
+
+/**
+ * Two-factor login verification schema
+ * Either an authenticator code or a recovery code is required
+ */
+export const twoFactorVerifySchema = z.object({
+  body: z
+    .object({
+      challengeToken: z.string().min(1, 'Challenge token is required'),
+      code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+      recoveryCode: z.string().min(1, 'Recovery code cannot be empty').optional(),
+      deviceName: z.string().max(100, 'Device name cannot exceed 100 characters').optional(),
+    })
+    .refine((data) => data.code || data.recoveryCode, {
+      message: 'Either code or recoveryCode is required',
+      path: ['code'],
+    }),
+});
+
+/**
+ * Contact channel enum values
+ */
+const contactChannelEnum = z.enum(['email', 'phone']);
+
+/**
+ * Send verification code validation schema
+ */
+export const sendVerificationSchema = z.object({
+  body: z.object({
+    channel: contactChannelEnum,
+  }),
+});
+
+/**
+ * Confirm verification code validation schema
+ */
+export const confirmVerificationSchema = z.object({
+  body: z.object({
+    channel: contactChannelEnum,
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  }),
+});
+
+/**
+ * Update profile validation schema
+ * At least one field is required
+ */
+export const updateProfileSchema = z.object({
+  body: z
+    .object({
+      firstName: z.string().min(1, 'First name cannot be empty').optional(),
+      lastName: z.string().min(1, 'Last name cannot be empty').optional(),
+      address: z.string().optional(),
+      email: z.string().email('Invalid email format').optional(),
+      phone: z.string().min(10, 'Phone number must be at least 10 characters').optional(),
+      currentPassword: z.string().min(1, 'Current password cannot be empty').optional(),
+    })
+    .refine(
+      ({ currentPassword, ...fields }) => Object.values(fields).some((value) => value !== undefined),
+      { message: 'At least one field is required' }
+    ),
+});
+
+/**
+ * Change password validation schema
+ */
+export const changePasswordSchema = z.object({
+  body: z.object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: passwordSchema,
+  }),
+});
+
+/**
+ * Delete account validation schema
+ */
+export const deleteAccountSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required'),
+    deactivateServiceM8Company: z.boolean().optional(),
+  }),
+});
+
+/**
+ * Confirm ServiceM8 account link validation schema
+ */
+export const confirmLinkSchema = z.object({
+  body: z.object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  }),
+});
@@ -6,9 +6,16 @@
 
 import { z } from 'zod';
 
+/**
+ * Date (YYYY-MM-DD) or date-time accepted by the date range filters
+ */
+const dateParam = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), 'Must be a valid date');
+
 /**
  * Get all bookings validation schema
- * Supports optional query parameters for filtering/pagination
+ * Supports optional query parameters for filtering, sorting and pagination
  */
 export const getAllBookingsSchema = z.object({
   query: z
@@ -24,6 +31,15 @@ export const getAllBookingsSchema = z.object({
         .transform(Number)
         .optional(),
       status: z.string().optional(),
+      from: dateParam.optional(),
+      to: dateParam.optional(),
+      q: z.string().max(200, 'Search cannot exceed 200 characters').optional(),
+      timeframe: z.enum(['upcoming', 'past']).optional(),
+      sort: z.enum(['scheduledDate', '-scheduledDate', 'jobNumber', '-jobNumber']).optional(),
+    })
+    .refine((query) => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+      message: 'from must be before to',
+      path: ['from'],
     })
     .optional(),
 });
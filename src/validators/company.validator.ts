@@ -0,0 +1,67 @@
+/**
+ * Company Validation Schemas
+ *
+ * Zod schemas for validating company member and invitation requests
+ */
+
+import { z } from 'zod';
+import { passwordSchema } from './auth.validator';
+
+/**
+ * Company role enum values
+ */
+const companyRoleEnum = z.enum(['owner', 'member', 'viewer']);
+
+/**
+ * Invite user validation schema
+ */
+export const inviteSchema = z.object({
+  body: z.object({
+    email: z.string().email('Invalid email format'),
+    companyRole: companyRoleEnum,
+  }),
+});
+
+/**
+ * Accept invitation validation schema
+ */
+export const acceptInvitationSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Invitation token is required'),
+    password: passwordSchema,
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    phone: z.string().min(10, 'Phone number must be at least 10 characters').optional(),
+    deviceName: z.string().max(100).optional(),
+  }),
+});
+
+/**
+ * Revoke invitation validation schema
+ */
+export const revokeInvitationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Invitation ID is required'),
+  }),
+});
+
+/**
+ * Update member role validation schema
+ */
+export const updateMemberSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Member ID is required'),
+  }),
+  body: z.object({
+    companyRole: companyRoleEnum,
+  }),
+});
+
+/**
+ * Remove member validation schema
+ */
+export const removeMemberSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Member ID is required'),
+  }),
+});
@@ -1,22 +1,33 @@
 /**
  * Job Validation Schemas
  *
- * Zod schemas for validating job-related requests (create, update, delete)
+ * Zod schemas for validating job-related requests (create, update, cancel,
+ * reschedule)
  */
 
 import { z } from 'zod';
+import { JOB_STATUSES } from '../config/jobLifecycle';
 
 /**
  * Job status enum values
+ * (which changes are allowed is checked by the job lifecycle service)
  */
-const jobStatusEnum = z.enum([
-  'Quote',
-  'Work Order',
-  'Scheduled',
-  'In Progress',
-  'Complete',
-  'Cancelled',
-]);
+const jobStatusEnum = z.enum(JOB_STATUSES);
+
+/**
+ * ServiceM8 date, e.g. "2026-03-02 09:30"
+ */
+const scheduledDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}(:\d{2})?)?$/, 'Use the format YYYY-MM-DD HH:mm');
+
+/**
+ * Start of a slot, e.g. "2026-03-02 09:30" (slots are offered with ":00"
+ * seconds, which is also accepted)
+ */
+const slotStart = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:00)?$/, 'Use the format YYYY-MM-DD HH:mm');
 
 /**
  * Create job validation schema
@@ -25,7 +36,7 @@ export const createJobSchema = z.object({
   body: z.object({
     job_address: z.string().min(1, 'Job address is required'),
     job_description: z.string().min(1, 'Job description is required'),
-    scheduled_date: z.string().optional(),
+    scheduled_date: scheduledDate.optional(),
     status: jobStatusEnum.optional(),
     contact_name: z.string().optional(),
     contact_email: z.string().email('Invalid email format').optional(),
@@ -44,7 +55,7 @@ export const updateJobSchema = z.object({
   body: z.object({
     job_address: z.string().min(1, 'Job address cannot be empty').optional(),
     job_description: z.string().min(1, 'Job description cannot be empty').optional(),
-    scheduled_date: z.string().optional(),
+    scheduled_date: scheduledDate.optional(),
     status: jobStatusEnum.optional(),
     contact_name: z.string().optional(),
     contact_email: z.string().email('Invalid email format').optional(),
@@ -53,12 +64,138 @@ export const updateJobSchema = z.object({
 });
 
 /**
- * Delete job validation schema
+ * Request cancellation validation schema
+ */
+export const requestCancellationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Job ID is required'),
+  }),
+  body: z.object({
+    reason: z.string().trim().min(1, 'A reason is required').max(1000, 'Reason is too long'),
+  }),
+});
+
+/**
+ * List cancellation requests validation schema
+ */
+export const listCancellationsSchema = z.object({
+  query: z
+    .object({
+      status: z.enum(['pending', 'approved', 'rejected']).optional(),
+      page: z
+        .string()
+        .regex(/^\d+$/, 'Page must be a number')
+        .optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/, 'Limit must be a number')
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Approve cancellation validation schema
+ */
+export const approveCancellationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Request ID is required'),
+  }),
+  body: z.object({
+    note: z.string().trim().max(1000, 'Note is too long').optional(),
+  }),
+});
+
+/**
+ * Reject cancellation validation schema
+ */
+export const rejectCancellationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Request ID is required'),
+  }),
+  body: z.object({
+    note: z.string().trim().min(1, 'Explain why the request is declined').max(1000, 'Note is too long'),
+  }),
+});
+
+/**
+ * Get available slots validation schema
+ */
+export const getSlotsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Job ID is required'),
+  }),
+  query: z
+    .object({
+      from: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, 'From must be a date (YYYY-MM-DD)')
+        .optional(),
+      days: z
+        .string()
+        .regex(/^\d+$/, 'Days must be a number')
+        .optional(),
+      service: z.string().min(1).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Request reschedule validation schema
  */
-export const deleteJobSchema = z.object({
+export const requestRescheduleSchema = z.object({
   params: z.object({
     id: z.string().min(1, 'Job ID is required'),
   }),
+  body: z.object({
+    start: slotStart,
+    service: z.string().min(1).optional(),
+    note: z.string().trim().max(1000, 'Note is too long').optional(),
+  }),
+});
+
+/**
+ * List reschedule requests validation schema
+ */
+export const listReschedulesSchema = z.object({
+  query: z
+    .object({
+      status: z.enum(['pending', 'confirmed', 'declined']).optional(),
+      page: z
+        .string()
+        .regex(/^\d+$/, 'Page must be a number')
+        .optional(),
+      limit: z
+        .string()
+        .regex(/^\d+$/, 'Limit must be a number')
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Confirm reschedule validation schema
+ */
+export const confirmRescheduleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Request ID is required'),
+  }),
+  body: z.object({
+    note: z.string().trim().max(1000, 'Note is too long').optional(),
+    force: z.boolean().optional(),
+  }),
+});
+
+/**
+ * Decline reschedule validation schema
+ */
+export const declineRescheduleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Request ID is required'),
+  }),
+  body: z.object({
+    note: z.string().trim().min(1, 'Explain why the request is declined').max(1000, 'Note is too long'),
+  }),
 });
 
 /**
@@ -0,0 +1,19 @@
+/**
+ * ServiceM8 Validation Schemas
+ *
+ * Zod schemas for validating ServiceM8 connection requests (OAuth install callback)
+ */
+
+import { z } from 'zod';
+
+/**
+ * OAuth callback validation schema
+ * ServiceM8 sends either a code or an error, always with our state
+ */
+export const oauthCallbackSchema = z.object({
+  query: z.object({
+    code: z.string().min(1, 'Code cannot be empty').optional(),
+    state: z.string().min(1, 'State is required'),
+    error: z.string().optional(),
+  }),
+});
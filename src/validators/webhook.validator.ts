@@ -0,0 +1,36 @@
+/**
+ * Webhook Validation Schemas
+ *
+ * Zod schemas for validating inbound webhook deliveries
+ */
+
+import { z } from 'zod';
+
+/**
+ * ServiceM8 webhook validation schema
+ * Either a subscription challenge or a batch of changes to one object type
+ */
+export const servicem8WebhookSchema = z.object({
+  body: z.union([
+    z.object({
+      mode: z.literal('subscribe'),
+      challenge: z.string().min(1, 'Challenge is required'),
+    }),
+    z.object({
+      object: z.enum(['job', 'company', 'attachment', 'jobactivity']),
+      entry: z
+        .array(
+          z.object({
+            uuid: z.string().min(1, 'UUID is required'),
+            changed_fields: z.array(z.string()).optional(),
+            time: z.string().optional(),
+          })
+        )
+        .min(1, 'At least one entry is required'),
+      resource_url: z.string().optional(),
+    }),
+  ]),
+  query: z.object({
+    tenant: z.string().optional(),
+  }),
+});
@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import { JOB_STATUSES, JOB_TRANSITIONS } from '../../src/config/jobLifecycle';
+import { errorHandler } from '../../src/middleware/errorHandler.middleware';
+import { jobLifecycleService } from '../../src/services/jobLifecycle.service';
+import { ConflictError, JobTransitionError } from '../../src/utils/errors';
+import { JobActor } from '../../src/types';
+
+const ACTORS: JobActor[] = ['customer', 'staff', 'system'];
+
+/**
+ * The error a status change throws, or null if it is allowed
+ */
+const attempt = (from: string, to: string, actor: JobActor) => {
+  try {
+    jobLifecycleService.assertCanTransition(from, to, actor);
+    return null;
+  } catch (error) {
+    return error as Error;
+  }
+};
+
+describe('job lifecycle', () => {
+  it('only lists known statuses, each move once', () => {
+    const moves = JOB_TRANSITIONS.map(({ from, to }) => `${from} -> ${to}`);
+
+    expect(new Set(moves).size).toBe(moves.length);
+    JOB_TRANSITIONS.forEach(({ from, to }) => {
+      expect(JOB_STATUSES).toContain(from);
+      expect(JOB_STATUSES).toContain(to);
+    });
+  });
+
+  it.each([
+    ['Quote', 'customer', ['Work Order']],
+    ['Quote', 'staff', ['Work Order', 'Cancelled']],
+    ['Quote', 'system', ['Cancelled']],
+    ['Work Order', 'customer', []],
+    ['Work Order', 'staff', ['Quote', 'Scheduled', 'Cancelled']],
+    ['Work Order', 'system', ['Scheduled', 'Cancelled']],
+    ['Scheduled', 'customer', []],
+    ['Scheduled', 'staff', ['Work Order', 'In Progress', 'Cancelled']],
+    ['Scheduled', 'system', ['Work Order', 'Cancelled']],
+    ['In Progress', 'staff', ['Scheduled', 'Complete']],
+    ['In Progress', 'system', []],
+    ['Complete', 'staff', ['In Progress']],
+    ['Complete', 'system', []],
+    ['Cancelled', 'staff', ['Quote']],
+    ['Cancelled', 'system', []],
+  ] as const)('lets %s jobs be moved by %s to %j', (from, actor, allowed) => {
+    expect(jobLifecycleService.getAllowedStatuses(from, actor)).toEqual(allowed);
+  });
+
+  it.each(ACTORS)('checks moves by %s against the allowed statuses', actor => {
+    for (const from of JOB_STATUSES) {
+      const allowed = jobLifecycleService.getAllowedStatuses(from, actor);
+      for (const to of JOB_STATUSES.filter(status => status !== from)) {
+        const error = attempt(from, to, actor);
+
+        expect({ from, to, allowed: error === null }).toEqual({ from, to, allowed: allowed.includes(to) });
+        if (error) {
+          expect(error).toBeInstanceOf(JobTransitionError);
+        }
+      }
+    }
+  });
+
+  it('lets customers accept a quote and nothing else', () => {
+    const customerMoves = JOB_TRANSITIONS.filter(transition => transition.actors.includes('customer'));
+
+    expect(customerMoves.map(({ from, to }) => [from, to])).toEqual([['Quote', 'Work Order']]);
+    expect(jobLifecycleService.assertCanTransition('Quote', 'Work Order', 'customer')).toMatchObject({
+      message: 'Quote accepted - the job is now a work order.',
+      notify: true,
+    });
+  });
+
+  it('treats an unchanged status as no transition', () => {
+    expect(jobLifecycleService.assertCanTransition('Scheduled', 'Scheduled', 'customer')).toBeNull();
+  });
+
+  it('explains who may make a move the actor may not', () => {
+    expect(attempt('Scheduled', 'In Progress', 'system')?.message).toBe(
+      'The portal cannot change a job from Scheduled to In Progress. Allowed: Work Order, Cancelled'
+    );
+    expect(attempt('Quote', 'Complete', 'staff')?.message).toBe(
+      'A job cannot change from Quote to Complete. Allowed: Work Order, Cancelled'
+    );
+    expect(attempt('Complete', 'Quote', 'customer')?.message).toBe(
+      'A job cannot change from Complete to Quote. No status changes are allowed from Complete'
+    );
+  });
+
+  it('points customers at cancellation requests instead of cancelling', () => {
+    expect(attempt('Work Order', 'Cancelled', 'customer')?.message).toBe(
+      'To cancel a job, request a cancellation with a reason'
+    );
+  });
+
+  it.each([
+    ['customer', ['Quote']],
+    ['staff', ['Quote', 'Work Order']],
+    ['system', ['Quote']],
+  ] as const)('lets %s create jobs as %j', (actor, allowed) => {
+    for (const status of JOB_STATUSES) {
+      const create = () => jobLifecycleService.assertCanCreate(status, actor);
+      if ((allowed as readonly string[]).includes(status)) {
+        expect(create).not.toThrow();
+      } else {
+        expect(create).toThrow(JobTransitionError);
+      }
+    }
+  });
+
+  it('rejects a disallowed move with a 409', () => {
+    const error = attempt('Complete', 'Cancelled', 'staff');
+    expect(error).toBeInstanceOf(JobTransitionError);
+    expect(error).toBeInstanceOf(ConflictError);
+
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+    errorHandler(error, { path: '/api/jobs/job-1', method: 'PATCH' } as Request, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, message: error?.message }));
+  });
+});
@@ -0,0 +1,140 @@
+import { Types } from 'mongoose';
+import { Response } from 'express';
+import { authMiddleware } from '../../src/middleware/auth.middleware';
+import { impersonationService } from '../../src/services/impersonation.service';
+import { sessionRepository } from '../../src/repositories/session.repository';
+import { JWTUtils } from '../../src/utils/jwt.utils';
+import { AuthRequest, TokenPayload } from '../../src/types';
+
+// Live sessions and customers are kept in memory instead of MongoDB
+const mockSessions = new Map<string, any>();
+const mockCustomers = new Map<string, any>();
+
+jest.mock('../../src/repositories/session.repository', () => ({
+  sessionRepository: {
+    findActiveById: jest.fn(async (id: string) => mockSessions.get(id) ?? null),
+    touch: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../src/models', () => ({
+  Customer: {
+    findById: jest.fn(async (id: string) => mockCustomers.get(id) ?? null),
+  },
+}));
+
+jest.mock('../../src/services/impersonation.service', () => ({
+  impersonationService: {
+    isValid: jest.fn(async () => true),
+    recordRequest: jest.fn(async () => undefined),
+  },
+}));
+
+const customerId = new Types.ObjectId();
+const sessionId = new Types.ObjectId();
+const adminId = new Types.ObjectId();
+
+const tokenFor = (overrides: Partial<TokenPayload> = {}) =>
+  JWTUtils.generateToken({
+    customerId: customerId.toString(),
+    email: 'jane@example.com',
+    sessionId: sessionId.toString(),
+    ...overrides,
+  });
+
+/**
+ * Run the middleware and report whether it let the request through
+ */
+const authenticate = async (authorization?: string) => {
+  const req = {
+    headers: authorization ? { authorization } : {},
+    get: () => undefined,
+  } as unknown as AuthRequest;
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+    on: jest.fn(),
+  };
+  const next = jest.fn();
+
+  await authMiddleware(req, res as unknown as Response, next);
+
+  return {
+    req,
+    passed: next.mock.calls.length > 0,
+    status: res.status.mock.calls[0]?.[0],
+    message: res.json.mock.calls[0]?.[0]?.message,
+  };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSessions.clear();
+  mockCustomers.clear();
+  mockSessions.set(sessionId.toString(), { _id: sessionId, customerId });
+  mockCustomers.set(customerId.toString(), { _id: customerId, email: 'jane@example.com' });
+});
+
+describe('authMiddleware', () => {
+  it('lets a token with a live session through', async () => {
+    const result = await authenticate(`Bearer ${tokenFor()}`);
+
+    expect(result.passed).toBe(true);
+    expect(result.req.customerId).toEqual(customerId);
+    expect(result.req.sessionId).toBe(sessionId.toString());
+    expect(sessionRepository.touch).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('rejects a request without a bearer token', async () => {
+    expect(await authenticate()).toMatchObject({ passed: false, status: 401, message: 'No token provided' });
+    expect(await authenticate('Basic abc')).toMatchObject({ passed: false, status: 401 });
+  });
+
+  it('rejects a forged token', async () => {
+    expect(await authenticate('Bearer not-a-jwt')).toMatchObject({
+      passed: false,
+      status: 401,
+      message: 'Invalid or expired token',
+    });
+  });
+
+  it('rejects a token whose session was revoked', async () => {
+    const token = tokenFor();
+    mockSessions.clear();
+
+    expect(await authenticate(`Bearer ${token}`)).toMatchObject({
+      passed: false,
+      status: 401,
+      message: 'Session has expired or been revoked',
+    });
+  });
+
+  it('rejects a token naming a session that belongs to someone else', async () => {
+    const token = tokenFor({ customerId: new Types.ObjectId().toString() });
+
+    expect(await authenticate(`Bearer ${token}`)).toMatchObject({
+      passed: false,
+      status: 401,
+      message: 'Session has expired or been revoked',
+    });
+  });
+
+  it('rejects a token whose customer no longer exists', async () => {
+    mockCustomers.clear();
+
+    expect(await authenticate(`Bearer ${tokenFor()}`)).toMatchObject({ passed: false, status: 401 });
+  });
+
+  it('rejects an impersonation token once the impersonation has ended', async () => {
+    (impersonationService.isValid as jest.Mock).mockResolvedValueOnce(false);
+    const token = tokenFor({
+      impersonation: { impersonatorId: adminId.toString(), allowDestructive: false },
+    });
+
+    expect(await authenticate(`Bearer ${token}`)).toMatchObject({
+      passed: false,
+      status: 401,
+      message: 'Impersonation has ended',
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { Schema, Types, model } from 'mongoose';
+import { config } from '../../../src/config/env';
+import { tenantScopePlugin } from '../../../src/models/plugins/tenantScope.plugin';
+import { runWithTenant, runWithoutTenant } from '../../../src/utils/tenantContext';
+import { ITenant } from '../../../src/types';
+
+interface IWidget {
+  name: string;
+  colour?: string;
+  tenantId?: Types.ObjectId;
+}
+
+const widgetSchema = new Schema<IWidget>({ name: String, colour: String }, { autoCreate: false, autoIndex: false });
+widgetSchema.plugin(tenantScopePlugin);
+const Widget = model<IWidget>('TenantScopeWidget', widgetSchema);
+
+// Documents are kept in memory instead of MongoDB. Filters are plain
+// equality, which is all these tests (and the tenant scope) use.
+let docs: any[] = [];
+
+const matches = (filter: Record<string, unknown> = {}) => (doc: any) =>
+  Object.entries(filter).every(([key, value]) => String(doc[key]) === String(value));
+
+const apply = (doc: any, update: any) => Object.assign(doc, update.$set, update.$setOnInsert);
+
+Object.assign(Widget.collection, {
+  find: async (filter: any) => ({ toArray: async () => docs.filter(matches(filter)).map(doc => ({ ...doc })) }),
+  findOne: async (filter: any) => docs.find(matches(filter)) ?? null,
+  countDocuments: async (filter: any) => docs.filter(matches(filter)).length,
+  estimatedDocumentCount: async () => docs.length,
+  distinct: async (field: string, filter: any) => [...new Set(docs.filter(matches(filter)).map(doc => doc[field]))],
+  insertOne: async (doc: any) => {
+    docs.push({ ...doc });
+    return { insertedId: doc._id };
+  },
+  insertMany: async (added: any[]) => {
+    docs.push(...added.map(doc => ({ ...doc })));
+    return { insertedCount: added.length };
+  },
+  updateMany: async (filter: any, update: any) => {
+    const updated = docs.filter(matches(filter));
+    updated.forEach(doc => apply(doc, update));
+    return { matchedCount: updated.length, modifiedCount: updated.length };
+  },
+  deleteMany: async (filter: any) => {
+    const kept = docs.filter(doc => !matches(filter)(doc));
+    const deletedCount = docs.length - kept.length;
+    docs = kept;
+    return { deletedCount };
+  },
+  bulkWrite: async (ops: any[]) => {
+    for (const op of ops) {
+      if (op.insertOne) {
+        // Cast to a document by Mongoose; the driver would serialise it
+        docs.push(op.insertOne.document.toObject());
+      } else if (op.updateOne) {
+        const { filter, update, upsert } = op.updateOne;
+        const doc = docs.find(matches(filter));
+        if (doc) {
+          apply(doc, update);
+        } else if (upsert) {
+          docs.push(apply({ _id: new Types.ObjectId(), ...filter }, update));
+        }
+      } else if (op.deleteOne) {
+        const index = docs.findIndex(matches(op.deleteOne.filter));
+        if (index >= 0) {
+          docs.splice(index, 1);
+        }
+      }
+    }
+    return {};
+  },
+  aggregate: async (pipeline: any[]) => ({
+    toArray: async () =>
+      pipeline.reduce((result, stage) => (stage.$match ? result.filter(matches(stage.$match)) : result), docs),
+  }),
+});
+
+const tenantA = { _id: new Types.ObjectId(), slug: 'a' } as ITenant;
+const tenantB = { _id: new Types.ObjectId(), slug: 'b' } as ITenant;
+
+const asA = <T>(fn: () => Promise<T>) => runWithTenant(tenantA, fn);
+const asB = <T>(fn: () => Promise<T>) => runWithTenant(tenantB, fn);
+
+const names = (found: IWidget[]) => found.map(widget => widget.name).sort();
+
+beforeEach(() => {
+  config.multiTenant = true;
+  docs = [
+    { _id: new Types.ObjectId(), name: 'shared', colour: 'blue', tenantId: tenantA._id },
+    { _id: new Types.ObjectId(), name: 'only-a', colour: 'blue', tenantId: tenantA._id },
+    { _id: new Types.ObjectId(), name: 'shared', colour: 'blue', tenantId: tenantB._id },
+  ];
+});
+
+afterAll(() => {
+  config.multiTenant = false;
+});
+
+describe('inside a tenant', () => {
+  it('finds only the tenant’s documents', async () => {
+    expect(names(await asA(() => Widget.find().lean().exec()))).toEqual(['only-a', 'shared']);
+    expect(names(await asB(() => Widget.find().lean().exec()))).toEqual(['shared']);
+    expect(await asB(() => Widget.findOne({ name: 'only-a' }).lean().exec())).toBeNull();
+  });
+
+  it('counts only the tenant’s documents', async () => {
+    expect(await asA(() => Widget.countDocuments().exec())).toBe(2);
+    expect(await asB(() => Widget.countDocuments().exec())).toBe(1);
+  });
+
+  it('updates only the tenant’s documents', async () => {
+    const result = await asB(() => Widget.updateMany({ name: 'shared' }, { colour: 'red' }).exec());
+
+    expect(result.modifiedCount).toBe(1);
+    expect(docs.filter(doc => doc.colour === 'red').map(doc => doc.tenantId)).toEqual([tenantB._id]);
+  });
+
+  it('deletes only the tenant’s documents', async () => {
+    const result = await asA(() => Widget.deleteMany({}).exec());
+
+    expect(result.deletedCount).toBe(2);
+    expect(docs.map(doc => doc.tenantId)).toEqual([tenantB._id]);
+  });
+
+  it('limits distinct values to the tenant', async () => {
+    expect((await asB(() => Widget.distinct('name').exec())).sort()).toEqual(['shared']);
+  });
+
+  it('limits aggregations to the tenant', async () => {
+    expect(names(await asB(() => Widget.aggregate([{ $match: { name: 'shared' } }]).exec()))).toEqual(['shared']);
+    expect(await asB(() => Widget.aggregate([]).exec())).toHaveLength(1);
+  });
+
+  it('stamps created and inserted documents with the tenant', async () => {
+    await asA(() => Widget.create({ name: 'created' }));
+    await asA(() => Widget.insertMany([{ name: 'inserted' }, { name: 'claimed', tenantId: tenantB._id }]));
+
+    const added = docs.filter(doc => ['created', 'inserted', 'claimed'].includes(doc.name));
+    expect(added.map(doc => String(doc.tenantId))).toEqual(Array(3).fill(String(tenantA._id)));
+  });
+
+  it('scopes bulk writes to the tenant', async () => {
+    await asA(() =>
+      Widget.bulkWrite([
+        { insertOne: { document: { name: 'bulk' } } },
+        { updateOne: { filter: { name: 'shared' }, update: { $set: { colour: 'red' } } } },
+        { updateOne: { filter: { name: 'new' }, update: { $set: { colour: 'green' } }, upsert: true } },
+        { deleteOne: { filter: { name: 'only-a' } } },
+      ])
+    );
+
+    const ofB = docs.filter(doc => String(doc.tenantId) === String(tenantB._id));
+    expect(ofB).toEqual([expect.objectContaining({ name: 'shared', colour: 'blue' })]);
+    expect(names(await asA(() => Widget.find().lean().exec()))).toEqual(['bulk', 'new', 'shared']);
+    expect(await asA(() => Widget.countDocuments({ colour: 'red' }).exec())).toBe(1);
+  });
+
+  it('refuses estimatedDocumentCount, which would count every tenant', async () => {
+    await expect(asA(() => Widget.estimatedDocumentCount().exec())).rejects.toThrow('counts every tenant');
+  });
+});
+
+describe('outside a tenant', () => {
+  it.each([
+    ['find', () => Widget.find().lean().exec()],
+    ['countDocuments', () => Widget.countDocuments().exec()],
+    ['updateMany', () => Widget.updateMany({}, { colour: 'red' }).exec()],
+    ['deleteMany', () => Widget.deleteMany({}).exec()],
+    ['distinct', () => Widget.distinct('name').exec()],
+    ['aggregate', () => Widget.aggregate([]).exec()],
+    ['insertMany', () => Widget.insertMany([{ name: 'stray' }])],
+    ['bulkWrite', () => Widget.bulkWrite([{ deleteOne: { filter: {} } }])],
+    ['save', () => Widget.create({ name: 'stray' })],
+  ])('fails %s in multi-tenant mode', async (operation, run) => {
+    await expect(run()).rejects.toThrow(`${operation} ran outside a tenant context`);
+
+    expect(docs).toHaveLength(3);
+    expect(docs.every(doc => doc.colour === 'blue')).toBe(true);
+  });
+
+  it('sees every tenant when that is asked for explicitly', async () => {
+    expect(await runWithoutTenant(() => Widget.countDocuments().exec())).toBe(3);
+  });
+
+  it('sees every document in single-tenant mode', async () => {
+    config.multiTenant = false;
+
+    expect(await Widget.countDocuments().exec()).toBe(3);
+  });
+});
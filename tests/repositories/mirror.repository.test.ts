@@ -0,0 +1,58 @@
+import { Types } from 'mongoose';
+import { MirroredCompany } from '../../src/models/MirroredCompany.model';
+import { mirroredCompanyRepository } from '../../src/repositories/mirroredCompany.repository';
+import { runWithTenant, runWithoutTenant } from '../../src/utils/tenantContext';
+import { ITenant } from '../../src/types';
+
+const tenant = { _id: new Types.ObjectId(), slug: 'acme' } as ITenant;
+
+let bulkWrite: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2026, 2, 2, 9, 0) });
+  // Replaces the model's bulkWrite, so only what the repository adds is sent
+  bulkWrite = jest.spyOn(MirroredCompany, 'bulkWrite').mockResolvedValue({} as any);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('upsertMany', () => {
+  it('matches and stamps records with the current tenant', async () => {
+    const written = await runWithTenant(tenant, () =>
+      mirroredCompanyRepository.upsertMany([{ uuid: 'company-1', active: true }])
+    );
+
+    expect(written).toBe(1);
+    expect(bulkWrite).toHaveBeenCalledWith(
+      [
+        {
+          updateOne: {
+            filter: { uuid: 'company-1', tenantId: tenant._id },
+            update: {
+              $set: { uuid: 'company-1', active: true, syncedAt: new Date() },
+              $setOnInsert: { tenantId: tenant._id },
+            },
+            upsert: true,
+          },
+        },
+      ],
+      { ordered: false }
+    );
+  });
+
+  it('leaves the tenant out when there is none', async () => {
+    await runWithoutTenant(() => mirroredCompanyRepository.upsertMany([{ uuid: 'company-1', active: true }]));
+
+    const [[operations]] = bulkWrite.mock.calls;
+    expect(operations[0].updateOne.filter).toEqual({ uuid: 'company-1' });
+    expect(operations[0].updateOne.update).not.toHaveProperty('$setOnInsert');
+  });
+
+  it('skips the round trip when there is nothing to write', async () => {
+    expect(await mirroredCompanyRepository.upsertMany([])).toBe(0);
+    expect(bulkWrite).not.toHaveBeenCalled();
+  });
+});
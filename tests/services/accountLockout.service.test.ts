@@ -0,0 +1,183 @@
+import { Types } from 'mongoose';
+import { config } from '../../src/config/env';
+import { accountLockoutService } from '../../src/services/accountLockout.service';
+import { notificationService } from '../../src/services/notification.service';
+import { securityEventRepository } from '../../src/repositories/securityEvent.repository';
+import { ICustomer } from '../../src/types';
+
+// Customers are kept in memory instead of MongoDB
+const mockCustomers = new Map<string, any>();
+
+jest.mock('../../src/repositories/customer.repository', () => ({
+  customerRepository: {
+    recordFailedLogin: jest.fn(async (id: any) => {
+      const customer = mockCustomers.get(id.toString());
+      customer.failedLoginAttempts++;
+      customer.lastFailedLoginAt = new Date();
+      return customer;
+    }),
+    lock: jest.fn(async (id: any, lockedUntil: Date) => {
+      const customer = mockCustomers.get(id.toString());
+      customer.lockedUntil = lockedUntil;
+      return customer;
+    }),
+    resetFailedLogins: jest.fn(async (id: any) => {
+      const customer = mockCustomers.get(id.toString());
+      customer.failedLoginAttempts = 0;
+      delete customer.lastFailedLoginAt;
+      delete customer.lockedUntil;
+      return customer;
+    }),
+  },
+}));
+
+jest.mock('../../src/repositories/securityEvent.repository', () => ({
+  securityEventRepository: {
+    record: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../src/services/notification.service', () => ({
+  notificationService: {
+    send: jest.fn(async () => undefined),
+  },
+}));
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+let customer: ICustomer;
+
+/**
+ * Whether an attempt is allowed after moving the clock forward
+ */
+const canAttemptAfter = async (ms: number) => {
+  jest.setSystemTime(Date.now() + ms);
+  return accountLockoutService.canAttempt(customer);
+};
+
+const failTimes = async (count: number) => {
+  for (let failure = 0; failure < count; failure++) {
+    await accountLockoutService.recordFailure(customer);
+  }
+};
+
+beforeAll(() => {
+  config.loginBackoffBaseSeconds = 1;
+  config.loginMaxFailedAttempts = 5;
+  config.loginLockoutDuration = '15m';
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2024, 4, 1, 9, 0) });
+  jest.clearAllMocks();
+  mockCustomers.clear();
+
+  customer = {
+    _id: new Types.ObjectId(),
+    email: 'jane@example.com',
+    failedLoginAttempts: 0,
+  } as unknown as ICustomer;
+  mockCustomers.set(customer._id.toString(), customer);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('backoff', () => {
+  it('allows the first attempt', async () => {
+    expect(await accountLockoutService.canAttempt(customer)).toBe(true);
+  });
+
+  it.each([
+    [1, 1],
+    [2, 2],
+    [3, 4],
+    [4, 8],
+  ])('holds the next attempt back after %i failure(s) for %i second(s)', async (failures, seconds) => {
+    await failTimes(failures);
+
+    expect(await canAttemptAfter(0)).toBe(false);
+    expect(await canAttemptAfter(seconds * SECOND - 1)).toBe(false);
+    expect(await canAttemptAfter(1)).toBe(true);
+  });
+
+  it('never waits longer than five minutes between attempts', async () => {
+    customer.failedLoginAttempts = 30;
+    customer.lastFailedLoginAt = new Date();
+
+    expect(await canAttemptAfter(5 * MINUTE - 1)).toBe(false);
+    expect(await canAttemptAfter(1)).toBe(true);
+  });
+
+  it('records blocked attempts', async () => {
+    await failTimes(1);
+
+    await accountLockoutService.canAttempt(customer, { ipAddress: '203.0.113.7' });
+
+    expect(securityEventRepository.record).toHaveBeenCalledWith(
+      'login_blocked',
+      customer._id,
+      { ipAddress: '203.0.113.7' },
+      expect.objectContaining({ failedLoginAttempts: 1, locked: false })
+    );
+  });
+
+  it('starts again after a successful login', async () => {
+    await failTimes(3);
+
+    await accountLockoutService.recordSuccess(customer);
+
+    expect(customer.failedLoginAttempts).toBe(0);
+    expect(await canAttemptAfter(0)).toBe(true);
+  });
+});
+
+describe('lockout', () => {
+  it('does not lock below the threshold', async () => {
+    await failTimes(config.loginMaxFailedAttempts - 1);
+
+    expect(customer.lockedUntil).toBeUndefined();
+    expect(notificationService.send).not.toHaveBeenCalled();
+  });
+
+  it('locks the account at the threshold and tells the customer', async () => {
+    await failTimes(config.loginMaxFailedAttempts);
+
+    expect(customer.lockedUntil).toEqual(new Date(Date.now() + 15 * MINUTE));
+    expect(securityEventRepository.record).toHaveBeenCalledWith(
+      'account_locked',
+      customer._id,
+      {},
+      expect.objectContaining({ failedLoginAttempts: config.loginMaxFailedAttempts })
+    );
+    expect(notificationService.send).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'email', to: 'jane@example.com' })
+    );
+  });
+
+  it('refuses attempts until the lock expires, then starts counting afresh', async () => {
+    await failTimes(config.loginMaxFailedAttempts);
+
+    expect(await canAttemptAfter(15 * MINUTE - 1)).toBe(false);
+    expect(await canAttemptAfter(1)).toBe(true);
+
+    expect(customer.failedLoginAttempts).toBe(0);
+    expect(customer.lockedUntil).toBeUndefined();
+  });
+
+  it('unlocks on request (password reset)', async () => {
+    await failTimes(config.loginMaxFailedAttempts);
+
+    await accountLockoutService.unlock(customer);
+
+    expect(await canAttemptAfter(0)).toBe(true);
+    expect(securityEventRepository.record).toHaveBeenCalledWith(
+      'account_unlocked',
+      customer._id,
+      {},
+      { reason: 'password_reset' }
+    );
+  });
+});
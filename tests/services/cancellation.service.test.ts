@@ -0,0 +1,137 @@
+import { Types } from 'mongoose';
+import { cancellationService } from '../../src/services/cancellation.service';
+import { jobLifecycleService } from '../../src/services/jobLifecycle.service';
+import { ConflictError, JobUpdateError } from '../../src/utils/errors';
+import { ICustomer } from '../../src/types';
+
+// Cancellation requests are kept in memory instead of MongoDB
+const mockRequests = new Map<string, any>();
+const mockUpdateJob = jest.fn();
+let mockJob: any;
+
+jest.mock('../../src/repositories/cancellationRequest.repository', () => ({
+  cancellationRequestRepository: {
+    create: jest.fn(async (data: any) => {
+      const request = { _id: new (jest.requireActual('mongoose').Types.ObjectId)(), status: 'pending', ...data };
+      mockRequests.set(String(request._id), request);
+      return { ...request };
+    }),
+    findById: jest.fn(async (id: string) => (mockRequests.has(id) ? { ...mockRequests.get(id) } : null)),
+    markDecided: jest.fn(async (id: any, status: string, reviewedBy?: any) => {
+      const request = mockRequests.get(String(id));
+      if (request?.status !== 'pending') {
+        return null;
+      }
+      Object.assign(request, { status, reviewedBy, autoApproved: !reviewedBy });
+      return { ...request };
+    }),
+    reopen: jest.fn(async (id: any) => {
+      const request = mockRequests.get(String(id));
+      if (request?.status !== 'approved') {
+        return null;
+      }
+      Object.assign(request, { status: 'pending', reviewedBy: undefined, autoApproved: false });
+      return { ...request };
+    }),
+    delete: jest.fn(async (id: string) => mockRequests.delete(id)),
+  },
+}));
+
+jest.mock('../../src/services/authorization.service', () => ({
+  authorizationService: {
+    getAccessibleJob: jest.fn(async () => ({ ...mockJob })),
+  },
+}));
+
+jest.mock('../../src/services/servicem8.service', () => ({
+  servicem8Registry: {
+    current: () => ({ updateJob: mockUpdateJob, addJobNote: jest.fn(async () => undefined) }),
+  },
+}));
+
+jest.mock('../../src/services/servicem8Mirror.service', () => ({
+  servicem8Mirror: { rememberJob: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../src/services/message.service', () => ({
+  messageService: { createSystemMessage: jest.fn(async () => undefined) },
+}));
+
+const customer = { _id: new Types.ObjectId(), role: 'customer', firstName: 'Jane' } as unknown as ICustomer;
+const reviewer = { _id: new Types.ObjectId(), role: 'staff', firstName: 'Sam' } as unknown as ICustomer;
+
+/**
+ * Record the request's status each time ServiceM8 is asked to cancel the job
+ */
+const statusesSeenByServiceM8: string[] = [];
+
+const pendingRequest = () => {
+  const request = { _id: new Types.ObjectId(), jobUuid: 'job-1', reason: 'Moving house', status: 'pending' };
+  mockRequests.set(String(request._id), request);
+  return String(request._id);
+};
+
+beforeEach(() => {
+  mockRequests.clear();
+  statusesSeenByServiceM8.length = 0;
+  mockJob = { uuid: 'job-1', status: 'Scheduled', company_uuid: 'company-1' };
+  jest.spyOn(jobLifecycleService, 'applySideEffects').mockResolvedValue();
+  mockUpdateJob.mockReset().mockImplementation(async (uuid: string, changes: any) => {
+    statusesSeenByServiceM8.push(...[...mockRequests.values()].map(request => request.status));
+    return { ...mockJob, uuid, ...changes };
+  });
+});
+
+describe('approve', () => {
+  it('claims the request before cancelling the job', async () => {
+    const id = pendingRequest();
+
+    const approved = await cancellationService.approve(id, reviewer);
+
+    expect(approved.status).toBe('approved');
+    expect(statusesSeenByServiceM8).toEqual(['approved']);
+  });
+
+  it('cancels the job once when two reviewers approve at the same time', async () => {
+    const id = pendingRequest();
+
+    const results = await Promise.allSettled([
+      cancellationService.approve(id, reviewer),
+      cancellationService.approve(id, reviewer),
+    ]);
+
+    expect(mockUpdateJob).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: expect.any(ConflictError),
+    });
+  });
+
+  it('puts the request back to pending when ServiceM8 refuses the change', async () => {
+    const id = pendingRequest();
+    mockUpdateJob.mockRejectedValueOnce(new Error('Bad request'));
+
+    await expect(cancellationService.approve(id, reviewer)).rejects.toBeInstanceOf(JobUpdateError);
+    expect(mockRequests.get(id)).toMatchObject({ status: 'pending', reviewedBy: undefined });
+
+    expect((await cancellationService.approve(id, reviewer)).status).toBe('approved');
+  });
+});
+
+describe('requestCancellation', () => {
+  it('approves the request before cancelling outside the cut-off', async () => {
+    const request = await cancellationService.requestCancellation('job-1', 'Moving house', customer);
+
+    expect(request).toMatchObject({ status: 'approved', autoApproved: true });
+    expect(statusesSeenByServiceM8).toEqual(['approved']);
+  });
+
+  it('removes the request when ServiceM8 refuses the change', async () => {
+    mockUpdateJob.mockRejectedValueOnce(new Error('Bad request'));
+
+    await expect(cancellationService.requestCancellation('job-1', 'Moving house', customer)).rejects.toBeInstanceOf(
+      JobUpdateError
+    );
+    expect(mockRequests.size).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+import { Types } from 'mongoose';
+import { profileService } from '../../src/services/profile.service';
+import { ServiceUnavailableError } from '../../src/utils/errors';
+import { ICustomer } from '../../src/types';
+
+const mockUpdateCompany = jest.fn();
+
+jest.mock('../../src/services/servicem8.service', () => ({
+  servicem8Registry: {
+    current: () => ({ updateCompany: mockUpdateCompany }),
+  },
+}));
+
+jest.mock('../../src/repositories/customer.repository', () => ({
+  customerRepository: {
+    findByEmailOrPhone: jest.fn(async () => null),
+  },
+}));
+
+jest.mock('../../src/services/verification.service', () => ({
+  verificationService: {
+    assertCanResend: jest.fn(async () => undefined),
+    discardCodes: jest.fn(async () => undefined),
+    sendCode: jest.fn(async () => undefined),
+  },
+}));
+
+// What the database holds after each save
+let saved: Record<string, unknown>[];
+let customer: ICustomer;
+
+const snapshot = (doc: ICustomer) => ({
+  firstName: doc.firstName,
+  email: doc.email,
+  emailVerified: doc.emailVerified,
+});
+
+beforeEach(() => {
+  mockUpdateCompany.mockReset().mockResolvedValue({});
+  saved = [];
+
+  customer = {
+    _id: new Types.ObjectId(),
+    firstName: 'Jane',
+    email: 'jane@example.com',
+    emailVerified: true,
+    servicem8ClientUuid: 'company-uuid',
+    companyRole: 'owner',
+    comparePassword: jest.fn(async () => true),
+    isModified: () => true,
+    save: jest.fn(async () => {
+      saved.push(snapshot(customer));
+      return customer;
+    }),
+  } as unknown as ICustomer;
+});
+
+describe('updateProfile', () => {
+  it('saves locally before pushing to ServiceM8', async () => {
+    await profileService.updateProfile(customer, { firstName: 'Janet' });
+
+    expect(saved).toEqual([{ firstName: 'Janet', email: 'jane@example.com', emailVerified: true }]);
+    expect(mockUpdateCompany).toHaveBeenCalledWith('company-uuid', expect.objectContaining({ name: 'Janet' }));
+    expect((customer.save as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+      mockUpdateCompany.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('does not touch ServiceM8 when the local save fails', async () => {
+    (customer.save as jest.Mock).mockRejectedValueOnce(new Error('E11000 duplicate key'));
+
+    await expect(profileService.updateProfile(customer, { firstName: 'Janet' })).rejects.toThrow('E11000');
+
+    expect(mockUpdateCompany).not.toHaveBeenCalled();
+  });
+
+  it('undoes the change when ServiceM8 refuses it', async () => {
+    mockUpdateCompany.mockRejectedValueOnce(new Error('ServiceM8 is down'));
+
+    await expect(
+      profileService.updateProfile(customer, { firstName: 'Janet', email: 'janet@example.com', currentPassword: 'pw' })
+    ).rejects.toBeInstanceOf(ServiceUnavailableError);
+
+    expect(saved).toHaveLength(2);
+    expect(saved[1]).toEqual({ firstName: 'Jane', email: 'jane@example.com', emailVerified: true });
+  });
+});
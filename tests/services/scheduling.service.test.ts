@@ -0,0 +1,128 @@
+import { Types } from 'mongoose';
+import { schedulingService } from '../../src/services/scheduling.service';
+import { ConflictError, ServiceUnavailableError } from '../../src/utils/errors';
+import { ICustomer } from '../../src/types';
+
+// Reschedule requests are kept in memory instead of MongoDB
+const mockRequests = new Map<string, any>();
+const mockUpdateJob = jest.fn();
+
+jest.mock('../../src/repositories/rescheduleRequest.repository', () => ({
+  rescheduleRequestRepository: {
+    findById: jest.fn(async (id: string) => (mockRequests.has(id) ? { ...mockRequests.get(id) } : null)),
+    markDecided: jest.fn(async (id: any, status: string, reviewedBy: any) => {
+      const request = mockRequests.get(String(id));
+      if (request?.status !== 'pending') {
+        return null;
+      }
+      Object.assign(request, { status, reviewedBy });
+      return { ...request };
+    }),
+    reopen: jest.fn(async (id: any) => {
+      const request = mockRequests.get(String(id));
+      if (request?.status !== 'confirmed') {
+        return null;
+      }
+      Object.assign(request, { status: 'pending', reviewedBy: undefined });
+      return { ...request };
+    }),
+  },
+}));
+
+jest.mock('../../src/repositories/customer.repository', () => ({
+  customerRepository: { findById: jest.fn(async () => null) },
+}));
+
+jest.mock('../../src/services/authorization.service', () => ({
+  authorizationService: {
+    getAccessibleJob: jest.fn(async () => ({ uuid: 'job-1', status: 'Scheduled', company_uuid: 'company-1' })),
+  },
+}));
+
+jest.mock('../../src/services/servicem8.service', () => ({
+  servicem8Registry: {
+    current: () => ({ updateJob: mockUpdateJob, addJobNote: jest.fn(async () => undefined) }),
+  },
+}));
+
+jest.mock('../../src/services/servicem8Mirror.service', () => ({
+  servicem8Mirror: { rememberJob: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../src/services/message.service', () => ({
+  messageService: { createSystemMessage: jest.fn(async () => undefined) },
+}));
+
+const reviewer = { _id: new Types.ObjectId(), role: 'staff', firstName: 'Sam' } as unknown as ICustomer;
+
+/**
+ * The request's status each time ServiceM8 is asked to move the job
+ */
+const statusesSeenByServiceM8: string[] = [];
+
+const pendingRequest = () => {
+  const request = {
+    _id: new Types.ObjectId(),
+    jobUuid: 'job-1',
+    requestedBy: new Types.ObjectId(),
+    status: 'pending',
+    startsAt: new Date(2026, 2, 10, 9, 0),
+    endsAt: new Date(2026, 2, 10, 11, 0),
+    createdAt: new Date(2026, 2, 1, 9, 0),
+  };
+  mockRequests.set(String(request._id), request);
+  return String(request._id);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2026, 2, 2, 9, 0) });
+  mockRequests.clear();
+  statusesSeenByServiceM8.length = 0;
+  mockUpdateJob.mockReset().mockImplementation(async (uuid: string, changes: any) => {
+    statusesSeenByServiceM8.push(...[...mockRequests.values()].map(request => request.status));
+    return { uuid, status: 'Scheduled', ...changes };
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('confirm', () => {
+  it('claims the request before moving the job', async () => {
+    const id = pendingRequest();
+
+    const confirmed = await schedulingService.confirm(id, reviewer, { force: true });
+
+    expect(confirmed.status).toBe('confirmed');
+    expect(mockUpdateJob).toHaveBeenCalledWith('job-1', { scheduled_date: '2026-03-10 09:00:00' });
+    expect(statusesSeenByServiceM8).toEqual(['confirmed']);
+  });
+
+  it('moves the job once when two reviewers confirm at the same time', async () => {
+    const id = pendingRequest();
+
+    const results = await Promise.allSettled([
+      schedulingService.confirm(id, reviewer, { force: true }),
+      schedulingService.confirm(id, reviewer, { force: true }),
+    ]);
+
+    expect(mockUpdateJob).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: expect.any(ConflictError),
+    });
+  });
+
+  it('puts the request back to pending when ServiceM8 is unavailable', async () => {
+    const id = pendingRequest();
+    mockUpdateJob.mockRejectedValueOnce(new ServiceUnavailableError('ServiceM8'));
+
+    await expect(schedulingService.confirm(id, reviewer, { force: true })).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+    expect(mockRequests.get(id)).toMatchObject({ status: 'pending', reviewedBy: undefined });
+
+    expect((await schedulingService.confirm(id, reviewer, { force: true })).status).toBe('confirmed');
+  });
+});
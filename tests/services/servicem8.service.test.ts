@@ -0,0 +1,105 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../../src/config/env';
+import { ServiceM8Service } from '../../src/services/servicem8.service';
+import { MemoryCacheStore, ServiceM8Cache } from '../../src/services/servicem8Cache.service';
+import { ServiceUnavailableError } from '../../src/utils/errors';
+
+type Reply = { status: number; headers?: Record<string, string>; data?: unknown };
+
+let replies: Reply[];
+let sentAt: number[];
+let service: ServiceM8Service;
+
+/**
+ * Answer requests from `replies` in order instead of calling ServiceM8
+ */
+const adapter = async (request: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  sentAt.push(Date.now());
+  const { status, headers = {}, data = [] } = replies.shift() ?? { status: 200 };
+  const response = { status, statusText: '', headers, data, config: request };
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', request, null, response);
+  }
+  return response;
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2026, 2, 2, 9, 0) });
+  replies = [];
+  sentAt = [];
+
+  Object.assign(config, {
+    servicem8MaxRetries: 3,
+    servicem8RetryBaseDelayMs: 250,
+    servicem8RetryMaxDelayMs: 5000,
+    servicem8BreakerFailureThreshold: 2,
+    servicem8BreakerCooldownSeconds: 30,
+    servicem8RateLimitBurst: 100,
+    servicem8RateLimitPerMinute: 6000,
+  });
+  service = new ServiceM8Service(
+    { getAuthHeaders: async () => ({ 'X-Api-Key': 'test' }), forceRefresh: async () => false },
+    new ServiceM8Cache(new MemoryCacheStore(), 'test')
+  );
+  (service as any).client.defaults.adapter = adapter;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('retries', () => {
+  it('waits as long as Retry-After says before retrying a 429', async () => {
+    replies = [{ status: 429, headers: { 'retry-after': '2' } }, { status: 200, data: [{ uuid: 'job-1' }] }];
+
+    const jobs = service.getAllJobs();
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(sentAt).toHaveLength(1);
+
+    // The rate limiter is paused for the same time, so the retry then waits
+    // for its next token (10ms at this rate)
+    await jest.advanceTimersByTimeAsync(100);
+    expect(await jobs).toEqual([{ uuid: 'job-1' }]);
+    expect(sentAt[1] - sentAt[0]).toBe(2010);
+  });
+
+  it('gives up when Retry-After is longer than it will wait', async () => {
+    replies = [{ status: 429, headers: { 'retry-after': '60' } }];
+
+    await expect(service.getAllJobs()).rejects.toThrow();
+    expect(sentAt).toHaveLength(1);
+  });
+
+  it('backs off before retrying a server error', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    replies = [{ status: 503 }, { status: 200, data: [] }];
+
+    const jobs = service.getAllJobs();
+    await jest.advanceTimersByTimeAsync(250);
+
+    expect(await jobs).toEqual([]);
+    expect(sentAt[1] - sentAt[0]).toBe(250);
+  });
+});
+
+describe('circuit breaker', () => {
+  it('fails fast once ServiceM8 keeps erroring, then tries again after the cool-down', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    replies = Array(4).fill({ status: 503 });
+
+    // Two failed attempts open the circuit; the retry is then refused
+    const failing = expect(service.getAllJobs()).rejects.toBeInstanceOf(ServiceUnavailableError);
+    await jest.runAllTimersAsync();
+    await failing;
+    expect(sentAt).toHaveLength(2);
+
+    await expect(service.getAllJobs()).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(sentAt).toHaveLength(2);
+
+    jest.advanceTimersByTime(30000);
+    replies = [{ status: 200, data: [] }];
+    expect(await service.getAllJobs()).toEqual([]);
+    expect(sentAt).toHaveLength(3);
+  });
+});
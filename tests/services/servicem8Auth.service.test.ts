@@ -0,0 +1,250 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Types } from 'mongoose';
+import { config } from '../../src/config/env';
+import { servicem8AuthService } from '../../src/services/servicem8Auth.service';
+import { JWTUtils } from '../../src/utils/jwt.utils';
+import { encrypt, decrypt } from '../../src/utils/encryption.utils';
+import { InvalidTokenError, ServiceUnavailableError, ValidationError } from '../../src/utils/errors';
+import { ICustomer } from '../../src/types';
+
+// Connections are kept in memory instead of MongoDB
+const mockConnections = new Map<string, any>();
+
+jest.mock('../../src/repositories/servicem8Connection.repository', () => ({
+  servicem8ConnectionRepository: {
+    findByKey: jest.fn(async (key: string) => {
+      const connection = mockConnections.get(key);
+      return connection ? { ...connection } : null;
+    }),
+    upsertTokens: jest.fn(async (key: string, tokens: any, connectedBy?: string) => {
+      const connection = { key, ...tokens, connectedBy, createdAt: new Date() };
+      mockConnections.set(key, connection);
+      return { ...connection };
+    }),
+    updateTokens: jest.fn(async (key: string, tokens: any) => {
+      const existing = mockConnections.get(key);
+      if (!existing) {
+        return null;
+      }
+      const connection = { ...existing, ...tokens, lastRefreshedAt: new Date() };
+      mockConnections.set(key, connection);
+      return { ...connection };
+    }),
+    deleteOne: jest.fn(async ({ key }: { key: string }) => mockConnections.delete(key)),
+  },
+}));
+
+/**
+ * Local stand-in for the ServiceM8 token endpoint
+ */
+interface TokenReply {
+  status: number;
+  body: Record<string, unknown>;
+  delayMs?: number;
+}
+
+const requests: URLSearchParams[] = [];
+let reply: TokenReply;
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    requests.push(new URLSearchParams(body));
+    const { status, body: payload, delayMs = 0 } = reply;
+    setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    }, delayMs);
+  });
+});
+
+const admin = { _id: new Types.ObjectId(), role: 'admin' } as ICustomer;
+
+const storeConnection = (expiresInMs: number, accessToken = 'old-access', refreshToken = 'old-refresh') => {
+  mockConnections.set('default', {
+    key: 'default',
+    accessToken: encrypt(accessToken),
+    refreshToken: encrypt(refreshToken),
+    expiresAt: new Date(Date.now() + expiresInMs),
+    createdAt: new Date(),
+  });
+};
+
+const stored = () => mockConnections.get('default');
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  config.servicem8AuthMode = 'oauth';
+  config.servicem8OAuthClientId = 'client-id';
+  config.servicem8OAuthClientSecret = 'client-secret';
+  config.servicem8OAuthRedirectUri = 'http://localhost:4000/api/servicem8/oauth/callback';
+  config.servicem8OAuthTokenUrl = `http://127.0.0.1:${port}/oauth/access_token`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  mockConnections.clear();
+  reply = {
+    status: 200,
+    body: { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 3600, scope: 'read_jobs' },
+  };
+});
+
+describe('handleCallback', () => {
+  const state = () => JWTUtils.generateOAuthState(admin._id.toString());
+
+  it('exchanges the code for tokens and stores them encrypted', async () => {
+    const status = await servicem8AuthService.handleCallback({ code: 'auth-code', state: state() });
+
+    expect(requests).toHaveLength(1);
+    expect(Object.fromEntries(requests[0])).toEqual({
+      grant_type: 'authorization_code',
+      code: 'auth-code',
+      redirect_uri: 'http://localhost:4000/api/servicem8/oauth/callback',
+      client_id: 'client-id',
+      client_secret: 'client-secret',
+    });
+
+    const connection = stored();
+    expect(connection.accessToken).not.toBe('new-access');
+    expect(decrypt(connection.accessToken)).toBe('new-access');
+    expect(decrypt(connection.refreshToken)).toBe('new-refresh');
+    expect(connection.connectedBy).toBe(admin._id.toString());
+    expect(connection.expiresAt.getTime()).toBeGreaterThan(Date.now() + 3500 * 1000);
+
+    expect(status).toMatchObject({ mode: 'oauth', connected: true, scope: 'read_jobs' });
+  });
+
+  it.each([400, 401])('maps a %i from the token endpoint to a ValidationError', async status => {
+    reply = { status, body: { error: 'invalid_grant' } };
+
+    await expect(servicem8AuthService.handleCallback({ code: 'bad-code', state: state() })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(stored()).toBeUndefined();
+  });
+
+  it('maps a 5xx from the token endpoint to ServiceUnavailableError', async () => {
+    reply = { status: 502, body: {} };
+
+    await expect(servicem8AuthService.handleCallback({ code: 'auth-code', state: state() })).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+  });
+
+  it('rejects a response without a refresh token', async () => {
+    reply = { status: 200, body: { access_token: 'new-access', expires_in: 3600 } };
+
+    await expect(servicem8AuthService.handleCallback({ code: 'auth-code', state: state() })).rejects.toThrow(
+      'did not return a refresh token'
+    );
+    expect(stored()).toBeUndefined();
+  });
+
+  it('rejects a declined install without calling the token endpoint', async () => {
+    await expect(
+      servicem8AuthService.handleCallback({ error: 'access_denied', state: state() })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects a forged state', async () => {
+    await expect(
+      servicem8AuthService.handleCallback({ code: 'auth-code', state: 'not-a-jwt' })
+    ).rejects.toBeInstanceOf(InvalidTokenError);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('credentialsFor', () => {
+  it('uses the stored access token while it is well within its lifetime', async () => {
+    storeConnection(10 * 60 * 1000);
+
+    const headers = await servicem8AuthService.credentialsFor().getAuthHeaders();
+
+    expect(headers).toEqual({ Authorization: 'Bearer old-access' });
+    expect(requests).toHaveLength(0);
+  });
+
+  it('refreshes a token that expires within the leeway', async () => {
+    storeConnection(30 * 1000);
+
+    const headers = await servicem8AuthService.credentialsFor().getAuthHeaders();
+
+    expect(headers).toEqual({ Authorization: 'Bearer new-access' });
+    expect(Object.fromEntries(requests[0])).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'old-refresh',
+      client_id: 'client-id',
+      client_secret: 'client-secret',
+    });
+    expect(decrypt(stored().accessToken)).toBe('new-access');
+    expect(decrypt(stored().refreshToken)).toBe('new-refresh');
+    expect(stored().lastRefreshedAt).toBeInstanceOf(Date);
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    storeConnection(-1000);
+    reply = { ...reply, delayMs: 50 };
+
+    const credentials = servicem8AuthService.credentialsFor();
+    const headers = await Promise.all([
+      credentials.getAuthHeaders(),
+      credentials.getAuthHeaders(),
+      servicem8AuthService.credentialsFor().getAuthHeaders(),
+      credentials.forceRefresh(),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(headers.slice(0, 3)).toEqual([
+      { Authorization: 'Bearer new-access' },
+      { Authorization: 'Bearer new-access' },
+      { Authorization: 'Bearer new-access' },
+    ]);
+  });
+
+  it('refreshes again once the shared refresh has finished', async () => {
+    storeConnection(-1000);
+    const credentials = servicem8AuthService.credentialsFor();
+
+    await credentials.getAuthHeaders();
+    await credentials.forceRefresh();
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('keeps the old refresh token when the response does not rotate it', async () => {
+    storeConnection(-1000);
+    reply = { status: 200, body: { access_token: 'new-access', expires_in: 3600 } };
+
+    await servicem8AuthService.credentialsFor().getAuthHeaders();
+
+    expect(decrypt(stored().accessToken)).toBe('new-access');
+    expect(decrypt(stored().refreshToken)).toBe('old-refresh');
+  });
+
+  it('fails with ServiceUnavailableError when the refresh is rejected', async () => {
+    storeConnection(-1000);
+    reply = { status: 400, body: { error: 'invalid_grant' } };
+
+    await expect(servicem8AuthService.credentialsFor().getAuthHeaders()).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+    expect(decrypt(stored().accessToken)).toBe('old-access');
+  });
+
+  it('fails with ServiceUnavailableError before the install is completed', async () => {
+    await expect(servicem8AuthService.credentialsFor().getAuthHeaders()).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { MemoryCacheStore, ServiceM8Cache } from '../../src/services/servicem8Cache.service';
+
+/**
+ * A loader whose result arrives when the test says so
+ */
+const deferredLoader = <T>(value: T) => {
+  let resolve!: () => void;
+  const loader = jest.fn(() => new Promise<T>(done => (resolve = () => done(value))));
+  return { loader, finish: () => resolve() };
+};
+
+let cache: ServiceM8Cache;
+
+beforeEach(() => {
+  cache = new ServiceM8Cache(new MemoryCacheStore(), 'test');
+});
+
+describe('getOrLoad', () => {
+  it('caches a loaded value', async () => {
+    const loader = jest.fn(async () => ({ status: 'Quote' }));
+
+    await cache.getOrLoad('job', 'job-1', loader);
+    const second = await cache.getOrLoad('job', 'job-1', loader);
+
+    expect(second).toEqual({ status: 'Quote' });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one load between concurrent reads', async () => {
+    const { loader, finish } = deferredLoader({ status: 'Quote' });
+
+    const reads = Promise.all([cache.getOrLoad('job', 'job-1', loader), cache.getOrLoad('job', 'job-1', loader)]);
+    await new Promise(setImmediate);
+    finish();
+
+    expect(await reads).toEqual([{ status: 'Quote' }, { status: 'Quote' }]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache a load that was invalidated while in flight', async () => {
+    const stale = deferredLoader({ status: 'Quote' });
+    const read = cache.getOrLoad('job', 'job-1', stale.loader);
+    await new Promise(setImmediate);
+
+    await cache.invalidate('job', 'job-1');
+    stale.finish();
+    await read;
+
+    const fresh = jest.fn(async () => ({ status: 'Work Order' }));
+    expect(await cache.getOrLoad('job', 'job-1', fresh)).toEqual({ status: 'Work Order' });
+    expect(fresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not join a load that started before an invalidation', async () => {
+    const stale = deferredLoader({ status: 'Quote' });
+    const first = cache.getOrLoad('job', 'job-1', stale.loader);
+    await new Promise(setImmediate);
+
+    await cache.invalidate('job');
+    const fresh = jest.fn(async () => ({ status: 'Work Order' }));
+    const second = await cache.getOrLoad('job', 'job-1', fresh);
+    stale.finish();
+    await first;
+
+    expect(second).toEqual({ status: 'Work Order' });
+    expect(await cache.getOrLoad('job', 'job-1', fresh)).toEqual({ status: 'Work Order' });
+    expect(fresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a value written while a load was in flight', async () => {
+    const stale = deferredLoader({ status: 'Quote' });
+    const read = cache.getOrLoad('job', 'job-1', stale.loader);
+    await new Promise(setImmediate);
+
+    await cache.set('job', 'job-1', { status: 'Completed' });
+    stale.finish();
+    await read;
+
+    const loader = jest.fn(async () => ({ status: 'Quote' }));
+    expect(await cache.getOrLoad('job', 'job-1', loader)).toEqual({ status: 'Completed' });
+    expect(loader).not.toHaveBeenCalled();
+  });
+});
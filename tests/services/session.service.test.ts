@@ -0,0 +1,139 @@
+import { Types } from 'mongoose';
+import { sessionService } from '../../src/services/session.service';
+import { JWTUtils } from '../../src/utils/jwt.utils';
+import { hashToken } from '../../src/utils/crypto.utils';
+import { InvalidTokenError } from '../../src/utils/errors';
+import { ICustomer } from '../../src/types';
+
+// Sessions and customers are kept in memory instead of MongoDB
+const mockSessions = new Map<string, any>();
+const mockCustomers = new Map<string, any>();
+
+jest.mock('../../src/repositories/session.repository', () => {
+  const { Types } = jest.requireActual('mongoose');
+  const live = (session: any) => session.expiresAt > new Date();
+
+  return {
+    sessionRepository: {
+      createSession: jest.fn(async (customerId: any, refreshTokenHash: string, expiresAt: Date) => {
+        const session = { _id: new Types.ObjectId(), customerId, refreshTokenHash, previousTokenHashes: [], expiresAt };
+        mockSessions.set(session._id.toString(), session);
+        return { ...session };
+      }),
+      findByRefreshTokenHash: jest.fn(async (hash: string) => {
+        const session = [...mockSessions.values()].find(s => s.refreshTokenHash === hash && live(s));
+        return session ? { ...session } : null;
+      }),
+      findByPreviousTokenHash: jest.fn(async (hash: string) => {
+        const session = [...mockSessions.values()].find(s => s.previousTokenHashes.includes(hash));
+        return session ? { ...session } : null;
+      }),
+      rotateRefreshToken: jest.fn(async (currentHash: string, nextHash: string, expiresAt: Date) => {
+        const session = [...mockSessions.values()].find(s => s.refreshTokenHash === currentHash && live(s));
+        if (!session) {
+          return null;
+        }
+        session.previousTokenHashes.push(currentHash);
+        Object.assign(session, { refreshTokenHash: nextHash, expiresAt });
+        return { ...session };
+      }),
+      delete: jest.fn(async (id: string) => mockSessions.delete(id)),
+    },
+  };
+});
+
+jest.mock('../../src/repositories/customer.repository', () => ({
+  customerRepository: {
+    findById: jest.fn(async (id: string) => mockCustomers.get(id) ?? null),
+  },
+}));
+
+const customer = { _id: new Types.ObjectId(), email: 'jane@example.com' } as ICustomer;
+
+const sessionIdOf = (token: string) => JWTUtils.verifyToken(token).sessionId;
+
+beforeEach(() => {
+  mockSessions.clear();
+  mockCustomers.clear();
+  mockCustomers.set(customer._id.toString(), customer);
+});
+
+describe('startSession', () => {
+  it('stores only a hash of the refresh token and binds the access token to the session', async () => {
+    const tokens = await sessionService.startSession(customer);
+
+    const [session] = [...mockSessions.values()];
+    expect(session.refreshTokenHash).toBe(hashToken(tokens.refreshToken));
+    expect(session.refreshTokenHash).not.toBe(tokens.refreshToken);
+    expect(sessionIdOf(tokens.token)).toBe(session._id.toString());
+  });
+});
+
+describe('rotate', () => {
+  it('issues a new token pair for the same session', async () => {
+    const first = await sessionService.startSession(customer);
+
+    const { customer: owner, tokens } = await sessionService.rotate(first.refreshToken);
+
+    expect(owner).toBe(customer);
+    expect(tokens.refreshToken).not.toBe(first.refreshToken);
+    expect(sessionIdOf(tokens.token)).toBe(sessionIdOf(first.token));
+    expect(mockSessions.size).toBe(1);
+  });
+
+  it('accepts each refresh token once', async () => {
+    const first = await sessionService.startSession(customer);
+    const second = await sessionService.rotate(first.refreshToken);
+
+    const third = await sessionService.rotate(second.tokens.refreshToken);
+
+    expect(third.tokens.refreshToken).toBeDefined();
+  });
+
+  it('revokes the whole session when a rotated token is presented again', async () => {
+    const first = await sessionService.startSession(customer);
+    const { tokens } = await sessionService.rotate(first.refreshToken);
+
+    await expect(sessionService.rotate(first.refreshToken)).rejects.toBeInstanceOf(InvalidTokenError);
+
+    expect(mockSessions.size).toBe(0);
+    // The thief's rotation also ended the legitimate holder's session
+    await expect(sessionService.rotate(tokens.refreshToken)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  it('treats a concurrent refresh with the same token as reuse', async () => {
+    const first = await sessionService.startSession(customer);
+
+    const results = await Promise.allSettled([
+      sessionService.rotate(first.refreshToken),
+      sessionService.rotate(first.refreshToken),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(mockSessions.size).toBe(0);
+  });
+
+  it('rejects an unknown token without touching other sessions', async () => {
+    await sessionService.startSession(customer);
+
+    await expect(sessionService.rotate('not-a-real-token')).rejects.toBeInstanceOf(InvalidTokenError);
+
+    expect(mockSessions.size).toBe(1);
+  });
+
+  it('rejects the token of an expired session', async () => {
+    const first = await sessionService.startSession(customer);
+    [...mockSessions.values()][0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(sessionService.rotate(first.refreshToken)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  it('ends the session of a customer that no longer exists', async () => {
+    const first = await sessionService.startSession(customer);
+    mockCustomers.clear();
+
+    await expect(sessionService.rotate(first.refreshToken)).rejects.toBeInstanceOf(InvalidTokenError);
+
+    expect(mockSessions.size).toBe(0);
+  });
+});
@@ -0,0 +1,187 @@
+import { Types } from 'mongoose';
+import { config } from '../../src/config/env';
+import { twoFactorService } from '../../src/services/twoFactor.service';
+import { accountLockoutService } from '../../src/services/accountLockout.service';
+import { generateTotp, getTotpStep } from '../../src/utils/totp.utils';
+import { AuthenticationError, InvalidTokenError } from '../../src/utils/errors';
+import { ICustomer } from '../../src/types';
+
+// Customers are kept in memory instead of MongoDB
+const mockCustomers = new Map<string, any>();
+
+jest.mock('../../src/repositories/customer.repository', () => {
+  const withOpenChallenge = (id: any, challengeId: string) => {
+    const customer = mockCustomers.get(id.toString());
+    return customer && customer.twoFactorChallengeId === challengeId ? customer : null;
+  };
+
+  return {
+    customerRepository: {
+      findById: jest.fn(async (id: string) => mockCustomers.get(id) ?? null),
+      openTwoFactorChallenge: jest.fn(async (id: any, challengeId: string) => {
+        const customer = mockCustomers.get(id.toString());
+        Object.assign(customer, { twoFactorChallengeId: challengeId, twoFactorChallengeAttempts: 0 });
+        return customer;
+      }),
+      recordTwoFactorAttempt: jest.fn(async (id: any, challengeId: string) => {
+        const customer = withOpenChallenge(id, challengeId);
+        if (customer) {
+          customer.twoFactorChallengeAttempts++;
+        }
+        return customer;
+      }),
+      closeTwoFactorChallenge: jest.fn(async (id: any, challengeId: string) => {
+        const customer = withOpenChallenge(id, challengeId);
+        if (customer) {
+          delete customer.twoFactorChallengeId;
+          delete customer.twoFactorChallengeAttempts;
+        }
+        return customer;
+      }),
+    },
+  };
+});
+
+jest.mock('../../src/services/accountLockout.service', () => ({
+  accountLockoutService: {
+    canAttempt: jest.fn(async () => true),
+    recordFailure: jest.fn(async () => undefined),
+    recordSuccess: jest.fn(async () => undefined),
+  },
+}));
+
+let customer: ICustomer;
+let secret: string;
+let recoveryCodes: string[];
+
+// Enrolment used the current step, so logins use the next one (still inside the window)
+const nextCode = () => generateTotp(secret, getTotpStep() + 1);
+
+const wrongCode = () => (Number(nextCode()) ^ 1).toString().padStart(6, '0');
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  mockCustomers.clear();
+
+  customer = {
+    _id: new Types.ObjectId(),
+    email: 'jane@example.com',
+    twoFactorEnabled: false,
+    twoFactorRecoveryCodes: [],
+    save: jest.fn(async () => customer),
+  } as unknown as ICustomer;
+  mockCustomers.set(customer._id.toString(), customer);
+
+  ({ secret } = await twoFactorService.beginEnrollment(customer));
+  recoveryCodes = await twoFactorService.confirmEnrollment(customer, generateTotp(secret));
+});
+
+describe('verifyChallenge', () => {
+  it('accepts a valid code once and closes the challenge', async () => {
+    const challengeToken = await twoFactorService.createChallenge(customer);
+
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code: nextCode() })).resolves.toBe(customer);
+    expect(accountLockoutService.recordSuccess).toHaveBeenCalledWith(customer);
+
+    // The same token can't start a second session, even with a fresh code
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code: nextCode() })).rejects.toBeInstanceOf(
+      InvalidTokenError
+    );
+  });
+
+  it('lets only one of two concurrent verifications through', async () => {
+    const challengeToken = await twoFactorService.createChallenge(customer);
+    const recoveryCode = recoveryCodes[0];
+
+    const results = await Promise.allSettled([
+      twoFactorService.verifyChallenge({ challengeToken, code: nextCode() }),
+      twoFactorService.verifyChallenge({ challengeToken, recoveryCode }),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('closes an earlier challenge when a new one is issued', async () => {
+    const first = await twoFactorService.createChallenge(customer);
+    await twoFactorService.createChallenge(customer);
+
+    await expect(
+      twoFactorService.verifyChallenge({ challengeToken: first, code: nextCode() })
+    ).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  it('rejects a code that was already used', async () => {
+    const code = nextCode();
+    await twoFactorService.verifyChallenge({ challengeToken: await twoFactorService.createChallenge(customer), code });
+
+    const challengeToken = await twoFactorService.createChallenge(customer);
+
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+  });
+
+  it('burns a recovery code once used', async () => {
+    const recoveryCode = recoveryCodes[0];
+    await twoFactorService.verifyChallenge({
+      challengeToken: await twoFactorService.createChallenge(customer),
+      recoveryCode,
+    });
+
+    const challengeToken = await twoFactorService.createChallenge(customer);
+
+    await expect(twoFactorService.verifyChallenge({ challengeToken, recoveryCode })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(customer.twoFactorRecoveryCodes).toHaveLength(recoveryCodes.length - 1);
+  });
+
+  it('counts wrong codes against the challenge and the account lockout', async () => {
+    const challengeToken = await twoFactorService.createChallenge(customer);
+
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code: wrongCode() })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+
+    expect(customer.twoFactorChallengeAttempts).toBe(1);
+    expect(accountLockoutService.recordFailure).toHaveBeenCalledTimes(1);
+    expect(accountLockoutService.recordSuccess).not.toHaveBeenCalled();
+  });
+
+  it('closes the challenge after too many wrong codes', async () => {
+    const challengeToken = await twoFactorService.createChallenge(customer);
+
+    for (let attempt = 1; attempt < config.twoFactorChallengeMaxAttempts; attempt++) {
+      await expect(twoFactorService.verifyChallenge({ challengeToken, code: wrongCode() })).rejects.toBeInstanceOf(
+        AuthenticationError
+      );
+    }
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code: wrongCode() })).rejects.toThrow(
+      'Too many invalid codes. Please log in again'
+    );
+
+    // The right code no longer helps
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code: nextCode() })).rejects.toBeInstanceOf(
+      InvalidTokenError
+    );
+    expect(accountLockoutService.recordFailure).toHaveBeenCalledTimes(config.twoFactorChallengeMaxAttempts);
+  });
+
+  it('counts the attempt but refuses the code while the account is locked', async () => {
+    (accountLockoutService.canAttempt as jest.Mock).mockResolvedValueOnce(false);
+    const challengeToken = await twoFactorService.createChallenge(customer);
+
+    await expect(twoFactorService.verifyChallenge({ challengeToken, code: nextCode() })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+
+    expect(customer.twoFactorChallengeAttempts).toBe(1);
+    expect(customer.twoFactorLastUsedStep).toBeLessThan(getTotpStep() + 1);
+  });
+
+  it('rejects a forged challenge token', async () => {
+    await expect(
+      twoFactorService.verifyChallenge({ challengeToken: 'not-a-jwt', code: nextCode() })
+    ).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+});
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Types } from 'mongoose';
+import { config } from '../../src/config/env';
+import { webhookService, ServiceM8WebhookPayload } from '../../src/services/webhook.service';
+import { servicem8Events, ServiceM8ChangeEvent } from '../../src/services/servicem8Events.service';
+import { verifyServiceM8Signature } from '../../src/middleware/webhook.middleware';
+import { servicem8WebhookSchema } from '../../src/validators/webhook.validator';
+import { WebhookRequest } from '../../src/types';
+
+// The queue is kept in memory instead of MongoDB
+const mockEvents: any[] = [];
+
+jest.mock('../../src/repositories/webhookEvent.repository', () => ({
+  webhookEventRepository: {
+    enqueue: jest.fn(async (event: any) => {
+      if (mockEvents.some(existing => existing.eventId === event.eventId)) {
+        return false;
+      }
+      mockEvents.push({
+        _id: new (jest.requireActual('mongoose').Types.ObjectId)(),
+        ...event,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      });
+      return true;
+    }),
+    claimNext: jest.fn(async () => {
+      const event = mockEvents.find(existing => existing.status === 'pending' && existing.nextAttemptAt <= new Date());
+      if (!event) {
+        return null;
+      }
+      event.status = 'processing';
+      event.attempts++;
+      return { ...event };
+    }),
+    markProcessed: jest.fn(async (id: Types.ObjectId) => {
+      Object.assign(mockEvents.find(event => event._id.equals(id)), { status: 'processed' });
+    }),
+    markFailed: jest.fn(async (id: Types.ObjectId, error: string, retryAt: Date | null) => {
+      Object.assign(
+        mockEvents.find(event => event._id.equals(id)),
+        retryAt
+          ? { status: 'pending', nextAttemptAt: retryAt, lastError: error }
+          : { status: 'failed', lastError: error }
+      );
+    }),
+  },
+}));
+
+// Attachments and job activity are looked up to find their job
+jest.mock('../../src/services/servicem8.service', () => ({
+  servicem8Registry: {
+    current: () => ({
+      getAttachmentByUuid: async (uuid: string) => ({
+        uuid,
+        related_object: 'job',
+        related_object_uuid: 'job-of-attachment',
+      }),
+      getJobActivityByUuid: async (uuid: string) => ({ uuid, job_uuid: 'job-of-activity' }),
+    }),
+  },
+}));
+
+jest.mock('../../src/services/tenant.service', () => ({
+  tenantService: {
+    resolve: jest.fn(async () => null),
+    getById: jest.fn(async () => null),
+  },
+}));
+
+const FIXTURES = path.join(__dirname, '../../fixtures/servicem8-webhooks');
+const SECRET = 'webhook-secret';
+
+const fixture = (name: string): Buffer => fs.readFileSync(path.join(FIXTURES, `${name}.json`));
+
+const sign = (body: Buffer): string => crypto.createHmac('sha256', SECRET).update(body).digest('hex');
+
+const published: ServiceM8ChangeEvent[] = [];
+let unsubscribe: () => void;
+
+/**
+ * Take a delivery through the same steps as the webhook route
+ */
+const deliver = async (body: Buffer, signature = sign(body)) => {
+  if (!webhookService.verifySignature(body, signature)) {
+    throw new Error('Invalid signature');
+  }
+
+  const payload = JSON.parse(body.toString());
+  servicem8WebhookSchema.parse({ body: payload, query: {} });
+
+  const result = await webhookService.receive(
+    payload as ServiceM8WebhookPayload,
+    undefined,
+    undefined,
+    'localhost',
+    body
+  );
+  await webhookService.drainQueue();
+  return result;
+};
+
+beforeAll(() => {
+  config.servicem8WebhookSecret = SECRET;
+  unsubscribe = servicem8Events.subscribe('test', async event => {
+    published.push(event);
+  });
+});
+
+afterAll(() => {
+  unsubscribe();
+});
+
+beforeEach(() => {
+  mockEvents.length = 0;
+  published.length = 0;
+});
+
+describe('fixture deliveries', () => {
+  it.each([
+    [
+      'job-status-changed',
+      [
+        {
+          object: 'job',
+          uuid: 'a1b2c3d4-0001-4000-8000-000000000001',
+          jobUuid: 'a1b2c3d4-0001-4000-8000-000000000001',
+          changedFields: ['status'],
+        },
+      ],
+    ],
+    [
+      'job-rescheduled-batch',
+      [
+        {
+          object: 'job',
+          uuid: 'a1b2c3d4-0001-4000-8000-000000000001',
+          jobUuid: 'a1b2c3d4-0001-4000-8000-000000000001',
+        },
+        {
+          object: 'job',
+          uuid: 'a1b2c3d4-0002-4000-8000-000000000002',
+          jobUuid: 'a1b2c3d4-0002-4000-8000-000000000002',
+        },
+      ],
+    ],
+    [
+      'company-updated',
+      [
+        {
+          object: 'company',
+          uuid: 'c0ffee00-0001-4000-8000-000000000001',
+          companyUuid: 'c0ffee00-0001-4000-8000-000000000001',
+        },
+      ],
+    ],
+    [
+      'attachment-added',
+      [{ object: 'attachment', uuid: 'a77ac400-0001-4000-8000-000000000001', jobUuid: 'job-of-attachment' }],
+    ],
+    [
+      'jobactivity-scheduled',
+      [{ object: 'jobactivity', uuid: 'ac71e100-0001-4000-8000-000000000001', jobUuid: 'job-of-activity' }],
+    ],
+  ])('publishes %s', async (name, expected) => {
+    const result = await deliver(fixture(name));
+
+    expect(result).toEqual({ queued: expected.length, duplicates: 0 });
+    expect(published).toHaveLength(expected.length);
+    expected.forEach((event, index) => expect(published[index]).toMatchObject(event));
+    expect(mockEvents.every(event => event.status === 'processed')).toBe(true);
+  });
+
+  it('keeps the time the change was made', async () => {
+    await deliver(fixture('job-status-changed'));
+
+    expect(published[0].occurredAt).toEqual(new Date(2024, 4, 1, 9, 15));
+  });
+
+  it('rejects a delivery with a bad signature', async () => {
+    const body = fixture('job-status-changed');
+
+    await expect(deliver(body, sign(Buffer.from('something else')))).rejects.toThrow('Invalid signature');
+    expect(mockEvents).toHaveLength(0);
+  });
+
+  it('lets a subscription challenge through without a signature', () => {
+    const next = jest.fn();
+    const req = { body: JSON.parse(fixture('subscribe-challenge').toString()) } as WebhookRequest;
+
+    verifyServiceM8Signature(req, {} as any, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe('duplicate deliveries', () => {
+  it('publishes a redelivered change once', async () => {
+    const body = fixture('job-status-changed');
+
+    await deliver(body);
+    const repeat = await deliver(body);
+
+    expect(repeat).toEqual({ queued: 0, duplicates: 1 });
+    expect(published).toHaveLength(1);
+  });
+
+  it('recognises a repeat inside a partly new delivery', async () => {
+    await deliver(fixture('job-status-changed'));
+    const batch = JSON.parse(fixture('job-rescheduled-batch').toString());
+    batch.entry.push({
+      uuid: 'a1b2c3d4-0001-4000-8000-000000000001',
+      changed_fields: ['status'],
+      time: '2024-05-01 09:15:00',
+    });
+
+    const result = await deliver(Buffer.from(JSON.stringify(batch)));
+
+    expect(result).toEqual({ queued: 2, duplicates: 1 });
+    expect(published).toHaveLength(3);
+  });
+
+  it('does not treat changes without a time as repeats', async () => {
+    const body = Buffer.from(
+      JSON.stringify({
+        object: 'job',
+        entry: [{ uuid: 'a1b2c3d4-0001-4000-8000-000000000001', changed_fields: ['status'] }],
+      })
+    );
+
+    await deliver(body);
+    const second = await deliver(body);
+
+    expect(second).toEqual({ queued: 1, duplicates: 0 });
+    expect(published).toHaveLength(2);
+  });
+});
+
+describe('failed subscribers', () => {
+  it('leaves the event queued for a retry', async () => {
+    const stop = servicem8Events.subscribe('failing', async () => {
+      throw new Error('Cache unavailable');
+    });
+
+    try {
+      await deliver(fixture('company-updated'));
+    } finally {
+      stop();
+    }
+
+    expect(mockEvents[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Subscribers failed: failing',
+    });
+    expect(mockEvents[0].nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Environment for tests: config/env requires these at import time
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+process.env.MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/servicem8-portal-test';
+process.env.SERVICEM8_API_KEY = process.env.SERVICEM8_API_KEY || 'test-api-key';
+process.env.SERVICEM8_API_TOKEN = process.env.SERVICEM8_API_TOKEN || 'test-api-token';
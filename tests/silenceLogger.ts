@@ -0,0 +1,4 @@
+import { logger } from '../src/utils/logger';
+
+// Expected failures are logged as errors; keep the test output readable
+logger.silent = true;
@@ -0,0 +1,87 @@
+import { CircuitBreaker } from '../../src/utils/circuitBreaker.utils';
+
+const COOLDOWN_MS = 30000;
+
+let breaker: CircuitBreaker;
+
+const failTimes = (count: number) => {
+  for (let failure = 0; failure < count; failure++) {
+    breaker.recordFailure();
+  }
+};
+
+/**
+ * Open the circuit and wait out the cool-down, so the next request is the trial
+ */
+const coolDown = () => {
+  failTimes(3);
+  jest.advanceTimersByTime(COOLDOWN_MS);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2026, 2, 2, 9, 0) });
+  breaker = new CircuitBreaker('test', { failureThreshold: 3, cooldownMs: COOLDOWN_MS });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('CircuitBreaker', () => {
+  it('stays closed below the failure threshold', () => {
+    failTimes(2);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('only counts consecutive failures', () => {
+    failTimes(2);
+    breaker.recordSuccess();
+    failTimes(2);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens at the threshold and refuses requests during the cool-down', () => {
+    failTimes(3);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    jest.advanceTimersByTime(COOLDOWN_MS - 1);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('lets exactly one trial request through after the cool-down', () => {
+    coolDown();
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('closes when the trial request succeeds', () => {
+    coolDown();
+    breaker.tryAcquire();
+
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('reopens for another cool-down when the trial request fails', () => {
+    coolDown();
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    jest.advanceTimersByTime(COOLDOWN_MS - 1);
+    expect(breaker.tryAcquire()).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
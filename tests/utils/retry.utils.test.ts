@@ -0,0 +1,90 @@
+import { AxiosError } from 'axios';
+import {
+  backoffDelay,
+  isIdempotentMethod,
+  isTransientError,
+  parseRetryAfter,
+  sleep,
+} from '../../src/utils/retry.utils';
+
+const failed = (status?: number, code?: string) =>
+  ({ code, response: status === undefined ? undefined : { status } }) as AxiosError;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(Date.UTC(2026, 2, 2, 9, 0)) });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('parseRetryAfter', () => {
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0')).toBe(0);
+    expect(parseRetryAfter('-5')).toBe(0);
+  });
+
+  it('reads an HTTP date as the time left until then', () => {
+    expect(parseRetryAfter('Mon, 02 Mar 2026 09:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('Mon, 02 Mar 2026 08:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles the ceiling with each retry, up to the maximum', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect([0, 1, 2, 3, 4].map(attempt => backoffDelay(attempt, 250, 1500))).toEqual([250, 500, 1000, 1500, 1500]);
+  });
+
+  it('picks a random delay below the ceiling', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoffDelay(2, 250, 5000)).toBe(500);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(2, 250, 5000)).toBe(0);
+  });
+});
+
+describe('isTransientError', () => {
+  it('retries rate limiting, server errors and dropped connections', () => {
+    expect(isTransientError(failed(429))).toBe(true);
+    expect(isTransientError(failed(503))).toBe(true);
+    expect(isTransientError(failed(undefined, 'ECONNRESET'))).toBe(true);
+    expect(isTransientError(failed(undefined, 'ETIMEDOUT'))).toBe(true);
+  });
+
+  it('does not retry client errors or unknown failures', () => {
+    expect(isTransientError(failed(400))).toBe(false);
+    expect(isTransientError(failed(404))).toBe(false);
+    expect(isTransientError(failed(undefined, 'ERR_BAD_REQUEST'))).toBe(false);
+  });
+});
+
+describe('isIdempotentMethod', () => {
+  it('only repeats methods that give the same result twice', () => {
+    expect(['get', 'PUT', 'delete', undefined].map(isIdempotentMethod)).toEqual([true, true, true, true]);
+    expect(['post', 'PATCH'].map(isIdempotentMethod)).toEqual([false, false]);
+  });
+});
+
+describe('sleep', () => {
+  it('resolves once the delay has passed', async () => {
+    const done = jest.fn();
+    sleep(2000).then(done);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(done).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { ServiceM8Filter } from '../../src/utils/servicem8Filter.utils';
+
+describe('ServiceM8Filter', () => {
+  it('is empty until a condition is added', () => {
+    const filter = new ServiceM8Filter();
+
+    expect(filter.isEmpty()).toBe(true);
+    expect(filter.toString()).toBe('');
+
+    filter.eq('active', 1);
+    expect(filter.isEmpty()).toBe(false);
+  });
+
+  it.each([
+    ['eq', "status eq 'Quote'"],
+    ['ne', "status ne 'Quote'"],
+    ['gt', "status gt 'Quote'"],
+    ['lt', "status lt 'Quote'"],
+  ] as const)('serialises %s', (operator, expected) => {
+    expect(new ServiceM8Filter()[operator]('status', 'Quote').toString()).toBe(expected);
+  });
+
+  it('serialises where() with any operator', () => {
+    expect(new ServiceM8Filter().where('active', 'ne', 0).toString()).toBe('active ne 0');
+  });
+
+  it('joins conditions with and, in the order added', () => {
+    const filter = new ServiceM8Filter()
+      .eq('company_uuid', 'abc-123')
+      .eq('active', 1)
+      .ne('status', 'Cancelled');
+
+    expect(filter.toString()).toBe("company_uuid eq 'abc-123' and active eq 1 and status ne 'Cancelled'");
+  });
+
+  it('leaves numbers unquoted', () => {
+    expect(new ServiceM8Filter().eq('active', 1).gt('total', 99.5).lt('balance', -2).toString()).toBe(
+      'active eq 1 and total gt 99.5 and balance lt -2'
+    );
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => new ServiceM8Filter().eq('active', NaN)).toThrow('Invalid filter value');
+    expect(() => new ServiceM8Filter().eq('active', Infinity)).toThrow('Invalid filter value');
+  });
+
+  it('doubles single quotes in strings', () => {
+    expect(new ServiceM8Filter().eq('name', "O'Brien's Plumbing").toString()).toBe(
+      "name eq 'O''Brien''s Plumbing'"
+    );
+  });
+
+  it('keeps a quoted value from closing the string early', () => {
+    const filter = new ServiceM8Filter().eq('email', "x' or active eq '0");
+
+    expect(filter.toString()).toBe("email eq 'x'' or active eq ''0'");
+  });
+
+  it('quotes an empty string', () => {
+    expect(new ServiceM8Filter().eq('email', '').toString()).toBe("email eq ''");
+  });
+
+  it('passes date strings through quoted', () => {
+    expect(new ServiceM8Filter().gt('edit_date', '2026-03-02 09:30:00').toString()).toBe(
+      "edit_date gt '2026-03-02 09:30:00'"
+    );
+  });
+
+  it('serialises dates the way ServiceM8 stores them, in local time', () => {
+    const filter = new ServiceM8Filter()
+      .lt('start_date', new Date(2026, 2, 9, 17, 5, 9))
+      .gt('end_date', new Date(2026, 2, 2));
+
+    expect(filter.toString()).toBe("start_date lt '2026-03-09 17:05:09' and end_date gt '2026-03-02 00:00:00'");
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => new ServiceM8Filter().gt('edit_date', new Date('not a date'))).toThrow('Invalid filter value');
+  });
+
+  it.each(['', 'status desc', "status' or 1 eq 1", '1status', 'job.status'])(
+    'rejects the field name %p',
+    field => {
+      expect(() => new ServiceM8Filter().eq(field, 'x')).toThrow('Invalid filter field');
+    }
+  );
+});
@@ -0,0 +1,292 @@
+import {
+  SlotPolicy,
+  TimeRange,
+  calculateAvailableSlots,
+  isSlotAvailable,
+  parseBusinessHours,
+  parseServiceDurations,
+} from '../../src/utils/slotCalculator.utils';
+import { formatServiceM8Date } from '../../src/utils/servicem8Date.utils';
+
+// Monday 2 March 2026, local time (jest.config.js fixes the time zone)
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute);
+
+const policy = (overrides: Partial<SlotPolicy> = {}): SlotPolicy => ({
+  businessHours: parseBusinessHours('mon-fri 08:00-12:00'),
+  slotIntervalMinutes: 60,
+  leadTimeMinutes: 0,
+  blackoutDates: [],
+  capacity: 1,
+  ...overrides,
+});
+
+const starts = (slots: TimeRange[]) => slots.map(slot => formatServiceM8Date(slot.start).slice(0, 16));
+
+describe('parseBusinessHours', () => {
+  it('reads a range of days with one window', () => {
+    const hours = parseBusinessHours('mon-fri 08:00-17:00');
+
+    for (const day of [1, 2, 3, 4, 5]) {
+      expect(hours[day]).toEqual([{ start: 480, end: 1020 }]);
+    }
+    expect(hours[0]).toBeUndefined();
+    expect(hours[6]).toBeUndefined();
+  });
+
+  it('reads split windows and several day groups', () => {
+    const hours = parseBusinessHours('mon-fri 08:00-12:00,13:00-17:00; sat 09:00-12:00');
+
+    expect(hours[1]).toEqual([
+      { start: 480, end: 720 },
+      { start: 780, end: 1020 },
+    ]);
+    expect(hours[6]).toEqual([{ start: 540, end: 720 }]);
+  });
+
+  it('wraps day ranges past Saturday', () => {
+    const hours = parseBusinessHours('sat-mon 09:00-12:00');
+
+    expect(Object.keys(hours).map(Number).sort()).toEqual([0, 1, 6]);
+  });
+
+  it('merges windows given for the same day in order', () => {
+    const hours = parseBusinessHours('mon 13:00-17:00; mon 08:00-12:00');
+
+    expect(hours[1]).toEqual([
+      { start: 480, end: 720 },
+      { start: 780, end: 1020 },
+    ]);
+  });
+
+  it('is case-insensitive and allows a window ending at midnight', () => {
+    expect(parseBusinessHours('SUN 18:00-24:00')[0]).toEqual([{ start: 1080, end: 1440 }]);
+  });
+
+  it.each([
+    ['unknown day', 'mon-fry 08:00-17:00'],
+    ['missing window', 'mon'],
+    ['bad time', 'mon 8am-5pm'],
+    ['window ending before it starts', 'mon 17:00-08:00'],
+    ['empty window', 'mon 08:00-08:00'],
+    ['window past midnight', 'mon 20:00-24:30'],
+  ])('rejects %s', (_, spec) => {
+    expect(() => parseBusinessHours(spec)).toThrow('Invalid business hours');
+  });
+});
+
+describe('parseServiceDurations', () => {
+  it('reads durations in order', () => {
+    const durations = parseServiceDurations('standard=120, inspection = 60');
+
+    expect(durations).toEqual({ standard: 120, inspection: 60 });
+    expect(Object.keys(durations)[0]).toBe('standard');
+  });
+
+  it.each([
+    ['missing minutes', 'standard'],
+    ['missing name', '=60'],
+    ['non-numeric minutes', 'standard=two'],
+    ['zero minutes', 'standard=0'],
+    ['fractional minutes', 'standard=1.5'],
+  ])('rejects %s', (_, spec) => {
+    expect(() => parseServiceDurations(spec)).toThrow('Invalid service duration');
+  });
+});
+
+describe('calculateAvailableSlots', () => {
+  it('offers slots on the interval within each opening window', () => {
+    const slots = calculateAvailableSlots(
+      policy({ businessHours: parseBusinessHours('mon 08:00-10:00,13:00-15:00') }),
+      { from: at(2, 0), to: at(3, 0), durationMinutes: 60, now: at(1, 0) },
+      []
+    );
+
+    expect(starts(slots)).toEqual(['2026-03-02 08:00', '2026-03-02 09:00', '2026-03-02 13:00', '2026-03-02 14:00']);
+    expect(slots[0].end).toEqual(at(2, 9));
+  });
+
+  it('keeps a slot within one window rather than across a break', () => {
+    const slots = calculateAvailableSlots(
+      policy({ businessHours: parseBusinessHours('mon 08:00-12:00,13:00-17:00'), slotIntervalMinutes: 30 }),
+      { from: at(2, 0), to: at(3, 0), durationMinutes: 120, now: at(1, 0) },
+      []
+    );
+
+    expect(starts(slots)).not.toContain('2026-03-02 11:00');
+    expect(starts(slots)).toContain('2026-03-02 10:00');
+    expect(starts(slots)).toContain('2026-03-02 15:00');
+  });
+
+  it('offers nothing when the work is longer than every window', () => {
+    const slots = calculateAvailableSlots(
+      policy({ businessHours: parseBusinessHours('mon-fri 08:00-12:00,13:00-17:00') }),
+      { from: at(2, 0), to: at(9, 0), durationMinutes: 300, now: at(1, 0) },
+      []
+    );
+
+    expect(slots).toEqual([]);
+  });
+
+  it('skips closed days, including wrapped weekend ranges', () => {
+    const slots = calculateAvailableSlots(
+      policy({ businessHours: parseBusinessHours('fri-sun 09:00-10:00') }),
+      { from: at(2, 0), to: at(9, 0), durationMinutes: 60, now: at(1, 0) },
+      []
+    );
+
+    // Friday 6, Saturday 7 and Sunday 8 March
+    expect(starts(slots)).toEqual(['2026-03-06 09:00', '2026-03-07 09:00', '2026-03-08 09:00']);
+  });
+
+  it('offers nothing sooner than the lead time after now', () => {
+    const slots = calculateAvailableSlots(
+      policy({ leadTimeMinutes: 24 * 60 }),
+      { from: at(2, 0), to: at(4, 0), durationMinutes: 60, now: at(2, 9, 30) },
+      []
+    );
+
+    expect(starts(slots)).toEqual(['2026-03-03 10:00', '2026-03-03 11:00']);
+  });
+
+  it('offers nothing in the past even without a lead time', () => {
+    const slots = calculateAvailableSlots(
+      policy(),
+      { from: at(2, 0), to: at(3, 0), durationMinutes: 60, now: at(2, 10) },
+      []
+    );
+
+    expect(starts(slots)).toEqual(['2026-03-02 10:00', '2026-03-02 11:00']);
+  });
+
+  it('skips blackout dates', () => {
+    const slots = calculateAvailableSlots(
+      policy({ blackoutDates: ['2026-03-03'] }),
+      { from: at(2, 0), to: at(5, 0), durationMinutes: 240, now: at(1, 0) },
+      []
+    );
+
+    expect(starts(slots)).toEqual(['2026-03-02 08:00', '2026-03-04 08:00']);
+  });
+
+  it('skips slots overlapping a booking when capacity is one', () => {
+    const slots = calculateAvailableSlots(
+      policy(),
+      { from: at(2, 0), to: at(3, 0), durationMinutes: 60, now: at(1, 0) },
+      [{ start: at(2, 9, 30), end: at(2, 10, 30) }]
+    );
+
+    expect(starts(slots)).toEqual(['2026-03-02 08:00', '2026-03-02 11:00']);
+  });
+
+  it('treats bookings as ending before the next slot starts', () => {
+    const slots = calculateAvailableSlots(
+      policy(),
+      { from: at(2, 0), to: at(3, 0), durationMinutes: 60, now: at(1, 0) },
+      [{ start: at(2, 9), end: at(2, 10) }]
+    );
+
+    expect(starts(slots)).toEqual(['2026-03-02 08:00', '2026-03-02 10:00', '2026-03-02 11:00']);
+  });
+
+  it('allows overlapping bookings up to capacity', () => {
+    const bookings = [
+      { start: at(2, 8), end: at(2, 10) },
+      { start: at(2, 9), end: at(2, 11) },
+    ];
+    const query = { from: at(2, 0), to: at(3, 0), durationMinutes: 60, now: at(1, 0) };
+
+    expect(starts(calculateAvailableSlots(policy({ capacity: 2 }), query, bookings))).toEqual([
+      '2026-03-02 08:00',
+      '2026-03-02 10:00',
+      '2026-03-02 11:00',
+    ]);
+    expect(starts(calculateAvailableSlots(policy({ capacity: 3 }), query, bookings))).toHaveLength(4);
+  });
+
+  it('offers nothing for a non-positive duration, interval or capacity', () => {
+    const query = { from: at(2, 0), to: at(3, 0), durationMinutes: 60, now: at(1, 0) };
+
+    expect(calculateAvailableSlots(policy(), { ...query, durationMinutes: 0 }, [])).toEqual([]);
+    expect(calculateAvailableSlots(policy({ slotIntervalMinutes: 0 }), query, [])).toEqual([]);
+    expect(calculateAvailableSlots(policy({ capacity: 0 }), query, [])).toEqual([]);
+  });
+
+  it('keeps wall-clock times on the day clocks go forward', () => {
+    // Daylight saving starts at 02:00 on Sunday 4 October 2026 in Sydney
+    const slots = calculateAvailableSlots(
+      policy({ businessHours: parseBusinessHours('sun 00:00-05:00; sun 08:00-10:00') }),
+      {
+        from: new Date(2026, 9, 4),
+        to: new Date(2026, 9, 5),
+        durationMinutes: 60,
+        now: new Date(2026, 9, 1),
+      },
+      []
+    );
+
+    // 02:00 doesn't exist that day, and 03:00 is only offered once
+    expect(starts(slots)).toEqual([
+      '2026-10-04 00:00',
+      '2026-10-04 01:00',
+      '2026-10-04 03:00',
+      '2026-10-04 04:00',
+      '2026-10-04 08:00',
+      '2026-10-04 09:00',
+    ]);
+    // 01:00 plus an hour is 03:00 on the clock
+    expect(formatServiceM8Date(slots[1].end)).toBe('2026-10-04 03:00:00');
+  });
+
+  it('moves from day to day across the change', () => {
+    const slots = calculateAvailableSlots(
+      policy({ businessHours: parseBusinessHours('sat-mon 09:00-10:00') }),
+      {
+        from: new Date(2026, 9, 3),
+        to: new Date(2026, 9, 6),
+        durationMinutes: 60,
+        now: new Date(2026, 9, 1),
+      },
+      []
+    );
+
+    expect(starts(slots)).toEqual(['2026-10-03 09:00', '2026-10-04 09:00', '2026-10-05 09:00']);
+    expect(slots[1].start.getTime() - slots[0].start.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+});
+
+describe('isSlotAvailable', () => {
+  it('accepts an offered slot', () => {
+    expect(isSlotAvailable(policy(), { start: at(2, 9), end: at(2, 10) }, [], at(1, 0))).toBe(true);
+  });
+
+  it('rejects a slot that is off the interval', () => {
+    expect(isSlotAvailable(policy(), { start: at(2, 9, 15), end: at(2, 10, 15) }, [], at(1, 0))).toBe(false);
+  });
+
+  it('rejects a slot outside business hours', () => {
+    expect(isSlotAvailable(policy(), { start: at(2, 11), end: at(2, 13) }, [], at(1, 0))).toBe(false);
+    expect(isSlotAvailable(policy(), { start: at(7, 9), end: at(7, 10) }, [], at(1, 0))).toBe(false);
+  });
+
+  it('rejects a slot inside the lead time', () => {
+    const rules = policy({ leadTimeMinutes: 24 * 60 });
+
+    expect(isSlotAvailable(rules, { start: at(2, 11), end: at(2, 12) }, [], at(2, 8))).toBe(false);
+    expect(isSlotAvailable(rules, { start: at(3, 11), end: at(3, 12) }, [], at(2, 8))).toBe(true);
+  });
+
+  it('rejects a slot on a blackout date', () => {
+    const rules = policy({ blackoutDates: ['2026-03-02'] });
+
+    expect(isSlotAvailable(rules, { start: at(2, 9), end: at(2, 10) }, [], at(1, 0))).toBe(false);
+  });
+
+  it('rejects a slot that is already booked', () => {
+    const bookings = [{ start: at(2, 9), end: at(2, 10) }];
+
+    expect(isSlotAvailable(policy(), { start: at(2, 9), end: at(2, 10) }, bookings, at(1, 0))).toBe(false);
+    expect(isSlotAvailable(policy({ capacity: 2 }), { start: at(2, 9), end: at(2, 10) }, bookings, at(1, 0))).toBe(
+      true
+    );
+  });
+});
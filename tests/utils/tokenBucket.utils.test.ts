@@ -0,0 +1,83 @@
+import { TokenBucket } from '../../src/utils/tokenBucket.utils';
+
+let bucket: TokenBucket;
+
+/**
+ * Start a take() and report when (in fake time) it resolved
+ */
+const track = (start = Date.now()) => {
+  const result: { granted?: boolean; afterMs?: number } = {};
+  bucket.take().then(granted => Object.assign(result, { granted, afterMs: Date.now() - start }));
+  return result;
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2026, 2, 2, 9, 0) });
+  // One token every 100ms, bursts of 3
+  bucket = new TokenBucket({ capacity: 3, refillPerSecond: 10, maxWaitMs: 1000 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('TokenBucket', () => {
+  it('lets a burst up to the capacity through straight away', async () => {
+    const calls = [track(), track(), track()];
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(calls).toEqual(Array(3).fill({ granted: true, afterMs: 0 }));
+  });
+
+  it('makes later callers wait for the refill, in the order they arrived', async () => {
+    const start = Date.now();
+    await Promise.all([bucket.take(), bucket.take(), bucket.take()]);
+
+    const fourth = track(start);
+    const fifth = track(start);
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(fourth.granted).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fourth).toEqual({ granted: true, afterMs: 100 });
+    expect(fifth.granted).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fifth).toEqual({ granted: true, afterMs: 200 });
+  });
+
+  it('refuses rather than wait longer than maxWaitMs, without taking a token', async () => {
+    const start = Date.now();
+    bucket.pause(950);
+
+    expect(await bucket.take()).toBe(false);
+
+    // Had the refused call taken a token, this one would be refused too
+    await jest.advanceTimersByTimeAsync(50);
+    const next = track(start);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(next).toEqual({ granted: true, afterMs: 1050 });
+  });
+
+  it('holds every call back while paused', async () => {
+    bucket.pause(500);
+
+    const call = track();
+    await jest.advanceTimersByTimeAsync(599);
+    expect(call.granted).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(call).toEqual({ granted: true, afterMs: 600 });
+  });
+
+  it('never saves up more than the capacity', async () => {
+    await jest.advanceTimersByTimeAsync(60000);
+
+    const calls = [track(), track(), track(), track()];
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(calls.map(call => call.granted)).toEqual([true, true, true, undefined]);
+  });
+});
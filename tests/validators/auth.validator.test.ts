@@ -0,0 +1,17 @@
+import { registerSchema, resetPasswordSchema } from '../../src/validators/auth.validator';
+
+const register = (password: string) =>
+  registerSchema.safeParse({ body: { email: 'jane@example.com', password } }).success;
+
+const reset = (password: string) => resetPasswordSchema.safeParse({ body: { token: 'token', password } }).success;
+
+describe('password policy', () => {
+  it.each([
+    ['registration', register],
+    ['password reset', reset],
+  ])('is the same for %s', (_, accepts) => {
+    expect(accepts('')).toBe(false);
+    expect(accepts('1234567')).toBe(false);
+    expect(accepts('12345678')).toBe(true);
+  });
+});
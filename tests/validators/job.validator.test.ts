@@ -0,0 +1,19 @@
+import { requestRescheduleSchema } from '../../src/validators/job.validator';
+
+const parseStart = (start: string) =>
+  requestRescheduleSchema.safeParse({ params: { id: 'job-1' }, body: { start } }).success;
+
+describe('requestRescheduleSchema', () => {
+  it.each(['2026-03-02 09:30', '2026-03-02 09:30:00'])('accepts %s', start => {
+    expect(parseStart(start)).toBe(true);
+  });
+
+  it.each([
+    ['a date without a time', '2026-03-02'],
+    ['seconds within a minute', '2026-03-02 09:30:15'],
+    ['an ISO timestamp', '2026-03-02T09:30:00Z'],
+    ['a missing leading zero', '2026-03-02 9:30'],
+  ])('rejects %s', (_, start) => {
+    expect(parseStart(start)).toBe(false);
+  });
+});